@@ -6,12 +6,15 @@ if (process.env.NODE_ENV !== "production") {
   dotenv.config();
 }
 
+// Fournisseur LLM : la clé OpenAI n'est requise qu'avec le fournisseur OpenAI
+const llmProvider = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
 // Vérification des variables critiques au démarrage
 const requiredEnvVars = {
   SUPABASE_URL: process.env.SUPABASE_URL,
   SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
   JWT_SECRET: process.env.JWT_SECRET,
-  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  ...(llmProvider === 'openai' ? { OPENAI_API_KEY: process.env.OPENAI_API_KEY } : {}),
 } as const;
 
 // Vérifier que toutes les variables obligatoires sont présentes
@@ -38,6 +41,7 @@ export const config = {
   
   // OpenAI
   openaiKey: process.env.OPENAI_API_KEY!,
+  llmProvider,
   
   // Email (optionnel)
   resendKey: process.env.RESEND_API_KEY,
@@ -68,6 +72,7 @@ console.log(`📊 Environnement: ${config.nodeEnv}`);
 console.log(`🌐 Port: ${config.port}`);
 console.log(`🔐 Supabase: ${config.supabaseUrl ? '✅' : '❌'}`);
 console.log(`🤖 OpenAI: ${config.openaiKey ? '✅' : '❌'}`);
+console.log(`🧠 LLM provider: ${config.llmProvider}`);
 console.log(`📧 Resend: ${config.resendKey ? '✅' : '❌'}`);
 console.log(`🤖 Assistants: ${Object.values(config.assistants).every(Boolean) ? '✅ (4)' : '❌'}`);
 
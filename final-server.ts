@@ -11,11 +11,14 @@ import { config } from './config-simple';
 
 // Import des middleware
 import { corsConfig } from './middlewares/cors';
+import { assertAdminRoutesProtected } from './middlewares/authguard';
+import { startScheduler } from './utils/scheduler';
 
 // Import des routes modulaires
 import authRoutes from './routes/auth';
 import assistantRoutes from './routes/assistant';
 import systemRoutes from './routes/system';
+import companyRoutes from './routes/company';
 
 // Routes utilisateur (préférences complètes)
 import userPreferencesRoutes from './routes/user/preferences';
@@ -51,7 +54,10 @@ app.use('/user', userRoutes);
 // ✅ 4. Routes assistants IA
 app.use('/assistant', assistantRoutes);
 
-// ✅ 5. Routes système et monitoring
+// ✅ 5. Espace administrateur d'entreprise (/company, /company/users, /company/usage)
+app.use('/company', companyRoutes);
+
+// ✅ 6. Routes système et monitoring
 app.use('/api', systemRoutes);
 
 // ===============================================
@@ -95,10 +101,32 @@ app.use('*', (req, res) => {
       'POST /auth/login - Login',
       'GET /auth/me - User profile (AUTH ROUTE)',
       'GET /auth/verify - Token verification',
+      'POST /auth/2fa/verify - Complete login with a 2FA code',
+      'GET /auth/2fa - 2FA status',
+      'POST /auth/2fa/setup - Start 2FA enrollment (otpauth URI)',
+      'POST /auth/2fa/enable - Confirm 2FA enrollment',
+      'POST /auth/forgot-password - Request a password reset email',
+      'POST /auth/reset-password - Set a new password with a reset token',
+      'POST /auth/invitations/verify - Show an invitation before activation',
+      'POST /auth/invitations/accept - Set a password, accept terms and activate an invited account',
+      'GET /auth/sso/discover?email= - Is SSO enabled for this email domain',
+      'GET /auth/sso/:companyId/login - Start company SSO login (OIDC)',
+      'POST /auth/sso/exchange - Exchange the SSO login code for tokens',
+      'GET /auth/sessions - Active sessions',
+      'DELETE /auth/sessions - Log out everywhere',
+      'DELETE /auth/sessions/:id - Revoke a session',
       'GET /user/preferences - User preferences',
       'PUT /user/update-profile - Update profile',
       'PUT /user/change-password - Change password',
-      'POST /assistant/ask - Ask assistant',
+      'POST /assistant/ask - Ask assistant (JWT or X-API-Key)',
+      'POST /assistant/ask/stream - Ask assistant (SSE)',
+      'POST /assistant/runs/:runId/cancel - Stop a running answer',
+      'POST /assistant/feedback - Rate an assistant answer',
+      'POST /assistant/files - Upload a document (PDF, CSV, text)',
+      'GET /company - Company admin: company, stats and licenses',
+      'GET /company/users - Company admin: users and bot access',
+      'PATCH /company/users/:userId - Company admin: update a user (role user|company_admin)',
+      'GET /company/usage - Company admin: usage by user and bot',
       'GET /api/health - Health check'
     ],
     requested_path: req.originalUrl,
@@ -119,6 +147,9 @@ app.use((error: any, req: any, res: any, next: any) => {
   });
 });
 
+// 🛡️ Refus de démarrer si une route /admin n'exige pas la permission admin
+assertAdminRoutesProtected(app);
+
 // ===============================================
 // DÉMARRAGE SERVEUR
 // ===============================================
@@ -155,6 +186,9 @@ app.listen(PORT, () => {
   } else {
     console.warn('⚠️ Some services may not be configured properly');
   }
+
+  // ⏰ Tâches planifiées (reset des quotas à la date anniversaire de chaque licence)
+  startScheduler();
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * 🔑 MIDDLEWARES CLÉS API
+ * Alternative au JWT sur les routes assistant : X-API-Key (ou Authorization: Bearer nao_...)
+ * À placer AVANT requireAuth(), qui ne réauthentifie pas une requête dont req.user est déjà défini
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+import { getCompanyLicenses } from '../services/licenseService';
+import {
+  authenticateApiKey,
+  isBotAllowed,
+  looksLikeApiKey,
+  type ApiKey,
+  type ApiKeyFailure
+} from '../services/apiKeyService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+const API_KEY_ERRORS: Record<ApiKeyFailure, { status: number; error: string }> = {
+  API_KEY_INVALID: { status: 401, error: 'Clé API invalide ou révoquée.' },
+  API_KEY_EXPIRED: { status: 401, error: 'Clé API expirée.' },
+  API_KEY_IP_FORBIDDEN: { status: 403, error: 'Adresse IP non autorisée pour cette clé API.' }
+};
+
+function extractApiKey(req: Request): string | null {
+  const header = req.get('X-API-Key');
+  if (header) {
+    return header.trim();
+  }
+  const bearer = req.headers.authorization?.startsWith('Bearer ') ? req.headers.authorization.slice('Bearer '.length).trim() : '';
+  return looksLikeApiKey(bearer) ? bearer : null;
+}
+
+/**
+ * Authentifie la requête par clé API si elle en présente une (sinon : JWT via requireAuth)
+ */
+export async function apiKeyAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const rawKey = extractApiKey(req);
+  if (!rawKey) {
+    return next();
+  }
+
+  try {
+    const result = await authenticateApiKey(rawKey, req.ip || 'unknown');
+
+    if (typeof result === 'string') {
+      logger.warn('🚫 Clé API refusée', { code: result, ip: req.ip, path: req.originalUrl });
+      const { status, error } = API_KEY_ERRORS[result];
+      res.status(status).json({ error, code: result });
+      return;
+    }
+
+    req.apiKey = result.apiKey;
+    req.user = result.user;
+    next();
+
+  } catch (err) {
+    logger.error('❌ Erreur authentification clé API', { error: (err as Error).message, path: req.originalUrl });
+    res.status(500).json({ error: 'Erreur serveur lors de l\'authentification.', code: 'AUTH_ERROR' });
+  }
+}
+
+/**
+ * Requêtes par clé API : bot autorisé pour la clé et licence entreprise valide (après validation du body)
+ */
+export async function apiKeyBotScopeGuard(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.apiKey) {
+    return next();
+  }
+
+  try {
+    const { chatbot_id } = req.body;
+
+    if (!(await isBotAllowed(req.apiKey, chatbot_id))) {
+      logger.warn('🚫 Bot hors périmètre de la clé API', { apiKeyId: req.apiKey.id, botId: chatbot_id });
+      res.status(403).json({
+        error: `Cette clé API n'autorise pas le bot ${chatbot_id}.`,
+        code: 'API_KEY_BOT_FORBIDDEN'
+      });
+      return;
+    }
+
+    const licenses = await getCompanyLicenses(req.apiKey.company_id);
+    if (!licenses.some(license => license.bot_name === chatbot_id && license.is_valid)) {
+      res.status(403).json({
+        error: 'Licence entreprise requise',
+        message: `Votre entreprise n'a pas de licence active pour le bot ${chatbot_id}.`,
+        code: 'NO_COMPANY_LICENSE'
+      });
+      return;
+    }
+
+    next();
+
+  } catch (err) {
+    logger.error('❌ Erreur contrôle périmètre clé API', { error: (err as Error).message, apiKeyId: req.apiKey.id });
+    res.status(500).json({ error: 'Erreur serveur', code: 'SERVER_ERROR' });
+  }
+}
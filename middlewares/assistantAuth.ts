@@ -1,20 +1,20 @@
 /**
- * 🔐 MIDDLEWARE D'AUTHENTIFICATION ASSISTANT - VERSION CORRIGÉE
+ * 🔐 MIDDLEWARES ASSISTANT - LICENCES ENTREPRISE ET USAGE
  */
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken'; // ✅ AJOUT IMPORT JWT
 const { supabase } = require('../utils/supabase');
 import logger from '../utils/logger';
-import config from '../utils/config'; // ✅ AJOUT IMPORT CONFIG
-import { getCompanyLicenses } from '../services/licenseService';
+import { getCompanyLicenses, getEffectiveMaxRequests } from '../services/licenseService';
+import { requireAuth } from './authguard';
 
 // 🎯 TYPES POUR L'AUTH
 export interface AuthenticatedUser {
   id: string;
   email: string;
   role: string;
-  sub?: string;
+  company_id?: string | null;
+  sessionId?: string; // famille de refresh tokens à l'origine de l'access token
   license?: UserLicense;
 }
 
@@ -38,83 +38,14 @@ declare global {
   }
 }
 
-// 🔧 UTILITAIRES D'AUTH
-
-/**
- * ✅ CORRECTION - Décode et valide un token JWT SÉCURISÉ
- */
-function decodeJWTToken(token: string): AuthenticatedUser | null {
-  try {
-    // ✅ VÉRIFICATION SÉCURISÉE avec la clé secrète
-    const payload = jwt.verify(token, config.jwt.secret) as any;
-    
-    if (!payload.id || !payload.email || !payload.role) {
-      logger.warn('❌ Token JWT invalide - Payload incomplet', payload);
-      return null;
-    }
-
-    logger.debug('✅ JWT décodé avec succès', { 
-      userId: payload.id, 
-      email: payload.email, 
-      role: payload.role 
-    });
-
-    return {
-      id: payload.id,
-      email: payload.email,
-      role: payload.role
-    };
-  } catch (err) {
-    logger.error('❌ Erreur décodage JWT sécurisé', { 
-      error: (err as Error).message 
-    });
-    return null;
-  }
-}
-
-// 🛡️ MIDDLEWARES D'AUTHENTIFICATION
-
-/**
- * Middleware d'authentification JWT basique - VERSION CORRIGÉE
- */
-export function jwtAuthGuard(req: Request, res: Response, next: NextFunction): void {
-  const token = req.headers.authorization?.replace('Bearer ', '');
-  
-  if (!token) {
-    logger.warn('❌ Token manquant', { 
-      ip: req.ip, 
-      userAgent: req.get('User-Agent'),
-      path: req.path 
-    });
-    res.status(401).json({ error: 'Token manquant' });
-    return;
-  }
-  
-  const user = decodeJWTToken(token);
-  if (!user) {
-    logger.warn('❌ Token invalide ou expiré', { 
-      ip: req.ip,
-      path: req.path 
-    });
-    res.status(401).json({ error: 'Token invalide ou expiré' });
-    return;
-  }
-  
-  req.user = user;
-  logger.debug('✅ Auth JWT sécurisé OK', { 
-    userId: user.id, 
-    email: user.email, 
-    role: user.role 
-  });
-  next();
-}
+// 🛡️ MIDDLEWARES D'AUTORISATION (authentification : requireAuth dans authguard.ts)
 
 /**
  * Middleware de vérification des licences entreprise
  */
 export async function enterpriseLicenseGuard(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const user = req.user!; // Garanti par jwtAuthGuard
+    const user = req.user!; // Garanti par requireAuth
     const { chatbot_id } = req.body;
     
     logger.debug(`🎫 Vérification licence entreprise`, { 
@@ -229,7 +160,7 @@ export async function enterpriseLicenseGuard(req: Request, res: Response, next:
       id: activeLicense?.id || 'company-license',
       license_id: activeLicense?.id || 'company-license',
       requests_used: 0,
-      max_requests: activeLicense?.max_requests_per_month || 1000
+      max_requests: activeLicense ? getEffectiveMaxRequests(activeLicense) || 1000 : 1000
     };
 
     logger.info(`✅ Licence entreprise validée`, { 
@@ -280,7 +211,7 @@ export function usageLoggingMiddleware(req: Request, res: Response, next: NextFu
 
 // Reste du fichier inchangé...
 export function fullAssistantAuth(req: Request, res: Response, next: NextFunction): void {
-  jwtAuthGuard(req, res, (err1) => {
+  requireAuth()(req, res, (err1) => {
     if (err1) return;
     
     enterpriseLicenseGuard(req, res, (err2) => {
@@ -1,22 +1,22 @@
 // auth-backend/middlewares/authguard.ts
-// 🔥 VERSION CORRIGÉE - Rôle depuis DB
-import { NextFunction, Request, Response } from 'express';
+// 🛡️ Pipeline d'authentification unique : JWT → révocation → utilisateur (rôle depuis la DB) → permissions déclarées
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import logger from '../utils/logger';
 import config from '../utils/config';
+import { isAccessTokenRevoked } from '../services/tokenRevocationService';
 
-// ✅ AJOUT IMPORT SUPABASE
 const { supabase } = require('../utils/supabase');
 
-// Importer l'interface depuis assistantAuth pour éviter les conflits
+// Interface utilisateur partagée avec assistantAuth
 import { AuthenticatedUser } from './assistantAuth';
 
-// Interface personnalisée pour le payload du JWT
+// Interface personnalisée pour le payload du JWT (anciens tokens : identifiant dans sub)
 interface JwtUserPayload extends JwtPayload {
   id?: string;
   email?: string;
   role?: string;
-  sub?: string;
+  sid?: string;
 }
 
 // Typage personnalisé pour inclure user dans Request
@@ -24,167 +24,275 @@ export interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser;
 }
 
+// 🎯 PERMISSIONS
+
+// company_admin : gestion limitée à sa propre entreprise (voir getCompanyScope)
+export type Permission = 'user' | 'company_admin' | 'admin';
+
+export const ROLES = ['user', 'company_admin', 'admin'] as const;
+
+// Permissions accordées par rôle (rôle inconnu : aucune)
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  admin: ['user', 'company_admin', 'admin'],
+  company_admin: ['user', 'company_admin'],
+  user: ['user']
+};
+
+// Permissions acceptées sur une route montée sous /admin (vérifié au démarrage)
+const ADMIN_PERMISSIONS: Permission[] = ['admin', 'company_admin'];
+
+export function hasPermission(user: AuthenticatedUser | undefined, permission: Permission): boolean {
+  if (!user) {
+    return false;
+  }
+  // Administrateur d'entreprise sans entreprise : rien à administrer
+  if (user.role === 'company_admin' && !user.company_id) {
+    return permission === 'user';
+  }
+  return (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+}
+
 /**
- * Middleware de contrôle d'accès basé sur les rôles
- * @param requiredRoles Tableau des rôles autorisés pour accéder à la route
+ * Entreprise à laquelle l'utilisateur est restreint : null pour un admin NAO&CO (toutes)
  */
-export const authGuard = (requiredRoles: string[] = ['user', 'admin']) => {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    try {
-      // 🔥 DEBUG SUPER DÉTAILLÉ
-      console.log('🔍 AuthGuard - Début vérification');
-      console.log('   Headers complets:', JSON.stringify(req.headers, null, 2));
-      console.log('   Auth header RAW:', req.headers.authorization);
-      console.log('   Auth header LENGTH:', req.headers.authorization?.length);
-      console.log('   Required roles:', requiredRoles);
-      console.log('   JWT Secret défini:', !!config.jwt.secret);
-      
-      // Récupération du token depuis les headers
-      const authHeader = req.headers.authorization;
-      
-      if (!authHeader) {
-        console.log('❌ Aucun header authorization');
-        logger.warn('🚫 Aucun header d\'autorisation fourni', { 
-          ip: req.ip, 
-          path: req.path 
-        });
-        return res.status(401).json({ 
-          error: 'Accès non autorisé', 
-          message: 'Authentication requise.'
-        });
-      }
+export function getCompanyScope(user: AuthenticatedUser): string | null {
+  return hasPermission(user, 'admin') ? null : user.company_id || null;
+}
 
-      // 🔥 DEBUG SPLIT
-      console.log('🔍 AVANT SPLIT - authHeader:', authHeader);
-      const parts = authHeader.split(' ');
-      console.log('🔍 APRÈS SPLIT - parts:', parts);
-      console.log('🔍 parts.length:', parts.length);
-      console.log('🔍 parts[0]:', parts[0]);
-      console.log('🔍 parts[1] (premières 20 chars):', parts[1]?.substring(0, 20));
-      
-      // Vérification du format du token
-      if (parts.length !== 2 || parts[0] !== 'Bearer') {
-        console.log('❌ Format token invalide:', authHeader);
-        logger.warn('🚫 Format de token invalide', { 
-          ip: req.ip, 
-          path: req.path 
-        });
-        return res.status(401).json({ 
-          error: 'Format de token invalide', 
-          message: 'Le token doit être au format "Bearer [token]".'
-        });
-      }
+export function canAccessCompany(user: AuthenticatedUser, companyId: string): boolean {
+  return hasPermission(user, 'admin') || (!!user.company_id && user.company_id === companyId);
+}
 
-      const token = parts[1];
-      console.log('✅ Token extrait, longueur:', token.length);
-      console.log('✅ Token premières chars:', token.substring(0, 50));
-
-      // Vérification et décodage du token
-      try {
-        console.log('🔑 Tentative décodage JWT...');
-        const decoded = jwt.verify(token, config.jwt.secret) as JwtUserPayload;
-        console.log('✅ JWT décodé avec succès:', { 
-          id: decoded.id, 
-          email: decoded.email, 
-          role: decoded.role 
-        });
+// ❌ RÉPONSES D'ERREUR
 
-// 🔄 Recharge dynamique du rôle depuis Supabase
-const { data: userData, error } = await supabase
-  .from('users')
-  .select('id, email, role, company_id')
-  .eq('id', decoded.id)
-  .single();
+export type AuthErrorCode = 'AUTH_REQUIRED' | 'TOKEN_EXPIRED' | 'TOKEN_INVALID' | 'SESSION_REVOKED' | 'USER_NOT_FOUND' | 'FORBIDDEN' | 'COMPANY_FORBIDDEN';
 
-if (error || !userData) {
-  return res.status(403).json({ error: 'Utilisateur introuvable ou rôle inaccessible' });
+// Corps identique sur toutes les routes protégées : { error, code } (+ required pour 403)
+const AUTH_ERRORS: Record<AuthErrorCode, { status: number; error: string }> = {
+  AUTH_REQUIRED: { status: 401, error: 'Authentification requise.' },
+  TOKEN_EXPIRED: { status: 401, error: 'Session expirée, veuillez vous reconnecter.' },
+  TOKEN_INVALID: { status: 401, error: 'Token invalide.' },
+  SESSION_REVOKED: { status: 401, error: 'Session révoquée.' },
+  USER_NOT_FOUND: { status: 401, error: 'Utilisateur introuvable.' },
+  FORBIDDEN: { status: 403, error: 'Accès refusé : permissions insuffisantes.' },
+  COMPANY_FORBIDDEN: { status: 403, error: 'Accès refusé : ressource hors du périmètre de votre entreprise.' }
+};
+
+export function sendAuthError(res: Response, code: AuthErrorCode, extra: Record<string, unknown> = {}) {
+  const { status, error } = AUTH_ERRORS[code];
+  return res.status(status).json({ error, code, ...extra });
 }
 
-req.user = {
-  id: userData.id,
-  email: userData.email,
-  role: userData.role,
-  company_id: userData.company_id
-};      
-    console.log('✅ Utilisateur attaché à req.user avec rôle DB:', userData.role);
-logger.info("🔓 Utilisateur authentifié", { 
-  userId: userData.id, 
-  role: userData.role,
-  path: req.path
-});
-
-next();
-
-      } catch (err) {
-        console.log('❌ Erreur JWT:', (err as Error).name, (err as Error).message);
-        
-        if ((err as Error).name === 'TokenExpiredError') {
-          logger.warn('🚫 Token expiré', { path: req.path });
-          return res.status(401).json({ 
-            error: 'Token expiré', 
-            message: 'Veuillez vous reconnecter.'
-          });
+// 🔑 AUTHENTIFICATION
+
+/**
+ * Vérifie le Bearer token et attache req.user ; renvoie le code d'erreur en cas d'échec
+ */
+async function authenticateRequest(req: AuthenticatedRequest): Promise<AuthErrorCode | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return 'AUTH_REQUIRED';
+  }
+
+  let decoded: JwtUserPayload;
+  try {
+    decoded = jwt.verify(authHeader.slice('Bearer '.length).trim(), config.jwt.secret) as JwtUserPayload;
+  } catch (err) {
+    return (err as Error).name === 'TokenExpiredError' ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID';
+  }
+
+  const userId = decoded.id || decoded.sub;
+  if (!userId) {
+    return 'TOKEN_INVALID';
+  }
+
+  if (await isAccessTokenRevoked({ id: userId, sid: decoded.sid, iat: decoded.iat })) {
+    return 'SESSION_REVOKED';
+  }
+
+  // 🔄 Rôle et entreprise rechargés depuis Supabase (jamais ceux du token)
+  const { data: userData, error } = await supabase
+    .from('users')
+    .select('id, email, role, company_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture utilisateur impossible: ${error.message}`);
+  }
+  if (!userData) {
+    return 'USER_NOT_FOUND';
+  }
+
+  req.user = {
+    id: userData.id,
+    email: userData.email,
+    role: userData.role,
+    company_id: userData.company_id,
+    sessionId: decoded.sid
+  };
+  return null;
+}
+
+// Permissions déclarées par chaque middleware créé par requireAuth (lues par la vérification au démarrage)
+const declaredPermissions = new WeakMap<Function, Permission[]>();
+
+/**
+ * Middleware d'authentification composable : requireAuth() pour tout utilisateur connecté,
+ * requireAuth('admin') pour les routes d'administration. Plusieurs permissions = l'une d'elles suffit.
+ * Déjà authentifié par un guard précédent (ex. router.use) : seule la permission est contrôlée.
+ */
+export function requireAuth(...permissions: Permission[]): RequestHandler {
+  const guard = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        const failure = await authenticateRequest(req);
+        if (failure) {
+          logger.warn('🚫 Authentification refusée', { code: failure, ip: req.ip, path: req.originalUrl });
+          return sendAuthError(res, failure);
         }
-        
-        logger.warn('🚫 Token invalide', { 
-          error: (err as Error).message,
-          path: req.path
-        });
-        return res.status(401).json({ 
-          error: 'Token invalide', 
-          message: 'Authentication invalide.'
+      }
+
+      if (permissions.length > 0 && !permissions.some(permission => hasPermission(req.user, permission))) {
+        logger.warn('🚫 Permission insuffisante', {
+          userId: req.user!.id,
+          role: req.user!.role,
+          required: permissions,
+          path: req.originalUrl
         });
+        return sendAuthError(res, 'FORBIDDEN', { required: permissions });
       }
+
+      next();
     } catch (err) {
-      console.log('❌ Exception AuthGuard:', (err as Error).message);
-      logger.error('❌ Erreur dans le middleware authGuard', { 
+      logger.error('❌ Erreur dans le pipeline d\'authentification', {
         error: (err as Error).message,
-        stack: (err as Error).stack
-      });
-      return res.status(500).json({ 
-        error: 'Erreur serveur', 
-        message: 'Une erreur est survenue lors de l\'authentification.'
+        path: req.originalUrl
       });
+      return res.status(500).json({ error: 'Erreur serveur lors de l\'authentification.', code: 'AUTH_ERROR' });
     }
   };
-};
 
-export const legacyAuthGuard = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Token manquant' });
+  declaredPermissions.set(guard, permissions);
+  return guard as RequestHandler;
+}
+
+// 🏢 PÉRIMÈTRE ENTREPRISE (après requireAuth)
+
+/**
+ * L'entreprise ciblée par req.params[param] doit être celle de l'utilisateur (sauf admin NAO&CO)
+ */
+export function requireCompanyAccess(param = 'companyId'): RequestHandler {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!canAccessCompany(req.user!, req.params[param])) {
+      logger.warn('🚫 Entreprise hors périmètre', { userId: req.user!.id, companyId: req.params[param], path: req.originalUrl });
+      return sendAuthError(res, 'COMPANY_FORBIDDEN');
     }
+    next();
+  };
+}
 
-    const token = authHeader.split(' ')[1];
-    const decoded = jwt.verify(token, config.jwt.secret) as JwtUserPayload;
+/**
+ * L'utilisateur ciblé par req.params[param] doit appartenir à l'entreprise de l'administrateur
+ * d'entreprise, et ne pas être un admin NAO&CO. Utilisateur chargé dans res.locals.targetUser.
+ */
+export function requireUserAccess(param = 'userId'): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { data: target, error } = await supabase
+        .from('users')
+        .select('id, email, role, company_id')
+        .eq('id', req.params[param])
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      if (hasPermission(req.user, 'admin')) {
+        res.locals.targetUser = target;
+        return next(); // introuvable : 404 géré par la route
+      }
 
-    const { data: userData, error } = await supabase
-      .from('users')
-      .select('id, email, role, company_id')
-      .eq('id', decoded.id || decoded.sub)
-      .single();
+      // Inexistant ou hors périmètre (admin NAO&CO, utilisateur technique d'une clé API) : même réponse,
+      // sans révéler l'existence du compte
+      if (!target || target.company_id !== req.user!.company_id || target.role === 'admin' || target.role === 'service') {
+        logger.warn('🚫 Utilisateur hors périmètre', { userId: req.user!.id, targetUserId: req.params[param], path: req.originalUrl });
+        return sendAuthError(res, 'COMPANY_FORBIDDEN');
+      }
 
-    if (error || !userData) {
-      return res.status(403).json({ error: 'Utilisateur introuvable (legacy)' });
+      res.locals.targetUser = target;
+      next();
+    } catch (err) {
+      logger.error('❌ Erreur contrôle périmètre utilisateur', { error: (err as Error).message, path: req.originalUrl });
+      return res.status(500).json({ error: 'Erreur serveur lors de l\'authentification.', code: 'AUTH_ERROR' });
     }
+  };
+}
 
-    req.user = {
-      id: userData.id,
-      email: userData.email,
-      role: userData.role,
-      company_id: userData.company_id
-    };
+// 🚦 VÉRIFICATION AU DÉMARRAGE
 
-    next();
-  } catch (err) {
-    return res.status(401).json({ error: 'Échec vérification legacy', message: err instanceof Error ? err.message : 'Erreur inconnue' });
+interface MountedRoute {
+  methods: string[];
+  path: string;
+  guards: Permission[][];
+}
+
+/**
+ * Chemin de montage d'un sous-routeur Express 4 (reconstruit depuis sa regexp)
+ */
+function mountPath(layer: any): string {
+  if (layer.regexp?.fast_slash) {
+    return '';
   }
-};
+  let keyIndex = 0;
+  return layer.regexp.source
+    .replace('\\/?(?=\\/|$)', '')
+    .replace(/^\^/, '')
+    .replace(/\(\?:\\\/\(\[\^\/\]\+\?\)\)\??/g, () => `/:${layer.keys?.[keyIndex++]?.name ?? 'param'}`)
+    .replace(/\\\//g, '/');
+}
 
+function collectRoutes(stack: any[], basePath: string, inherited: Permission[][], routes: MountedRoute[]): void {
+  const guards = [...inherited];
 
-// Middleware pour les routes admin uniquement
-export const adminGuard = authGuard(['admin']);
+  for (const layer of stack) {
+    if (layer.route) {
+      const routeGuards = layer.route.stack
+        .map((routeLayer: any) => declaredPermissions.get(routeLayer.handle))
+        .filter(Boolean);
+      routes.push({
+        methods: Object.keys(layer.route.methods).map(method => method.toUpperCase()),
+        path: `${basePath}${layer.route.path}`,
+        guards: [...guards, ...routeGuards]
+      });
+    } else if (layer.handle?.stack) {
+      collectRoutes(layer.handle.stack, `${basePath}${mountPath(layer)}`, guards, routes);
+    } else if (declaredPermissions.has(layer.handle) && mountPath(layer) === '') {
+      // router.use(requireAuth(...)) : s'applique à toutes les routes déclarées ensuite
+      guards.push(declaredPermissions.get(layer.handle)!);
+    }
+  }
+}
 
-// Middleware pour les routes utilisateur ou admin
-export const userGuard = authGuard(['user', 'admin']);
\ No newline at end of file
+/**
+ * Refuse le démarrage si une route /admin (ou /api/admin) n'exige pas une permission d'administration
+ */
+export function assertAdminRoutesProtected(app: express.Application): void {
+  const routes: MountedRoute[] = [];
+  collectRoutes((app as any)._router?.stack || [], '', [], routes);
+
+  const unprotected = routes
+    .filter(route => /^\/(api\/)?admin(\/|$)/.test(route.path))
+    .filter(route => !route.guards.some(permissions =>
+      permissions.length > 0 && permissions.every(permission => ADMIN_PERMISSIONS.includes(permission))
+    ));
+
+  if (unprotected.length > 0) {
+    const list = unprotected.map(route => `${route.methods.join(',')} ${route.path}`);
+    logger.error('🚨 Routes admin sans permission admin', { routes: list });
+    throw new Error(`Démarrage refusé : routes admin sans requireAuth('admin') → ${list.join(' ; ')}`);
+  }
+
+  logger.info('🛡️ Routes admin protégées', { count: routes.filter(route => /^\/(api\/)?admin(\/|$)/.test(route.path)).length });
+}
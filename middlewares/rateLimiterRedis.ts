@@ -1,4 +1,4 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import Redis from 'ioredis';
 import config from '../utils/config';
 import logger from '../utils/logger';
@@ -10,7 +10,7 @@ const redis = config.isProd && process.env.REDIS_URL
 
 class RedisStoreCompat implements Store {
   private client: Redis;
-  private prefix: string;
+  prefix: string;
 
   constructor(client: Redis, prefix = 'rl:') {
     this.client = client;
@@ -19,9 +19,9 @@ class RedisStoreCompat implements Store {
 
   async increment(key: string): Promise<{
     totalHits: number;
-    resetTime?: Date;
+    resetTime: Date | undefined;
   }> {
-    if (!this.client) return { totalHits: 1 };
+    if (!this.client) return { totalHits: 1, resetTime: undefined };
 
     const redisKey = `${this.prefix}${key}`;
     try {
@@ -38,7 +38,7 @@ class RedisStoreCompat implements Store {
       };
     } catch (error) {
       logger.error('❌ Redis increment error:', error);
-      return { totalHits: 1 };
+      return { totalHits: 1, resetTime: undefined };
     }
   }
 
@@ -103,4 +103,53 @@ export const generalRateLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Demandes de réinitialisation : par couple email + IP
+export const forgotPasswordRateLimiterRedis = rateLimit({
+  store: redis ? new RedisStoreCompat(redis, 'rl:forgot-password:') : undefined,
+  windowMs: 15 * 60 * 1000,
+  max: 3,
+  keyGenerator: (req) => `${ipKeyGenerator(req.ip || 'unknown')}:${String(req.body?.email || '').trim().toLowerCase()}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('🚫 Forgot password rate limit exceeded', {
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+    res.status(429).json({ error: 'Trop de demandes de réinitialisation. Réessayez dans 15 minutes.' });
+  },
+});
+
+// Réinitialisation (demande et changement) : par IP
+export const passwordResetRateLimiterRedis = rateLimit({
+  store: redis ? new RedisStoreCompat(redis, 'rl:password-reset:') : undefined,
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('🚫 Password reset rate limit exceeded', {
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+    res.status(429).json({ error: 'Trop de tentatives. Réessayez plus tard.' });
+  },
+});
+
+// Codes de double authentification : par IP
+export const twoFactorRateLimiterRedis = rateLimit({
+  store: redis ? new RedisStoreCompat(redis, 'rl:2fa:') : undefined,
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('🚫 2FA rate limit exceeded', {
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+    res.status(429).json({ error: 'Trop de codes de vérification saisis. Réessayez plus tard.' });
+  },
+});
+
 export { redis };
@@ -0,0 +1,100 @@
+/**
+ * 💰 MIDDLEWARE BUDGET TOKENS
+ * Bloque /assistant/ask quand l'entreprise a épuisé son budget mensuel pour le bot
+ */
+
+import { Request, Response, NextFunction } from 'express';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { getTokenBudget, type TokenBudget } from '../services/tokenBudgetService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      tokenBudget?: TokenBudget;
+    }
+  }
+}
+
+/**
+ * Vérifie le budget tokens entreprise + bot (à placer après requireAuth)
+ * - Budget épuisé : 429 (ou 402 via TOKEN_BUDGET_EXCEEDED_STATUS), code TOKEN_BUDGET_EXCEEDED
+ * - Seuil d'alerte atteint : en-tête X-Token-Budget-Warning
+ * En cas d'erreur de calcul, la requête passe (le budget ne doit pas couper le service)
+ */
+export async function tokenBudgetGuard(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = req.user!; // Garanti par requireAuth
+    const { chatbot_id } = req.body;
+
+    if (user.role === 'admin' || !chatbot_id) {
+      return next();
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('company_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.company_id) {
+      return next();
+    }
+
+    const budget = await getTokenBudget(userData.company_id, chatbot_id);
+    if (!budget || budget.status === 'unlimited') {
+      return next();
+    }
+
+    req.tokenBudget = budget;
+    res.setHeader('X-Token-Budget-Limit', String(budget.limit! + budget.overage));
+    res.setHeader('X-Token-Budget-Remaining', String(budget.remaining));
+
+    if (budget.status === 'exhausted') {
+      const retryAfter = Math.max(0, Math.ceil((new Date(budget.period.end).getTime() - Date.now()) / 1000));
+
+      logger.warn('🚫 Budget tokens épuisé', {
+        userId: user.id,
+        companyId: budget.company_id,
+        botId: chatbot_id,
+        used: budget.used,
+        limit: budget.limit,
+        overage: budget.overage
+      });
+
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(config.tokenBudget.exceededStatus).json({
+        error: 'Budget tokens épuisé',
+        message: `Le budget mensuel de tokens de votre entreprise pour ${chatbot_id} est épuisé. Contactez votre administrateur.`,
+        code: 'TOKEN_BUDGET_EXCEEDED',
+        budget: {
+          used: budget.used,
+          limit: budget.limit,
+          overage: budget.overage,
+          remaining: 0,
+          period_end: budget.period.end
+        }
+      });
+      return;
+    }
+
+    if (budget.status === 'warning') {
+      res.setHeader('X-Token-Budget-Warning', `soft-limit; used=${budget.used_percent}%`);
+      logger.info('⚠️ Seuil budget tokens atteint', {
+        companyId: budget.company_id,
+        botId: chatbot_id,
+        usedPercent: budget.used_percent
+      });
+    }
+
+    next();
+
+  } catch (err) {
+    logger.error('❌ Erreur middleware budget tokens', {
+      userId: req.user?.id,
+      error: (err as Error).message
+    });
+    next();
+  }
+}
@@ -0,0 +1,142 @@
+// auth-backend/mock-oidc-server.ts
+// 🧪 Fournisseur OIDC factice pour tester le SSO en local (npx tsx mock-oidc-server.ts)
+//
+// Configuration côté admin (PUT /admin/sso/:companyId) :
+//   issuer: http://localhost:4010, client_id: mock-client, client_secret: mock-secret
+// L'écran /authorize connecte directement l'utilisateur passé en login_hint
+// (ou MOCK_OIDC_EMAIL), sans formulaire. ?email_verified=false pour simuler un email non vérifié.
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4010', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'mock-client';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+const DEFAULT_EMAIL = process.env.MOCK_OIDC_EMAIL || 'jean.dupont@example.com';
+const KID = 'mock-key-1';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, IssuedCode>();
+const accessTokens = new Map<string, string>(); // access_token -> email
+
+const subjectFor = (email: string) => crypto.createHash('sha256').update(email).digest('hex').slice(0, 24);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] });
+});
+
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, login_hint, email_verified } = req.query as Record<string, string>;
+
+  if (client_id !== CLIENT_ID || !redirect_uri) {
+    return res.status(400).json({ error: 'invalid_request' });
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    email: (login_hint || DEFAULT_EMAIL).toLowerCase(),
+    emailVerified: email_verified !== 'false',
+    expiresAt: Date.now() + 60 * 1000
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  console.log('🔑 [MOCK OIDC] Autorisation accordée', { email: codes.get(code)!.email });
+  res.redirect(302, target.toString());
+});
+
+app.post('/token', (req, res) => {
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], 'base64').toString().split(':');
+    clientId = decodeURIComponent(id);
+    clientSecret = decodeURIComponent(secret || '');
+  }
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+
+  const issued = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (!issued || issued.expiresAt < Date.now() || issued.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  if (issued.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(req.body.code_verifier || '').digest('base64url');
+    if (challenge !== issued.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const [localPart] = issued.email.split('@');
+  const [givenName, familyName = 'Test'] = localPart.split('.');
+  const idToken = jwt.sign(
+    {
+      sub: subjectFor(issued.email),
+      email: issued.email,
+      email_verified: issued.emailVerified,
+      given_name: givenName,
+      family_name: familyName,
+      nonce: issued.nonce
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+
+  const accessToken = crypto.randomBytes(16).toString('hex');
+  accessTokens.set(accessToken, issued.email);
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, '');
+  const email = token ? accessTokens.get(token) : undefined;
+  if (!email) {
+    return res.status(401).json({ error: 'invalid_token' });
+  }
+  res.json({ sub: subjectFor(email), email, email_verified: true });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock OIDC provider on ${ISSUER} (client_id=${CLIENT_ID}, client_secret=${CLIENT_SECRET})`);
+});
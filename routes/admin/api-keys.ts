@@ -0,0 +1,157 @@
+// auth-backend/routes/admin/api-keys.ts
+// Clés API des entreprises (accès machine à machine aux assistants) : la clé n'est affichée qu'à la création
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import { apiKeyIdParamSchema, apiKeysQuerySchema, createApiKeySchema, updateApiKeySchema } from '../../schemas/admin.schema';
+import {
+  listApiKeys,
+  getApiKey,
+  createApiKey,
+  updateApiKey,
+  revokeApiKey,
+  ApiKey,
+  ApiKeyError
+} from '../../services/apiKeyService';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Réponse d'erreur commune (erreurs métier clé API ou 500)
+ */
+function sendApiKeyError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof ApiKeyError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} clé API`, {
+    error: (err as Error).message,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+async function loadApiKey(req: AuthenticatedRequest, res: express.Response): Promise<ApiKey | null> {
+  const apiKey = await getApiKey(req.params.apiKeyId);
+  if (!apiKey) {
+    res.status(404).json({ success: false, error: 'Clé API non trouvée' });
+    return null;
+  }
+  return apiKey;
+}
+
+/**
+ * 🔑 GET /admin/api-keys?company_id=
+ */
+router.get("/", requireAuth('admin'), validate(apiKeysQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  const apiKeys = await listApiKeys(req.query.company_id as string | undefined);
+
+  return res.json({
+    success: true,
+    data: apiKeys,
+    count: apiKeys.length
+  });
+});
+
+/**
+ * ➕ POST /admin/api-keys
+ * Body: company_id, name, bot_ids, allowed_ips (adresses ou CIDR), expires_at
+ * Réponse : la clé en clair, qui ne pourra plus être affichée
+ */
+router.post("/", requireAuth('admin'), validate(createApiKeySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { apiKey, key } = await createApiKey(req.body, req.user!.id);
+
+    logger.info("✅ [ADMIN] Clé API créée", {
+      apiKeyId: apiKey.id,
+      companyId: apiKey.company_id,
+      keyPrefix: apiKey.key_prefix,
+      adminId: req.user?.id
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Clé API créée : copiez-la maintenant, elle ne sera plus affichée',
+      data: { ...apiKey, key }
+    });
+
+  } catch (err) {
+    return sendApiKeyError(res, err, 'création', req.user?.id);
+  }
+});
+
+/**
+ * 🔍 GET /admin/api-keys/:apiKeyId
+ */
+router.get("/:apiKeyId", requireAuth('admin'), validate(apiKeyIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = await loadApiKey(req, res);
+    if (!apiKey) return;
+
+    return res.json({ success: true, data: apiKey });
+
+  } catch (err) {
+    return sendApiKeyError(res, err, 'récupération', req.user?.id);
+  }
+});
+
+/**
+ * ✏️ PATCH /admin/api-keys/:apiKeyId
+ * Body: name, bot_ids, allowed_ips, expires_at (null = sans restriction)
+ */
+router.patch("/:apiKeyId", requireAuth('admin'), validate(apiKeyIdParamSchema, 'params'), validate(updateApiKeySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = await loadApiKey(req, res);
+    if (!apiKey) return;
+
+    const updated = await updateApiKey(apiKey, req.body);
+
+    logger.info("✅ [ADMIN] Clé API mise à jour", {
+      apiKeyId: apiKey.id,
+      fields: Object.keys(req.body),
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Clé API mise à jour',
+      data: updated
+    });
+
+  } catch (err) {
+    return sendApiKeyError(res, err, 'mise à jour', req.user?.id);
+  }
+});
+
+/**
+ * 🗑️ DELETE /admin/api-keys/:apiKeyId
+ * Révocation immédiate (l'historique d'usage est conservé)
+ */
+router.delete("/:apiKeyId", requireAuth('admin'), validate(apiKeyIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = await loadApiKey(req, res);
+    if (!apiKey) return;
+
+    const revoked = await revokeApiKey(apiKey, req.user!.id);
+
+    return res.json({
+      success: true,
+      message: 'Clé API révoquée',
+      data: revoked
+    });
+
+  } catch (err) {
+    return sendApiKeyError(res, err, 'révocation', req.user?.id);
+  }
+});
+
+export default router;
@@ -1,9 +1,8 @@
 // 📁 backend/routes/admin/bot-stats.ts
 // 📊 Route pour les statistiques globales par bot (dashboard principal)
 
-import { Router, Request, Response } from 'express';
-import { jwtAuthGuard } from '../../middlewares/assistantAuth';
-import { adminGuard } from '../../middlewares/authguard';
+import { Router, Response } from 'express';
+import { requireAuth, getCompanyScope, AuthenticatedRequest } from '../../middlewares/authguard';
 const { supabase } = require('../../utils/supabase');
 
 const router = Router();
@@ -13,7 +12,7 @@ const router = Router();
  * Récupère les statistiques globales de tous les bots
  * Pour alimenter le tableau "Performance par Bot" du dashboard
  */
-router.get('/global', jwtAuthGuard, adminGuard, async (req: Request, res: Response) => {
+router.get('/global', requireAuth('company_admin'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { period } = req.query; // 1d, 7d, 30d, all
 
@@ -30,6 +29,12 @@ router.get('/global', jwtAuthGuard, adminGuard, async (req: Request, res: Respon
         timestamp
       `);
 
+    // 🏢 Administrateur d'entreprise : uniquement l'usage de son entreprise
+    const companyScope = getCompanyScope(req.user!);
+    if (companyScope) {
+      query = query.eq('company_id', companyScope);
+    }
+
     // 📅 Filtrage par période
     if (period && period !== 'all') {
       const now = new Date();
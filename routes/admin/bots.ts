@@ -0,0 +1,190 @@
+// auth-backend/routes/admin/bots.ts
+// Registre des bots : création, modification, activation et rechargement sans redéploiement
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import { botIdParamSchema, createBotSchema, updateBotSchema } from '../../schemas/admin.schema';
+import {
+  listBots,
+  getBotById,
+  createBot,
+  updateBot,
+  deleteBot,
+  reloadBotRegistry,
+  BotRegistryError
+} from '../../services/botRegistry';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+// Pas de sanitize : le persona est du texte libre transmis tel quel à l'assistant
+
+/**
+ * Réponse d'erreur commune (erreurs métier du registre ou 500)
+ */
+function sendBotError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof BotRegistryError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} bot`, {
+    error: (err as Error).message,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+/**
+ * 🤖 GET /admin/bots
+ * Tous les bots du registre, actifs ou non
+ */
+router.get("/", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const bots = await listBots({ includeDisabled: true });
+
+    return res.json({
+      success: true,
+      data: bots,
+      count: bots.length
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'récupération', req.user?.id);
+  }
+});
+
+/**
+ * 🔄 POST /admin/bots/reload
+ * Recharge immédiatement le registre depuis la base (modification directe en SQL)
+ */
+router.post("/reload", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const total = await reloadBotRegistry();
+
+    logger.info("🔄 [ADMIN] Registre bots rechargé", { total, adminId: req.user?.id });
+
+    return res.json({
+      success: true,
+      message: 'Registre des bots rechargé',
+      data: { total }
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'rechargement', req.user?.id);
+  }
+});
+
+/**
+ * 🔍 GET /admin/bots/:botId
+ */
+router.get("/:botId", requireAuth('admin'), validate(botIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const bot = await getBotById(req.params.botId);
+
+    if (!bot) {
+      return res.status(404).json({
+        success: false,
+        error: 'Bot introuvable'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: bot
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'récupération', req.user?.id);
+  }
+});
+
+/**
+ * ➕ POST /admin/bots
+ * Body: name, display_name, description, assistant_id, persona_prompt, enabled, model_settings, run_timeout_seconds
+ */
+router.post("/", requireAuth('admin'), validate(createBotSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const bot = await createBot(req.body);
+
+    logger.info("✅ [ADMIN] Bot créé", {
+      botId: bot.id,
+      name: bot.name,
+      adminId: req.user?.id
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Bot créé',
+      data: bot
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'création', req.user?.id);
+  }
+});
+
+/**
+ * ✏️ PATCH /admin/bots/:botId
+ * Mise à jour partielle (le nom du bot n'est pas modifiable)
+ */
+router.patch("/:botId", requireAuth('admin'), validate(botIdParamSchema, 'params'), validate(updateBotSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (Object.keys(req.body).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Aucun champ à mettre à jour'
+      });
+    }
+
+    const bot = await updateBot(req.params.botId, req.body);
+
+    logger.info("✅ [ADMIN] Bot mis à jour", {
+      botId: bot.id,
+      name: bot.name,
+      enabled: bot.enabled,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Bot mis à jour',
+      data: bot
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'mise à jour', req.user?.id);
+  }
+});
+
+/**
+ * 🗑️ DELETE /admin/bots/:botId
+ * Uniquement pour un bot sans licence ni accès (sinon le désactiver)
+ */
+router.delete("/:botId", requireAuth('admin'), validate(botIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    await deleteBot(req.params.botId);
+
+    logger.info("✅ [ADMIN] Bot supprimé", {
+      botId: req.params.botId,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Bot supprimé'
+    });
+
+  } catch (err) {
+    return sendBotError(res, err, 'suppression', req.user?.id);
+  }
+});
+
+export default router;
@@ -2,36 +2,37 @@
 // Routes pour le dashboard administrateur et statistiques
 
 import express from 'express';
-import { legacyAuthGuard, AuthenticatedRequest } from '../../middlewares/authguard';
+import { requireAuth, requireCompanyAccess, getCompanyScope, AuthenticatedRequest } from '../../middlewares/authguard';
 import logger from '../../utils/logger';
 const { supabase } = require('../../utils/supabase');
 
 const router = express.Router();
 
-// Middleware admin pour ce module
-const adminGuard = (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
-  if (req.user?.role !== 'admin') {
-    return res.status(403).json({ error: "Accès refusé. Seuls les admins peuvent accéder à cette ressource." });
-  }
-  next();
-};
-
 /**
  * 📊 GET /admin/dashboard/company-stats
  * Statistiques globales des entreprises avec quotas
  */
-router.get("/company-stats", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/company-stats", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
+    const companyScope = getCompanyScope(req.user!);
+
     logger.info("📊 [ADMIN] Récupération stats entreprises dashboard", { 
-      adminId: req.user?.id 
+      adminId: req.user?.id,
+      companyScope
     });
 
     // Récupération depuis la vue matérialisée
-    const { data: companies, error: companiesError } = await supabase
+    let companiesQuery = supabase
       .from('admin_company_stats')
       .select('*')
       .order('tokens_used_month', { ascending: false });
 
+    if (companyScope) {
+      companiesQuery = companiesQuery.eq('company_id', companyScope);
+    }
+
+    const { data: companies, error: companiesError } = await companiesQuery;
+
     if (companiesError) {
       logger.error("❌ [ADMIN] Erreur récupération company stats", { 
         error: companiesError.message 
@@ -85,18 +86,27 @@ router.get("/company-stats", legacyAuthGuard, adminGuard, async (req: Authentica
  * 🚨 GET /admin/dashboard/quota-alerts
  * Alertes pour les quotas dépassés ou proches de la limite
  */
-router.get("/quota-alerts", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/quota-alerts", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
+    const companyScope = getCompanyScope(req.user!);
+
     logger.info("🚨 [ADMIN] Récupération alertes quotas", { 
-      adminId: req.user?.id 
+      adminId: req.user?.id,
+      companyScope
     });
 
     // Récupération depuis la vue des alertes
-    const { data: alerts, error: alertsError } = await supabase
+    let alertsQuery = supabase
       .from('admin_quota_alerts')
       .select('*')
       .order('tokens_usage_percent', { ascending: false });
 
+    if (companyScope) {
+      alertsQuery = alertsQuery.eq('company_id', companyScope);
+    }
+
+    const { data: alerts, error: alertsError } = await alertsQuery;
+
     if (alertsError) {
       logger.error("❌ [ADMIN] Erreur récupération alertes quotas", { 
         error: alertsError.message 
@@ -142,7 +152,7 @@ router.get("/quota-alerts", legacyAuthGuard, adminGuard, async (req: Authenticat
  * 🏢 GET /admin/dashboard/company/:companyId/details
  * Statistiques complètes d'une entreprise spécifique
  */
-router.get("/company/:companyId/details", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/company/:companyId/details", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
 
@@ -226,7 +236,7 @@ router.get("/company/:companyId/details", legacyAuthGuard, adminGuard, async (re
  * 🔄 POST /admin/dashboard/refresh
  * Rafraîchissement manuel des vues matérialisées
  */
-router.post("/refresh", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.post("/refresh", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     logger.info("🔄 [ADMIN] Rafraîchissement manuel des vues", { 
       adminId: req.user?.id 
@@ -277,7 +287,7 @@ router.post("/refresh", legacyAuthGuard, adminGuard, async (req: AuthenticatedRe
 /**
  * 🧪 TEST - Route simplifiée pour debug
  */
-router.get("/bot-history-test/:botId", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/bot-history-test/:botId", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const { botId } = req.params;
     
@@ -303,7 +313,7 @@ router.get("/bot-history-test/:botId", legacyAuthGuard, adminGuard, async (req:
  * 📊 GET /admin/dashboard/bot-history/:botId
  * Récupère l'historique de consommation d'un bot avec agrégation par période
  */
-router.get("/bot-history/:botId", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/bot-history/:botId", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
 
   try {
     const { botId } = req.params;
@@ -539,7 +549,7 @@ function aggregateByPeriod(data: any[], period: string) {
  * Statistiques globales et détaillées des bots pour le dashboard admin
  * ROUTE À AJOUTER DANS dashboard.ts
  */
-router.get("/bot-stats", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/bot-stats", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const { period = 'all' } = req.query;
     
@@ -570,8 +580,11 @@ router.get("/bot-stats", legacyAuthGuard, adminGuard, async (req: AuthenticatedR
         startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000);
     }
 
+    // 🏢 Administrateur d'entreprise : uniquement l'usage de son entreprise
+    const companyScope = getCompanyScope(req.user!);
+
     // 🔍 1. STATS GLOBALES (tous bots confondus)
-    const { data: globalTokenData, error: globalError } = await supabase
+    let globalQuery = supabase
       .from('openai_token_usage')
       .select(`
         input_tokens,
@@ -584,6 +597,12 @@ router.get("/bot-stats", legacyAuthGuard, adminGuard, async (req: AuthenticatedR
       .gte('timestamp', startDate.toISOString())
       .lte('timestamp', endDate.toISOString());
 
+    if (companyScope) {
+      globalQuery = globalQuery.eq('company_id', companyScope);
+    }
+
+    const { data: globalTokenData, error: globalError } = await globalQuery;
+
     if (globalError) {
       logger.error("❌ [ADMIN] Erreur récupération stats globales", { 
         error: globalError.message 
@@ -652,12 +671,18 @@ router.get("/bot-stats", legacyAuthGuard, adminGuard, async (req: AuthenticatedR
     });
 
     // 🔍 3. Enrichir avec les utilisateurs/entreprises par bot
-    const { data: userCompanyData, error: userError } = await supabase
+    let userCompanyQuery = supabase
       .from('openai_token_usage')
       .select('bot_id, user_id, company_id')
       .gte('timestamp', startDate.toISOString())
       .lte('timestamp', endDate.toISOString());
 
+    if (companyScope) {
+      userCompanyQuery = userCompanyQuery.eq('company_id', companyScope);
+    }
+
+    const { data: userCompanyData, error: userError } = await userCompanyQuery;
+
     if (!userError && userCompanyData) {
       userCompanyData.forEach(record => {
         if (botStatsMap.has(record.bot_id)) {
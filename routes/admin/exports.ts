@@ -2,20 +2,12 @@
 // Routes pour l'export des données administratives en CSV/JSON
 
 import express from 'express';
-import { legacyAuthGuard, AuthenticatedRequest } from '../../middlewares/authguard';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
 import logger from '../../utils/logger';
 const { supabase } = require('../../utils/supabase');
 
 const router = express.Router();
 
-// Middleware admin pour ce module
-const adminGuard = (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
-  if (req.user?.role !== 'admin') {
-    return res.status(403).json({ error: "Accès refusé. Seuls les admins peuvent accéder à cette ressource." });
-  }
-  next();
-};
-
 // Fonction utilitaire pour convertir en CSV
 const convertToCSV = (data: any[]): string => {
   if (!data || data.length === 0) return '';
@@ -40,7 +32,7 @@ const convertToCSV = (data: any[]): string => {
  * Types disponibles: companies, users, alerts, licenses, token-usage
  * Query params: ?format=csv|json (défaut: json)
  */
-router.get("/:type", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/:type", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const { type } = req.params;
     const { format = 'json' } = req.query;
@@ -308,7 +300,7 @@ if (tokenUsageError) {
  * 📊 GET /admin/export/stats/summary
  * Export d'un résumé statistique global
  */
-router.get("/stats/summary", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/stats/summary", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const { format = 'json' } = req.query;
 
@@ -417,7 +409,7 @@ router.get("/stats/summary", legacyAuthGuard, adminGuard, async (req: Authentica
  * 📋 GET /admin/export/types
  * Liste des types d'export disponibles
  */
-router.get("/types", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/types", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const exportTypes = [
       {
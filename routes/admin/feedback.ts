@@ -0,0 +1,100 @@
+// auth-backend/routes/admin/feedback.ts
+// Rapports qualité : satisfaction des réponses d'assistant
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import { feedbackReportQuerySchema } from '../../schemas/feedback.schema';
+import { getFeedbackReport, getWorstRatedAnswers, type FeedbackFilters, type FeedbackGranularity } from '../../services/feedbackService';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Filtres communs (?period=30&bot_id=&company_id=)
+ */
+function parseFilters(req: AuthenticatedRequest): FeedbackFilters {
+  return {
+    periodDays: parseInt(req.query.period as string) || 30,
+    botId: req.query.bot_id as string | undefined,
+    companyId: req.query.company_id as string | undefined
+  };
+}
+
+/**
+ * 📊 GET /admin/feedback/report
+ * Satisfaction globale, par bot et par entreprise dans le temps
+ * Query: period (jours), granularity (day|week|month), bot_id, company_id
+ */
+router.get("/report", requireAuth('admin'), validate(feedbackReportQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const filters = parseFilters(req);
+    const granularity = (req.query.granularity as FeedbackGranularity) || 'week';
+
+    logger.info("📊 [ADMIN] Rapport satisfaction", { 
+      ...filters,
+      granularity,
+      adminId: req.user?.id 
+    });
+
+    const report = await getFeedbackReport(filters, granularity);
+
+    if (!report) {
+      return res.status(500).json({ 
+        success: false, 
+        error: 'Erreur lors du calcul du rapport' 
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: report
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception rapport satisfaction", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+/**
+ * 👎 GET /admin/feedback/worst
+ * Réponses les plus mal notées, à relire
+ * Query: period (jours), bot_id, company_id, limit (max 100)
+ */
+router.get("/worst", requireAuth('admin'), validate(feedbackReportQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const filters = parseFilters(req);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const answers = await getWorstRatedAnswers(filters, limit);
+
+    logger.info("✅ [ADMIN] Réponses mal notées récupérées", { 
+      count: answers.length,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      data: answers
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception réponses mal notées", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+export default router;
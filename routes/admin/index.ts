@@ -1,5 +1,6 @@
 // auth-backend/routes/admin/index.ts - MISE À JOUR
 import express from 'express';
+import { requireAuth } from '../../middlewares/authguard';
 import dashboardRoutes from './dashboard';
 import quotasRoutes from './quotas';
 import exportsRoutes from './exports';
@@ -7,6 +8,14 @@ import metricsRouter from './metrics';
 import tokensRoutes from './tokens';
 import botStatsRouter from './bot-stats';
 import userManagementRoutes from './user-management'; // 🆕 NOUVEAU MODULE
+import feedbackRoutes from './feedback';
+import botsRoutes from './bots';
+import toolsRoutes from './tools';
+import ssoRoutes from './sso';
+import apiKeysRoutes from './api-keys';
+import licensesRoutes from './licenses';
+import plansRoutes from './plans';
+import invoicesRoutes from './invoices';
 
 const router = express.Router();
 
@@ -17,6 +26,14 @@ router.use('/export', exportsRoutes);
 router.use('/bot-stats', botStatsRouter); 
 router.use('/metrics', metricsRouter);
 router.use('/user-management', userManagementRoutes); // 🆕 GESTION DES COMPTES
+router.use('/feedback', feedbackRoutes);
+router.use('/bots', botsRoutes); // Registre des bots
+router.use('/tools', toolsRoutes); // Outils serveur des assistants
+router.use('/sso', ssoRoutes); // SSO OIDC des entreprises
+router.use('/api-keys', apiKeysRoutes); // Clés API des entreprises
+router.use('/licenses', licensesRoutes); // Cycle de vie des licences
+router.use('/plans', plansRoutes); // Catalogue des offres
+router.use('/invoices', invoicesRoutes); // Facturation à l'usage
 
 // 🆕 NOUVELLE ROUTE TOKENS - Mount directement sur /admin
 router.use('/', tokensRoutes); // Routes: /admin/users/:userId/tokens
@@ -24,10 +41,9 @@ router.use('/', tokensRoutes); // Routes: /admin/users/:userId/tokens
 // TODO: Migrer les routes existantes vers des modules séparés
 // router.use('/users', usersRoutes);
 // router.use('/companies', companiesRoutes); 
-// router.use('/licenses', licensesRoutes);
 
 // 🏠 Route de base admin info
-router.get('/', (req, res) => {
+router.get('/', requireAuth('admin'), (req, res) => {
   res.json({
     success: true,
     message: 'Admin API Routes',
@@ -35,14 +51,68 @@ router.get('/', (req, res) => {
     modules: {
       dashboard: '/admin/dashboard',
       quotas: '/admin/quotas', 
+      scheduledJobs: {
+        runs: '/admin/quotas/jobs',
+        run: '/admin/quotas/jobs/:jobName/run',
+        licenseHistory: '/admin/quotas/license/:licenseId/history'
+      },
       exports: '/admin/export',
       metrics: '/admin/metrics',
+      bots: {
+        list: '/admin/bots',
+        detail: '/admin/bots/:botId',
+        reload: '/admin/bots/reload'
+      },
+      tools: {
+        definitions: '/admin/tools',
+        calls: '/admin/tools/calls'
+      },
+      sso: {
+        list: '/admin/sso',
+        companyConfig: '/admin/sso/:companyId'
+      },
+      apiKeys: {
+        list: '/admin/api-keys',
+        detail: '/admin/api-keys/:apiKeyId'
+      },
+      licenses: {
+        events: '/admin/licenses/:licenseId/events',
+        changePlan: '/admin/licenses/:licenseId/change-plan',
+        convert: '/admin/licenses/:licenseId/convert',
+        renew: '/admin/licenses/:licenseId/renew',
+        suspend: '/admin/licenses/:licenseId/suspend',
+        reactivate: '/admin/licenses/:licenseId/reactivate',
+        seats: '/admin/licenses/:licenseId/seats'
+      },
+      plans: {
+        list: '/admin/plans',
+        versions: '/admin/plans/:planCode',
+        availability: '/admin/plans/:planCode/availability'
+      },
+      invoices: {
+        list: '/admin/invoices',
+        detail: '/admin/invoices/:invoiceId',
+        finalize: '/admin/invoices/:invoiceId/finalize',
+        export: '/admin/invoices/:invoiceId/export'
+      },
+      feedback: {
+        report: '/admin/feedback/report',
+        worst: '/admin/feedback/worst'
+      },
       userManagement: { // 🆕 NOUVEAU MODULE
         detailedUsers: '/admin/user-management/companies/:companyId/users/detailed',
         updateProfile: '/admin/user-management/users/:userId/profile',
         updateStatus: '/admin/user-management/users/:userId/status',
         resetQuotas: '/admin/user-management/users/:userId/quotas/reset',
-        availableBots: '/admin/user-management/companies/:companyId/available-bots'
+        availableBots: '/admin/user-management/companies/:companyId/available-bots',
+        seats: '/admin/user-management/companies/:companyId/seats',
+        sessions: '/admin/user-management/users/:userId/sessions',
+        revokeSession: '/admin/user-management/users/:userId/sessions/:sessionId',
+        resetTwoFactor: '/admin/user-management/users/:userId/2fa',
+        lockout: '/admin/user-management/users/:userId/lockout',
+        unlock: '/admin/user-management/users/:userId/unlock',
+        invitations: '/admin/user-management/invitations',
+        resendInvitation: '/admin/user-management/invitations/:invitationId/resend'
       },
       tokens: {
         userTokens: '/admin/users/:userId/tokens',
@@ -0,0 +1,173 @@
+// auth-backend/routes/admin/invoices.ts
+// Facturation à l'usage : relevés mensuels par entreprise (brouillon → finale), export CSV / JSON / HTML
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import {
+  invoiceIdParamSchema,
+  invoicesQuerySchema,
+  generateInvoiceSchema,
+  invoiceExportQuerySchema
+} from '../../schemas/admin.schema';
+import {
+  generateInvoice,
+  finalizeInvoice,
+  getInvoice,
+  listInvoices,
+  InvoiceError,
+  type InvoiceStatus
+} from '../../services/invoiceService';
+import { renderInvoiceCsv, renderInvoiceHtml, invoiceFileName } from '../../services/invoiceDocument';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Réponse d'erreur commune (erreurs métier facturation ou 500)
+ */
+function sendInvoiceError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof InvoiceError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} facture`, {
+    error: (err as Error).message,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+/**
+ * 📋 GET /admin/invoices?company_id=&period=AAAA-MM&status=draft|final
+ */
+router.get("/", requireAuth('admin'), validate(invoicesQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  const invoices = await listInvoices({
+    companyId: req.query.company_id as string | undefined,
+    period: req.query.period as string | undefined,
+    status: req.query.status as InvoiceStatus | undefined
+  });
+
+  return res.json({
+    success: true,
+    data: invoices,
+    count: invoices.length
+  });
+});
+
+/**
+ * 🧾 POST /admin/invoices
+ * Body: company_id, period (AAAA-MM) — crée ou recalcule le brouillon du mois
+ */
+router.post("/", requireAuth('admin'), validate(generateInvoiceSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invoice = await generateInvoice(req.body.company_id, req.body.period, req.user!.id);
+
+    return res.json({
+      success: true,
+      message: `Brouillon ${invoice.number} généré`,
+      data: invoice
+    });
+  } catch (err) {
+    return sendInvoiceError(res, err, 'génération', req.user?.id);
+  }
+});
+
+/**
+ * 🔍 GET /admin/invoices/:invoiceId
+ */
+router.get("/:invoiceId", requireAuth('admin'), validate(invoiceIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invoice = await getInvoice(req.params.invoiceId);
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Facture non trouvée' });
+    }
+
+    return res.json({ success: true, data: invoice });
+  } catch (err) {
+    return sendInvoiceError(res, err, 'lecture', req.user?.id);
+  }
+});
+
+/**
+ * 🔒 POST /admin/invoices/:invoiceId/finalize
+ * Fige la facture (mois terminé, brouillon recalculé après la fin du mois)
+ */
+router.post("/:invoiceId/finalize", requireAuth('admin'), validate(invoiceIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invoice = await finalizeInvoice(req.params.invoiceId, req.user!.id);
+
+    return res.json({
+      success: true,
+      message: `Facture ${invoice.number} finalisée`,
+      data: invoice
+    });
+  } catch (err) {
+    return sendInvoiceError(res, err, 'finalisation', req.user?.id);
+  }
+});
+
+/**
+ * 📥 GET /admin/invoices/:invoiceId/export?format=json|csv|html
+ * html : document imprimable (PDF via l'impression du navigateur)
+ */
+router.get(
+  "/:invoiceId/export",
+  requireAuth('admin'),
+  validate(invoiceIdParamSchema, 'params'),
+  validate(invoiceExportQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const invoice = await getInvoice(req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ success: false, error: 'Facture non trouvée' });
+      }
+
+      const format = (req.query.format as string) || 'json';
+      const fileName = invoiceFileName(invoice);
+
+      logger.info("📥 [ADMIN] Export facture", {
+        invoiceId: invoice.id,
+        number: invoice.number,
+        format,
+        adminId: req.user?.id
+      });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+        res.setHeader('Cache-Control', 'no-cache');
+        return res.send(renderInvoiceCsv(invoice));
+      }
+
+      if (format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="${fileName}.html"`);
+        res.setHeader('Cache-Control', 'no-cache');
+        return res.send(renderInvoiceHtml(invoice));
+      }
+
+      return res.json({
+        success: true,
+        data: invoice,
+        metadata: {
+          format: 'json',
+          exportedAt: new Date().toISOString(),
+          exportedBy: req.user?.email || req.user?.id,
+          fileName: `${fileName}.json`
+        }
+      });
+    } catch (err) {
+      return sendInvoiceError(res, err, 'exportation', req.user?.id);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,214 @@
+// auth-backend/routes/admin/licenses.ts
+// Cycle de vie des licences : changement d'offre, renouvellement, suspension, conversion d'essai, sièges, journal
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { sanitize, validate } from '../../middlewares/validate';
+import {
+  licenseIdParamSchema,
+  changeLicensePlanSchema,
+  convertTrialSchema,
+  renewLicenseSchema,
+  licenseStatusChangeSchema,
+  licenseSeatsSchema
+} from '../../schemas/admin.schema';
+import {
+  changeLicensePlan,
+  convertTrialLicense,
+  renewLicense,
+  suspendLicense,
+  reactivateLicense,
+  setLicenseSeats,
+  listLicenseEvents,
+  LicenseLifecycleError
+} from '../../services/licenseLifecycleService';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Réponse d'erreur commune (erreurs métier cycle de vie ou 500)
+ */
+function sendLifecycleError(res: express.Response, err: unknown, action: string, licenseId: string, adminId?: string) {
+  if (err instanceof LicenseLifecycleError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} licence`, {
+    error: (err as Error).message,
+    licenseId,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+/**
+ * 📜 GET /admin/licenses/:licenseId/events
+ * Journal du cycle de vie de la licence
+ */
+router.get("/:licenseId/events", requireAuth('admin'), validate(licenseIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  const events = await listLicenseEvents(req.params.licenseId);
+
+  return res.json({
+    success: true,
+    data: events
+  });
+});
+
+/**
+ * 📈 POST /admin/licenses/:licenseId/change-plan
+ * Body: plan (code d'offre du catalogue), reason
+ * Quotas de la période en cours proratisés, nouveaux quotas pleins dès la période suivante
+ */
+router.post(
+  "/:licenseId/change-plan",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  sanitize,
+  validate(changeLicensePlanSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await changeLicensePlan(req.params.licenseId, req.body.plan, req.user!.id, req.body.reason || null);
+
+      return res.json({
+        success: true,
+        message: 'Offre de la licence modifiée',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'modification', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+/**
+ * 🎓 POST /admin/licenses/:licenseId/convert
+ * Body: plan (code d'offre payante) — licence d'essai vers offre payante
+ */
+router.post(
+  "/:licenseId/convert",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  validate(convertTrialSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await convertTrialLicense(req.params.licenseId, req.body.plan, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Licence d\'essai convertie',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'conversion', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+/**
+ * 🔄 POST /admin/licenses/:licenseId/renew
+ * Body: months (par défaut : durée de validité de l'offre)
+ */
+router.post(
+  "/:licenseId/renew",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  validate(renewLicenseSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await renewLicense(req.params.licenseId, req.user!.id, req.body.months);
+
+      return res.json({
+        success: true,
+        message: 'Licence renouvelée',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'renouvellement', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+/**
+ * ⏸️ POST /admin/licenses/:licenseId/suspend
+ * Body: reason
+ */
+router.post(
+  "/:licenseId/suspend",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  sanitize,
+  validate(licenseStatusChangeSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await suspendLicense(req.params.licenseId, req.body.reason, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Licence suspendue',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'suspension', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+/**
+ * ▶️ POST /admin/licenses/:licenseId/reactivate
+ * Body: reason
+ */
+router.post(
+  "/:licenseId/reactivate",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  sanitize,
+  validate(licenseStatusChangeSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await reactivateLicense(req.params.licenseId, req.body.reason, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: license.status === 'active' ? 'Licence réactivée' : 'Suspension levée, licence expirée : renouvellement requis',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'réactivation', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+/**
+ * 💺 PUT /admin/licenses/:licenseId/seats
+ * Body: max_seats (null = illimité), reason — jamais sous le nombre de sièges occupés
+ */
+router.put(
+  "/:licenseId/seats",
+  requireAuth('admin'),
+  validate(licenseIdParamSchema, 'params'),
+  sanitize,
+  validate(licenseSeatsSchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const license = await setLicenseSeats(req.params.licenseId, req.body.max_seats, req.body.reason, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Nombre de sièges modifié',
+        data: license
+      });
+    } catch (err) {
+      return sendLifecycleError(res, err, 'modification', req.params.licenseId, req.user?.id);
+    }
+  }
+);
+
+export default router;
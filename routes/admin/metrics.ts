@@ -3,6 +3,7 @@
 // ===============================
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '../../middlewares/authguard';
 
 const router = express.Router();
 
@@ -12,7 +13,7 @@ const supabase = createClient(
 );
 
 // 📊 MÉTRIQUES TEMPS RÉEL PAR BOT
-router.get('/realtime/:botId', async (req, res) => {
+router.get('/realtime/:botId', requireAuth('admin'), async (req, res) => {
   try {
     console.log('📊 [METRICS API] Récupération métriques temps réel');
     
@@ -88,7 +89,7 @@ router.get('/realtime/:botId', async (req, res) => {
 });
 
 // 🌍 MÉTRIQUES GLOBALES
-router.get('/global', async (req, res) => {
+router.get('/global', requireAuth('admin'), async (req, res) => {
   try {
     const { timeframe = '24h' } = req.query;
     
@@ -125,7 +126,7 @@ router.get('/global', async (req, res) => {
 });
 
 // 📈 HISTORIQUE PAR BOT
-router.get('/history/:botId', async (req, res) => {
+router.get('/history/:botId', requireAuth('admin'), async (req, res) => {
   try {
     const { botId } = req.params;
     const { days = '7' } = req.query;
@@ -0,0 +1,153 @@
+// auth-backend/routes/admin/plans.ts
+// Catalogue des offres de licence : chaque modification publie une nouvelle version
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { sanitize, validate } from '../../middlewares/validate';
+import {
+  planCodeParamSchema,
+  plansQuerySchema,
+  createPlanSchema,
+  updatePlanSchema,
+  planAvailabilitySchema
+} from '../../schemas/admin.schema';
+import {
+  listPlans,
+  createPlan,
+  publishPlanVersion,
+  setPlanAvailability,
+  PlanError
+} from '../../services/planService';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Réponse d'erreur commune (erreurs métier catalogue ou 500)
+ */
+function sendPlanError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof PlanError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} offre`, {
+    error: (err as Error).message,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+/**
+ * 📚 GET /admin/plans?include_history=true
+ * Dernière version de chaque offre (toutes les versions avec include_history)
+ */
+router.get("/", requireAuth('admin'), validate(plansQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  const plans = await listPlans({ includeHistory: req.query.include_history === 'true' });
+
+  return res.json({
+    success: true,
+    data: plans,
+    count: plans.length
+  });
+});
+
+/**
+ * 🔍 GET /admin/plans/:planCode
+ * Versions d'une offre (plus récente d'abord)
+ */
+router.get("/:planCode", requireAuth('admin'), validate(planCodeParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  const versions = (await listPlans({ includeHistory: true })).filter(plan => plan.code === req.params.planCode);
+
+  if (versions.length === 0) {
+    return res.status(404).json({ success: false, error: 'Offre non trouvée' });
+  }
+
+  return res.json({
+    success: true,
+    data: {
+      current: versions.find(plan => plan.is_current) || null,
+      versions
+    }
+  });
+});
+
+/**
+ * ➕ POST /admin/plans
+ * Body: code, name, max_requests_per_month, max_tokens_per_month, validity_months,
+ *       allowed_bot_ids, max_seats, price_monthly, is_trial
+ */
+router.post("/", requireAuth('admin'), sanitize, validate(createPlanSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const plan = await createPlan(req.body, req.user!.id);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Offre créée',
+      data: plan
+    });
+  } catch (err) {
+    return sendPlanError(res, err, 'création', req.user?.id);
+  }
+});
+
+/**
+ * ✏️ PATCH /admin/plans/:planCode
+ * Publie une nouvelle version ; les licences existantes conservent les conditions de leur version
+ */
+router.patch(
+  "/:planCode",
+  requireAuth('admin'),
+  validate(planCodeParamSchema, 'params'),
+  sanitize,
+  validate(updatePlanSchema),
+  async (req: AuthenticatedRequest, res) => {
+    if (Object.keys(req.body).length === 0) {
+      return res.status(400).json({ success: false, error: 'Aucune modification fournie' });
+    }
+
+    try {
+      const plan = await publishPlanVersion(req.params.planCode, req.body, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: `Version ${plan.version} de l'offre publiée`,
+        data: plan
+      });
+    } catch (err) {
+      return sendPlanError(res, err, 'publication', req.user?.id);
+    }
+  }
+);
+
+/**
+ * 🚦 PUT /admin/plans/:planCode/availability
+ * Body: is_available — retire l'offre des nouvelles souscriptions (ou la remet)
+ */
+router.put(
+  "/:planCode/availability",
+  requireAuth('admin'),
+  validate(planCodeParamSchema, 'params'),
+  validate(planAvailabilitySchema),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const plan = await setPlanAvailability(req.params.planCode, req.body.is_available);
+
+      return res.json({
+        success: true,
+        message: plan.is_available ? 'Offre proposée' : 'Offre retirée du catalogue',
+        data: plan
+      });
+    } catch (err) {
+      return sendPlanError(res, err, 'mise à jour', req.user?.id);
+    }
+  }
+);
+
+export default router;
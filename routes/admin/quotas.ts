@@ -2,27 +2,37 @@
 // Routes pour la gestion des quotas de licences
 
 import express from 'express';
-import { legacyAuthGuard, AuthenticatedRequest } from '../../middlewares/authguard';
-import { sanitize } from '../../middlewares/validate';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { sanitize, validate } from '../../middlewares/validate';
 import logger from '../../utils/logger';
+import config from '../../utils/config';
+import {
+  companyIdParamSchema,
+  overageIdParamSchema,
+  grantOverageSchema,
+  licenseIdParamSchema,
+  jobNameParamSchema,
+  jobRunsQuerySchema
+} from '../../schemas/admin.schema';
+import {
+  getCompanyTokenBudgets,
+  listTokenOverages,
+  grantTokenOverage,
+  revokeTokenOverage,
+  getCurrentBillingPeriod
+} from '../../services/tokenBudgetService';
+import { listLicenseUsageHistory } from '../../services/quotaResetService';
+import { runJob, listJobRuns, type JobName } from '../../utils/scheduler';
 const { supabase } = require('../../utils/supabase');
 
 const router = express.Router();
 
-// Middleware admin pour ce module
-const adminGuard = (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
-  if (req.user?.role !== 'admin') {
-    return res.status(403).json({ error: "Accès refusé. Seuls les admins peuvent accéder à cette ressource." });
-  }
-  next();
-};
-
 /**
  * ⚙️ PUT /admin/quotas/update
  * Mise à jour des quotas d'une licence
  * Body: { licenseId, maxTokensPerMonth, maxRequestsPerMonth }
  */
-router.put("/update", legacyAuthGuard, adminGuard, sanitize, async (req: AuthenticatedRequest, res) => {
+router.put("/update", requireAuth('admin'), sanitize, async (req: AuthenticatedRequest, res) => {
   try {
     const { licenseId, maxTokensPerMonth, maxRequestsPerMonth } = req.body;
 
@@ -164,7 +174,7 @@ router.put("/update", legacyAuthGuard, adminGuard, sanitize, async (req: Authent
  * 📋 GET /admin/quotas/list
  * Liste de toutes les licences avec leurs quotas actuels
  */
-router.get("/list", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/list", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     logger.info("📋 [ADMIN] Récupération liste quotas", { 
       adminId: req.user?.id 
@@ -249,7 +259,7 @@ router.get("/list", legacyAuthGuard, adminGuard, async (req: AuthenticatedReques
  * 🔍 GET /admin/quotas/license/:licenseId
  * Détails d'une licence spécifique avec historique d'usage
  */
-router.get("/license/:licenseId", legacyAuthGuard, adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/license/:licenseId", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
     const { licenseId } = req.params;
 
@@ -266,6 +276,7 @@ router.get("/license/:licenseId", legacyAuthGuard, adminGuard, async (req: Authe
         max_tokens_per_month,
         max_requests_per_month,
         status,
+        start_date,
         created_at,
         companies(id, name, siren),
         bots(id, name, description)
@@ -286,10 +297,13 @@ router.get("/license/:licenseId", legacyAuthGuard, adminGuard, async (req: Authe
         company_uuid: license.companies?.id 
       });
 
+    const currentPeriod = getCurrentBillingPeriod(new Date(), license.start_date);
+
     return res.json({
       success: true,
       data: {
         license,
+        currentPeriod: { start: currentPeriod.start.toISOString(), end: currentPeriod.end.toISOString() },
         usageHistory: usageHistory || []
       }
     });
@@ -307,4 +321,256 @@ router.get("/license/:licenseId", legacyAuthGuard, adminGuard, async (req: Authe
   }
 });
 
+/**
+ * 💰 GET /admin/quotas/budget/:companyId
+ * Budget tokens de la période courante, par bot sous licence
+ */
+router.get("/budget/:companyId", requireAuth('admin'), validate(companyIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { companyId } = req.params;
+    const budgets = await getCompanyTokenBudgets(companyId);
+
+    return res.json({
+      success: true,
+      data: {
+        companyId,
+        softLimitPercent: config.tokenBudget.softLimitPercent,
+        budgets
+      }
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception récupération budget tokens", {
+      error: (err as Error).message,
+      companyId: req.params.companyId,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+/**
+ * 📋 GET /admin/quotas/overages
+ * Dépassements temporaires (?company_id=, ?include_expired=true)
+ */
+router.get("/overages", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.query.company_id as string | undefined;
+    const includeExpired = req.query.include_expired === 'true';
+
+    const overages = await listTokenOverages(companyId, includeExpired);
+
+    return res.json({
+      success: true,
+      data: overages
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception liste dépassements", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+/**
+ * 🎁 POST /admin/quotas/overages
+ * Accorde un dépassement temporaire de budget tokens
+ * Body: { companyId, botName?, extraTokens, expiresAt?, reason }
+ */
+router.post("/overages", requireAuth('admin'), sanitize, validate(grantOverageSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { companyId, botName, extraTokens, expiresAt, reason } = req.body;
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return res.status(400).json({ 
+        success: false, 
+        error: "La date d'expiration doit être dans le futur" 
+      });
+    }
+
+    const overage = await grantTokenOverage({
+      companyId,
+      botName,
+      extraTokens,
+      expiresAt,
+      reason,
+      grantedBy: req.user!.id
+    });
+
+    if (!overage) {
+      return res.status(500).json({ 
+        success: false, 
+        error: "Erreur lors de la création du dépassement" 
+      });
+    }
+
+    logger.info("✅ [ADMIN] Dépassement tokens accordé", { 
+      overageId: overage.id,
+      companyId,
+      botName: botName || 'tous',
+      extraTokens,
+      adminId: req.user?.id
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Dépassement accordé',
+      data: overage
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception création dépassement", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la création" 
+    });
+  }
+});
+
+/**
+ * 🗑️ DELETE /admin/quotas/overages/:overageId
+ * Révoque un dépassement (expiration immédiate)
+ */
+router.delete("/overages/:overageId", requireAuth('admin'), validate(overageIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const overage = await revokeTokenOverage(req.params.overageId);
+
+    if (!overage) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Dépassement non trouvé' 
+      });
+    }
+
+    logger.info("✅ [ADMIN] Dépassement révoqué", { 
+      overageId: overage.id,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Dépassement révoqué',
+      data: overage
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception révocation dépassement", {
+      error: (err as Error).message,
+      overageId: req.params.overageId,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la révocation" 
+    });
+  }
+});
+
+/**
+ * 📜 GET /admin/quotas/license/:licenseId/history
+ * Périodes de facturation archivées lors des remises à zéro
+ */
+router.get("/license/:licenseId/history", requireAuth('admin'), validate(licenseIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const history = await listLicenseUsageHistory(req.params.licenseId);
+
+    return res.json({
+      success: true,
+      data: history
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception historique licence", {
+      error: (err as Error).message,
+      licenseId: req.params.licenseId,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+/**
+ * ⏰ GET /admin/quotas/jobs
+ * Historique des exécutions des tâches planifiées (?job_name=quota_reset, ?limit=50)
+ */
+router.get("/jobs", requireAuth('admin'), validate(jobRunsQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobName = req.query.job_name as JobName | undefined;
+    const limit = Math.min(parseInt((req.query.limit as string) || '50', 10), 200);
+
+    const runs = await listJobRuns(jobName, limit);
+
+    return res.json({
+      success: true,
+      data: runs
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception historique tâches", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+/**
+ * ▶️ POST /admin/quotas/jobs/:jobName/run
+ * Exécution immédiate d'une tâche (sans effet sur les licences déjà traitées)
+ */
+router.post("/jobs/:jobName/run", requireAuth('admin'), validate(jobNameParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const jobName = req.params.jobName as JobName;
+    const run = await runJob(jobName, 'manual', req.user!.id);
+
+    if (!run) {
+      return res.status(409).json({ 
+        success: false, 
+        error: 'Tâche déjà en cours d\'exécution',
+        code: 'JOB_RUNNING'
+      });
+    }
+
+    logger.info("▶️ [ADMIN] Tâche exécutée manuellement", { 
+      jobName,
+      runId: run.id,
+      status: run.status,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      data: run
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception exécution tâche", {
+      error: (err as Error).message,
+      jobName: req.params.jobName,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de l'exécution" 
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,135 @@
+// auth-backend/routes/admin/sso.ts
+// Configuration SSO OIDC des entreprises (le secret client n'est jamais renvoyé)
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import { companyIdParamSchema, ssoConfigSchema } from '../../schemas/admin.schema';
+import {
+  listSsoConfigs,
+  getSsoConfig,
+  upsertSsoConfig,
+  deleteSsoConfig,
+  SsoError
+} from '../../services/ssoService';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * Réponse d'erreur commune (erreurs métier SSO ou 500)
+ */
+function sendSsoError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof SsoError) {
+    return res.status(err.status).json({
+      success: false,
+      error: err.message,
+      code: err.code
+    });
+  }
+
+  logger.error(`❌ [ADMIN] Exception ${action} configuration SSO`, {
+    error: (err as Error).message,
+    adminId
+  });
+  return res.status(500).json({
+    success: false,
+    error: `Erreur serveur lors de la ${action}`
+  });
+}
+
+/**
+ * 🏢 GET /admin/sso
+ * Configurations SSO de toutes les entreprises
+ */
+router.get("/", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
+  const configs = await listSsoConfigs();
+
+  return res.json({
+    success: true,
+    data: configs,
+    count: configs.length
+  });
+});
+
+/**
+ * 🔍 GET /admin/sso/:companyId
+ */
+router.get("/:companyId", requireAuth('admin'), validate(companyIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const ssoConfig = await getSsoConfig(req.params.companyId);
+
+    if (!ssoConfig) {
+      return res.status(404).json({
+        success: false,
+        error: 'Aucune configuration SSO pour cette entreprise'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: ssoConfig
+    });
+
+  } catch (err) {
+    return sendSsoError(res, err, 'récupération', req.user?.id);
+  }
+});
+
+/**
+ * ✏️ PUT /admin/sso/:companyId
+ * Body: issuer, client_id, client_secret (obligatoire à la création), allowed_domains, default_bot_ids, enabled
+ */
+router.put("/:companyId", requireAuth('admin'), validate(companyIdParamSchema, 'params'), validate(ssoConfigSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const ssoConfig = await upsertSsoConfig(req.params.companyId, req.body);
+
+    logger.info("✅ [ADMIN] Configuration SSO enregistrée", {
+      companyId: req.params.companyId,
+      issuer: ssoConfig.issuer,
+      enabled: ssoConfig.enabled,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Configuration SSO enregistrée',
+      data: ssoConfig
+    });
+
+  } catch (err) {
+    return sendSsoError(res, err, 'mise à jour', req.user?.id);
+  }
+});
+
+/**
+ * 🗑️ DELETE /admin/sso/:companyId
+ * Les comptes déjà provisionnés sont conservés (connexion par mot de passe après réinitialisation)
+ */
+router.delete("/:companyId", requireAuth('admin'), validate(companyIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteSsoConfig(req.params.companyId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Aucune configuration SSO pour cette entreprise'
+      });
+    }
+
+    logger.info("✅ [ADMIN] Configuration SSO supprimée", {
+      companyId: req.params.companyId,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      message: 'Configuration SSO supprimée'
+    });
+
+  } catch (err) {
+    return sendSsoError(res, err, 'suppression', req.user?.id);
+  }
+});
+
+export default router;
@@ -3,8 +3,7 @@
 
 import { Router, Request, Response } from 'express';
 // 🔧 IMPORTS SELON VOTRE STRUCTURE EXISTANTE
-import { jwtAuthGuard } from '../../middlewares/assistantAuth';
-import { adminGuard } from '../../middlewares/authguard';
+import { requireAuth } from '../../middlewares/authguard';
 // 🗄️ SUPABASE - Selon votre structure
 const { supabase } = require('../../utils/supabase');
 
@@ -54,7 +53,7 @@ interface ChartDataPoint {
  * @returns Données tokens + statistiques + données graphiques
  */
 // 🧪 TEST TEMPORAIRE - AUTH DÉSACTIVÉE
-router.get('/users/:userId/tokens', /* jwtAuthGuard, adminGuard, */ async (req: Request, res: Response) => {
+router.get('/users/:userId/tokens', requireAuth('admin'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const { bot_id, period } = req.query;
@@ -236,7 +235,7 @@ router.get('/users/:userId/tokens', /* jwtAuthGuard, adminGuard, */ async (req:
  * 📊 GET /admin/users/:userId/tokens/summary
  * Version légère : uniquement les statistiques sans détail des tokens
  */
-router.get('/users/:userId/tokens/summary', /* jwtAuthGuard, adminGuard, */ async (req: Request, res: Response) => {
+router.get('/users/:userId/tokens/summary', requireAuth('admin'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const { bot_id } = req.query;
@@ -293,7 +292,7 @@ router.get('/users/:userId/tokens/summary', /* jwtAuthGuard, adminGuard, */ asyn
  * Récupère la liste des bots utilisés par un utilisateur avec leurs stats
  * Utile pour alimenter UserBotStatsTable
  */
-router.get('/users/:userId/bots', /* jwtAuthGuard, adminGuard, */ async (req: Request, res: Response) => {
+router.get('/users/:userId/bots', requireAuth('admin'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const { period } = req.query;
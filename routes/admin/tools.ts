@@ -0,0 +1,69 @@
+// auth-backend/routes/admin/tools.ts
+// Outils serveur des assistants : déclarations de fonctions et journal des appels par run
+
+import express from 'express';
+import { requireAuth, AuthenticatedRequest } from '../../middlewares/authguard';
+import { validate } from '../../middlewares/validate';
+import { toolCallsQuerySchema } from '../../schemas/admin.schema';
+import { getToolDefinitions, listToolCalls } from '../../services/tools';
+import logger from '../../utils/logger';
+
+const router = express.Router();
+
+/**
+ * 🛠️ GET /admin/tools
+ * Déclarations de fonctions à ajouter aux assistants (onglet Functions)
+ */
+router.get("/", requireAuth('admin'), (req: AuthenticatedRequest, res) => {
+  const tools = getToolDefinitions();
+
+  return res.json({
+    success: true,
+    data: tools,
+    count: tools.length
+  });
+});
+
+/**
+ * 📋 GET /admin/tools/calls
+ * Journal des appels d'outils
+ * Query: run_id, bot_id, tool, period (jours), limit (max 500)
+ */
+router.get("/calls", requireAuth('admin'), validate(toolCallsQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const runId = req.query.run_id as string | undefined;
+
+    const calls = await listToolCalls({
+      runId,
+      chatbotId: req.query.bot_id as string | undefined,
+      toolName: req.query.tool as string | undefined,
+      // Journal d'un run précis : pas de limite de période
+      periodDays: runId ? undefined : parseInt(req.query.period as string) || 30
+    }, limit);
+
+    logger.info("✅ [ADMIN] Journal appels outils récupéré", { 
+      count: calls.length,
+      runId,
+      adminId: req.user?.id
+    });
+
+    return res.json({
+      success: true,
+      data: calls,
+      count: calls.length
+    });
+
+  } catch (err) {
+    logger.error("❌ [ADMIN] Exception journal appels outils", {
+      error: (err as Error).message,
+      adminId: req.user?.id
+    });
+    return res.status(500).json({ 
+      success: false, 
+      error: "Erreur serveur lors de la récupération" 
+    });
+  }
+});
+
+export default router;
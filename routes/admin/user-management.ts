@@ -1,24 +1,47 @@
 // auth-backend/routes/admin/user-management.ts
 const { supabase } = require('../../utils/supabase');
 import express from "express";
-import { adminGuard, AuthenticatedRequest } from "../../middlewares/authguard";
+import { requireAuth, requireCompanyAccess, requireUserAccess, getCompanyScope, hasPermission, canAccessCompany, sendAuthError, ROLES, AuthenticatedRequest } from "../../middlewares/authguard";
+import { validate, sanitize } from "../../middlewares/validate";
+import { createInvitationSchema, invitationIdParamSchema, invitationsQuerySchema, companyIdParamSchema, seatUsageQuerySchema } from "../../schemas/admin.schema";
+import { listUserSessions, revokeAllUserTokens, revokeUserSession } from "../../services/refreshTokenService";
+import { removeTwoFactor } from "../../services/twoFactorService";
+import { getLockoutStatus, unlockAccount } from "../../services/accountLockoutService";
+import { claimSeat, getCompanySeatUsage, releaseUserSeats, SeatError } from "../../services/seatService";
+import {
+  createInvitation,
+  listInvitations,
+  getInvitation,
+  resendInvitation,
+  revokeInvitation,
+  Invitation,
+  InvitationError
+} from "../../services/invitationService";
 
 const router = express.Router();
 
 /**
  * 🏢 GET /admin/user-management/companies
  * Récupère toutes les entreprises avec le nombre d'utilisateurs
+ * (administrateur d'entreprise : uniquement la sienne)
  */
-router.get("/companies", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/companies", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
     console.log("🏢 [USER-MGMT] Récupération de toutes les entreprises");
 
-    // Récupérer toutes les entreprises
-    const { data: companies, error: companiesError } = await supabase
+    // Récupérer toutes les entreprises (ou celle de l'administrateur d'entreprise)
+    const companyScope = getCompanyScope(req.user!);
+    let companiesQuery = supabase
       .from('companies')
       .select('id, name, siren, created_at')
       .order('name', { ascending: true });
 
+    if (companyScope) {
+      companiesQuery = companiesQuery.eq('id', companyScope);
+    }
+
+    const { data: companies, error: companiesError } = await companiesQuery;
+
     if (companiesError) {
       console.error("❌ [USER-MGMT] Erreur récupération entreprises:", companiesError);
       return res.status(500).json({ error: "Erreur lors de la récupération des entreprises." });
@@ -65,7 +88,7 @@ console.error("❌ [USER-MGMT] Exception:", err instanceof Error ? err.message :
 /**
  * 📊 GET /admin/user-management/companies/:companyId/users/detailed
  */
-router.get("/companies/:companyId/users/detailed", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/companies/:companyId/users/detailed", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
     console.log("👥 [USER-MGMT] Récupération utilisateurs détaillés", companyId);
@@ -74,6 +97,7 @@ router.get("/companies/:companyId/users/detailed", adminGuard, async (req: Authe
       .from('users')
       .select('id, email, first_name, last_name, job_title, role, created_at')
       .eq('company_id', companyId)
+      .neq('role', 'service') // utilisateurs techniques des clés API
       .order('created_at', { ascending: false });
 
     if (usersError) {
@@ -148,9 +172,14 @@ bot_icon: (() => {
 
     console.log("✅ [USER-MGMT] Utilisateurs récupérés:", usersWithStats.length);
 
+    // ✉️ Invitations non acceptées (en attente, expirées ou révoquées)
+    const invitations = (await listInvitations({ companyId }))
+      .filter(invitation => invitation.status !== 'accepted');
+
     return res.json({
       success: true,
-      users: usersWithStats
+      users: usersWithStats,
+      invitations
     });
 
   } catch (err: any) {
@@ -162,7 +191,7 @@ bot_icon: (() => {
 /**
  * 🤖 GET /admin/user-management/companies/:companyId/available-bots
  */
-router.get("/companies/:companyId/available-bots", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/companies/:companyId/available-bots", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
     console.log("🤖 [USER-MGMT] Récupération bots disponibles pour", companyId);
@@ -265,16 +294,36 @@ console.log("🔍 [DEBUG] isNaoAdmin:", isNaoAdmin);
     });
 
   } catch (err: any) {
-    console.error("❌ [USER-MGMT] Exception:", (err: any as Error).message);
+    console.error("❌ [USER-MGMT] Exception:", (err as Error).message);
     res.status(500).json({ error: "Erreur serveur." });
   }
 });
 
+/**
+ * 💺 GET /admin/user-management/companies/:companyId/seats?bot_id=
+ * Sièges attribués / disponibles par licence (bot) et utilisateurs qui les occupent
+ */
+router.get(
+  "/companies/:companyId/seats",
+  requireAuth('company_admin'),
+  validate(companyIdParamSchema, 'params'),
+  requireCompanyAccess(),
+  validate(seatUsageQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res) => {
+    const seats = await getCompanySeatUsage(req.params.companyId, req.query.bot_id as string | undefined);
+    if (!seats) {
+      return res.status(500).json({ success: false, error: "Erreur lors de la récupération des sièges." });
+    }
+
+    return res.json({ success: true, data: seats });
+  }
+);
+
 /**
  * ✏️ PUT /admin/user-management/users/:userId
  * ROUTE POUR LE FRONTEND
  */
-router.put("/users/:userId", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.put("/users/:userId", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { userId } = req.params;
     console.log("🔍 [UPDATE USER] req.body COMPLET:", JSON.stringify(req.body, null, 2));
@@ -296,6 +345,12 @@ router.put("/users/:userId", adminGuard, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: "Champs obligatoires manquants." });
     }
 
+    // Rôles attribuables : administrateur d'entreprise limité à user / company_admin
+    const assignableRoles: readonly string[] = hasPermission(req.user, 'admin') ? ROLES : ['user', 'company_admin'];
+    if (role !== undefined && !assignableRoles.includes(role)) {
+      return res.status(403).json({ success: false, error: "Rôle non attribuable.", code: "ROLE_FORBIDDEN" });
+    }
+
    const { data: updatedUser, error: updateError } = await supabase
   .from('users')
   .update({
@@ -321,14 +376,21 @@ router.put("/users/:userId", adminGuard, async (req: AuthenticatedRequest, res)
 
     console.log("✅ [UPDATE USER] Utilisateur mis à jour:", updatedUser);
 
+    // Utilisateur désactivé : ses sièges sont rendus au pool de la licence
+    let releasedSeats = 0;
+    if (status && status !== 'active') {
+      releasedSeats = (await releaseUserSeats(userId)) || 0;
+    }
+
     return res.json({
       success: true,
       message: "Profil mis à jour avec succès",
-      user: updatedUser
+      user: updatedUser,
+      released_seats: releasedSeats
     });
 
   } catch (err: any) {
-    console.error("❌ [USER-MGMT] Exception:", (err: any as Error).message);
+    console.error("❌ [USER-MGMT] Exception:", (err as Error).message);
     res.status(500).json({ success: false, error: "Erreur serveur." });
   }
 });
@@ -336,7 +398,7 @@ router.put("/users/:userId", adminGuard, async (req: AuthenticatedRequest, res)
 /**
  * 🤖 POST /admin/user-management/users/:userId/bots/:botId
  */
-router.post("/users/:userId/bots/:botId", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.post("/users/:userId/bots/:botId", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { userId, botId } = req.params;
     console.log("🤖 [ASSIGN] Assignation bot:", botId, "à user:", userId);
@@ -352,8 +414,8 @@ router.post("/users/:userId/bots/:botId", adminGuard, async (req: AuthenticatedR
       return res.status(404).json({ success: false, error: "Utilisateur non trouvé." });
     }
 
-// ✅ Logique admin : Si c'est NAO&CO admin, créer une licence si elle n'existe pas
-const isNaoAdmin = user.company_id === 'e38a3744-9be7-4481-b118-c84f18b37389';
+// ✅ Logique admin : Si c'est NAO&CO admin, créer une licence si elle n'existe pas (admin NAO&CO uniquement)
+const isNaoAdmin = user.company_id === 'e38a3744-9be7-4481-b118-c84f18b37389' && hasPermission(req.user, 'admin');
 console.log("🔍 [ASSIGN] user.company_id:", user.company_id);
 console.log("🔍 [ASSIGN] isNaoAdmin:", isNaoAdmin);
   
@@ -423,49 +485,27 @@ const { data: existing, error: existingError } = await supabase
 
 console.log("🔍 [ASSIGN] Existing access:", existing);
 
-if (existing) {
-  if (existing.status === 'active') {
-    return res.status(400).json({ success: false, error: "Bot déjà assigné à cet utilisateur." });
-  } else {
-    // Réactiver l'assignation existante ET changer la licence
-    console.log("🔄 [ASSIGN] Réactivation de l'accès existant avec nouvelle licence");
-    const { error: updateError } = await supabase
-      .from('user_bot_access')
-      .update({
-        status: 'active',
-        license_id: licenseId, // ✅ AJOUT : Nouvelle licence
-        assigned_at: new Date().toISOString()
-      })
-      .eq('id', existing.id);
-
-    if (updateError) {
-      console.error("❌ [ASSIGN] Erreur réactivation:", updateError);
-      return res.status(500).json({ success: false, error: "Erreur lors de la réactivation." });
-    }
+if (existing?.status === 'active') {
+  return res.status(400).json({ success: false, error: "Bot déjà assigné à cet utilisateur." });
+}
 
-    console.log("✅ [ASSIGN] Bot réactivé avec succès");
-    return res.json({
-      success: true,
-      message: "Bot réactivé avec succès"
-    });
+// Nouvelle assignation, ou réactivation de l'accès existant sur la licence : siège réservé atomiquement
+try {
+  await claimSeat(licenseId, userId, existing?.id || null);
+} catch (err) {
+  if (err instanceof SeatError) {
+    return res.status(err.status).json({ success: false, error: err.message, code: err.code, ...err.details });
   }
+  console.error("❌ [ASSIGN] Erreur attribution:", (err as Error).message);
+  return res.status(500).json({ success: false, error: "Erreur lors de l'assignation." });
 }
 
-// Créer 1 assignation
-const { error: insertError } = await supabase
-  .from('user_bot_access')
-  .insert({
-    user_id: userId,
-    license_id: licenseId,
-    status: 'active',
-    assigned_at: new Date().toISOString(),
-    max_tokens: 50000, // Valeur par défaut
-    quota_used: 0
+if (existing) {
+  console.log("✅ [ASSIGN] Bot réactivé avec succès");
+  return res.json({
+    success: true,
+    message: "Bot réactivé avec succès"
   });
-
-    if (insertError) {
-  console.error("❌ [ASSIGN] Erreur insertion DÉTAILLÉE:", JSON.stringify(insertError, null, 2));
-  return res.status(500).json({ success: false, error: "Erreur lors de l'assignation." });
 }
 
     return res.json({
@@ -474,7 +514,7 @@ const { error: insertError } = await supabase
     });
 
   } catch (err: any) {
-    console.error("❌ [ASSIGN] Exception:", (err: any as Error).message);
+    console.error("❌ [ASSIGN] Exception:", (err as Error).message);
     res.status(500).json({ success: false, error: "Erreur serveur." });
   }
 });
@@ -482,7 +522,7 @@ const { error: insertError } = await supabase
 /**
  * 🗑️ DELETE /admin/user-management/users/:userId/bots/:botId
  */
-router.delete("/users/:userId/bots/:botId", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.delete("/users/:userId/bots/:botId", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { userId, botId } = req.params;
     console.log("🗑️ [REVOKE] Révocation bot:", botId, "pour user:", userId);
@@ -535,16 +575,301 @@ const licenseId = Array.isArray(license) ? license[0].id : license.id;
     });
 
   } catch (err: any) {
-    console.error("❌ [REVOKE] Exception:", (err: any as Error).message);
+    console.error("❌ [REVOKE] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 💻 GET /admin/user-management/users/:userId/sessions
+ * Sessions actives d'un utilisateur (appareil, IP, dernière activité)
+ */
+router.get("/users/:userId/sessions", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const sessions = await listUserSessions(userId);
+    if (!sessions) {
+      return res.status(500).json({ success: false, error: "Erreur lors de la récupération des sessions." });
+    }
+
+    return res.json({ success: true, data: sessions });
+
+  } catch (err: any) {
+    console.error("❌ [SESSIONS] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 🚪 DELETE /admin/user-management/users/:userId/sessions
+ * Déconnexion forcée : révoque toutes les sessions (refresh et access tokens)
+ */
+router.delete("/users/:userId/sessions", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const revoked = await revokeAllUserTokens(userId, 'revoked_by_admin');
+    if (revoked === null) {
+      return res.status(500).json({ success: false, error: "Erreur lors de la révocation des sessions." });
+    }
+
+    console.log("🚪 [SESSIONS] Sessions révoquées:", revoked, "pour user:", userId, "par admin:", req.user?.id);
+
+    return res.json({
+      success: true,
+      message: "Sessions révoquées avec succès",
+      data: { revoked_sessions: revoked }
+    });
+
+  } catch (err: any) {
+    console.error("❌ [SESSIONS] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 🚫 DELETE /admin/user-management/users/:userId/sessions/:sessionId
+ */
+router.delete("/users/:userId/sessions/:sessionId", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId, sessionId } = req.params;
+
+    const revoked = await revokeUserSession(userId, sessionId, 'revoked_by_admin');
+    if (revoked === null) {
+      return res.status(500).json({ success: false, error: "Erreur lors de la révocation de la session." });
+    }
+    if (!revoked) {
+      return res.status(404).json({ success: false, error: "Session non trouvée." });
+    }
+
+    console.log("🚫 [SESSIONS] Session révoquée:", sessionId, "pour user:", userId, "par admin:", req.user?.id);
+
+    return res.json({ success: true, message: "Session révoquée avec succès" });
+
+  } catch (err: any) {
+    console.error("❌ [SESSIONS] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 🔐 DELETE /admin/user-management/users/:userId/2fa
+ * Réinitialise la 2FA (appareil perdu) : l'utilisateur devra se réenrôler
+ */
+router.delete("/users/:userId/2fa", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user) {
+      return res.status(404).json({ success: false, error: "Utilisateur non trouvé." });
+    }
+
+    if (!await removeTwoFactor(userId)) {
+      return res.status(500).json({ success: false, error: "Erreur lors de la réinitialisation 2FA." });
+    }
+
+    console.log("🔐 [2FA] 2FA réinitialisée pour user:", userId, "par admin:", req.user?.id);
+
+    return res.json({ success: true, message: "Double authentification réinitialisée avec succès" });
+
+  } catch (err: any) {
+    console.error("❌ [2FA] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 🔒 GET /admin/user-management/users/:userId/lockout
+ * État du verrouillage (échecs de connexion en cours, fin du verrouillage)
+ */
+router.get("/users/:userId/lockout", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, email')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user) {
+      return res.status(404).json({ success: false, error: "Utilisateur non trouvé." });
+    }
+
+    return res.json({ success: true, data: await getLockoutStatus(user.email) });
+
+  } catch (err: any) {
+    console.error("❌ [LOCKOUT] Exception:", (err as Error).message);
+    res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 🔓 POST /admin/user-management/users/:userId/unlock
+ * Lève le verrouillage et remet à zéro les échecs de connexion
+ */
+router.post("/users/:userId/unlock", requireAuth('company_admin'), requireUserAccess(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, email')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user) {
+      return res.status(404).json({ success: false, error: "Utilisateur non trouvé." });
+    }
+
+    await unlockAccount(user.email);
+
+    console.log("🔓 [LOCKOUT] Compte déverrouillé:", userId, "par admin:", req.user?.id);
+
+    return res.json({ success: true, message: "Compte déverrouillé avec succès" });
+
+  } catch (err: any) {
+    console.error("❌ [LOCKOUT] Exception:", (err as Error).message);
     res.status(500).json({ success: false, error: "Erreur serveur." });
   }
 });
 
+// ✉️ INVITATIONS
+
+/**
+ * Réponse d'erreur commune (erreurs métier invitation ou 500)
+ */
+function sendInvitationError(res: express.Response, err: unknown, action: string, adminId?: string) {
+  if (err instanceof InvitationError) {
+    return res.status(err.status).json({ success: false, error: err.message, code: err.code });
+  }
+  console.error(`❌ [INVITATIONS] Exception ${action}:`, (err as Error).message, "admin:", adminId);
+  return res.status(500).json({ success: false, error: "Erreur serveur." });
+}
+
+/**
+ * Invitation ciblée par :invitationId, dans le périmètre de l'administrateur (sinon réponse envoyée)
+ */
+async function loadInvitation(req: AuthenticatedRequest, res: express.Response): Promise<Invitation | null> {
+  const invitation = await getInvitation(req.params.invitationId);
+  if (!invitation) {
+    res.status(404).json({ success: false, error: "Invitation non trouvée." });
+    return null;
+  }
+  if (!canAccessCompany(req.user!, invitation.company_id)) {
+    sendAuthError(res, 'COMPANY_FORBIDDEN');
+    return null;
+  }
+  return invitation;
+}
+
+/**
+ * 📋 GET /admin/user-management/invitations?status=&company_id=
+ * (administrateur d'entreprise : invitations de son entreprise uniquement)
+ */
+router.get("/invitations", requireAuth('company_admin'), validate(invitationsQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+  const companyId = getCompanyScope(req.user!) || (req.query.company_id as string | undefined);
+
+  const invitations = await listInvitations({
+    companyId,
+    status: req.query.status as Invitation['status'] | undefined
+  });
+
+  return res.json({ success: true, data: invitations, count: invitations.length });
+});
+
+/**
+ * ✉️ POST /admin/user-management/invitations
+ * Body: email, company_id (admin), role, bot_ids, first_name, last_name, job_title
+ */
+router.post("/invitations", requireAuth('company_admin'), sanitize, validate(createInvitationSchema), async (req: AuthenticatedRequest, res) => {
+  const companyId = getCompanyScope(req.user!) || req.body.company_id;
+  if (!companyId) {
+    return res.status(400).json({ success: false, error: "Entreprise requise (company_id)." });
+  }
+
+  const role = req.body.role || 'user';
+  const assignableRoles: readonly string[] = hasPermission(req.user, 'admin') ? ROLES : ['user', 'company_admin'];
+  if (!assignableRoles.includes(role)) {
+    return res.status(403).json({ success: false, error: "Rôle non attribuable.", code: "ROLE_FORBIDDEN" });
+  }
+
+  try {
+    const { invitation, emailSent } = await createInvitation({
+      email: req.body.email,
+      company_id: companyId,
+      role,
+      bot_ids: req.body.bot_ids || [],
+      first_name: req.body.first_name,
+      last_name: req.body.last_name,
+      job_title: req.body.job_title
+    }, req.user!.id);
+
+    return res.status(201).json({
+      success: true,
+      message: emailSent ? "Invitation envoyée" : "Invitation créée, mais l'email n'a pas pu être envoyé (renvoi possible)",
+      data: invitation,
+      email_sent: emailSent
+    });
+
+  } catch (err) {
+    return sendInvitationError(res, err, 'création', req.user?.id);
+  }
+});
+
+/**
+ * 🔁 POST /admin/user-management/invitations/:invitationId/resend
+ * Nouveau lien (l'ancien devient invalide) et nouvelle échéance
+ */
+router.post("/invitations/:invitationId/resend", requireAuth('company_admin'), validate(invitationIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invitation = await loadInvitation(req, res);
+    if (!invitation) return;
+
+    const { invitation: resent, emailSent } = await resendInvitation(invitation);
+
+    return res.json({
+      success: true,
+      message: emailSent ? "Invitation renvoyée" : "Lien renouvelé, mais l'email n'a pas pu être envoyé",
+      data: resent,
+      email_sent: emailSent
+    });
+
+  } catch (err) {
+    return sendInvitationError(res, err, 'renvoi', req.user?.id);
+  }
+});
+
+/**
+ * 🗑️ DELETE /admin/user-management/invitations/:invitationId
+ * Révoque une invitation en attente : le lien ne fonctionne plus
+ */
+router.delete("/invitations/:invitationId", requireAuth('company_admin'), validate(invitationIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invitation = await loadInvitation(req, res);
+    if (!invitation) return;
+
+    const revoked = await revokeInvitation(invitation, req.user!.id);
+
+    return res.json({ success: true, message: "Invitation révoquée", data: revoked });
+
+  } catch (err) {
+    return sendInvitationError(res, err, 'révocation', req.user?.id);
+  }
+});
+
 // ✅ Route ajoutée pour la liste des bots disponibles
-router.get('/bots/available', adminGuard, async (req, res) => {
+router.get('/bots/available', requireAuth('admin'), async (req, res) => {
   try {
     const { data, error } = await supabase.from('bots').select('*');
-    if (err: anyor) throw error;
+    if (error) throw error;
     res.json(data);
   } catch (err: any) {
     console.error("Erreur récupération bots:", err);
@@ -555,16 +880,24 @@ router.get('/bots/available', adminGuard, async (req, res) => {
 /**
  * 📊 GET /admin/dashboard/bot-stats
  * UNE SEULE ROUTE QUI MARCHE !
+ * (administrateur d'entreprise : usage de son entreprise uniquement)
  */
-router.get("/dashboard/bot-stats", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/dashboard/bot-stats", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
     console.log("📊 [DASHBOARD] Récupération statistiques bots actifs");
 
-    const { data: botStats, error: statsError } = await supabase
+    const companyScope = getCompanyScope(req.user!);
+    let statsQuery = supabase
       .from('openai_token_usage')
       .select('*')
       .not('bot_id', 'is', null);
 
+    if (companyScope) {
+      statsQuery = statsQuery.eq('company_id', companyScope);
+    }
+
+    const { data: botStats, error: statsError } = await statsQuery;
+
     if (statsError) {
       console.error("❌ [DASHBOARD] Erreur:", statsError);
       return res.status(500).json({ 
@@ -703,7 +1036,7 @@ router.get("/dashboard/bot-stats", adminGuard, async (req: AuthenticatedRequest,
     });
 
   } catch (err: any) {
-    console.error("❌ [DASHBOARD] Exception:", (err: any as Error).message);
+    console.error("❌ [DASHBOARD] Exception:", (err as Error).message);
     res.status(500).json({ 
       success: false, 
       error: "Erreur serveur." 
@@ -7,20 +7,27 @@ const { supabase } = require('../utils/supabase');
 import express from 'express';
 import logger from '../utils/logger';
 import { validate, sanitize } from '../middlewares/validate';
-import { askSchema, botsQuerySchema } from '../schemas/assistant.schema';
-import { legacyAuthGuard } from '../middlewares/authguard';
+import { askSchema, botsQuerySchema, runIdParamSchema } from '../schemas/assistant.schema';
+import { requireAuth } from '../middlewares/authguard';
+import conversationRoutes from './conversations';
+import feedbackRoutes from './feedback';
+import documentRoutes from './documents';
+import { findAttachableDocuments } from '../services/documentService';
+import { requestRunCancellation, RunCancelledError } from '../services/runControlService';
 
 // 🚀 IMPORT DES SERVICES MODULAIRES
 import { 
   processAssistantQuestion,
+  streamAssistantQuestion,
   getAvailableBots 
 } from '../services/assistantService';
 
 import { 
-  jwtAuthGuard,
   enterpriseLicenseGuard,
   usageLoggingMiddleware 
 } from '../middlewares/assistantAuth';
+import { tokenBudgetGuard } from '../middlewares/tokenBudget';
+import { apiKeyAuth, apiKeyBotScopeGuard } from '../middlewares/apiKeyAuth';
 
 import {
   getUserDetailedStats,
@@ -31,24 +38,160 @@ import {
 
 const router = express.Router();
 
+// 📎 DOCUMENTS JOINTS
+
+/**
+ * Vérifie que les file_ids de /ask appartiennent à l'utilisateur pour ce bot
+ */
+async function attachmentsGuard(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const fileIds: string[] = req.body.file_ids || [];
+  if (fileIds.length === 0) {
+    return next();
+  }
+
+  try {
+    const documents = await findAttachableDocuments(req.user!.id, req.body.chatbot_id, fileIds);
+    const found = new Set(documents.map(d => d.file_id));
+    const missing = fileIds.filter(id => !found.has(id));
+
+    if (missing.length > 0) {
+      return res.status(404).json({
+        error: "Document non trouvé.",
+        code: 'DOCUMENT_NOT_FOUND',
+        file_ids: missing
+      });
+    }
+  } catch (err) {
+    logger.error("❌ Erreur vérification documents joints", {
+      userId: req.user?.id,
+      error: (err as Error).message
+    });
+    return res.status(500).json({ error: "Erreur serveur." });
+  }
+
+  next();
+}
+
+// 📡 HELPERS SSE
+
+/**
+ * Écrit un événement Server-Sent Events
+ */
+function writeSseEvent(res: express.Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Handler streaming de /ask : relaie les deltas OpenAI en SSE
+ * Événements : run { run_id }, delta { text }, done { answer, citations, message_id, run_id, tokens_used, preferences_applied },
+ * cancelled { reason, run_id, tokens_used }, error { error }
+ * (done.answer remplace le texte streamé : annotations brutes → marqueurs [n])
+ */
+async function handleAskStream(req: express.Request, res: express.Response) {
+  const startTime = Date.now();
+  const { question, chatbot_id, preferences, file_ids } = req.body;
+  const user = req.user!;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Fermeture de la connexion côté client → interruption du run
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const result = await streamAssistantQuestion(
+      user.id,
+      chatbot_id,
+      question,
+      preferences,
+      {
+        onDelta: (text) => writeSseEvent(res, 'delta', { text }),
+        onRunStarted: (runId) => writeSseEvent(res, 'run', { run_id: runId }),
+        signal: controller.signal
+      },
+      file_ids
+    );
+
+    if (result.aborted) {
+      // Bouton stop ou délai dépassé : le client est encore là
+      if (result.cancel_reason !== 'client_disconnected' && !res.writableEnded) {
+        writeSseEvent(res, 'cancelled', {
+          reason: result.cancel_reason,
+          run_id: result.run_id,
+          tokens_used: result.tokens_used
+        });
+        res.end();
+      }
+      return;
+    }
+
+    logger.info('✅ Requête assistant streamée', {
+      userId: user.id,
+      chatbotId: chatbot_id,
+      tokens: result.tokens_used,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    writeSseEvent(res, 'done', {
+      answer: result.answer,
+      citations: result.citations,
+      message_id: result.message_id,
+      run_id: result.run_id,
+      tokens_used: result.tokens_used,
+      preferences_applied: result.preferences_applied
+    });
+    res.end();
+
+  } catch (error) {
+    logger.error('❌ Erreur streaming assistant', {
+      userId: user.id,
+      error: (error as Error).message,
+      processingTime: `${Date.now() - startTime}ms`
+    });
+
+    if (!res.writableEnded) {
+      writeSseEvent(res, 'error', {
+        error: "Erreur serveur Assistant",
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+      res.end();
+    }
+  }
+}
+
 // 🤖 ROUTE PRINCIPALE - INTERACTION AVEC ASSISTANT
 router.post("/ask", 
-  // Auth JWT + Licences + Logging
-  jwtAuthGuard,
+  // Auth clé API ou JWT + Licences + Logging
+  apiKeyAuth,
+  requireAuth(),
  // enterpriseLicenseGuard,
   usageLoggingMiddleware,
   
   // Validation des données
   sanitize,
   validate(askSchema, 'body'),
+
+  // Périmètre clé API + budget tokens entreprise + documents joints
+  apiKeyBotScopeGuard,
+  tokenBudgetGuard,
+  attachmentsGuard,
   
   // Handler principal
   async (req, res) => {
     const startTime = Date.now();
     
     try {
-      const { question, chatbot_id, preferences } = req.body;
-      const user = req.user!; // Garanti par jwtAuthGuard
+      const { question, chatbot_id, preferences, file_ids } = req.body;
+      const user = req.user!; // Garanti par requireAuth
       
       logger.debug('🤖 Nouvelle requête assistant', {
         userId: user.id,
@@ -64,12 +207,27 @@ router.post("/ask",
         });
       }
 
+      // 📡 Le client demande un flux SSE
+      if (req.get('Accept')?.includes('text/event-stream')) {
+        return handleAskStream(req, res);
+      }
+
+      // Fermeture de la connexion côté client → annulation du run
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          controller.abort();
+        }
+      });
+
       // ✅ TRAITEMENT VIA SERVICE MODULAIRE
       const result = await processAssistantQuestion(
         user.id,
         chatbot_id,
         question,
-        preferences // Préférences frontend en priorité
+        preferences, // Préférences frontend en priorité
+        file_ids,
+        controller.signal
       );
 
       const processingTime = Date.now() - startTime;
@@ -82,12 +240,44 @@ router.post("/ask",
 
       return res.json({
         answer: result.answer,
+        citations: result.citations,
+        message_id: result.message_id,
+        run_id: result.run_id,
         tokens_used: result.tokens_used,
         preferences_applied: result.preferences_applied
       });
       
     } catch (error) {
       const processingTime = Date.now() - startTime;
+
+      if (error instanceof RunCancelledError) {
+        logger.info('⏹️ Requête assistant annulée', {
+          userId: req.user?.id,
+          runId: error.runId,
+          reason: error.reason,
+          tokens: error.tokensUsed,
+          processingTime: `${processingTime}ms`
+        });
+
+        if (error.reason === 'client_disconnected' || res.writableEnded) {
+          return;
+        }
+        if (error.reason === 'timeout') {
+          return res.status(504).json({
+            error: "L'assistant n'a pas répondu dans le délai imparti.",
+            code: 'ASSISTANT_TIMEOUT',
+            run_id: error.runId,
+            tokens_used: error.tokensUsed
+          });
+        }
+        return res.status(409).json({
+          error: "Requête annulée.",
+          code: 'RUN_CANCELLED',
+          run_id: error.runId,
+          tokens_used: error.tokensUsed
+        });
+      }
+
       logger.error('❌ Erreur requête assistant', {
         userId: req.user?.id,
         error: (error as Error).message,
@@ -102,12 +292,59 @@ router.post("/ask",
   }
 );
 
+// 📡 ROUTE STREAMING - MÊME CONTRAT QUE /ask EN SERVER-SENT EVENTS
+router.post("/ask/stream",
+  apiKeyAuth,
+  requireAuth(),
+  usageLoggingMiddleware,
+  sanitize,
+  validate(askSchema, 'body'),
+  apiKeyBotScopeGuard,
+  tokenBudgetGuard,
+  attachmentsGuard,
+  handleAskStream
+);
+
+// ⏹️ BOUTON STOP - ANNULE UN RUN EN COURS DE L'UTILISATEUR
+router.post("/runs/:runId/cancel",
+  apiKeyAuth,
+  requireAuth(),
+  validate(runIdParamSchema, 'params'),
+  async (req, res) => {
+    try {
+      const { runId } = req.params;
+      const cancelled = await requestRunCancellation(req.user!.id, runId);
+
+      if (!cancelled) {
+        return res.status(404).json({
+          error: "Aucun run en cours avec cet identifiant.",
+          code: 'RUN_NOT_FOUND'
+        });
+      }
+
+      // La requête /ask en cours se termine (cancelled) avec l'usage partiel
+      return res.status(202).json({
+        success: true,
+        data: { run_id: runId, status: 'cancelling' }
+      });
+
+    } catch (error) {
+      logger.error('❌ Erreur annulation run', {
+        userId: req.user?.id,
+        runId: req.params.runId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
 // 🤖 ROUTE BOTS UTILISATEUR (avec licences actives)
 router.get("/user-bots", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
-      const userId = req.user?.sub || req.user?.id;
+      const userId = req.user?.id;
       
       if (!userId) {
         return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -158,7 +395,7 @@ return res.json({
     } catch (err) {
       logger.error("❌ Erreur route /user-bots", { 
         error: (err as Error).message,
-        userId: req.user?.sub || req.user?.id
+        userId: req.user?.id
       });
       return res.status(500).json({ error: "Erreur serveur." });
     }
@@ -167,7 +404,7 @@ return res.json({
 
 // 🤖 ROUTE LISTE DES BOTS
 router.get("/bots", 
-  legacyAuthGuard, 
+  requireAuth(),
   sanitize, 
   validate(botsQuerySchema, 'query'), 
   async (req, res) => {
@@ -184,7 +421,7 @@ router.get("/bots",
       }
 
       const botNames = bots.map((bot: any) => bot.name);
-      const availableBots = getAvailableBots(); // Bots avec assistant configuré
+      const availableBots = await getAvailableBots(); // Bots actifs avec assistant configuré (registre)
       
       logger.info("✅ Liste des bots récupérée", { 
         total: botNames.length,
@@ -209,7 +446,7 @@ router.get("/bots",
  * Stats détaillées utilisateur
  */
 router.get("/usage-stats/:userId", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
       const { userId } = req.params;
@@ -241,7 +478,7 @@ router.get("/usage-stats/:userId",
  * Stats entreprise détaillées
  */
 router.get("/company-stats/:companyId", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
       const { companyId } = req.params;
@@ -279,7 +516,7 @@ router.get("/company-stats/:companyId",
  * Analytics avancées avec période
  */
 router.get("/analytics/:userId", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
       const { userId } = req.params;
@@ -317,7 +554,7 @@ router.get("/analytics/:userId",
  * Debug tokens (développement)
  */
 router.get("/debug-tokens/:userId", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
       // Restriction : seulement en développement ou pour les admins
@@ -347,7 +584,7 @@ router.get("/debug-tokens/:userId",
 
 // 🧪 ROUTE DE TEST SANCTIONS RUSSES
 router.get("/test-sanctions", 
-  legacyAuthGuard, 
+  requireAuth(),
   async (req, res) => {
     try {
       // Import de la fonction de test
@@ -367,6 +604,15 @@ router.get("/test-sanctions",
   }
 );
 
+// 💬 HISTORIQUE DES CONVERSATIONS
+router.use('/conversations', conversationRoutes);
+
+// 👍 FEEDBACK SUR LES RÉPONSES
+router.use('/feedback', feedbackRoutes);
+
+// 📎 DOCUMENTS JOINTS AUX QUESTIONS
+router.use('/files', documentRoutes);
+
 // 🔍 ROUTE DE SANTÉ
 router.get("/health", (req, res) => {
   res.json({
@@ -4,67 +4,91 @@ import express from "express";
 import bcrypt from "bcrypt";
 import jwt, { SignOptions } from "jsonwebtoken";
 
-import { v4 as uuidv4 } from 'uuid';
 import logger from "../utils/logger";
 import config from "../utils/config";
-import { legacyAuthGuard, AuthenticatedRequest } from "../middlewares/authguard";
+import { requireAuth, AuthenticatedRequest } from "../middlewares/authguard";
 import { validate, sanitize } from '../middlewares/validate';
-import { loginSchema, refreshTokenSchema, logoutSchema } from '../schemas/auth.schema';
+import {
+  loginSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  sessionIdParamSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorVerifySchema,
+  twoFactorSetupSchema,
+  twoFactorEnableSchema,
+  twoFactorCodeSchema
+} from '../schemas/auth.schema';
+import {
+  forgotPasswordRateLimiterRedis,
+  passwordResetRateLimiterRedis,
+  twoFactorRateLimiterRedis
+} from '../middlewares/rateLimiterRedis';
 import registerRouter from './register';
+import ssoRouter from './sso';
+import invitationsRouter from './invitations';
 import { getCompanyLicenses } from '../services/licenseService';
+import { getAccessibleBots, completeLogin, LOGIN_USER_FIELDS } from '../services/authService';
+import {
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeTokenFamily,
+  listUserSessions,
+  revokeUserSession,
+  revokeAllUserTokens
+} from '../services/refreshTokenService';
+import { requestPasswordReset, resetPassword } from '../services/passwordResetService';
+import { getLoginBlock, recordLoginFailure, resetLoginFailures } from '../services/accountLockoutService';
+import { sendAccountLockedEmail } from '../utils/email';
+import {
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  getTwoFactorStatus,
+  startEnrollment,
+  confirmEnrollment,
+  verifyTwoFactorCode,
+  regenerateBackupCodes,
+  removeTwoFactor,
+  createChallengeToken,
+  verifyChallengeToken
+} from '../services/twoFactorService';
 
 const router = express.Router();
 
+// 🔒 Tentative refusée : compte verrouillé (423) ou délai progressif en cours (429)
+function sendLoginBlocked(res: express.Response, reason: 'locked' | 'throttled', retryAfterSeconds: number) {
+  res.set('Retry-After', String(retryAfterSeconds));
 
+  if (reason === 'locked') {
+    return res.status(423).json({
+      error: "Compte temporairement verrouillé suite à de trop nombreuses tentatives de connexion.",
+      code: "ACCOUNT_LOCKED",
+      retryAfter: retryAfterSeconds
+    });
+  }
 
-// 📝 Fonction pour récupérer les bots accessibles via logique BtoB
-async function getAccessibleBots(userId: string): Promise<string[]> {
-  try {
-    // 1. Récupérer l'entreprise de l'utilisateur
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('company_id')
-      .eq('id', userId)
-      .single();
+  return res.status(429).json({
+    error: "Trop de tentatives de connexion. Patientez avant de réessayer.",
+    code: "LOGIN_THROTTLED",
+    retryAfter: retryAfterSeconds
+  });
+}
 
-    if (userError || !userData?.company_id) {
-      logger.error("❌ Utilisateur sans entreprise", { 
-        error: userError?.message,
-        userId
-      });
-      return [];
-    }
+/**
+ * Enregistre un échec (mot de passe ou code 2FA) et prévient l'utilisateur si son compte est verrouillé
+ */
+async function handleLoginFailure(res: express.Response, email: string, userExists: boolean, body: { error: string; code?: string }) {
+  const outcome = await recordLoginFailure(email);
 
-    // 2. Récupérer les licences de l'entreprise (nouvelle logique BtoB)
-    const licenses = await getCompanyLicenses(userData.company_id);
-    
-    if (!licenses || licenses.length === 0) {
-      logger.warn("⚠️ Aucune licence trouvée pour l'entreprise", { 
-        userId, 
-        companyId: userData.company_id 
-      });
-      return [];
+  if (outcome.locked) {
+    if (userExists) {
+      sendAccountLockedEmail(email, outcome.lockedUntil!).catch(() => undefined);
     }
-
-    // 3. Extraire les noms des bots
-    const botNames = licenses
-      .map(license => license.bot_name)
-      .filter(name => name !== undefined && name !== null);
-
-    logger.info("✅ Bots accessibles récupérés (logique BtoB)", { 
-      userId, 
-      companyId: userData.company_id,
-      botCount: botNames.length 
-    });
-    
-    return botNames;
-  } catch (err) {
-    logger.error("❌ Erreur interne lors de la récupération des bots", { 
-      error: (err as Error).message,
-      userId
-    });
-    return [];
+    return sendLoginBlocked(res, 'locked', config.lockout.lockMinutes * 60);
   }
+
+  return res.status(401).json(body);
 }
 
 // 🔑 Connexion
@@ -74,9 +98,15 @@ router.post("/login", sanitize, validate(loginSchema), async (req, res) => {
   const ip = req.ip || 'unknown';
 
   try {
+    const block = await getLoginBlock(email);
+    if (block) {
+      logger.warn("🔒 Tentative de connexion bloquée", { email, reason: block.reason });
+      return sendLoginBlocked(res, block.reason, block.retryAfterSeconds);
+    }
+
     const { data: users, error } = await supabase
       .from("users")
-      .select("id, email, role, password_hash, first_name, last_name, first_login, company_id")
+      .select(`${LOGIN_USER_FIELDS}, password_hash`)
       .eq("email", email)
       .limit(1);
 
@@ -89,7 +119,7 @@ router.post("/login", sanitize, validate(loginSchema), async (req, res) => {
 
     if (!users || users.length === 0) {
       logger.warn("❌ Utilisateur non trouvé", { email });
-      return res.status(401).json({ error: "Identifiants invalides." });
+      return handleLoginFailure(res, email, false, { error: "Identifiants invalides." });
     }
 
     const user = users[0];
@@ -97,155 +127,240 @@ router.post("/login", sanitize, validate(loginSchema), async (req, res) => {
     const valid = await bcrypt.compare(password, user.password_hash);
     if (!valid) {
       logger.warn("❌ Mot de passe incorrect", { email });
-      return res.status(401).json({ error: "Identifiants invalides." });
+      return handleLoginFailure(res, user.email, true, { error: "Identifiants invalides." });
     }
 
-    // Récupération des bots accessibles
-    let accessibleBots: string[] = [];
-    if (user.role === "admin") {
-      logger.info("👑 Utilisateur admin connecté", { userId: user.id });
-      const { data: allBots, error: botError } = await supabase
-        .from("bots")
-        .select("name");
-
-      if (botError) {
-        logger.error("❌ Erreur lors de la récupération des bots", { 
-          error: botError.message 
-        });
-        return res.status(500).json({ error: "Erreur serveur lors de la récupération des bots." });
-      }
-
-      accessibleBots = allBots.map((bot: any) => bot.name);
-    } else {
-      // Nouvelle logique BtoB
-      accessibleBots = await getAccessibleBots(user.id);
-      if (accessibleBots.length === 0) {
-        return res.status(403).json({ error: "Aucun bot accessible avec votre licence d'entreprise." });
-      }
+    // 🔐 Double authentification : challenge au lieu des tokens
+    if (await isTwoFactorEnabled(user.id)) {
+      logger.info("🔐 Code 2FA requis", { userId: user.id });
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: createChallengeToken(user.id, 'verify'),
+        expiresIn: config.twoFactor.challengeTtlSeconds
+      });
     }
 
-    // Générer les tokens
-const jwtPayload = { id: user.id, email: user.email, role: user.role };
-    const jwtSecret = config.jwt.secret;
-    const jwtOptions: jwt.SignOptions = { expiresIn: config.jwt.expiresIn as string || "2h" };
-    const accessToken = jwt.sign(jwtPayload, jwtSecret, jwtOptions);
-    
-    // Générer un refresh token
-    const refreshTokenId = uuidv4();
-const refreshPayload = { id: user.id, tokenId: refreshTokenId };
-    const refreshSecret = config.jwt.secret;
-    const refreshOptions: jwt.SignOptions = { expiresIn: config.jwt.refreshExpiresIn as string || "7d" };
-    const refreshToken = jwt.sign(refreshPayload, refreshSecret, refreshOptions);
-    
-    // Sauvegarder le refresh token
-    const tokenHash = await bcrypt.hash((refreshToken as string).split('.')[2], 10);
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-    
-    const { error: tokenError } = await supabase
-      .from('refresh_tokens')
-      .insert([
-        { 
-          user_id: user.id, 
-          token_hash: tokenHash,
-          expires_at: expiresAt,
-          user_agent: userAgent,
-          ip_address: ip,
-          is_revoked: false
-        }
-      ]);
-      
-    if (tokenError) {
-      logger.error("❌ Erreur lors de la sauvegarde du refresh token", { 
-        error: tokenError.message,
-        userId: user.id
+    await resetLoginFailures(user.email);
+
+    if (isTwoFactorRequired(user.role)) {
+      logger.warn("🔐 Activation 2FA obligatoire avant connexion", { userId: user.id, role: user.role });
+      return res.json({
+        twoFactorSetupRequired: true,
+        challengeToken: createChallengeToken(user.id, 'setup'),
+        expiresIn: config.twoFactor.challengeTtlSeconds
       });
     }
 
-    logger.info("🔑 Utilisateur connecté avec succès", { 
-      userId: user.id, 
-      role: user.role,
-      companyId: user.company_id
+    const login = await completeLogin(user, { userAgent, ip });
+    return res.status(login.status).json(login.body);
+  } catch (err) {
+    logger.error("❌ Erreur dans le processus de connexion", { 
+      error: (err as Error).message
     });
+    return res.status(500).json({ error: "Erreur serveur" });
+  }
+});
 
-    return res.json({
-      token: accessToken,
-      refreshToken,
-      role: user.role,
-      firstLogin: user.first_login,
-      bots: accessibleBots
-    });
+// 🔐 Connexion étape 2 : code TOTP ou code de secours
+router.post("/2fa/verify", twoFactorRateLimiterRedis, sanitize, validate(twoFactorVerifySchema), async (req, res) => {
+  const { challengeToken, code } = req.body;
+  const userAgent = req.headers['user-agent'] || 'unknown';
+  const ip = req.ip || 'unknown';
+
+  try {
+    const userId = verifyChallengeToken(challengeToken, 'verify');
+    if (!userId) {
+      return res.status(401).json({ error: "Challenge 2FA invalide ou expiré.", code: "INVALID_2FA_CHALLENGE" });
+    }
+
+    const { data: user, error } = await supabase
+      .from("users")
+      .select(LOGIN_USER_FIELDS)
+      .eq("id", userId)
+      .single();
+
+    if (error || !user) {
+      return res.status(401).json({ error: "Utilisateur non trouvé." });
+    }
+
+    const block = await getLoginBlock(user.email);
+    if (block) {
+      return sendLoginBlocked(res, block.reason, block.retryAfterSeconds);
+    }
+
+    if (!await verifyTwoFactorCode(userId, code)) {
+      logger.warn("❌ Code 2FA incorrect", { userId });
+      return handleLoginFailure(res, user.email, true, { error: "Code de vérification incorrect.", code: "INVALID_2FA_CODE" });
+    }
+
+    await resetLoginFailures(user.email);
+
+    const login = await completeLogin(user, { userAgent, ip });
+    return res.status(login.status).json(login.body);
   } catch (err) {
-    logger.error("❌ Erreur dans le processus de connexion", { 
+    logger.error("❌ Erreur vérification 2FA", { 
       error: (err as Error).message
     });
     return res.status(500).json({ error: "Erreur serveur" });
   }
 });
 
-// 🔄 Rafraîchir le token
+/**
+ * Enrôlement 2FA : utilisateur connecté, ou challenge "setup" quand la 2FA est obligatoire
+ * et pas encore activée (la connexion se termine alors à l'activation)
+ */
+async function twoFactorEnrollmentAuth(req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) {
+  const { challengeToken } = req.body || {};
+  if (!challengeToken) {
+    return requireAuth()(req, res, next);
+  }
+
+  const userId = verifyChallengeToken(challengeToken, 'setup');
+  if (!userId) {
+    return res.status(401).json({ error: "Challenge 2FA invalide ou expiré.", code: "INVALID_2FA_CHALLENGE" });
+  }
+
+  const { data: user, error } = await supabase
+    .from("users")
+    .select("id, email, role, company_id")
+    .eq("id", userId)
+    .single();
+
+  if (error || !user) {
+    return res.status(401).json({ error: "Utilisateur non trouvé." });
+  }
+
+  req.user = { id: user.id, email: user.email, role: user.role, company_id: user.company_id };
+  res.locals.twoFactorSetupLogin = true;
+  next();
+}
+
+// 📋 Statut 2FA
+router.get("/2fa", requireAuth(), async (req: AuthenticatedRequest, res) => {
+  const status = await getTwoFactorStatus(req.user!.id, req.user!.role);
+  if (!status) {
+    return res.status(500).json({ error: "Erreur lors de la récupération du statut 2FA." });
+  }
+
+  return res.json({ success: true, data: status });
+});
+
+// 📲 Enrôlement : secret + URI otpauth (à afficher en QR code)
+router.post("/2fa/setup", sanitize, validate(twoFactorSetupSchema), twoFactorEnrollmentAuth, async (req: AuthenticatedRequest, res) => {
+  const enrollment = await startEnrollment(req.user!.id, req.user!.email);
+
+  if (enrollment === 'already_enabled') {
+    return res.status(409).json({ error: "La double authentification est déjà activée.", code: "2FA_ALREADY_ENABLED" });
+  }
+  if (!enrollment) {
+    return res.status(500).json({ error: "Erreur lors de l'enrôlement 2FA." });
+  }
+
+  return res.json({ success: true, data: enrollment });
+});
+
+// ✅ Activation : premier code + codes de secours (affichés une seule fois)
+router.post("/2fa/enable", twoFactorRateLimiterRedis, sanitize, validate(twoFactorEnableSchema), twoFactorEnrollmentAuth, async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const result = await confirmEnrollment(userId, req.body.code);
+
+  if (result.status === 'no_pending_enrollment') {
+    return res.status(409).json({ error: "Aucun enrôlement 2FA en attente.", code: "NO_PENDING_2FA" });
+  }
+  if (result.status === 'invalid_code') {
+    return res.status(400).json({ error: "Code de vérification incorrect.", code: "INVALID_2FA_CODE" });
+  }
+  if (result.status === 'error') {
+    return res.status(500).json({ error: "Erreur lors de l'activation 2FA." });
+  }
+
+  if (res.locals.twoFactorSetupLogin) {
+    const { data: user, error } = await supabase
+      .from("users")
+      .select(LOGIN_USER_FIELDS)
+      .eq("id", userId)
+      .single();
+
+    if (error || !user) {
+      return res.status(401).json({ error: "Utilisateur non trouvé." });
+    }
+
+    // Réponse de connexion complétée par les codes de secours
+    const login = await completeLogin(user, { userAgent: req.headers['user-agent'] || 'unknown', ip: req.ip || 'unknown' });
+    return res.status(login.status).json(login.status === 200 ? { ...login.body, backupCodes: result.backupCodes } : login.body);
+  }
+
+  return res.json({ success: true, data: { backup_codes: result.backupCodes } });
+});
+
+// 🆘 Nouveaux codes de secours (les anciens sont invalidés)
+router.post("/2fa/backup-codes", requireAuth(), twoFactorRateLimiterRedis, sanitize, validate(twoFactorCodeSchema), async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  if (!await verifyTwoFactorCode(userId, req.body.code)) {
+    return res.status(401).json({ error: "Code de vérification incorrect.", code: "INVALID_2FA_CODE" });
+  }
+
+  const backupCodes = await regenerateBackupCodes(userId);
+  if (!backupCodes) {
+    return res.status(500).json({ error: "Erreur lors de la génération des codes de secours." });
+  }
+
+  return res.json({ success: true, data: { backup_codes: backupCodes } });
+});
+
+// 🔓 Désactivation (interdite pour les rôles où la 2FA est obligatoire)
+router.post("/2fa/disable", requireAuth(), twoFactorRateLimiterRedis, sanitize, validate(twoFactorCodeSchema), async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  if (isTwoFactorRequired(req.user!.role)) {
+    return res.status(403).json({ error: "La double authentification est obligatoire pour votre rôle.", code: "2FA_REQUIRED" });
+  }
+
+  if (!await verifyTwoFactorCode(userId, req.body.code)) {
+    return res.status(401).json({ error: "Code de vérification incorrect.", code: "INVALID_2FA_CODE" });
+  }
+
+  if (!await removeTwoFactor(userId)) {
+    return res.status(500).json({ error: "Erreur lors de la désactivation 2FA." });
+  }
+
+  return res.json({ success: true, message: "Double authentification désactivée." });
+});
+
+// 🔄 Rafraîchir le token (rotation : l'ancien refresh token est révoqué)
 router.post("/refresh-token", sanitize, validate(refreshTokenSchema), async (req, res) => {
   const { refreshToken } = req.body;
+  const userAgent = req.headers['user-agent'] || 'unknown';
+  const ip = req.ip || 'unknown';
   
   try {
-    const decoded = jwt.decode(refreshToken) as { id: string, tokenId: string };
-    if (!decoded || !decoded.id) {
-      logger.warn("❌ Refresh token invalide (décodage)");
-      return res.status(401).json({ error: "Refresh token invalide ou expiré." });
-    }
-    
-    const userId = decoded.id;
-    
-    try {
-      jwt.verify(refreshToken, config.jwt.secret);
-    } catch (err) {
-      logger.warn("❌ Refresh token invalide (signature)", { 
-        error: (err as Error).message,
-        userId
+    const rotation = await rotateRefreshToken(refreshToken, { userAgent, ip });
+
+    if (rotation.status === 'reused') {
+      return res.status(401).json({
+        error: "Refresh token déjà utilisé : session révoquée, veuillez vous reconnecter.",
+        code: "REFRESH_TOKEN_REUSED"
       });
-      return res.status(401).json({ error: "Refresh token invalide ou expiré." });
     }
-    
-    const tokenSignature = refreshToken.split('.')[2];
-    
-    const { data: tokens, error } = await supabase
-      .from('refresh_tokens')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_revoked', false)
-      .gt('expires_at', new Date());
-      
-    if (error || !tokens || tokens.length === 0) {
-      logger.warn("❌ Aucun refresh token valide trouvé en base", { userId });
-      return res.status(401).json({ error: "Refresh token invalide ou expiré." });
-    }
-    
-    let validToken = null;
-    for (const token of tokens) {
-      const isMatch = await bcrypt.compare(tokenSignature, token.token_hash);
-      if (isMatch) {
-        validToken = token;
-        break;
-      }
-    }
-    
-    if (!validToken) {
-      logger.warn("❌ Hash du refresh token non trouvé", { userId });
+
+    if (rotation.status === 'invalid') {
       return res.status(401).json({ error: "Refresh token invalide ou expiré." });
     }
     
     const { data: user, error: userError } = await supabase
       .from('users')
       .select('id, email, role, first_name, last_name')
-      .eq('id', userId)
+      .eq('id', rotation.userId)
       .single();
       
     if (userError || !user) {
-      logger.warn("❌ Utilisateur non trouvé pour le refresh token", { userId });
+      logger.warn("❌ Utilisateur non trouvé pour le refresh token", { userId: rotation.userId });
+      await revokeTokenFamily(rotation.token.familyId, 'revoked_by_admin');
       return res.status(401).json({ error: "Utilisateur non trouvé." });
     }
     
-const refreshJwtPayload = { id: user.id, email: user.email, role: user.role };
+const refreshJwtPayload = { id: user.id, email: user.email, role: user.role, sid: rotation.token.familyId };
     const refreshJwtSecret = config.jwt.secret;
     const refreshJwtOptions: jwt.SignOptions = { expiresIn: config.jwt.expiresIn as string || "2h" };
     const accessToken = jwt.sign(refreshJwtPayload, refreshJwtSecret, refreshJwtOptions);
@@ -254,7 +369,7 @@ const refreshJwtPayload = { id: user.id, email: user.email, role: user.role };
     
     return res.json({
       token: accessToken,
-      refreshToken: refreshToken
+      refreshToken: rotation.token.refreshToken
     });
   } catch (err) {
     logger.error("❌ Erreur lors du rafraîchissement du token", { 
@@ -269,63 +384,14 @@ router.post("/logout", sanitize, validate(logoutSchema), async (req, res) => {
   const { refreshToken } = req.body;
   
   try {
-    const decoded = jwt.decode(refreshToken) as { id: string, tokenId: string };
+    const session = await revokeRefreshToken(refreshToken, 'logout');
     
-    if (!decoded || !decoded.id) {
+    if (!session) {
       logger.warn("❌ Token de déconnexion invalide");
       return res.status(401).json({ error: "Token non valide." });
     }
     
-    const userId = decoded.id;
-    const tokenSignature = refreshToken.split('.')[2];
-    
-    const { data: tokens, error } = await supabase
-      .from('refresh_tokens')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_revoked', false);
-      
-    if (error) {
-      logger.error("❌ Erreur lors de la recherche des tokens", { 
-        error: error.message,
-        userId
-      });
-      return res.status(500).json({ error: "Erreur serveur." });
-    }
-    
-    let tokenRevoked = false;
-    
-    for (const token of tokens) {
-      try {
-        const isMatch = await bcrypt.compare(tokenSignature, token.token_hash);
-        
-        if (isMatch) {
-          const { error: updateError } = await supabase
-            .from('refresh_tokens')
-            .update({ is_revoked: true })
-            .eq('id', token.id);
-            
-          if (!updateError) {
-            tokenRevoked = true;
-            break;
-          }
-        }
-      } catch (err) {
-        logger.warn("❌ Erreur lors de la comparaison du hash", { 
-          tokenId: token.id,
-          error: (err as Error).message
-        });
-      }
-    }
-    
-    if (!tokenRevoked) {
-      await supabase
-        .from('refresh_tokens')
-        .update({ is_revoked: true })
-        .eq('user_id', userId);
-    }
-    
-    logger.info("🚪 Utilisateur déconnecté", { userId });
+    logger.info("🚪 Utilisateur déconnecté", { userId: session.userId, familyId: session.familyId });
     
     return res.json({ message: "Déconnexion réussie." });
   } catch (err) {
@@ -336,8 +402,88 @@ router.post("/logout", sanitize, validate(logoutSchema), async (req, res) => {
   }
 });
 
-// 🔄 Route pour le changement de mot de passe lors du premier login
-router.post("/first-login", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+// 💻 Sessions actives de l'utilisateur courant
+router.get("/sessions", requireAuth(), async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const sessions = await listUserSessions(userId, req.user!.sessionId);
+  if (!sessions) {
+    return res.status(500).json({ error: "Erreur lors de la récupération des sessions." });
+  }
+
+  return res.json({ success: true, data: sessions });
+});
+
+// 🚪 Déconnexion partout (toutes les sessions, y compris la courante)
+router.delete("/sessions", requireAuth(), async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+
+  const revoked = await revokeAllUserTokens(userId, 'logout');
+  if (revoked === null) {
+    return res.status(500).json({ error: "Erreur lors de la révocation des sessions." });
+  }
+
+  logger.info("🚪 Utilisateur déconnecté de toutes ses sessions", { userId, sessions: revoked });
+
+  return res.json({ success: true, data: { revoked_sessions: revoked } });
+});
+
+// 🚫 Révoquer une session
+router.delete("/sessions/:id", requireAuth(), validate(sessionIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const sessionId = req.params.id;
+
+  const revoked = await revokeUserSession(userId, sessionId, 'revoked_by_user');
+  if (revoked === null) {
+    return res.status(500).json({ error: "Erreur lors de la révocation de la session." });
+  }
+  if (!revoked) {
+    return res.status(404).json({ error: "Session non trouvée." });
+  }
+
+  return res.json({ success: true, data: { id: sessionId, current: sessionId === req.user!.sessionId } });
+});
+
+// 📨 Mot de passe oublié : réponse identique que le compte existe ou non
+router.post("/forgot-password", passwordResetRateLimiterRedis, forgotPasswordRateLimiterRedis, sanitize, validate(forgotPasswordSchema), async (req, res) => {
+  const { email } = req.body;
+  const userAgent = req.headers['user-agent'] || 'unknown';
+  const ip = req.ip || 'unknown';
+
+  // Traitement en arrière-plan : le temps de réponse ne révèle pas l'existence du compte
+  void requestPasswordReset(email, { ip, userAgent });
+
+  return res.json({
+    success: true,
+    message: "Si un compte correspond à cette adresse, un email de réinitialisation a été envoyé."
+  });
+});
+
+// 🔁 Réinitialisation du mot de passe avec le jeton reçu par email
+router.post("/reset-password", passwordResetRateLimiterRedis, sanitize, validate(resetPasswordSchema), async (req, res) => {
+  const { token, newPassword } = req.body;
+
+  const result = await resetPassword(token, newPassword);
+
+  if (result === 'invalid_token') {
+    return res.status(400).json({
+      error: "Lien de réinitialisation invalide, expiré ou déjà utilisé.",
+      code: "INVALID_RESET_TOKEN"
+    });
+  }
+
+  if (result === 'error') {
+    return res.status(500).json({ error: "Erreur lors de la réinitialisation du mot de passe." });
+  }
+
+  return res.json({
+    success: true,
+    message: "Mot de passe réinitialisé. Veuillez vous reconnecter."
+  });
+});
+
+// 🔄 Changement de mot de passe au premier login (comptes créés avant les invitations)
+router.post("/first-login", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
     const { newPassword, nickname } = req.body;
     const userId = req.user?.id;
@@ -384,8 +530,14 @@ router.post("/first-login", legacyAuthGuard, async (req: AuthenticatedRequest, r
 // 🆕 Nouvelle route register avec logique BtoB
 router.use('/register', registerRouter);
 
+// 🏢 SSO OIDC par entreprise
+router.use('/sso', ssoRouter);
+
+// ✉️ Activation des comptes invités
+router.use('/invitations', invitationsRouter);
+
 // 👤 Route /me pour récupérer les infos utilisateur + entreprise + licences
-router.get("/me", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/me", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user?.id;
 
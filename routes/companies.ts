@@ -1,8 +1,9 @@
 // auth-backend/routes/companies.ts - VERSION ANALYTICS DÉFINITIVE
 const { supabase } = require('../utils/supabase');
 import express from "express";
-import { legacyAuthGuard, adminGuard, AuthenticatedRequest } from "../middlewares/authguard";
+import { requireAuth, requireCompanyAccess, getCompanyScope, AuthenticatedRequest } from "../middlewares/authguard";
 import logger from "../utils/logger";
+import { claimSeat, SeatError } from "../services/seatService";
 
 const router = express.Router();
 
@@ -46,15 +47,19 @@ interface BotAccess {
 
 /**
  * 🏢 GET /companies/with-stats - Liste des entreprises avec analytics complètes
+ * (administrateur d'entreprise : sa seule entreprise)
  */
-router.get("/with-stats", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/with-stats", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
   try {
+    const companyScope = getCompanyScope(req.user!);
+
     logger.info("📊 Récupération entreprises avec analytics", { 
-      adminId: req.user?.id 
+      adminId: req.user?.id,
+      companyScope
     });
 
     // Requête optimisée avec toutes les données en une fois
-    const { data: companiesData, error: companiesError } = await supabase
+    let companiesQuery = supabase
       .from('companies')
       .select(`
         id,
@@ -79,6 +84,12 @@ router.get("/with-stats", adminGuard, async (req: AuthenticatedRequest, res) =>
         )
       `);
 
+    if (companyScope) {
+      companiesQuery = companiesQuery.eq('id', companyScope);
+    }
+
+    const { data: companiesData, error: companiesError } = await companiesQuery;
+
     if (companiesError) {
       logger.error("❌ Erreur récupération entreprises", { 
         error: companiesError.message 
@@ -223,7 +234,7 @@ logger.info("🔍 Debug interactions", {
 /**
  * 👥 GET /companies/:companyId/users - Utilisateurs d'une entreprise avec VRAIES STATS
  */
-router.get("/:companyId/users", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/:companyId/users", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
 
@@ -329,7 +340,7 @@ router.get("/:companyId/users", adminGuard, async (req: AuthenticatedRequest, re
 /**
  * ➕ POST /companies/:companyId/assign-bot - Assigner un bot à un utilisateur
  */
-router.post("/:companyId/assign-bot", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.post("/:companyId/assign-bot", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
     const { userId, botId } = req.body;
@@ -369,35 +380,32 @@ router.post("/:companyId/assign-bot", adminGuard, async (req: AuthenticatedReque
       });
     }
 
-    // Vérifier si l'assignation existe déjà
+    // Vérifier si l'assignation existe déjà (un accès révoqué ou libéré est réactivé)
     const { data: existingAccess, error: checkError } = await supabase
       .from('user_bot_access')
-      .select('id')
+      .select('id, status')
       .eq('user_id', userId)
       .eq('license_id', license.id)
-      .single();
+      .order('assigned_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    if (existingAccess) {
+    if (existingAccess?.status === 'active') {
       return res.status(400).json({ 
         error: "Cet utilisateur a déjà accès à ce bot." 
       });
     }
 
-    // Créer l'assignation
-    const { data: newAccess, error: assignError } = await supabase
-      .from('user_bot_access')
-      .insert({
-        user_id: userId,
-        license_id: license.id,
-        assigned_at: new Date().toISOString(),
-        status: 'active'
-      })
-      .select()
-      .single();
-
-    if (assignError) {
+    // Créer ou réactiver l'assignation (siège réservé atomiquement sur la licence)
+    let accessId: string;
+    try {
+      accessId = await claimSeat(license.id, userId, existingAccess?.id || null);
+    } catch (err) {
+      if (err instanceof SeatError) {
+        return res.status(err.status).json({ success: false, error: err.message, code: err.code, ...err.details });
+      }
       logger.error("❌ Erreur assignation bot", {
-        error: assignError.message,
+        error: (err as Error).message,
         userId,
         botId,
         licenseId: license.id
@@ -418,10 +426,10 @@ router.post("/:companyId/assign-bot", adminGuard, async (req: AuthenticatedReque
       success: true,
       message: `Bot assigné avec succès à ${user.first_name} ${user.last_name}`,
       assignment: {
-        id: newAccess.id,
+        id: accessId,
         user_id: userId,
         license_id: license.id,
-        assigned_at: newAccess.assigned_at
+        assigned_at: new Date().toISOString()
       }
     });
 
@@ -437,7 +445,7 @@ router.post("/:companyId/assign-bot", adminGuard, async (req: AuthenticatedReque
 /**
  * 🗑️ DELETE /companies/:companyId/revoke-bot - Révoquer l'accès d'un utilisateur à un bot
  */
-router.delete("/:companyId/revoke-bot", adminGuard, async (req: AuthenticatedRequest, res) => {
+router.delete("/:companyId/revoke-bot", requireAuth('company_admin'), requireCompanyAccess(), async (req: AuthenticatedRequest, res) => {
   try {
     const { companyId } = req.params;
     const { userId, botId } = req.body;
@@ -0,0 +1,198 @@
+// auth-backend/routes/company.ts
+// 🏢 Espace administrateur d'entreprise : gestion de SA propre entreprise (monté sur /company)
+const { supabase } = require('../utils/supabase');
+import express from "express";
+import { requireAuth, requireUserAccess, AuthenticatedRequest } from "../middlewares/authguard";
+import { validate, sanitize } from "../middlewares/validate";
+import { userIdParamSchema, companyUserUpdateSchema } from "../schemas/admin.schema";
+import { findCompanyById, getCompanyStats } from "../services/companyService";
+import { getCompanyLicenses } from "../services/licenseService";
+import { getCompanyDetailedStats } from "../services/statsService";
+import logger from "../utils/logger";
+
+const router = express.Router();
+
+/**
+ * Entreprise administrée : toujours celle de l'utilisateur connecté (jamais un paramètre)
+ */
+function ownCompanyId(req: AuthenticatedRequest, res: express.Response): string | null {
+  if (!req.user?.company_id) {
+    res.status(400).json({
+      success: false,
+      error: "Aucune entreprise rattachée à ce compte.",
+      code: "NO_COMPANY"
+    });
+    return null;
+  }
+  return req.user.company_id;
+}
+
+/**
+ * 🏢 GET /company
+ * Informations, compteurs et licences de l'entreprise
+ */
+router.get("/", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
+  const companyId = ownCompanyId(req, res);
+  if (!companyId) return;
+
+  try {
+    const [company, stats, licenses] = await Promise.all([
+      findCompanyById(companyId),
+      getCompanyStats(companyId),
+      getCompanyLicenses(companyId)
+    ]);
+
+    if (!company) {
+      return res.status(404).json({ success: false, error: "Entreprise non trouvée." });
+    }
+
+    return res.json({
+      success: true,
+      data: { company, stats, licenses }
+    });
+
+  } catch (err) {
+    logger.error("❌ [COMPANY] Erreur récupération entreprise", {
+      error: (err as Error).message,
+      companyId,
+      userId: req.user?.id
+    });
+    return res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * 👥 GET /company/users
+ * Utilisateurs de l'entreprise avec leurs bots actifs
+ */
+router.get("/users", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
+  const companyId = ownCompanyId(req, res);
+  if (!companyId) return;
+
+  try {
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select('id, email, first_name, last_name, job_title, role, created_at')
+      .eq('company_id', companyId)
+      .not('role', 'in', '(admin,service)') // ni admin NAO&CO, ni utilisateurs techniques des clés API
+      .order('created_at', { ascending: false });
+
+    if (usersError) {
+      logger.error("❌ [COMPANY] Erreur récupération utilisateurs", { error: usersError.message, companyId });
+      return res.status(500).json({ success: false, error: "Erreur récupération utilisateurs." });
+    }
+
+    const userIds = (users || []).map(user => user.id);
+    const { data: accesses, error: accessError } = userIds.length === 0
+      ? { data: [], error: null }
+      : await supabase
+          .from('user_bot_access')
+          .select('user_id, license_id, assigned_at, licenses!inner(bot_id, company_id, bots(name))')
+          .in('user_id', userIds)
+          .eq('status', 'active')
+          .eq('licenses.company_id', companyId);
+
+    if (accessError) {
+      logger.warn("⚠️ [COMPANY] Accès bots indisponibles", { error: accessError.message, companyId });
+    }
+
+    const data = (users || []).map(user => ({
+      ...user,
+      bots: (accesses || [])
+        .filter(access => access.user_id === user.id)
+        .map(access => ({
+          bot_id: access.licenses.bot_id,
+          bot_name: access.licenses.bots?.name || null,
+          license_id: access.license_id,
+          assigned_at: access.assigned_at
+        }))
+    }));
+
+    return res.json({ success: true, data, count: data.length });
+
+  } catch (err) {
+    logger.error("❌ [COMPANY] Exception liste utilisateurs", { error: (err as Error).message, companyId });
+    return res.status(500).json({ success: false, error: "Erreur serveur." });
+  }
+});
+
+/**
+ * ✏️ PATCH /company/users/:userId
+ * Body: first_name, last_name, job_title, role (user | company_admin)
+ */
+router.patch(
+  "/users/:userId",
+  requireAuth('company_admin'),
+  validate(userIdParamSchema, 'params'),
+  requireUserAccess(),
+  sanitize,
+  validate(companyUserUpdateSchema),
+  async (req: AuthenticatedRequest, res) => {
+    const { userId } = req.params;
+    const target = res.locals.targetUser;
+
+    // Un admin NAO&CO passe requireUserAccess : l'espace entreprise reste limité à sa propre entreprise
+    // (utilisateurs techniques des clés API exclus, comme dans la liste)
+    if (!target || target.company_id !== req.user!.company_id || target.role === 'admin' || target.role === 'service') {
+      return res.status(404).json({ success: false, error: "Utilisateur non trouvé." });
+    }
+
+    // Évite qu'une entreprise se retrouve sans administrateur
+    if (userId === req.user!.id && req.body.role && req.body.role !== target.role) {
+      return res.status(400).json({
+        success: false,
+        error: "Vous ne pouvez pas modifier votre propre rôle.",
+        code: "SELF_ROLE_CHANGE"
+      });
+    }
+
+    if (Object.keys(req.body).length === 0) {
+      return res.status(400).json({ success: false, error: "Aucune modification fournie." });
+    }
+
+    try {
+      const { data: updatedUser, error } = await supabase
+        .from('users')
+        .update(req.body)
+        .eq('id', userId)
+        .eq('company_id', target.company_id)
+        .select('id, email, first_name, last_name, job_title, role')
+        .single();
+
+      if (error) {
+        logger.error("❌ [COMPANY] Erreur mise à jour utilisateur", { error: error.message, userId });
+        return res.status(500).json({ success: false, error: "Erreur lors de la mise à jour." });
+      }
+
+      logger.info("✅ [COMPANY] Utilisateur mis à jour", {
+        userId,
+        fields: Object.keys(req.body),
+        companyAdminId: req.user?.id
+      });
+
+      return res.json({ success: true, message: "Utilisateur mis à jour", data: updatedUser });
+
+    } catch (err) {
+      logger.error("❌ [COMPANY] Exception mise à jour utilisateur", { error: (err as Error).message, userId });
+      return res.status(500).json({ success: false, error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * 📊 GET /company/usage
+ * Consommation détaillée de l'entreprise (par utilisateur et par bot)
+ */
+router.get("/usage", requireAuth('company_admin'), async (req: AuthenticatedRequest, res) => {
+  const companyId = ownCompanyId(req, res);
+  if (!companyId) return;
+
+  try {
+    const stats = await getCompanyDetailedStats(companyId);
+    return res.json({ success: true, data: stats });
+  } catch (err) {
+    return res.status(500).json({ success: false, error: "Erreur récupération consommation." });
+  }
+});
+
+export default router;
@@ -0,0 +1,199 @@
+/**
+ * 💬 ROUTES CONVERSATIONS
+ * Historique, reprise, renommage et suppression des threads de l'utilisateur
+ */
+
+import express from 'express';
+import logger from '../utils/logger';
+import { validate, sanitize } from '../middlewares/validate';
+import { requireAuth } from '../middlewares/authguard';
+import {
+  conversationsQuerySchema,
+  threadIdParamSchema,
+  renameConversationSchema
+} from '../schemas/conversation.schema';
+import {
+  listConversations,
+  findConversation,
+  getConversationMessages,
+  resumeConversation,
+  renameConversation,
+  deleteConversation
+} from '../services/conversationService';
+import {
+  getAssistantThreadMessages,
+  deleteAssistantThread
+} from '../services/assistantService';
+
+const router = express.Router();
+
+/**
+ * 📋 GET /assistant/conversations
+ * Liste des conversations de l'utilisateur (filtre optionnel ?chatbot_id=)
+ */
+router.get("/",
+  requireAuth(),
+  sanitize,
+  validate(conversationsQuerySchema, 'query'),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const chatbotId = req.query.chatbot_id as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const conversations = await listConversations(userId, chatbotId, limit, offset);
+
+      return res.json({
+        success: true,
+        data: conversations,
+        pagination: { limit, offset }
+      });
+
+    } catch (error) {
+      logger.error("❌ Erreur liste conversations", {
+        userId: req.user?.id,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * 📜 GET /assistant/conversations/:threadId/messages
+ * Historique complet d'une conversation
+ */
+router.get("/:threadId/messages",
+  requireAuth(),
+  validate(threadIdParamSchema, 'params'),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { threadId } = req.params;
+
+      const conversation = await findConversation(userId, threadId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation non trouvée." });
+      }
+
+      let messages = await getConversationMessages(userId, threadId);
+
+      // Threads antérieurs à l'historique chat_context : relecture OpenAI
+      if (messages.length === 0 && conversation.message_count > 0) {
+        messages = await getAssistantThreadMessages(threadId);
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          conversation,
+          messages
+        }
+      });
+
+    } catch (error) {
+      logger.error("❌ Erreur historique conversation", {
+        userId: req.user?.id,
+        threadId: req.params.threadId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * ▶️ POST /assistant/conversations/:threadId/resume
+ * La conversation devient le thread courant pour son bot
+ */
+router.post("/:threadId/resume",
+  requireAuth(),
+  validate(threadIdParamSchema, 'params'),
+  async (req, res) => {
+    try {
+      const conversation = await resumeConversation(req.user!.id, req.params.threadId);
+
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation non trouvée." });
+      }
+
+      return res.json({ success: true, data: conversation });
+
+    } catch (error) {
+      logger.error("❌ Erreur reprise conversation", {
+        userId: req.user?.id,
+        threadId: req.params.threadId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * ✏️ PATCH /assistant/conversations/:threadId
+ * Renommer une conversation
+ */
+router.patch("/:threadId",
+  requireAuth(),
+  sanitize,
+  validate(threadIdParamSchema, 'params'),
+  validate(renameConversationSchema),
+  async (req, res) => {
+    try {
+      const conversation = await renameConversation(
+        req.user!.id,
+        req.params.threadId,
+        req.body.title.trim()
+      );
+
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation non trouvée." });
+      }
+
+      return res.json({ success: true, data: conversation });
+
+    } catch (error) {
+      logger.error("❌ Erreur renommage conversation", {
+        userId: req.user?.id,
+        threadId: req.params.threadId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * 🗑️ DELETE /assistant/conversations/:threadId
+ * Supprimer une conversation et son historique
+ */
+router.delete("/:threadId",
+  requireAuth(),
+  validate(threadIdParamSchema, 'params'),
+  async (req, res) => {
+    try {
+      const { threadId } = req.params;
+      const deleted = await deleteConversation(req.user!.id, threadId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Conversation non trouvée." });
+      }
+
+      await deleteAssistantThread(threadId);
+
+      return res.json({ success: true, message: "Conversation supprimée." });
+
+    } catch (error) {
+      logger.error("❌ Erreur suppression conversation", {
+        userId: req.user?.id,
+        threadId: req.params.threadId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,144 @@
+/**
+ * 📎 ROUTES DOCUMENTS
+ * Envoi de factures, DAU/DAE, certificats d'origine... à joindre aux questions
+ */
+
+import express from 'express';
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { validate } from '../middlewares/validate';
+import { requireAuth } from '../middlewares/authguard';
+import {
+  uploadDocumentQuerySchema,
+  documentsQuerySchema,
+  fileIdParamSchema
+} from '../schemas/assistant.schema';
+import {
+  uploadDocument,
+  listUserDocuments,
+  deleteDocument,
+  getCompanyStorageUsage,
+  DocumentError,
+  ALLOWED_MIME_TYPES
+} from '../services/documentService';
+import { getQuickThread, getUserCompanyId } from '../services/assistantService';
+
+const router = express.Router();
+
+/**
+ * 📤 POST /assistant/files?chatbot_id=...&filename=...
+ * Corps = contenu brut du fichier, Content-Type: application/pdf | text/csv | text/plain
+ * Le document est rattaché au thread courant du bot ; le référencer ensuite via file_ids dans /ask
+ */
+router.post("/",
+  requireAuth(),
+  validate(uploadDocumentQuerySchema, 'query'),
+  express.raw({ type: ALLOWED_MIME_TYPES, limit: config.uploads.maxFileBytes }),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const chatbotId = req.query.chatbot_id as string;
+      const filename = (req.query.filename as string).trim();
+      const mimeType = (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(415).json({
+          error: 'Type de fichier non supporté (PDF, CSV ou texte uniquement).',
+          code: 'UNSUPPORTED_FILE_TYPE'
+        });
+      }
+
+      const [companyId, threadData] = await Promise.all([
+        getUserCompanyId(userId),
+        getQuickThread(userId, chatbotId)
+      ]);
+
+      const document = await uploadDocument({
+        userId,
+        companyId,
+        chatbotId,
+        threadId: threadData.threadId,
+        filename,
+        mimeType,
+        data: req.body
+      });
+
+      return res.status(201).json({ success: true, data: document });
+
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+
+      logger.error("❌ Erreur envoi document", {
+        userId: req.user?.id,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * 📋 GET /assistant/files
+ * Documents de l'utilisateur (?chatbot_id=, ?thread_id=) + stockage de l'entreprise
+ */
+router.get("/",
+  requireAuth(),
+  validate(documentsQuerySchema, 'query'),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const documents = await listUserDocuments(userId, {
+        chatbotId: req.query.chatbot_id as string | undefined,
+        threadId: req.query.thread_id as string | undefined
+      });
+
+      const companyId = await getUserCompanyId(userId);
+      const storage = companyId ? await getCompanyStorageUsage(companyId) : null;
+
+      return res.json({
+        success: true,
+        data: documents,
+        storage
+      });
+
+    } catch (error) {
+      logger.error("❌ Erreur liste documents", {
+        userId: req.user?.id,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+/**
+ * 🗑️ DELETE /assistant/files/:fileId
+ * Supprime le document (libère le quota de stockage)
+ */
+router.delete("/:fileId",
+  requireAuth(),
+  validate(fileIdParamSchema, 'params'),
+  async (req, res) => {
+    try {
+      const deleted = await deleteDocument(req.user!.id, req.params.fileId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Document non trouvé." });
+      }
+
+      return res.json({ success: true, message: "Document supprimé." });
+
+    } catch (error) {
+      logger.error("❌ Erreur suppression document", {
+        userId: req.user?.id,
+        fileId: req.params.fileId,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+export default router;
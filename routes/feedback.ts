@@ -0,0 +1,56 @@
+/**
+ * 👍 ROUTES FEEDBACK
+ * Note (up/down) d'une réponse d'assistant par l'utilisateur
+ */
+
+import express from 'express';
+import logger from '../utils/logger';
+import { validate, sanitize } from '../middlewares/validate';
+import { requireAuth } from '../middlewares/authguard';
+import { feedbackSchema } from '../schemas/feedback.schema';
+import { findRatedAnswer, saveFeedback } from '../services/feedbackService';
+
+const router = express.Router();
+
+/**
+ * 👍 POST /assistant/feedback
+ * Body: { message_id, rating: 'up' | 'down', category?, comment? }
+ * message_id = valeur renvoyée par /assistant/ask ; une nouvelle note remplace la précédente
+ */
+router.post("/",
+  requireAuth(),
+  sanitize,
+  validate(feedbackSchema),
+  async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { message_id, rating, category, comment } = req.body;
+
+      const answer = await findRatedAnswer(message_id, userId);
+      if (!answer) {
+        return res.status(404).json({ error: "Réponse non trouvée." });
+      }
+
+      const feedback = await saveFeedback(userId, answer, {
+        rating,
+        category,
+        comment: comment?.trim() || undefined
+      });
+
+      if (!feedback) {
+        return res.status(500).json({ error: "Erreur lors de l'enregistrement du retour." });
+      }
+
+      return res.status(201).json({ success: true, data: feedback });
+
+    } catch (error) {
+      logger.error("❌ Erreur feedback assistant", {
+        userId: req.user?.id,
+        error: (error as Error).message
+      });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+  }
+);
+
+export default router;
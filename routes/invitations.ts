@@ -0,0 +1,46 @@
+// auth-backend/routes/invitations.ts
+// ✉️ Activation d'un compte à partir du lien d'invitation (monté sur /auth/invitations)
+import express from 'express';
+import logger from '../utils/logger';
+import { validate, sanitize } from '../middlewares/validate';
+import { passwordResetRateLimiterRedis } from '../middlewares/rateLimiterRedis';
+import { invitationTokenSchema, acceptInvitationSchema } from '../schemas/auth.schema';
+import { previewInvitation, acceptInvitation, InvitationError } from '../services/invitationService';
+
+const router = express.Router();
+
+function sendInvitationError(res: express.Response, err: unknown, action: string) {
+  if (err instanceof InvitationError) {
+    return res.status(err.status).json({ error: err.message, code: err.code });
+  }
+  logger.error(`❌ Erreur ${action} invitation`, { error: (err as Error).message });
+  return res.status(500).json({ error: "Erreur serveur." });
+}
+
+// 🔍 Contenu de l'invitation avant activation (jeton dans le corps : jamais dans les logs d'URL)
+router.post("/verify", passwordResetRateLimiterRedis, sanitize, validate(invitationTokenSchema), async (req, res) => {
+  try {
+    const invitation = await previewInvitation(req.body.token);
+    return res.json({ success: true, invitation });
+  } catch (err) {
+    return sendInvitationError(res, err, 'vérification');
+  }
+});
+
+// ✅ Activation : mot de passe choisi par l'invité + acceptation des conditions d'utilisation
+router.post("/accept", passwordResetRateLimiterRedis, sanitize, validate(acceptInvitationSchema), async (req, res) => {
+  try {
+    const { token, password, first_name, last_name } = req.body;
+    const { email } = await acceptInvitation(token, { password, first_name, last_name });
+
+    return res.status(201).json({
+      success: true,
+      message: "Compte activé. Vous pouvez maintenant vous connecter.",
+      email
+    });
+  } catch (err) {
+    return sendInvitationError(res, err, 'acceptation');
+  }
+});
+
+export default router;
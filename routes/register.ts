@@ -5,6 +5,7 @@ import logger from '../utils/logger';
 import config from '../utils/config';
 import { sanitize } from '../middlewares/validate';
 import { createUserWithLicenses, CreateUserData } from '../services/userService';
+import { getAvailablePlan, listPlans, PlanError } from '../services/planService';
 
 const router = express.Router();
 
@@ -51,6 +52,19 @@ router.post("/", sanitize, async (req, res) => {
       });
     }
 
+    // Offre du catalogue (license_type = code d'offre)
+    try {
+      await getAvailablePlan(license_type);
+    } catch (planError) {
+      if (planError instanceof PlanError) {
+        return res.status(400).json({ 
+          error: planError.message,
+          code: planError.code
+        });
+      }
+      throw planError;
+    }
+
     // Préparer les données utilisateur
     const userData: CreateUserData = {
       email,
@@ -61,7 +75,7 @@ router.post("/", sanitize, async (req, res) => {
       company_siren,
       job_title,
       selected_bot_ids,
-      license_type: license_type as 'trial' | 'standard' | 'premium'
+      license_type
     };
 
     // Créer l'utilisateur avec attribution automatique de licences BtoB
@@ -135,4 +149,25 @@ router.post("/", sanitize, async (req, res) => {
   }
 });
 
+/**
+ * 📚 Offres proposées à l'inscription (valeurs possibles de license_type)
+ */
+router.get("/plans", async (req, res) => {
+  const plans = await listPlans({ availableOnly: true });
+
+  return res.json({
+    success: true,
+    data: plans.map(plan => ({
+      code: plan.code,
+      name: plan.name,
+      max_requests_per_month: plan.max_requests_per_month,
+      max_tokens_per_month: plan.max_tokens_per_month,
+      validity_months: plan.validity_months,
+      max_seats: plan.max_seats,
+      price_monthly: plan.price_monthly,
+      is_trial: plan.is_trial
+    }))
+  });
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,128 @@
+// auth-backend/routes/sso.ts
+// 🏢 Connexion SSO OIDC par entreprise (monté sur /auth/sso)
+import express from 'express';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { validate, sanitize } from '../middlewares/validate';
+import { ssoDiscoverSchema, ssoLoginParamsSchema, ssoCallbackSchema, ssoExchangeSchema } from '../schemas/auth.schema';
+import {
+  findSsoConfigForEmail,
+  buildAuthorizationUrl,
+  handleCallback,
+  consumeLoginCode,
+  SsoError
+} from '../services/ssoService';
+import { completeLogin, LOGIN_USER_FIELDS } from '../services/authService';
+import { isTwoFactorEnabled, isTwoFactorRequired, createChallengeToken } from '../services/twoFactorService';
+
+const router = express.Router();
+
+// 🔍 Découverte : l'entreprise de cet email utilise-t-elle le SSO ?
+router.get("/discover", validate(ssoDiscoverSchema, 'query'), async (req, res) => {
+  const ssoConfig = await findSsoConfigForEmail(String(req.query.email));
+
+  if (!ssoConfig) {
+    return res.json({ sso: false });
+  }
+
+  return res.json({
+    sso: true,
+    loginUrl: `/auth/sso/${ssoConfig.company_id}/login`
+  });
+});
+
+// ▶️ Redirection vers le fournisseur d'identité (?mode=json pour récupérer l'URL sans redirection)
+router.get("/:companyId/login", validate(ssoLoginParamsSchema, 'params'), async (req, res) => {
+  try {
+    const loginHint = typeof req.query.login_hint === 'string' ? req.query.login_hint : undefined;
+    const authorizationUrl = await buildAuthorizationUrl(req.params.companyId, loginHint);
+
+    if (req.query.mode === 'json') {
+      return res.json({ authorizationUrl });
+    }
+    return res.redirect(302, authorizationUrl);
+  } catch (err) {
+    if (err instanceof SsoError) {
+      return res.status(err.status).json({ error: err.message, code: err.code });
+    }
+    logger.error("❌ Erreur démarrage connexion SSO", {
+      error: (err as Error).message,
+      companyId: req.params.companyId
+    });
+    return res.status(500).json({ error: "Erreur serveur." });
+  }
+});
+
+// 🔁 Retour du fournisseur : redirection vers le frontend avec un code de connexion à usage unique
+router.get("/callback", validate(ssoCallbackSchema, 'query'), async (req, res) => {
+  const redirectWith = (params: Record<string, string>) =>
+    res.redirect(302, `${config.sso.frontendCallbackUrl}?${new URLSearchParams(params).toString()}`);
+
+  const { code, state, error } = req.query as Record<string, string | undefined>;
+
+  if (error || !code || !state) {
+    logger.warn("⚠️ Connexion SSO refusée par le fournisseur", { error, description: req.query.error_description });
+    return redirectWith({ error: 'SSO_PROVIDER_DENIED' });
+  }
+
+  try {
+    const loginCode = await handleCallback(code, state);
+    return redirectWith({ code: loginCode });
+  } catch (err) {
+    if (err instanceof SsoError) {
+      logger.warn("⚠️ Connexion SSO rejetée", { code: err.code, reason: err.message });
+      return redirectWith({ error: err.code });
+    }
+    logger.error("❌ Erreur retour SSO", { error: (err as Error).message });
+    return redirectWith({ error: 'SSO_SERVER_ERROR' });
+  }
+});
+
+// 🎫 Échange du code de connexion contre les tokens NAO&CO (mêmes règles 2FA que /auth/login)
+router.post("/exchange", sanitize, validate(ssoExchangeSchema), async (req, res) => {
+  const userAgent = req.headers['user-agent'] || 'unknown';
+  const ip = req.ip || 'unknown';
+
+  try {
+    const userId = await consumeLoginCode(req.body.code);
+    if (!userId) {
+      return res.status(401).json({ error: "Code de connexion SSO invalide ou expiré.", code: "SSO_INVALID_CODE" });
+    }
+
+    const { data: user, error } = await supabase
+      .from("users")
+      .select(LOGIN_USER_FIELDS)
+      .eq("id", userId)
+      .single();
+
+    if (error || !user) {
+      logger.error("❌ Utilisateur SSO introuvable", { error: error?.message, userId });
+      return res.status(500).json({ error: "Erreur serveur." });
+    }
+
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: createChallengeToken(user.id, 'verify'),
+        expiresIn: config.twoFactor.challengeTtlSeconds
+      });
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      return res.json({
+        twoFactorSetupRequired: true,
+        challengeToken: createChallengeToken(user.id, 'setup'),
+        expiresIn: config.twoFactor.challengeTtlSeconds
+      });
+    }
+
+    const login = await completeLogin(user, { userAgent, ip });
+    return res.status(login.status).json(login.body);
+  } catch (err) {
+    logger.error("❌ Erreur échange code SSO", { error: (err as Error).message });
+    return res.status(500).json({ error: "Erreur serveur." });
+  }
+});
+
+export default router;
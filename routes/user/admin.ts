@@ -3,21 +3,15 @@ const { supabase } = require('../../utils/supabase');
 import { validate, sanitize } from '../../middlewares/validate';
 import { userIdParamSchema, revokeLicenseSchema, tokensQuerySchema, analyticsQuerySchema } from '../../schemas/admin.schema';
 import express from "express";
-import { legacyAuthGuard, AuthenticatedRequest } from "../../middlewares/authguard";
+import { requireAuth, AuthenticatedRequest } from "../../middlewares/authguard";
 import logger from "../../utils/logger";
 import { getUserUsageStats, enrichBotsWithNames, getLicenseCount } from "./helpers/userHelpers";
 
 const router = express.Router();
 
 // ✅ GET /user - Liste de tous les utilisateurs avec licences (pour les admins)
-router.get("/", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/", requireAuth('admin'), async (req: AuthenticatedRequest, res) => {
   try {
-    // Vérifier le rôle admin
-    if (req.user?.role !== 'admin') {
-      logger.warn("❌ Accès refusé - rôle non admin:", req.user?.role);
-      return res.status(403).json({ error: "Accès refusé. Seuls les admins peuvent voir la liste des utilisateurs." });
-    }
-
     const { data, error } = await supabase
       .from("users")
       .select("id, email, first_name, last_name, nickname, job_title, role, company");
@@ -47,17 +41,11 @@ router.get("/", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
 });
 
 // 🆕 GET /user/:userId/details - Récupération détaillée avec VRAIES STATS D'USAGE
-router.get("/:userId/details", legacyAuthGuard, validate(userIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
+router.get("/:userId/details", requireAuth('admin'), validate(userIdParamSchema, 'params'), async (req: AuthenticatedRequest, res) => {
 
   try {
     logger.info(`🔍 Récupération détails utilisateur ID: ${req.params.userId}`);
     
-    // Vérifier le rôle admin
-    if (req.user?.role !== 'admin') {
-      logger.warn("❌ Accès refusé - rôle non admin:", req.user?.role);
-      return res.status(403).json({ error: "Accès refusé. Seuls les admins peuvent voir les détails des utilisateurs." });
-    }
-
     const { userId } = req.params;
     
     // 1️⃣ Récupérer les infos de base de l'utilisateur
@@ -173,18 +161,12 @@ router.get("/:userId/details", legacyAuthGuard, validate(userIdParamSchema, 'par
 });
 
 // 🎯 NOUVELLE ROUTE : GET /user/:userId/tokens - Récupérer les tokens d'un utilisateur
-router.get("/:userId/tokens", legacyAuthGuard, validate(userIdParamSchema, 'params'), validate(tokensQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+router.get("/:userId/tokens", requireAuth('admin'), validate(userIdParamSchema, 'params'), validate(tokensQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
 
   try {
     const { userId } = req.params;
     const { bot_id } = req.query;
     
-    // Vérifier le rôle admin
-    if (req.user?.role !== 'admin') {
-      logger.warn("❌ Accès refusé - rôle non admin:", req.user?.role);
-      return res.status(403).json({ error: "Accès refusé." });
-    }
-    
     if (!userId) {
       return res.status(400).json({ error: "userId requis" });
     }
@@ -250,13 +232,9 @@ router.get("/:userId/tokens", legacyAuthGuard, validate(userIdParamSchema, 'para
 });
 
 // ✅ PATCH /user/:userId/revoke-license - Révoquer une licence spécifique
-router.patch("/:userId/revoke-license", legacyAuthGuard, sanitize, validate(userIdParamSchema, 'params'), validate(revokeLicenseSchema), async (req: AuthenticatedRequest, res) => {
+router.patch("/:userId/revoke-license", requireAuth('admin'), sanitize, validate(userIdParamSchema, 'params'), validate(revokeLicenseSchema), async (req: AuthenticatedRequest, res) => {
 
   try {
-    if (req.user?.role !== 'admin') {
-      return res.status(403).json({ error: "Accès refusé." });
-    }
-
     const { userId } = req.params;
     const { licenseId } = req.body;
 
@@ -315,13 +293,9 @@ router.patch("/:userId/revoke-license", legacyAuthGuard, sanitize, validate(user
 });
 
 // 🆕 GET /user/:userId/usage-analytics - Analytics détaillées d'usage (bonus)
-router.get("/:userId/usage-analytics", legacyAuthGuard, validate(userIdParamSchema, 'params'), validate(analyticsQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
+router.get("/:userId/usage-analytics", requireAuth('admin'), validate(userIdParamSchema, 'params'), validate(analyticsQuerySchema, 'query'), async (req: AuthenticatedRequest, res) => {
 
   try {
-    if (req.user?.role !== 'admin') {
-      return res.status(403).json({ error: "Accès refusé." });
-    }
-
     const { userId } = req.params;
     const { period = '30' } = req.query; // Période en jours
 
@@ -3,7 +3,7 @@ const { supabase } = require('../../utils/supabase');
 import { validate, sanitize } from '../../middlewares/validate';
 import { userPreferencesSchema, themeSchema, botPreferencesSchema, avatarPreferencesSchema } from '../../schemas/preferences.schema';
 import express from "express";
-import { legacyAuthGuard, AuthenticatedRequest } from "../../middlewares/authguard";
+import { requireAuth, AuthenticatedRequest } from "../../middlewares/authguard";
 import logger from "../../utils/logger";
 
 const router = express.Router();
@@ -13,9 +13,9 @@ const router = express.Router();
 // ===============================================
 
 // ✅ GET /user/me - Récupération du profil utilisateur complet
-router.get("/me", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/me", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -96,16 +96,16 @@ router.get("/me", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
   } catch (error) {
     logger.error("❌ Exception route /me", {
       error: (error as Error).message,
-      userId: req.user?.sub || req.user?.id
+      userId: req.user?.id
     });
     return res.status(500).json({ error: "Erreur serveur." });
   }
 });
 
 // ✅ PUT /user/update-profile - Mise à jour du profil utilisateur
-router.put("/update-profile", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.put("/update-profile", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(404).json({ error: "Utilisateur non trouvé." });
     }
@@ -144,9 +144,9 @@ router.put("/update-profile", legacyAuthGuard, async (req: AuthenticatedRequest,
 });
 
 // ✅ PUT /user/change-password - Changement de mot de passe
-router.put("/change-password", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.put("/change-password", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(404).json({ error: "Utilisateur non trouvé." });
     }
@@ -229,9 +229,9 @@ const defaultUserPreferences: UserPreferences = {
 };
 
 // ✅ GET /user/preferences - Récupération des préférences utilisateur
-router.get("/preferences", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/preferences", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -281,16 +281,16 @@ router.get("/preferences", legacyAuthGuard, async (req: AuthenticatedRequest, re
   } catch (err) {
     logger.error("❌ Exception lors de la récupération des préférences", {
       error: (err as Error).message,
-      userId: req.user?.sub || req.user?.id
+      userId: req.user?.id
     });
     res.status(500).json({ error: "Erreur serveur lors de la récupération des préférences." });
   }
 });
 
 // ✅ PUT /user/preferences - Mise à jour des préférences utilisateur
-router.put("/preferences", legacyAuthGuard, sanitize, validate(userPreferencesSchema), async (req: AuthenticatedRequest, res) => {
+router.put("/preferences", requireAuth(), sanitize, validate(userPreferencesSchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -399,17 +399,17 @@ router.put("/preferences", legacyAuthGuard, sanitize, validate(userPreferencesSc
   } catch (err) {
     logger.error("❌ Exception lors de la mise à jour des préférences", {
       error: (err as Error).message,
-      userId: req.user?.sub || req.user?.id
+      userId: req.user?.id
     });
     res.status(500).json({ error: "Erreur serveur lors de la mise à jour des préférences." });
   }
 });
 
 // ✅ PATCH /user/preferences/theme - Mise à jour rapide du thème uniquement
-router.patch("/preferences/theme", legacyAuthGuard, sanitize, validate(themeSchema), async (req: AuthenticatedRequest, res) => {
+router.patch("/preferences/theme", requireAuth(), sanitize, validate(themeSchema), async (req: AuthenticatedRequest, res) => {
 
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -484,16 +484,16 @@ router.patch("/preferences/theme", legacyAuthGuard, sanitize, validate(themeSche
   } catch (err) {
     logger.error("❌ Exception lors de la mise à jour du thème", {
       error: (err as Error).message,
-      userId: req.user?.sub || req.user?.id
+      userId: req.user?.id
     });
     res.status(500).json({ error: "Erreur serveur lors de la sauvegarde du thème." });
   }
 });
 
 // ✅ GET /user/bot-preferences - Récupération des préférences par bot
-router.get("/bot-preferences", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/bot-preferences", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(404).json({ error: "Utilisateur non trouvé." });
     }
@@ -520,9 +520,9 @@ router.get("/bot-preferences", legacyAuthGuard, async (req: AuthenticatedRequest
 });
 
 // ✅ PUT /user/bot-preferences - Mise à jour des préférences par bot
-router.put("/bot-preferences", legacyAuthGuard, sanitize, validate(botPreferencesSchema), async (req: AuthenticatedRequest, res) => {
+router.put("/bot-preferences", requireAuth(), sanitize, validate(botPreferencesSchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(404).json({ error: "Utilisateur non trouvé." });
     }
@@ -572,9 +572,9 @@ router.put("/bot-preferences", legacyAuthGuard, sanitize, validate(botPreference
 });
 
 // ✅ GET /user/all-preferences - Récupération de toutes les préférences (pour intelligentRouter)
-router.get("/all-preferences", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/all-preferences", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(404).json({ error: "Utilisateur non trouvé." });
     }
@@ -626,9 +626,9 @@ interface UserAvatarPreference {
 }
 
 // ✅ GET /user/avatar-preferences - Récupération des préférences d'avatars
-router.get("/avatar-preferences", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/avatar-preferences", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -656,10 +656,10 @@ router.get("/avatar-preferences", legacyAuthGuard, async (req: AuthenticatedRequ
 });
 
 // ✅ PUT /user/avatar-preferences - Mise à jour des préférences d'avatars
-router.put("/avatar-preferences", legacyAuthGuard, sanitize, validate(avatarPreferencesSchema), async (req: AuthenticatedRequest, res) => {
+router.put("/avatar-preferences", requireAuth(), sanitize, validate(avatarPreferencesSchema), async (req: AuthenticatedRequest, res) => {
 
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -720,9 +720,9 @@ router.put("/avatar-preferences", legacyAuthGuard, sanitize, validate(avatarPref
 });
 
 // ✅ GET /user/avatar-preferences/:botName - Récupération avatar d'un bot spécifique
-router.get("/avatar-preferences/:botName", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/avatar-preferences/:botName", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     const botName = req.params.botName;
 
     if (!userId) {
@@ -4,7 +4,7 @@ import { validate, sanitize } from '../../middlewares/validate';
 import { updateProfileSchema, changePasswordSchema } from '../../schemas/profile.schema';
 import { supabase } from '../../utils/supabase';
 import express from "express";
-import { legacyAuthGuard, AuthenticatedRequest } from "../../middlewares/authguard";
+import { requireAuth, AuthenticatedRequest } from "../../middlewares/authguard";
 import bcrypt from "bcryptjs";
 import logger from "../../utils/logger";
 import { getUserById, getLicenseCount } from "./helpers/userHelpers";
@@ -12,9 +12,9 @@ import { getUserById, getLicenseCount } from "./helpers/userHelpers";
 const router = express.Router();
 
 // ✅ GET /user/me - Récupération des informations de l'utilisateur connecté
-router.get("/me", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
+router.get("/me", requireAuth(), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       logger.error("❌ ID utilisateur non trouvé dans le token");
       return res.status(404).json({ error: "Utilisateur non trouvé." });
@@ -37,10 +37,10 @@ router.get("/me", legacyAuthGuard, async (req: AuthenticatedRequest, res) => {
 });
 
 // ✅ PUT /user/update-profile - Mise à jour du surnom de l'utilisateur
-router.put("/update-profile", legacyAuthGuard, sanitize, validate(updateProfileSchema), async (req: AuthenticatedRequest, res) => {
+router.put("/update-profile", requireAuth(), sanitize, validate(updateProfileSchema), async (req: AuthenticatedRequest, res) => {
 
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     const { nickname } = req.body;
 
     if (!userId) {
@@ -84,10 +84,10 @@ router.put("/update-profile", legacyAuthGuard, sanitize, validate(updateProfileS
 });
 
 // ✅ PUT /user/change-password - Changement du mot de passe
-router.put("/change-password", legacyAuthGuard, sanitize, validate(changePasswordSchema), async (req: AuthenticatedRequest, res) => {
+router.put("/change-password", requireAuth(), sanitize, validate(changePasswordSchema), async (req: AuthenticatedRequest, res) => {
 
   try {
-    const userId = req.user?.sub || req.user?.id;
+    const userId = req.user?.id;
     const { oldPassword, newPassword } = req.body;
 
     if (!userId) {
@@ -1,4 +1,5 @@
 // auth-backend/schemas/admin.schema.ts
+import { isIP } from 'net';
 import { z } from 'zod';
 
 export const userIdParamSchema = z.object({
@@ -20,4 +21,232 @@ export const analyticsQuerySchema = z.object({
     .refine(val => val >= 1 && val <= 365, {
       message: 'Période invalide (1-365 jours)'
     }),
-});
\ No newline at end of file
+});
+
+export const companyIdParamSchema = z.object({
+  companyId: z.string().uuid('ID entreprise invalide'),
+});
+
+export const overageIdParamSchema = z.object({
+  overageId: z.string().uuid('ID dépassement invalide'),
+});
+
+export const licenseIdParamSchema = z.object({
+  licenseId: z.string().uuid('ID licence invalide'),
+});
+
+export const jobNameParamSchema = z.object({
+  jobName: z.enum(['quota_reset', 'license_lifecycle'], { errorMap: () => ({ message: 'Tâche inconnue' }) }),
+});
+
+export const jobRunsQuerySchema = z.object({
+  job_name: z.enum(['quota_reset', 'license_lifecycle'], { errorMap: () => ({ message: 'Tâche inconnue' }) }).optional(),
+  limit: z.string().regex(/^\d+$/, 'Limite invalide').optional(),
+});
+
+// Code d'offre du catalogue (license_plans.code)
+const planCodeSchema = z.string().regex(/^[a-z0-9_-]{2,40}$/, 'Code d\'offre invalide (minuscules, chiffres, - et _)');
+
+export const planCodeParamSchema = z.object({
+  planCode: planCodeSchema,
+});
+
+export const plansQuerySchema = z.object({
+  include_history: z.enum(['true', 'false']).optional(),
+});
+
+const planTermsFields = {
+  name: z.string().trim().min(2, 'Nom requis').max(100, 'Nom trop long'),
+  max_requests_per_month: z.number().int('Nombre entier requis').min(0, 'Quota de requêtes invalide'),
+  max_tokens_per_month: z.number().int('Nombre entier requis').positive('Quota de tokens invalide').nullable(),
+  validity_months: z.number().int('Nombre de mois entier requis').min(1, 'Durée invalide (1 à 36 mois)').max(36, 'Durée invalide (1 à 36 mois)'),
+  allowed_bot_ids: z.array(z.string().uuid('ID bot invalide')).max(50).nullable(),
+  max_seats: z.number().int('Nombre entier requis').positive('Nombre de sièges invalide').nullable(),
+  price_monthly: z.number().min(0, 'Prix invalide'),
+  is_trial: z.boolean(),
+};
+
+export const createPlanSchema = z.object({
+  code: planCodeSchema,
+  ...planTermsFields,
+}).strict();
+
+export const updatePlanSchema = z.object(planTermsFields).partial().strict();
+
+export const planAvailabilitySchema = z.object({
+  is_available: z.boolean(),
+}).strict();
+
+export const changeLicensePlanSchema = z.object({
+  plan: planCodeSchema,
+  reason: z.string().trim().max(500, 'Motif trop long (maximum 500 caractères)').optional(),
+}).strict();
+
+export const convertTrialSchema = z.object({
+  plan: planCodeSchema,
+}).strict();
+
+export const renewLicenseSchema = z.object({
+  months: z.number().int('Nombre de mois entier requis').min(1, 'Durée invalide (1 à 36 mois)').max(36, 'Durée invalide (1 à 36 mois)').optional(),
+}).strict();
+
+export const licenseStatusChangeSchema = z.object({
+  reason: z.string().trim().min(3, 'Motif requis').max(500, 'Motif trop long (maximum 500 caractères)'),
+}).strict();
+
+export const licenseSeatsSchema = z.object({
+  max_seats: z.number().int('Nombre entier requis').positive('Nombre de sièges invalide').nullable(),
+  reason: z.string().trim().min(3, 'Motif requis').max(500, 'Motif trop long (maximum 500 caractères)'),
+}).strict();
+
+export const seatUsageQuerySchema = z.object({
+  bot_id: z.string().uuid('ID bot invalide').optional(),
+});
+
+export const grantOverageSchema = z.object({
+  companyId: z.string().uuid('ID entreprise invalide'),
+  botName: z.string().min(1, 'Nom du bot invalide').optional(),
+  extraTokens: z.number().int('Nombre de tokens entier requis').positive('Le dépassement doit être positif'),
+  expiresAt: z.string().datetime('Date d\'expiration invalide (ISO 8601)').optional(),
+  reason: z.string().trim().min(3, 'Motif requis').max(500, 'Motif trop long (maximum 500 caractères)'),
+});
+
+export const botIdParamSchema = z.object({
+  botId: z.string().uuid('ID bot invalide'),
+});
+
+const botModelSettingsSchema = z.object({
+  model: z.string().trim().min(1, 'Modèle invalide').max(100, 'Modèle invalide').optional(),
+  temperature: z.number().min(0, 'Température invalide (0-2)').max(2, 'Température invalide (0-2)').optional(),
+  top_p: z.number().min(0, 'top_p invalide (0-1)').max(1, 'top_p invalide (0-1)').optional(),
+}).strict();
+
+const botFieldsSchema = {
+  display_name: z.string().trim().min(1, 'Nom affiché invalide').max(100, 'Nom affiché trop long').nullable().optional(),
+  description: z.string().trim().max(1000, 'Description trop longue (maximum 1000 caractères)').nullable().optional(),
+  assistant_id: z.string().regex(/^asst_[A-Za-z0-9]+$/, 'ID assistant invalide (asst_...)').nullable().optional(),
+  persona_prompt: z.string().trim().max(4000, 'Persona trop long (maximum 4000 caractères)').nullable().optional(),
+  enabled: z.boolean().optional(),
+  model_settings: botModelSettingsSchema.nullable().optional(),
+  run_timeout_seconds: z.number().int('Délai entier requis').min(5, 'Délai invalide (5-600 secondes)').max(600, 'Délai invalide (5-600 secondes)').nullable().optional(),
+};
+
+export const createBotSchema = z.object({
+  name: z.string().trim().min(1, 'Nom du bot requis').max(100, 'Nom du bot trop long'),
+  ...botFieldsSchema,
+});
+
+// name non modifiable : identifiant des conversations et de l'historique d'usage (display_name pour l'affichage)
+export const updateBotSchema = z.object({
+  ...botFieldsSchema,
+}).strict();
+
+const emailDomain = z.string().trim().toLowerCase()
+  .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Domaine email invalide (ex : entreprise.fr)');
+
+// client_secret facultatif en mise à jour : le secret existant est conservé
+export const ssoConfigSchema = z.object({
+  issuer: z.string().url('Issuer OIDC invalide (URL attendue)'),
+  client_id: z.string().trim().min(1, 'client_id requis').max(255, 'client_id trop long'),
+  client_secret: z.string().min(1, 'client_secret invalide').max(1000, 'client_secret trop long').optional(),
+  allowed_domains: z.array(emailDomain).min(1, 'Au moins un domaine email autorisé'),
+  default_bot_ids: z.array(z.string().uuid('ID bot invalide')).nullable().optional(),
+  enabled: z.boolean().optional(),
+}).strict();
+
+// Espace administrateur d'entreprise : rôles limités à l'entreprise (jamais admin NAO&CO)
+export const companyUserUpdateSchema = z.object({
+  first_name: z.string().trim().min(1, 'Le prénom est requis').max(100, 'Le prénom est trop long').optional(),
+  last_name: z.string().trim().min(1, 'Le nom est requis').max(100, 'Le nom est trop long').optional(),
+  job_title: z.string().trim().max(150, 'Intitulé de poste trop long').nullable().optional(),
+  role: z.enum(['user', 'company_admin'], {
+    errorMap: () => ({ message: 'Le rôle doit être "user" ou "company_admin"' })
+  }).optional(),
+}).strict();
+
+export const invitationIdParamSchema = z.object({
+  invitationId: z.string().uuid('ID invitation invalide'),
+});
+
+// company_id ignoré pour un administrateur d'entreprise (toujours la sienne)
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Adresse email invalide'),
+  company_id: z.string().uuid('ID entreprise invalide').optional(),
+  role: z.enum(['user', 'company_admin', 'admin']).default('user'),
+  bot_ids: z.array(z.string().uuid('ID bot invalide')).max(50, 'Trop de bots').default([]),
+  first_name: z.string().trim().min(1, 'Le prénom est requis').max(100, 'Le prénom est trop long').optional(),
+  last_name: z.string().trim().min(1, 'Le nom est requis').max(100, 'Le nom est trop long').optional(),
+  job_title: z.string().trim().max(150, 'Intitulé de poste trop long').optional(),
+}).strict();
+
+export const invitationsQuerySchema = z.object({
+  status: z.enum(['pending', 'accepted', 'revoked', 'expired']).optional(),
+  company_id: z.string().uuid('ID entreprise invalide').optional(),
+});
+
+export const apiKeyIdParamSchema = z.object({
+  apiKeyId: z.string().uuid('ID clé API invalide'),
+});
+
+export const apiKeysQuerySchema = z.object({
+  company_id: z.string().uuid('ID entreprise invalide').optional(),
+});
+
+// Adresse IPv4/IPv6 ou plage CIDR
+const allowedIp = z.string().trim().refine(value => {
+  const [base, bits, extra] = value.split('/');
+  const family = isIP(base);
+  if (!family || extra !== undefined) return false;
+  if (bits === undefined) return true;
+  const prefix = Number(bits);
+  return /^\d+$/.test(bits) && prefix <= (family === 4 ? 32 : 128);
+}, 'Adresse IP ou plage CIDR invalide');
+
+const apiKeyFields = {
+  name: z.string().trim().min(1, 'Nom de la clé requis').max(100, 'Nom de la clé trop long'),
+  bot_ids: z.array(z.string().uuid('ID bot invalide')).min(1, 'Au moins un bot autorisé'),
+  allowed_ips: z.array(allowedIp).max(50, 'Trop d\'adresses IP').nullable().optional(),
+  expires_at: z.string().datetime('Date d\'expiration invalide (ISO 8601)').nullable().optional(),
+};
+
+export const createApiKeySchema = z.object({
+  company_id: z.string().uuid('ID entreprise invalide'),
+  ...apiKeyFields,
+}).strict();
+
+export const updateApiKeySchema = z.object(apiKeyFields).partial().strict();
+
+export const toolCallsQuerySchema = z.object({
+  run_id: z.string().regex(/^run_[A-Za-z0-9]+$/, 'ID de run invalide').optional(),
+  bot_id: z.string().optional(),
+  tool: z.string().optional(),
+  period: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val) : 30)
+    .refine(val => val >= 1 && val <= 365, {
+      message: 'Période invalide (1-365 jours)'
+    }),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 100),
+});
+
+// Mois de facturation AAAA-MM
+const invoicePeriod = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Période invalide (AAAA-MM)');
+
+export const invoiceIdParamSchema = z.object({
+  invoiceId: z.string().uuid('ID facture invalide'),
+});
+
+export const invoicesQuerySchema = z.object({
+  company_id: z.string().uuid('ID entreprise invalide').optional(),
+  period: invoicePeriod.optional(),
+  status: z.enum(['draft', 'final']).optional(),
+});
+
+export const generateInvoiceSchema = z.object({
+  company_id: z.string().uuid('ID entreprise invalide'),
+  period: invoicePeriod,
+}).strict();
+
+export const invoiceExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'html'], { errorMap: () => ({ message: 'Format invalide (json, csv ou html)' }) }).optional(),
+});
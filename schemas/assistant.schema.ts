@@ -1,46 +1,45 @@
 // auth-backend/schemas/assistant.schema.ts
 import { z } from 'zod';
+import { getEnabledBot, listBots } from '../services/botRegistry';
+
+const FILE_ID_REGEX = /^file[-_][A-Za-z0-9_-]+$/;
 
 /**
- * Liste des bots autorisés - à maintenir synchronisée avec la base de données
+ * Bot autorisé = actif et relié à un assistant dans le registre des bots (table bots)
  */
-const ALLOWED_BOTS = [
-  'EMEBI ET TVA UE',
-  'SANCTIONS RUSSES', 
-  'MACF',
-  'EUDR',
-  'CODE DES DOUANES UE',
-  'NAO',
-  'INCOTERMS',
-  'CRÉDITS DOCUMENTAIRES',
-  'BREXIT',
-  'SOS HOTLINE',
-  'USA'
-];
+const chatbotIdSchema = z.string()
+  .min(1, 'ID du chatbot requis')
+  .superRefine(async (val, ctx) => {
+    if (await getEnabledBot(val)) {
+      return;
+    }
+    const availableBots = (await listBots()).map(bot => bot.name);
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Bot non autorisé. Bots disponibles: ${availableBots.join(', ')}`
+    });
+  });
 
 /**
  * Schéma de validation pour les requêtes à l'assistant
- * ✅ user_id SUPPRIMÉ - récupéré depuis JWT par jwtAuthGuard
+ * ✅ user_id SUPPRIMÉ - récupéré depuis JWT par requireAuth
  */
 export const askSchema = z.object({
   question: z.string()
     .min(1, 'La question ne peut pas être vide')
     .max(4000, 'La question est trop longue (maximum 4000 caractères)'),
   // ✅ user_id SUPPRIMÉ - vient du JWT !
-  chatbot_id: z.string()
-    .min(1, 'ID du chatbot requis')
-    .refine(
-      (val) => ALLOWED_BOTS.includes(val), 
-      {
-        message: `Bot non autorisé. Bots disponibles: ${ALLOWED_BOTS.join(', ')}`
-      }
-    ),
+  chatbot_id: chatbotIdSchema,
   // ✅ AJOUT : Support des préférences optionnelles (cohérent avec preferences.schema)
   preferences: z.object({
     content_orientation: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
     communication_style: z.enum(['casual', 'professional', 'technical']).optional(),
     nickname: z.string().max(50, 'Pseudonyme trop long').optional()
-  }).optional()
+  }).optional(),
+  // Documents envoyés via POST /assistant/files
+  file_ids: z.array(z.string().regex(FILE_ID_REGEX, 'ID de document invalide'))
+    .max(5, 'Maximum 5 documents par question')
+    .optional()
 });
 
 /**
@@ -49,4 +48,38 @@ export const askSchema = z.object({
 export const botsQuerySchema = z.object({
   limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
   offset: z.string().optional().transform(val => val ? parseInt(val) : 0),
-});
\ No newline at end of file
+});
+
+/**
+ * Schéma de validation pour l'envoi d'un document (query, corps = fichier brut)
+ */
+export const uploadDocumentQuerySchema = z.object({
+  chatbot_id: chatbotIdSchema,
+  filename: z.string()
+    .trim()
+    .min(1, 'Nom de fichier requis')
+    .max(255, 'Nom de fichier trop long')
+    .regex(/^[^\\/]+$/, 'Nom de fichier invalide'),
+});
+
+/**
+ * Schéma de validation pour la liste des documents
+ */
+export const documentsQuerySchema = z.object({
+  chatbot_id: z.string().min(1, 'ID du chatbot invalide').optional(),
+  thread_id: z.string().regex(/^thread_[A-Za-z0-9]+$/, 'ID de conversation invalide').optional(),
+});
+
+/**
+ * Schéma de validation pour le paramètre :runId (bouton stop)
+ */
+export const runIdParamSchema = z.object({
+  runId: z.string().regex(/^run_[A-Za-z0-9]+$/, 'ID de run invalide'),
+});
+
+/**
+ * Schéma de validation pour le paramètre :fileId
+ */
+export const fileIdParamSchema = z.object({
+  fileId: z.string().regex(FILE_ID_REGEX, 'ID de document invalide'),
+});
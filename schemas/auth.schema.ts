@@ -23,6 +23,101 @@ export const logoutSchema = z.object({
   refreshToken: z.string().min(20, 'Refresh token invalide'),
 });
 
+/**
+ * Schéma de validation de l'identifiant de session (paramètre de route)
+ */
+export const sessionIdParamSchema = z.object({
+  id: z.string().uuid('Identifiant de session invalide'),
+});
+
+/**
+ * Schéma de validation pour la demande de réinitialisation du mot de passe
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Adresse email invalide'),
+});
+
+/**
+ * Schéma de validation pour la réinitialisation du mot de passe
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(20, 'Lien de réinitialisation invalide').max(200, 'Lien de réinitialisation invalide'),
+  newPassword: z.string()
+    .min(8, 'Le nouveau mot de passe doit contenir au moins 8 caractères')
+    .max(100, 'Le mot de passe est trop long')
+    .regex(/[A-Z]/, 'Le mot de passe doit contenir au moins une lettre majuscule')
+    .regex(/[a-z]/, 'Le mot de passe doit contenir au moins une lettre minuscule')
+    .regex(/[0-9]/, 'Le mot de passe doit contenir au moins un chiffre'),
+});
+
+/**
+ * Schémas de validation de la double authentification (TOTP)
+ */
+const totpCode = z.string().regex(/^\d{6}$/, 'Code à 6 chiffres attendu');
+const twoFactorCode = z.string().min(6, 'Code de vérification invalide').max(20, 'Code de vérification invalide');
+const challengeToken = z.string().min(20, 'Challenge 2FA invalide');
+
+export const twoFactorVerifySchema = z.object({
+  challengeToken,
+  code: twoFactorCode, // code TOTP ou code de secours
+});
+
+export const twoFactorSetupSchema = z.object({
+  challengeToken: challengeToken.optional(),
+});
+
+export const twoFactorEnableSchema = z.object({
+  challengeToken: challengeToken.optional(),
+  code: totpCode,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+});
+
+export const ssoDiscoverSchema = z.object({
+  email: z.string().email('Email invalide'),
+});
+
+export const ssoLoginParamsSchema = z.object({
+  companyId: z.string().uuid('ID entreprise invalide'),
+});
+
+export const ssoCallbackSchema = z.object({
+  code: z.string().min(1).optional(),
+  state: z.string().min(1).optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+export const ssoExchangeSchema = z.object({
+  code: z.string().min(20, 'Code de connexion SSO invalide'),
+});
+
+/**
+ * Schémas de validation des invitations (lien reçu par email)
+ */
+const invitationToken = z.string().min(20, "Lien d'invitation invalide").max(2000, "Lien d'invitation invalide");
+
+export const invitationTokenSchema = z.object({
+  token: invitationToken,
+});
+
+export const acceptInvitationSchema = z.object({
+  token: invitationToken,
+  password: z.string()
+    .min(8, 'Le mot de passe doit contenir au moins 8 caractères')
+    .max(100, 'Le mot de passe est trop long')
+    .regex(/[A-Z]/, 'Le mot de passe doit contenir au moins une lettre majuscule')
+    .regex(/[a-z]/, 'Le mot de passe doit contenir au moins une lettre minuscule')
+    .regex(/[0-9]/, 'Le mot de passe doit contenir au moins un chiffre'),
+  first_name: z.string().trim().min(1, 'Le prénom est requis').max(100, 'Le prénom est trop long').optional(),
+  last_name: z.string().trim().min(1, 'Le nom est requis').max(100, 'Le nom est trop long').optional(),
+  accept_terms: z.literal(true, {
+    errorMap: () => ({ message: "Vous devez accepter les conditions d'utilisation" })
+  }),
+});
+
 /**
  * Schéma de validation pour le changement de mot de passe
  * (à implémenter ultérieurement)
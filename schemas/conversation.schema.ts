@@ -0,0 +1,28 @@
+// auth-backend/schemas/conversation.schema.ts
+import { z } from 'zod';
+
+/**
+ * Schéma de validation pour la liste des conversations
+ */
+export const conversationsQuerySchema = z.object({
+  chatbot_id: z.string().min(1, 'ID du chatbot invalide').optional(),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 50),
+  offset: z.string().optional().transform(val => val ? parseInt(val) : 0),
+});
+
+/**
+ * Schéma de validation pour le paramètre :threadId
+ */
+export const threadIdParamSchema = z.object({
+  threadId: z.string().regex(/^thread_[A-Za-z0-9]+$/, 'ID de conversation invalide'),
+});
+
+/**
+ * Schéma de validation pour le renommage d'une conversation
+ */
+export const renameConversationSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Le titre ne peut pas être vide')
+    .max(120, 'Le titre est trop long (maximum 120 caractères)'),
+});
@@ -0,0 +1,35 @@
+// auth-backend/schemas/feedback.schema.ts
+import { z } from 'zod';
+
+export const FEEDBACK_CATEGORIES = ['incorrect', 'outdated_regulation', 'incomplete', 'off_topic'] as const;
+
+/**
+ * Schéma de validation pour un retour sur une réponse d'assistant
+ */
+export const feedbackSchema = z.object({
+  message_id: z.string().regex(/^msg_[A-Za-z0-9_]+$/, 'ID de réponse invalide'),
+  rating: z.enum(['up', 'down'], { errorMap: () => ({ message: 'Note invalide (up ou down)' }) }),
+  category: z.enum(FEEDBACK_CATEGORIES, {
+    errorMap: () => ({ message: `Catégorie invalide (${FEEDBACK_CATEGORIES.join(', ')})` })
+  }).optional(),
+  comment: z.string()
+    .trim()
+    .max(2000, 'Le commentaire est trop long (maximum 2000 caractères)')
+    .optional(),
+});
+
+/**
+ * Schéma de validation pour les rapports qualité admin
+ */
+export const feedbackReportQuerySchema = z.object({
+  period: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val) : 30)
+    .refine(val => val >= 1 && val <= 365, {
+      message: 'Période invalide (1-365 jours)'
+    }),
+  granularity: z.enum(['day', 'week', 'month']).optional(),
+  bot_id: z.string().optional(),
+  company_id: z.string().uuid('ID entreprise invalide').optional(),
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 20),
+});
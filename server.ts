@@ -8,12 +8,14 @@ import authRoutes from './routes/auth';
 import assistantRoutes from './routes/assistant';
 import userRoutes from './routes/user';
 import companiesRoutes from './routes/companies';
+import companyRoutes from './routes/company';
 import { loginRateLimiter, assistantRateLimiter } from './middlewares/rateLimiter';
 import { loginRateLimiterRedis, assistantRateLimiterRedis, generalRateLimiter } from './middlewares/rateLimiterRedis';
 import { errorHandler } from './middlewares/errorHandler';
+import { requireAuth, assertAdminRoutesProtected } from './middlewares/authguard';
 import logger from './utils/logger';
 import config from './utils/config';
-import { scheduleMonthlyReset } from './utils/scheduler';
+import { startScheduler } from './utils/scheduler';
 import contactRoutes from './routes/contact';
 
 // ✨ MISE À JOUR : Import du nouveau router admin modulaire
@@ -110,6 +112,7 @@ app.use('/auth', authRoutes);
 app.use('/assistant', assistantRoutes);
 app.use('/user', userRoutes);
 app.use('/companies', companiesRoutes);
+app.use('/company', companyRoutes); // Espace administrateur d'entreprise
 // ✨ MISE À JOUR : Utilisation du nouveau router admin modulaire
 app.use('/admin', adminRoutes);
 app.use('/contact', contactRoutes);
@@ -118,6 +121,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/assistant', assistantRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/companies', companiesRoutes);
+app.use('/api/company', companyRoutes);
 // ✨ MISE À JOUR : Utilisation du nouveau router admin modulaire (version API)
 app.use('/api/admin', adminRoutes);
 app.use('/api/contact', contactRoutes); 
@@ -142,7 +146,7 @@ app.get('/', (req, res) => {
 });
 
 // ✨ AJOUT : Route pour lister les endpoints admin disponibles
-app.get('/admin', (req, res) => {
+app.get('/admin', requireAuth('admin'), (req, res) => {
   res.json({
     message: 'Admin API modulaire disponible',
     endpoints: {
@@ -185,6 +189,10 @@ app.use('*', (req, res) => {
 });
 
 app.use(errorHandler);
+
+// 🛡️ Refus de démarrer si une route /admin n'exige pas la permission admin
+assertAdminRoutesProtected(app);
+
 logger.info("⏳ Configuration terminée, lancement du serveur...");
 
 // Health check endpoint
@@ -207,9 +215,9 @@ const server = app.listen(config.port, () => {
   logger.info(`⚙️ Admin Quotas disponible sur /admin/quotas/`);
   logger.info(`📥 Admin Exports disponible sur /admin/export/`);
 
-  // ⏰ Reset mensuel automatique
-  scheduleMonthlyReset();
-  logger.info('⏰ Reset mensuel automatique activé');
+  // ⏰ Tâches planifiées (reset des quotas à la date anniversaire de chaque licence)
+  startScheduler();
+  logger.info('⏰ Tâches planifiées activées');
 });
 
 process.on('SIGTERM', () => {
@@ -0,0 +1,143 @@
+/**
+ * 🔒 SERVICE VERROUILLAGE DE COMPTE
+ * Échecs de connexion comptés par compte (email) : délai progressif entre les tentatives,
+ * puis verrouillage temporaire. Compteurs dans Redis si disponible, en mémoire sinon.
+ */
+
+import { EphemeralStore } from '../utils/ephemeralStore';
+import logger from '../utils/logger';
+import config from '../utils/config';
+
+// 🎯 TYPES
+
+interface FailureState {
+  count: number;
+  lastFailureAt: number; // ms
+}
+
+export interface LoginBlock {
+  reason: 'locked' | 'throttled';
+  retryAfterSeconds: number;
+}
+
+export interface FailureOutcome {
+  attempts: number;
+  locked: boolean;
+  lockedUntil: string | null;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  locked_until: string | null;
+  failed_attempts: number;
+}
+
+const attemptsStore = new EphemeralStore('lockout:attempts:');   // compteur d'échecs (incrément atomique)
+const lastFailureStore = new EphemeralStore('lockout:last:');     // horodatage du dernier échec (ms)
+const lockedStore = new EphemeralStore('lockout:locked:');
+
+function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Délai imposé avant la tentative suivante : doublé à chaque échec au-delà du seuil
+ */
+function progressiveDelayMs(count: number): number {
+  const { delayAfterAttempts, baseDelaySeconds, maxDelaySeconds } = config.lockout;
+  if (count < delayAfterAttempts) {
+    return 0;
+  }
+  return Math.min(baseDelaySeconds * 2 ** (count - delayAfterAttempts), maxDelaySeconds) * 1000;
+}
+
+async function getFailureState(account: string): Promise<FailureState | null> {
+  const count = parseInt((await attemptsStore.get(account)) || '0', 10);
+  if (!count) {
+    return null;
+  }
+  const lastFailureAt = parseInt((await lastFailureStore.get(account)) || '0', 10);
+  return { count, lastFailureAt };
+}
+
+// 🚦 CONTRÔLE
+
+/**
+ * À appeler avant la vérification du mot de passe : null si la tentative est autorisée
+ */
+export async function getLoginBlock(email: string): Promise<LoginBlock | null> {
+  const account = accountKey(email);
+
+  const lockedUntil = await lockedStore.get(account);
+  if (lockedUntil) {
+    return {
+      reason: 'locked',
+      retryAfterSeconds: Math.max(1, Math.ceil((parseInt(lockedUntil, 10) - Date.now()) / 1000))
+    };
+  }
+
+  const state = await getFailureState(account);
+  if (state) {
+    const nextAttemptAt = state.lastFailureAt + progressiveDelayMs(state.count);
+    if (nextAttemptAt > Date.now()) {
+      return { reason: 'throttled', retryAfterSeconds: Math.ceil((nextAttemptAt - Date.now()) / 1000) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Enregistre un échec ; verrouille le compte au-delà du nombre maximal de tentatives
+ * (compteur incrémenté atomiquement : des tentatives parallèles comptent chacune)
+ */
+export async function recordLoginFailure(email: string): Promise<FailureOutcome> {
+  const account = accountKey(email);
+  const { maxAttempts, attemptWindowMinutes, lockMinutes } = config.lockout;
+
+  const attempts = await attemptsStore.incr(account, attemptWindowMinutes * 60);
+  await lastFailureStore.set(account, String(Date.now()), attemptWindowMinutes * 60);
+
+  if (attempts >= maxAttempts) {
+    const lockedUntil = Date.now() + lockMinutes * 60 * 1000;
+    await lockedStore.set(account, String(lockedUntil), lockMinutes * 60);
+    await attemptsStore.del(account);
+    await lastFailureStore.del(account);
+
+    logger.warn('🔒 Compte verrouillé après échecs de connexion', { email: account, attempts, lockMinutes });
+    return { attempts, locked: true, lockedUntil: new Date(lockedUntil).toISOString() };
+  }
+
+  return { attempts, locked: false, lockedUntil: null };
+}
+
+/**
+ * Connexion réussie : remise à zéro des compteurs
+ */
+export async function resetLoginFailures(email: string): Promise<void> {
+  const account = accountKey(email);
+  await attemptsStore.del(account);
+  await lastFailureStore.del(account);
+}
+
+// 👑 ADMINISTRATION
+
+export async function getLockoutStatus(email: string): Promise<LockoutStatus> {
+  const account = accountKey(email);
+  const lockedUntil = await lockedStore.get(account);
+  const state = await getFailureState(account);
+
+  return {
+    locked: !!lockedUntil,
+    locked_until: lockedUntil ? new Date(parseInt(lockedUntil, 10)).toISOString() : null,
+    failed_attempts: state?.count || 0
+  };
+}
+
+export async function unlockAccount(email: string): Promise<void> {
+  const account = accountKey(email);
+  await lockedStore.del(account);
+  await attemptsStore.del(account);
+  await lastFailureStore.del(account);
+  logger.info('🔓 Compte déverrouillé', { email: account });
+}
@@ -0,0 +1,348 @@
+/**
+ * 🔑 SERVICE CLÉS API ENTREPRISE
+ * Accès machine à machine aux assistants (ERP, TMS) : clé stockée hachée, préfixe visible,
+ * bots autorisés, liste d'IP et expiration. Chaque clé agit via un utilisateur de service
+ * de l'entreprise : usage dans openai_token_usage et budget de l'entreprise.
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import bcrypt from 'bcrypt';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import { getBot } from './botRegistry';
+
+// 🎯 TYPES
+
+export interface ApiKey {
+  id: string;
+  company_id: string;
+  name: string;
+  key_prefix: string;           // affiché dans l'administration (nao_xxxxxxxx)
+  service_user_id: string;
+  bot_ids: string[];            // bots utilisables avec cette clé
+  allowed_ips: string[] | null; // null = toutes les IP ; adresses ou plages CIDR
+  expires_at: string | null;
+  status: 'active' | 'revoked';
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface ApiKeyInput {
+  company_id: string;
+  name: string;
+  bot_ids: string[];
+  allowed_ips?: string[] | null;
+  expires_at?: string | null;
+}
+
+export type ApiKeyUpdate = Partial<Pick<ApiKeyInput, 'name' | 'bot_ids' | 'allowed_ips' | 'expires_at'>>;
+
+// Identité de la requête authentifiée par clé API
+export interface ApiKeyPrincipal {
+  apiKey: ApiKey;
+  user: { id: string; email: string; role: string; company_id: string };
+}
+
+export type ApiKeyFailure = 'API_KEY_INVALID' | 'API_KEY_EXPIRED' | 'API_KEY_IP_FORBIDDEN';
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export const API_KEY_PREFIX = 'nao_';
+export const SERVICE_ROLE = 'service';
+
+const API_KEY_FIELDS = 'id, company_id, name, key_prefix, service_user_id, bot_ids, allowed_ips, expires_at, status, last_used_at, last_used_ip, created_by, created_at, revoked_at';
+
+// Format : nao_<8 caractères visibles>_<secret>
+const API_KEY_FORMAT = /^nao_([a-z0-9]{8})_[A-Za-z0-9_-]{32,}$/;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function looksLikeApiKey(value: string): boolean {
+  return value.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Adresse autorisée par la liste (IPv4 mappée en IPv6 comprise)
+ */
+export function isIpAllowed(ip: string, allowedIps: string[] | null): boolean {
+  if (!allowedIps || allowedIps.length === 0) {
+    return true;
+  }
+
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+  const blockList = new net.BlockList();
+
+  for (const entry of allowedIps) {
+    const [base, bits] = entry.split('/');
+    const entryFamily = net.isIPv6(base) ? 'ipv6' : 'ipv4';
+    if (bits === undefined) {
+      blockList.addAddress(base, entryFamily);
+    } else {
+      blockList.addSubnet(base, parseInt(bits, 10), entryFamily);
+    }
+  }
+
+  return blockList.check(address, family);
+}
+
+// 🔐 AUTHENTIFICATION
+
+/**
+ * Vérifie la clé présentée (hash, statut, expiration, IP) et charge son utilisateur de service
+ */
+export async function authenticateApiKey(rawKey: string, ip: string): Promise<ApiKeyPrincipal | ApiKeyFailure> {
+  const match = rawKey.match(API_KEY_FORMAT);
+  if (!match) {
+    return 'API_KEY_INVALID';
+  }
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .select(`${API_KEY_FIELDS}, key_hash`)
+    .eq('key_prefix', `${API_KEY_PREFIX}${match[1]}`)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture clé API impossible: ${error.message}`);
+  }
+
+  const expected = Buffer.from(apiKey?.key_hash || '', 'hex');
+  const presented = Buffer.from(hashKey(rawKey), 'hex');
+  if (!apiKey || expected.length !== presented.length || !crypto.timingSafeEqual(expected, presented)) {
+    return 'API_KEY_INVALID';
+  }
+
+  if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now()) {
+    return 'API_KEY_EXPIRED';
+  }
+
+  if (!isIpAllowed(ip, apiKey.allowed_ips)) {
+    logger.warn('🚫 Clé API utilisée depuis une IP non autorisée', { apiKeyId: apiKey.id, ip });
+    return 'API_KEY_IP_FORBIDDEN';
+  }
+
+  const { data: serviceUser, error: userError } = await supabase
+    .from('users')
+    .select('id, email, role, company_id')
+    .eq('id', apiKey.service_user_id)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Lecture utilisateur de service impossible: ${userError.message}`);
+  }
+  if (!serviceUser || serviceUser.company_id !== apiKey.company_id) {
+    logger.error('❌ Utilisateur de service introuvable pour la clé API', { apiKeyId: apiKey.id });
+    return 'API_KEY_INVALID';
+  }
+
+  // Suivi d'usage sans bloquer la requête
+  void supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString(), last_used_ip: ip })
+    .eq('id', apiKey.id)
+    .then(({ error: updateError }) => {
+      if (updateError) {
+        logger.warn('⚠️ Mise à jour usage clé API impossible', { apiKeyId: apiKey.id, error: updateError.message });
+      }
+    });
+
+  delete apiKey.key_hash;
+  return { apiKey, user: serviceUser };
+}
+
+/**
+ * Le bot demandé (chatbot_id) fait-il partie des bots de la clé ?
+ */
+export async function isBotAllowed(apiKey: ApiKey, botName: string): Promise<boolean> {
+  const bot = await getBot(botName);
+  return !!bot && apiKey.bot_ids.includes(bot.id);
+}
+
+// 🛠️ ADMINISTRATION
+
+export async function listApiKeys(companyId?: string): Promise<ApiKey[]> {
+  try {
+    let query = supabase
+      .from('api_keys')
+      .select(API_KEY_FIELDS)
+      .order('created_at', { ascending: false });
+
+    if (companyId) {
+      query = query.eq('company_id', companyId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('❌ Erreur liste clés API', { error: error.message, companyId });
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste clés API', { error: (err as Error).message, companyId });
+    return [];
+  }
+}
+
+export async function getApiKey(apiKeyId: string): Promise<ApiKey | null> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_FIELDS)
+    .eq('id', apiKeyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture clé API impossible: ${error.message}`);
+  }
+  return data || null;
+}
+
+async function assertBotsExist(botIds: string[]): Promise<void> {
+  const { data, error } = await supabase
+    .from('bots')
+    .select('id')
+    .in('id', botIds);
+
+  if (error) {
+    throw new Error(`Lecture bots impossible: ${error.message}`);
+  }
+
+  const known = new Set((data || []).map(bot => bot.id));
+  if (botIds.some(botId => !known.has(botId))) {
+    throw new ApiKeyError('Bot inconnu dans la liste des bots autorisés.', 400, 'UNKNOWN_BOT');
+  }
+}
+
+/**
+ * Crée la clé et son utilisateur de service. La clé en clair n'est renvoyée qu'ici.
+ */
+export async function createApiKey(input: ApiKeyInput, createdBy: string): Promise<{ apiKey: ApiKey; key: string }> {
+  const { data: company, error: companyError } = await supabase
+    .from('companies')
+    .select('id, name')
+    .eq('id', input.company_id)
+    .maybeSingle();
+
+  if (companyError) {
+    throw new Error(`Lecture entreprise impossible: ${companyError.message}`);
+  }
+  if (!company) {
+    throw new ApiKeyError('Entreprise non trouvée.', 404, 'COMPANY_NOT_FOUND');
+  }
+
+  await assertBotsExist(input.bot_ids);
+
+  const keyPrefix = `${API_KEY_PREFIX}${crypto.randomBytes(6).toString('hex').slice(0, 8)}`;
+  const key = `${keyPrefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+  // Utilisateur technique : mot de passe aléatoire jamais communiqué, aucune permission hors assistant
+  const { data: serviceUser, error: userError } = await supabase
+    .from('users')
+    .insert({
+      email: `${keyPrefix}@api-keys.naoandco.invalid`,
+      first_name: 'API',
+      last_name: input.name,
+      company_id: company.id,
+      company: company.name,
+      nickname: keyPrefix,
+      role: SERVICE_ROLE,
+      password_hash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+      first_login: false,
+      created_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (userError) {
+    throw new Error(`Création utilisateur de service impossible: ${userError.message}`);
+  }
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .insert({
+      company_id: company.id,
+      name: input.name,
+      key_prefix: keyPrefix,
+      key_hash: hashKey(key),
+      service_user_id: serviceUser.id,
+      bot_ids: [...new Set(input.bot_ids)],
+      allowed_ips: input.allowed_ips?.length ? input.allowed_ips : null,
+      expires_at: input.expires_at || null,
+      status: 'active',
+      created_by: createdBy
+    })
+    .select(API_KEY_FIELDS)
+    .single();
+
+  if (error) {
+    await supabase.from('users').delete().eq('id', serviceUser.id);
+    throw new Error(`Création clé API impossible: ${error.message}`);
+  }
+
+  logger.info('🔑 Clé API créée', { apiKeyId: apiKey.id, companyId: company.id, keyPrefix, createdBy });
+  return { apiKey, key };
+}
+
+export async function updateApiKey(apiKey: ApiKey, changes: ApiKeyUpdate): Promise<ApiKey> {
+  if (apiKey.status !== 'active') {
+    throw new ApiKeyError('Une clé révoquée ne peut plus être modifiée.', 409, 'API_KEY_REVOKED');
+  }
+  if (changes.bot_ids) {
+    await assertBotsExist(changes.bot_ids);
+  }
+
+  const update: Record<string, unknown> = { ...changes, updated_at: new Date().toISOString() };
+  if (changes.bot_ids) {
+    update.bot_ids = [...new Set(changes.bot_ids)];
+  }
+  if (changes.allowed_ips !== undefined) {
+    update.allowed_ips = changes.allowed_ips?.length ? changes.allowed_ips : null;
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update(update)
+    .eq('id', apiKey.id)
+    .select(API_KEY_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(`Mise à jour clé API impossible: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Révocation immédiate ; l'utilisateur de service est conservé pour l'historique d'usage
+ */
+export async function revokeApiKey(apiKey: ApiKey, revokedBy: string): Promise<ApiKey> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ status: 'revoked', revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+    .eq('id', apiKey.id)
+    .eq('status', 'active')
+    .select(API_KEY_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Révocation clé API impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new ApiKeyError('Clé API déjà révoquée.', 409, 'API_KEY_REVOKED');
+  }
+
+  logger.info('🗑️ Clé API révoquée', { apiKeyId: apiKey.id, revokedBy });
+  return data;
+}
@@ -5,7 +5,7 @@
 
 const { supabase } = require('../utils/supabase');
 import { generateCacheKey, getCachedResponse, setCachedResponse } from './cacheService';
-import { OpenAI } from 'openai';
+import { getLLMProvider, type LLMRun, type LLMRunParams, type LLMRunStream, type LLMToolOutput } from './llm';
 import logger from '../utils/logger';
 import config from '../utils/config';
 import Redis from 'ioredis';
@@ -16,34 +16,33 @@ const redis = config.isProd && process.env.REDIS_URL
 
 import { 
   enterpriseCache, 
-generateCacheKey as generateThreadCacheKey,
-getCachedAssistantId,
-  cacheAssistantId
+generateCacheKey as generateThreadCacheKey
 } from '../utils/assistantCache';
 import { 
   getUserPreferences, 
   buildCustomInstructions,
   type UserPreferences,
+  type RequestPreferences,
   type CachedThreadData
 } from './preferencesService';
+import { saveConversationExchange, type ConversationMessage } from './conversationService';
+import { recordTokenUsage } from './tokenBudgetService';
+import { buildCitedAnswer, type Citation } from './citationService';
+import { markDocumentsAttached } from './documentService';
+import { getEnabledBot, listBots, type BotDefinition } from './botRegistry';
+import {
+  createRunControl,
+  getRunTimeoutMs,
+  abortableDelay,
+  cancelRunAndCollectUsage,
+  RunCancelledError,
+  type RunCancelReason
+} from './runControlService';
+import { executeToolCalls, type ToolCallContext } from './tools';
+
+// 🔧 FOURNISSEUR LLM CONFIGURÉ (LLM_PROVIDER)
+const llm = getLLMProvider();
 
-// 🔧 CLIENT OPENAI CONFIGURÉ
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-  defaultHeaders: {
-    "OpenAI-Beta": "assistants=v2",
-  },
-});
-
-// 🎯 CONFIGURATION DES ASSISTANTS
-const ASSISTANTS: Record<string, string | undefined> = {
-  'EMEBI ET TVA UE': process.env.ASSISTANT_EMEBI,
-  'MACF': process.env.ASSISTANT_MACF,
-  'CODE DES DOUANES UE': process.env.ASSISTANT_CODE_DOUANES,
-  'USA': process.env.ASSISTANT_USA,
-  'EUDR': process.env.ASSISTANT_EUDR,
-  'SANCTIONS RUSSES': process.env.ASSISTANT_SANCTIONS
-};
 // 📊 INTERFACE POUR SAUVEGARDE TOKENS
 interface TokenUsageData {
   user_id: string;
@@ -56,6 +55,7 @@ interface TokenUsageData {
   output_tokens: number;
   response_time_ms: number;
   timestamp: string;
+  status?: 'completed' | 'cancelled'; // cancelled = usage partiel d'un run annulé
 }
 
 // 💾 FONCTION DE SAUVEGARDE TOKENS (NOUVELLE)
@@ -76,7 +76,8 @@ async function saveTokenUsage(data: TokenUsageData): Promise<void> {
         input_tokens: data.input_tokens,
         output_tokens: data.output_tokens,
         response_time_ms: data.response_time_ms,
-        timestamp: data.timestamp
+        timestamp: data.timestamp,
+        status: data.status || 'completed'
       });
 
     if (error) {
@@ -92,6 +93,7 @@ async function saveTokenUsage(data: TokenUsageData): Promise<void> {
         tokens: data.total_tokens,
         responseTime: data.response_time_ms 
       });
+      await recordTokenUsage(data.company_id, data.bot_id, data.total_tokens);
     }
   } catch (error) {
     logger.error('❌ Exception sauvegarde tokens', { 
@@ -105,7 +107,7 @@ async function saveTokenUsage(data: TokenUsageData): Promise<void> {
 /**
  * Récupère le company_id d'un utilisateur
  */
-async function getUserCompanyId(userId: string): Promise<string | null> {
+export async function getUserCompanyId(userId: string): Promise<string | null> {
   try {
     const { data, error } = await supabase
       .from('users')
@@ -150,6 +152,8 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
         .select('thread_id, last_used_at')
         .eq('user_id', userId)
         .eq('chatbot_id', chatbotId)
+        .order('last_used_at', { ascending: false })
+        .limit(1)
         .maybeSingle(),
       getUserPreferences(userId, chatbotId)
     ]);
@@ -166,7 +170,7 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
         supabase.from('user_threads')
           .update({ last_used_at: new Date().toISOString() })
           .eq('user_id', userId)
-          .eq('chatbot_id', chatbotId)
+          .eq('thread_id', threadId)
           .then(() => logger.debug('✅ Thread timestamp updated'))
           .catch(() => logger.warn('⚠️ Failed to update thread timestamp'));
       });
@@ -176,7 +180,7 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
     } else {
       // Créer nouveau thread
       console.log('🔄 Création nouveau thread...');
-      const thread = await openai.beta.threads.create();
+      const thread = await llm.createThread();
       
       // 🔧 FIX : Pas de "const" ici, on assigne à la variable globale
       threadId = thread.id;
@@ -189,16 +193,16 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
       
       console.log('✅ Nouveau thread créé:', threadId);
       
-      // Sauver async sans attendre
+      // Sauver async sans attendre (un thread = une conversation, l'ancien reste consultable)
       setImmediate(() => {
-        supabase.from('user_threads').upsert({
+        supabase.from('user_threads').insert({
           user_id: userId, 
           chatbot_id: chatbotId, 
           thread_id: threadId,
           created_at: new Date().toISOString(), 
           last_used_at: new Date().toISOString(), 
           message_count: 0
-        }, { onConflict: 'user_id,chatbot_id' })
+        })
         .then(() => logger.debug('✅ Thread saved to DB'))
         .catch((err) => logger.warn('⚠️ Failed to save thread to DB:', err.message));
       });
@@ -221,7 +225,7 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
     
     // Fallback : créer thread temporaire
     console.log('🚨 Fallback: création thread temporaire...');
-    const thread = await openai.beta.threads.create();
+    const thread = await llm.createThread();
     threadId = thread.id;
     
     if (!threadId) {
@@ -237,43 +241,81 @@ export async function getQuickThread(userId: string, chatbotId: string): Promise
   }
 }
 
-// 🤖 GESTION DES ASSISTANTS (INCHANGÉ)
+// 🤖 GESTION DES ASSISTANTS (REGISTRE DES BOTS)
 
 /**
- * Récupère l'assistant ID avec validation
+ * Récupère le bot actif et relié à un assistant (registre des bots)
  */
-export function getAssistantId(chatbotId: string): string | null {
-  // Vérifier cache d'abord
-  const cached = getCachedAssistantId(chatbotId);
-  if (cached) {
-    return cached;
-  }
-
-  // Récupérer depuis la config
-  const assistantId = ASSISTANTS[chatbotId];
-  if (!assistantId) {
-    logger.error(`❌ Assistant non configuré`, { chatbotId, available: Object.keys(ASSISTANTS) });
+async function getConfiguredBot(chatbotId: string): Promise<BotDefinition | null> {
+  const bot = await getEnabledBot(chatbotId);
+  if (!bot) {
+    logger.error(`❌ Assistant non configuré`, { chatbotId, available: await getAvailableBots() });
     return null;
   }
+  return bot;
+}
 
-  // Mettre en cache
-  cacheAssistantId(chatbotId, assistantId);
-  return assistantId;
+/**
+ * Récupère l'assistant ID avec validation
+ */
+export async function getAssistantId(chatbotId: string): Promise<string | null> {
+  const bot = await getConfiguredBot(chatbotId);
+  return bot?.assistant_id || null;
 }
 
 /**
  * Récupère la liste des bots disponibles
  */
-export function getAvailableBots(): string[] {
-  return Object.keys(ASSISTANTS).filter(bot => ASSISTANTS[bot]);
+export async function getAvailableBots(): Promise<string[]> {
+  return (await listBots()).map(bot => bot.name);
 }
 
-// 🔄 GESTION DES RUNS (INCHANGÉ)
+/**
+ * Paramètres de run issus du registre : assistant, réglages modèle et persona
+ * Sans persona_prompt, seules les instructions de l'assistant s'appliquent
+ */
+function buildRunParams(bot: BotDefinition, customInstructions: string): LLMRunParams {
+  return {
+    assistantId: bot.assistant_id!,
+    additionalInstructions: bot.persona_prompt ? customInstructions : undefined,
+    model: bot.model_settings?.model,
+    temperature: bot.model_settings?.temperature,
+    topP: bot.model_settings?.top_p
+  };
+}
+
+// 🔄 GESTION DES RUNS
+
+// Garde-fou : un run qui enchaîne les appels d'outils sans conclure est abandonné
+const MAX_TOOL_ROUNDS = 10;
+
+type RunToolContext = Omit<ToolCallContext, 'runId' | 'threadId'>;
+
+/**
+ * Exécute les outils demandés par un run en requires_action (outputs à soumettre)
+ */
+async function resolveRequiredTools(run: LLMRun, threadId: string, toolContext?: RunToolContext): Promise<LLMToolOutput[]> {
+  return executeToolCalls(run.required_tool_calls || [], {
+    userId: null,
+    companyId: null,
+    chatbotId: null,
+    ...toolContext,
+    runId: run.id,
+    threadId
+  });
+}
 
 /**
  * Attend la complétion d'un run OpenAI - VERSION CORRIGÉE
+ * signal : interrompt l'attente (client déconnecté, délai du bot, bouton stop)
+ * toolContext : journalisation des outils serveur exécutés pendant le run (requires_action)
  */
-export async function waitForRunCompletion(threadId: string, runId: string): Promise<any> {
+export async function waitForRunCompletion(
+  threadId: string,
+  runId: string,
+  signal?: AbortSignal,
+  toolContext?: RunToolContext
+): Promise<LLMRun> {
   // 🔍 DEBUG - Vérifier les paramètres reçus
   console.log('🔍 DEBUG waitForRunCompletion - threadId:', threadId);
   console.log('🔍 DEBUG waitForRunCompletion - runId:', runId);
@@ -312,19 +354,35 @@ export async function waitForRunCompletion(threadId: string, runId: string): Pro
   const safeThreadId = String(threadId);
   const safeRunId = String(runId);
 
-  let runStatus = await openai.beta.threads.runs.retrieve(safeThreadId, safeRunId);
+  let runStatus = await llm.retrieveRun(safeThreadId, safeRunId);
   // 👆👆👆 Utilise safeThreadId et safeRunId au lieu de threadId et runId
 
   let attempts = 0;
   const maxAttempts = 60; // 60 secondes max
+  let toolRounds = 0;
   
-  while (runStatus.status === 'queued' || runStatus.status === 'in_progress') {
-    if (attempts >= maxAttempts) {
+  while (runStatus.status === 'queued' || runStatus.status === 'in_progress' || runStatus.status === 'requires_action') {
+    // 🛠️ Fonctions demandées par l'assistant : exécution locale puis reprise du run
+    if (runStatus.status === 'requires_action') {
+      if (++toolRounds > MAX_TOOL_ROUNDS) {
+        throw new Error(`Run ${runId} : plus de ${MAX_TOOL_ROUNDS} appels d'outils successifs`);
+      }
+      const outputs = await resolveRequiredTools(runStatus, safeThreadId, toolContext);
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      runStatus = await llm.submitToolOutputs(safeThreadId, safeRunId, outputs);
+      continue;
+    }
+
+
+    // Sans signal : limite historique, sinon le délai est porté par le signal
+    if (!signal && attempts >= maxAttempts) {
       throw new Error(`Timeout: Run ${runId} a pris plus de ${maxAttempts} secondes`);
     }
     
-    await new Promise(resolve => setTimeout(resolve, 1000));
-runStatus = await openai.beta.threads.runs.retrieve(safeThreadId, safeRunId);
+    await (signal ? abortableDelay(1000, signal) : new Promise(resolve => setTimeout(resolve, 1000)));
+runStatus = await llm.retrieveRun(safeThreadId, safeRunId);
 
     attempts++;
     
@@ -338,6 +396,44 @@ runStatus = await openai.beta.threads.runs.retrieve(safeThreadId, safeRunId);
   return runStatus;
 }
 
+/**
+ * Run interrompu : annulation chez le fournisseur + usage partiel enregistré (status cancelled)
+ * Retourne les tokens consommés avant l'annulation
+ */
+async function settleCancelledRun(
+  context: { userId: string; companyId: string | null; chatbotId: string; threadId: string; runId: string; startTime: number },
+  reason: RunCancelReason
+): Promise<number> {
+  const run = await cancelRunAndCollectUsage(context.threadId, context.runId);
+  const totalTokens = run?.usage?.total_tokens ?? 0;
+
+  if (context.companyId) {
+    await saveTokenUsage({
+      user_id: context.userId,
+      company_id: context.companyId,
+      bot_id: context.chatbotId,
+      thread_id: context.threadId,
+      run_id: context.runId,
+      total_tokens: totalTokens,
+      input_tokens: run?.usage?.prompt_tokens ?? 0,
+      output_tokens: run?.usage?.completion_tokens ?? 0,
+      response_time_ms: Date.now() - context.startTime,
+      timestamp: new Date().toISOString(),
+      status: 'cancelled'
+    });
+  }
+
+  logger.info('⏹️ Run annulé', {
+    userId: context.userId,
+    chatbotId: context.chatbotId,
+    runId: context.runId,
+    reason,
+    runStatus: run?.status,
+    tokens: totalTokens
+  });
+  return totalTokens;
+}
+
 // 🚀 FONCTION PRINCIPALE DE TRAITEMENT (MODIFIÉE)
 
 /**
@@ -347,13 +443,21 @@ export async function processAssistantQuestion(
   userId: string,
   chatbotId: string,
   question: string,
-  providedPreferences?: UserPreferences
+  providedPreferences?: UserPreferences,
+  fileIds: string[] = [], // documents déjà contrôlés (POST /assistant/files)
+  signal?: AbortSignal    // déconnexion client → annulation du run (RunCancelledError)
 ): Promise<{
   answer: string;
+  citations: Citation[];
+  message_id: string | null; // référence pour POST /assistant/feedback
+  run_id: string | null;
   tokens_used: number;
   preferences_applied: UserPreferences;
 }> {
   const globalStartTime = Date.now();
+  // Réponse propre aux documents joints : jamais servie ni stockée en cache
+  const useCache = fileIds.length === 0;
+  let runControl: ReturnType<typeof createRunControl> | null = null;
 
 try {
   console.log('🔍 DEBUG processAssistantQuestion - DÉBUT');
@@ -361,13 +465,14 @@ try {
   console.log('🔍 DEBUG chatbotId:', chatbotId);
   console.log('🔍 DEBUG question:', question?.substring(0, 50) + '...');
   
-// 1. Récupérer l'assistant ID
-console.log('🔍 DEBUG - Avant getAssistantId');
-const assistantId = getAssistantId(chatbotId);
-console.log('🔍 DEBUG - Assistant ID récupéré:', assistantId);
-if (!assistantId) {
+// 1. Récupérer le bot et son assistant (registre)
+console.log('🔍 DEBUG - Avant getConfiguredBot');
+const bot = await getConfiguredBot(chatbotId);
+console.log('🔍 DEBUG - Assistant ID récupéré:', bot?.assistant_id);
+if (!bot) {
   throw new Error(`Bot ${chatbotId} non configuré`);
 }
+runControl = createRunControl({ signal, timeoutMs: getRunTimeoutMs(bot) });
 
 console.log('🔍 DEBUG - Avant getUserCompanyId');
 // 2. Récupérer company_id pour tracking
@@ -406,7 +511,13 @@ if (providedPreferences?.communication_style && providedPreferences?.content_ori
     preferences: finalPreferences
   });
 
-  const cachedResponse = await getCachedResponse(intelligentCacheKey);
+  // Thread nécessaire même sur cache hit : l'échange est enregistré dans l'historique
+  console.log('🔍 DEBUG - Récupération threadId pour frontend');
+  const threadData = await getQuickThread(userId, chatbotId);
+  threadId = threadData.threadId;
+  console.log('🔍 DEBUG - Thread ID récupéré pour frontend:', threadId);
+
+  const cachedResponse = useCache ? await getCachedResponse(intelligentCacheKey) : null;
   console.log('🔍 CACHE - Réponse trouvée:', !!cachedResponse);
   
   if (cachedResponse) {
@@ -416,8 +527,14 @@ if (providedPreferences?.communication_style && providedPreferences?.content_ori
       cacheKey: intelligentCacheKey.substring(0, 60) + '...',
       responseLength: cachedResponse.answer?.length || 0
     });
+    setImmediate(() => {
+      saveConversationExchange(userId, chatbotId, threadId, question, cachedResponse.answer);
+    });
     return {
       answer: cachedResponse.answer,
+      citations: cachedResponse.citations || [],
+      message_id: null, // références du run d'origine : propres à l'utilisateur qui l'a lancé
+      run_id: null,
       tokens_used: 0, // Économie totale tokens
       preferences_applied: finalPreferences
     };
@@ -427,12 +544,6 @@ if (providedPreferences?.communication_style && providedPreferences?.content_ori
     cacheKey: intelligentCacheKey.substring(0, 60) + '...'
   });
 
-  // Récupérer threadId seulement si pas de cache
-  console.log('🔍 DEBUG - Récupération threadId pour frontend');
-  const threadData = await getQuickThread(userId, chatbotId);
-  threadId = threadData.threadId;
-  console.log('🔍 DEBUG - Thread ID récupéré pour frontend:', threadId);
-
 } else {
   console.log('🔍 DEBUG - Fallback vers BDD');
   // Fallback : récupérer depuis la base via getQuickThread
@@ -453,15 +564,21 @@ if (providedPreferences?.communication_style && providedPreferences?.content_ori
     botId: chatbotId 
   });
 
-  const cachedResponse = await getCachedResponse(intelligentCacheKey);
+  const cachedResponse = useCache ? await getCachedResponse(intelligentCacheKey) : null;
   if (cachedResponse) {
     logger.info('🚀 PERFORMANCE BOOST BDD - Cache hit', { 
       userId, 
       chatbotId, 
       cacheKey: intelligentCacheKey.substring(0, 60) + '...' 
     });
+    setImmediate(() => {
+      saveConversationExchange(userId, chatbotId, threadId, question, cachedResponse.answer);
+    });
     return {
       answer: cachedResponse.answer,
+      citations: cachedResponse.citations || [],
+      message_id: null, // références du run d'origine : propres à l'utilisateur qui l'a lancé
+      run_id: null,
       tokens_used: 0,
       preferences_applied: finalPreferences
     };
@@ -475,7 +592,7 @@ if (providedPreferences?.communication_style && providedPreferences?.content_ori
 const customInstructions = buildCustomInstructions(
   finalPreferences.contentLevel, 
   finalPreferences.communicationStyle, 
-  chatbotId,
+  bot.persona_prompt,
   providedPreferences?.nickname  // ✅ AJOUT DU NICKNAME
 );
     
@@ -484,18 +601,18 @@ const customInstructions = buildCustomInstructions(
       style: finalPreferences.communicationStyle
     });
 
-    // 6. Ajouter message utilisateur
-    await openai.beta.threads.messages.create(threadId, {
-      role: 'user',
-      content: question
-    });
+    // 6. Ajouter message utilisateur (+ documents joints)
+    await llm.addMessage(threadId, question, fileIds);
+    if (fileIds.length > 0) {
+      await markDocumentsAttached(userId, fileIds, threadId);
+    }
 
     // ⏱️ 🚀 DÉMARRAGE CHRONO OPENAI (NOUVEAU)
     const openaiStartTime = Date.now();
 
 // 7. Créer et exécuter le run avec instructions personnalisées
 console.log('🔍 DEBUG AVANT création run - threadId:', threadId);
-console.log('🔍 DEBUG AVANT création run - assistantId:', assistantId);
+console.log('🔍 DEBUG AVANT création run - assistantId:', bot.assistant_id);
 
 // const cacheKey = `thread:${userId}:${chatbotId}`;
 
@@ -503,7 +620,7 @@ console.log('🔍 DEBUG AVANT création run - assistantId:', assistantId);
 // threadId = redis ? await redis.get(cacheKey) : null;
 
 // if (!threadId) {
-  // const thread = await openai.beta.threads.create();
+  // const thread = await llm.createThread();
   // threadId = thread.id; // ❗️Pas de let ici
 
   // if (redis) {
@@ -512,10 +629,13 @@ console.log('🔍 DEBUG AVANT création run - assistantId:', assistantId);
  //  }
 // }
 
-const run = await openai.beta.threads.runs.create(threadId, {
-  assistant_id: assistantId,
-  // additional_instructions: customInstructions
-});
+// Client parti pendant la préparation : pas de run lancé
+if (runControl.signal.aborted) {
+  throw new RunCancelledError(runControl.reason()!, null);
+}
+
+const run = await llm.createRun(threadId, buildRunParams(bot, customInstructions));
+await runControl.attach({ runId: run.id, threadId, userId, chatbotId });
 
 console.log('🔍 DEBUG APRÈS création run - run:', run);
 console.log('🔍 DEBUG APRÈS création run - run.id:', run.id);
@@ -547,8 +667,23 @@ if (!run.id) {
   throw new Error(`Run.id est undefined`);
 }
 
-// 8. Attendre la complétion
-const runStatus = await waitForRunCompletion(threadId, run.id);
+// 8. Attendre la complétion (interrompue par déconnexion, délai du bot ou bouton stop)
+const control = runControl;
+const runStatus = await waitForRunCompletion(threadId, run.id, control.signal, { userId, companyId, chatbotId })
+  .catch((error) => {
+    if (control.reason()) return null;
+    throw error;
+  });
+
+// Run annulé ici ou depuis une autre instance (POST /assistant/runs/:runId/cancel)
+if (!runStatus || runStatus.status === 'cancelled' || runStatus.status === 'cancelling') {
+  const reason = control.reason() || 'user';
+  const tokensUsed = await settleCancelledRun(
+    { userId, companyId, chatbotId, threadId, runId: run.id, startTime: openaiStartTime },
+    reason
+  );
+  throw new RunCancelledError(reason, run.id, tokensUsed);
+}
     
     // ⏱️ 🏁 FIN CHRONO OPENAI (NOUVEAU)
     const openaiResponseTime = Date.now() - openaiStartTime;
@@ -562,13 +697,19 @@ const runStatus = await waitForRunCompletion(threadId, run.id);
     const inputTokens = runStatus?.usage?.prompt_tokens ?? 0;
     const outputTokens = runStatus?.usage?.completion_tokens ?? 0;
     
-    const messages = await openai.beta.threads.messages.list(threadId);
-    const assistantMessages = messages.data.filter(msg => msg.role === 'assistant');
-    const latestMessage = assistantMessages[0];
-    const botReply = latestMessage?.content[0]?.text?.value || "Désolé, erreur de récupération.";
+    const messages = await llm.listMessages(threadId, { order: 'desc', limit: 20 });
+    const latestMessage = messages.find(msg => msg.role === 'assistant');
+
+    // 📚 Annotations file_search → marqueurs [n] + citations
+    const { answer: botReply, citations } = latestMessage
+      ? await buildCitedAnswer(latestMessage, threadId, run.id)
+      : { answer: "Désolé, erreur de récupération.", citations: [] as Citation[] };
+    const messageId = latestMessage?.id || null;
 
 // 🆕 SAUVEGARDER EN CACHE avec TTL adaptatif
-await setCachedResponse(intelligentCacheKey, { answer: botReply });
+if (useCache) {
+  await setCachedResponse(intelligentCacheKey, { answer: botReply, citations, message_id: messageId, run_id: run.id });
+}
 logger.info('💾 CACHE INTELLIGENT - Réponse sauvegardée', { 
   cacheKey: intelligentCacheKey.substring(0, 60) + '...',
   botId: chatbotId,
@@ -576,6 +717,11 @@ logger.info('💾 CACHE INTELLIGENT - Réponse sauvegardée', {
   tokensSaved: totalTokens
 });
 
+    // 💬 Historique de conversation (async)
+    setImmediate(() => {
+      saveConversationExchange(userId, chatbotId, threadId, question, botReply, { messageId, runId: run.id });
+    });
+
     // 💾 🆕 SAUVEGARDE TOKENS AVEC TEMPS DE RÉPONSE (NOUVEAU)
     if (companyId && totalTokens > 0) {
       await saveTokenUsage({
@@ -604,11 +750,17 @@ logger.info('💾 CACHE INTELLIGENT - Réponse sauvegardée', {
 
     return {
       answer: botReply,
+      citations,
+      message_id: messageId,
+      run_id: run.id,
       tokens_used: totalTokens,
       preferences_applied: finalPreferences
     };
 
 } catch (error) {
+    if (error instanceof RunCancelledError) {
+      throw error;
+    }
     const totalProcessingTime = Date.now() - globalStartTime;
     logger.error('❌ Erreur traitement question - DÉTAIL COMPLET', {
       userId,
@@ -619,6 +771,262 @@ logger.info('💾 CACHE INTELLIGENT - Réponse sauvegardée', {
     });
     console.error('🚨 ERREUR COMPLÈTE:', error);
     throw error;
+  } finally {
+    await runControl?.dispose();
+  }
+}
+
+// 📡 STREAMING SSE
+
+export interface AssistantStreamHandlers {
+  onDelta: (text: string) => void;
+  onRunStarted?: (runId: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AssistantStreamResult {
+  answer: string;         // réponse finale, marqueurs de citation [n] compris
+  citations: Citation[];
+  message_id: string | null;
+  run_id: string | null;
+  tokens_used: number;
+  preferences_applied: UserPreferences;
+  aborted: boolean;
+  cancel_reason: RunCancelReason | null;
+}
+
+/**
+ * Variante streaming de processAssistantQuestion : relaie les deltas du run
+ * au fil de l'eau et sauvegarde les tokens à la fin OU à l'interruption
+ * (client déconnecté, délai du bot, bouton stop : run annulé, usage partiel)
+ */
+export async function streamAssistantQuestion(
+  userId: string,
+  chatbotId: string,
+  question: string,
+  providedPreferences: RequestPreferences | undefined,
+  handlers: AssistantStreamHandlers,
+  fileIds: string[] = []
+): Promise<AssistantStreamResult> {
+  const bot = await getConfiguredBot(chatbotId);
+  if (!bot) {
+    throw new Error(`Bot ${chatbotId} non configuré`);
+  }
+
+  const companyId = await getUserCompanyId(userId);
+  const threadData = await getQuickThread(userId, chatbotId);
+  const threadId = threadData.threadId;
+
+  const finalPreferences: UserPreferences =
+    providedPreferences?.communication_style && providedPreferences?.content_orientation
+      ? {
+          contentLevel: providedPreferences.content_orientation,
+          communicationStyle: providedPreferences.communication_style
+        }
+      : threadData.preferences;
+
+  // ⚡ Cache : la réponse complète est envoyée en un seul delta (sauf documents joints)
+  const useCache = fileIds.length === 0;
+  const intelligentCacheKey = generateCacheKey(chatbotId, question, {
+    content_level: finalPreferences.contentLevel
+  });
+  const cachedResponse = useCache ? await getCachedResponse(intelligentCacheKey) : null;
+  if (cachedResponse) {
+    logger.info('🚀 STREAM - Réponse servie depuis cache', { userId, chatbotId });
+    handlers.onDelta(cachedResponse.answer);
+    setImmediate(() => {
+      saveConversationExchange(userId, chatbotId, threadId, question, cachedResponse.answer);
+    });
+    return {
+      answer: cachedResponse.answer,
+      citations: cachedResponse.citations || [],
+      message_id: null, // références du run d'origine : propres à l'utilisateur qui l'a lancé
+      run_id: null,
+      tokens_used: 0,
+      preferences_applied: finalPreferences,
+      aborted: false,
+      cancel_reason: null
+    };
+  }
+
+  await llm.addMessage(threadId, question, fileIds);
+  if (fileIds.length > 0) {
+    await markDocumentsAttached(userId, fileIds, threadId);
+  }
+
+  const openaiStartTime = Date.now();
+  const customInstructions = buildCustomInstructions(
+    finalPreferences.contentLevel,
+    finalPreferences.communicationStyle,
+    bot.persona_prompt,
+    providedPreferences?.nickname
+  );
+  const runControl = createRunControl({ signal: handlers.signal, timeoutMs: getRunTimeoutMs(bot) });
+  let stream: LLMRunStream = llm.streamRun(threadId, buildRunParams(bot, customInstructions));
+
+  let answer = '';
+  let citations: Citation[] = [];
+  let messageId: string | null = null;
+  let aborted = false;
+  let runAttached = false;
+
+  const onAbort = () => {
+    aborted = true;
+    stream.abort();
+  };
+  if (runControl.signal.aborted) {
+    onAbort();
+  } else {
+    runControl.signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  // Run connu dès le premier delta (ou appel d'outil) : annulable via POST /assistant/runs/:runId/cancel
+  const attachRun = (runId: string) => {
+    if (!runAttached) {
+      runAttached = true;
+      void runControl.attach({ runId, threadId, userId, chatbotId });
+      handlers.onRunStarted?.(runId);
+    }
+  };
+  const relayDeltas = (current: LLMRunStream) => {
+    current.onTextDelta((text) => {
+      const currentRunId = current.currentRunId();
+      if (currentRunId) {
+        attachRun(currentRunId);
+      }
+      answer += text;
+      handlers.onDelta(text);
+    });
+  };
+  relayDeltas(stream);
+
+  let run: LLMRun | null = null;
+  try {
+    run = await stream.finalRun();
+
+    // 🛠️ Outils serveur : exécution puis reprise du flux sur le même run
+    let toolRounds = 0;
+    while (run.status === 'requires_action' && !aborted) {
+      if (++toolRounds > MAX_TOOL_ROUNDS) {
+        throw new Error(`Run ${run.id} : plus de ${MAX_TOOL_ROUNDS} appels d'outils successifs`);
+      }
+      attachRun(run.id);
+      const outputs = await resolveRequiredTools(run, threadId, { userId, companyId, chatbotId });
+      if (aborted) {
+        break;
+      }
+      stream = llm.submitToolOutputsStream(threadId, run.id, outputs);
+      relayDeltas(stream);
+      run = await stream.finalRun();
+    }
+  } catch (error) {
+    if (!aborted) {
+      await runControl.dispose();
+      throw error;
+    }
+  }
+  runControl.signal.removeEventListener('abort', onAbort);
+
+  const runId = run?.id || stream.currentRunId();
+
+  // ⏹️ Interruption (client, délai, stop) ou annulation depuis une autre instance
+  const cancelReason: RunCancelReason | null = aborted
+    ? runControl.reason() || 'client_disconnected'
+    : run?.status === 'cancelled' || run?.status === 'cancelling' ? 'user' : null;
+  await runControl.dispose();
+
+  let totalTokens = run?.usage?.total_tokens ?? 0;
+
+  if (cancelReason) {
+    aborted = true;
+    totalTokens = runId
+      ? await settleCancelledRun(
+          { userId, companyId, chatbotId, threadId, runId, startTime: openaiStartTime },
+          cancelReason
+        )
+      : 0;
+  } else if (companyId && runId) {
+    await saveTokenUsage({
+      user_id: userId,
+      company_id: companyId,
+      bot_id: chatbotId,
+      thread_id: threadId,
+      run_id: runId,
+      total_tokens: totalTokens,
+      input_tokens: run?.usage?.prompt_tokens ?? 0,
+      output_tokens: run?.usage?.completion_tokens ?? 0,
+      response_time_ms: Date.now() - openaiStartTime,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  if (!aborted) {
+    if (run?.status !== 'completed') {
+      throw new Error(`Erreur lors du traitement: ${run?.status}`);
+    }
+
+    // 📚 Les deltas contiennent les annotations brutes : réponse finale relue
+    const [latestMessage] = await llm.listMessages(threadId, { order: 'desc', limit: 1 });
+    if (latestMessage?.role === 'assistant' && runId) {
+      ({ answer, citations } = await buildCitedAnswer(latestMessage, threadId, runId));
+      messageId = latestMessage.id;
+    }
+
+    if (useCache) {
+      await setCachedResponse(intelligentCacheKey, { answer, citations, message_id: messageId, run_id: runId });
+    }
+    setImmediate(() => {
+      saveConversationExchange(userId, chatbotId, threadId, question, answer, { messageId, runId: runId || null });
+    });
+  }
+
+  logger.info(aborted ? '⏹️ STREAM interrompu' : '✅ STREAM terminé', {
+    userId,
+    chatbotId,
+    runId,
+    cancelReason,
+    tokens: totalTokens,
+    openaiTime: `${Date.now() - openaiStartTime}ms`
+  });
+
+  return {
+    answer,
+    citations,
+    message_id: messageId,
+    run_id: runId || null,
+    tokens_used: totalTokens,
+    preferences_applied: finalPreferences,
+    aborted,
+    cancel_reason: cancelReason
+  };
+}
+
+// 💬 HISTORIQUE DES THREADS
+
+/**
+ * Relit les messages d'un thread chez le fournisseur (threads antérieurs à chat_context.thread_id)
+ */
+export async function getAssistantThreadMessages(threadId: string): Promise<ConversationMessage[]> {
+  const messages = await llm.listMessages(threadId, { order: 'asc', limit: 100 });
+
+  return messages.map(msg => ({
+    role: msg.role === 'user' ? 'user' : 'bot',
+    message: msg.text,
+    created_at: new Date(msg.created_at * 1000).toISOString()
+  }));
+}
+
+/**
+ * Supprime un thread côté fournisseur LLM (best effort)
+ */
+export async function deleteAssistantThread(threadId: string): Promise<void> {
+  try {
+    await llm.deleteThread(threadId);
+  } catch (error) {
+    logger.warn('⚠️ Suppression thread LLM échouée', {
+      threadId,
+      error: (error as Error).message
+    });
   }
 }
 
@@ -627,13 +1035,14 @@ logger.info('💾 CACHE INTELLIGENT - Réponse sauvegardée', {
 /**
  * Stats du service OpenAI
  */
-export function getOpenAIServiceStats(): {
+export async function getOpenAIServiceStats(): Promise<{
   availableBots: string[];
   configuredAssistants: number;
-} {
+}> {
+  const bots = await listBots({ includeDisabled: true });
   return {
-    availableBots: getAvailableBots(),
-    configuredAssistants: Object.values(ASSISTANTS).filter(id => id).length
+    availableBots: await getAvailableBots(),
+    configuredAssistants: bots.filter(bot => bot.assistant_id).length
   };
 }
 
@@ -644,8 +1053,8 @@ export function getOpenAIServiceStats(): {
  */
 export async function testOpenAIConnection(): Promise<boolean> {
   try {
-    const models = await openai.models.list();
-    logger.info('✅ Connexion OpenAI OK', { modelCount: models.data.length });
+    const models = await llm.listModels();
+    logger.info('✅ Connexion LLM OK', { provider: llm.name, modelCount: models.length });
     return true;
   } catch (error) {
     logger.error('❌ Connexion OpenAI failed', { error: (error as Error).message });
@@ -661,10 +1070,10 @@ export async function testOpenAIConnection(): Promise<boolean> {
  */
 export async function testAssistant(chatbotId: string): Promise<boolean> {
   try {
-    const assistantId = getAssistantId(chatbotId);
+    const assistantId = await getAssistantId(chatbotId);
     if (!assistantId) return false;
 
-    const assistant = await openai.beta.assistants.retrieve(assistantId);
+    const assistant = await llm.retrieveAssistant(assistantId);
     logger.info('✅ Assistant testé', { chatbotId, assistantName: assistant.name });
     return true;
   } catch (error) {
@@ -684,7 +1093,7 @@ export async function testSanctionsAssistant(): Promise<void> {
     const assistantId = 'asst_YmfmThzygMKhSoWoJdwEllo';
     console.log('🎯 Assistant ID:', assistantId);
     
-    const assistant = await openai.beta.assistants.retrieve(assistantId);
+    const assistant = await llm.retrieveAssistant(assistantId);
     console.log('✅ Assistant récupéré:', {
       id: assistant.id,
       name: assistant.name,
@@ -1 +1,125 @@
- 
+// auth-backend/services/authService.ts
+// 🔑 Fin de connexion commune (mot de passe, 2FA, SSO) : bots accessibles, session et tokens
+import jwt from 'jsonwebtoken';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { getCompanyLicenses } from './licenseService';
+import { issueRefreshToken } from './refreshTokenService';
+
+// 📝 Fonction pour récupérer les bots accessibles via logique BtoB
+export async function getAccessibleBots(userId: string): Promise<string[]> {
+  try {
+    // 1. Récupérer l'entreprise de l'utilisateur
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('company_id')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !userData?.company_id) {
+      logger.error("❌ Utilisateur sans entreprise", { 
+        error: userError?.message,
+        userId
+      });
+      return [];
+    }
+
+    // 2. Récupérer les licences de l'entreprise (nouvelle logique BtoB)
+    const licenses = await getCompanyLicenses(userData.company_id);
+    
+    if (!licenses || licenses.length === 0) {
+      logger.warn("⚠️ Aucune licence trouvée pour l'entreprise", { 
+        userId, 
+        companyId: userData.company_id 
+      });
+      return [];
+    }
+
+    // 3. Extraire les noms des bots
+    const botNames = licenses
+      .map(license => license.bot_name)
+      .filter(name => name !== undefined && name !== null);
+
+    logger.info("✅ Bots accessibles récupérés (logique BtoB)", { 
+      userId, 
+      companyId: userData.company_id,
+      botCount: botNames.length 
+    });
+    
+    return botNames;
+  } catch (err) {
+    logger.error("❌ Erreur interne lors de la récupération des bots", { 
+      error: (err as Error).message,
+      userId
+    });
+    return [];
+  }
+}
+
+export interface LoginUser {
+  id: string;
+  email: string;
+  role: string;
+  first_login: boolean;
+  company_id: string | null;
+}
+
+export const LOGIN_USER_FIELDS = "id, email, role, first_name, last_name, first_login, company_id";
+
+// 🎫 Fin de connexion : bots accessibles, création de la session et émission des tokens
+export async function completeLogin(user: LoginUser, client: { userAgent: string; ip: string }): Promise<{ status: number; body: Record<string, unknown> }> {
+  // Récupération des bots accessibles
+  let accessibleBots: string[] = [];
+  if (user.role === "admin") {
+    logger.info("👑 Utilisateur admin connecté", { userId: user.id });
+    const { data: allBots, error: botError } = await supabase
+      .from("bots")
+      .select("name");
+
+    if (botError) {
+      logger.error("❌ Erreur lors de la récupération des bots", { 
+        error: botError.message 
+      });
+      return { status: 500, body: { error: "Erreur serveur lors de la récupération des bots." } };
+    }
+
+    accessibleBots = allBots.map((bot: any) => bot.name);
+  } else {
+    // Nouvelle logique BtoB
+    accessibleBots = await getAccessibleBots(user.id);
+    if (accessibleBots.length === 0) {
+      return { status: 403, body: { error: "Aucun bot accessible avec votre licence d'entreprise." } };
+    }
+  }
+
+  // Générer un refresh token (nouvelle famille = nouvelle session)
+  const issued = await issueRefreshToken(user.id, client);
+  if (!issued) {
+    return { status: 500, body: { error: "Erreur serveur lors de la création de la session." } };
+  }
+  const refreshToken = issued.refreshToken;
+
+  // Générer l'access token rattaché à la session
+  const jwtPayload = { id: user.id, email: user.email, role: user.role, sid: issued.familyId };
+  const jwtSecret = config.jwt.secret;
+  const jwtOptions: jwt.SignOptions = { expiresIn: (config.jwt.expiresIn || "2h") as jwt.SignOptions["expiresIn"] };
+  const accessToken = jwt.sign(jwtPayload, jwtSecret, jwtOptions);
+
+  logger.info("🔑 Utilisateur connecté avec succès", { 
+    userId: user.id, 
+    role: user.role,
+    companyId: user.company_id
+  });
+
+  return {
+    status: 200,
+    body: {
+      token: accessToken,
+      refreshToken,
+      role: user.role,
+      firstLogin: user.first_login,
+      bots: accessibleBots
+    }
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * 🤖 REGISTRE DES BOTS
+ * Source unique des bots (table bots) : assistant, nom affiché, persona, activation, réglages modèle
+ * Chargé en mémoire et rechargé périodiquement (ajout d'un bot sans redéploiement)
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+
+// 🎯 TYPES
+
+export interface BotModelSettings {
+  model?: string;
+  temperature?: number;
+  top_p?: number;
+}
+
+export interface BotDefinition {
+  id: string;
+  name: string;                 // identifiant métier (chatbot_id des routes assistant)
+  display_name: string | null;
+  description: string | null;
+  assistant_id: string | null;  // null = bot référencé mais pas encore relié à un assistant
+  persona_prompt: string | null;
+  enabled: boolean;
+  model_settings: BotModelSettings | null;
+  run_timeout_seconds: number | null; // null = config.assistant.runTimeoutSeconds
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface BotInput {
+  name: string;
+  display_name?: string | null;
+  description?: string | null;
+  assistant_id?: string | null;
+  persona_prompt?: string | null;
+  enabled?: boolean;
+  model_settings?: BotModelSettings | null;
+  run_timeout_seconds?: number | null;
+}
+
+export class BotRegistryError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'BotRegistryError';
+  }
+}
+
+const BOT_COLUMNS = 'id, name, display_name, description, assistant_id, persona_prompt, enabled, model_settings, run_timeout_seconds, created_at, updated_at';
+
+// 💾 ÉTAT EN MÉMOIRE
+
+let botsByName = new Map<string, BotDefinition>();
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+/**
+ * Recharge le registre depuis la base (l'ancien registre reste actif en cas d'échec)
+ */
+export async function reloadBotRegistry(): Promise<number> {
+  const { data, error } = await supabase
+    .from('bots')
+    .select(BOT_COLUMNS)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Lecture registre bots impossible: ${error.message}`);
+  }
+
+  botsByName = new Map((data || []).map((bot: BotDefinition) => [bot.name, bot]));
+  loadedAt = Date.now();
+
+  logger.info('🤖 Registre bots chargé', {
+    total: botsByName.size,
+    enabled: [...botsByName.values()].filter(bot => bot.enabled).length
+  });
+  return botsByName.size;
+}
+
+/**
+ * Charge le registre au premier accès puis le rafraîchit après expiration
+ */
+async function ensureLoaded(): Promise<void> {
+  const expired = Date.now() - loadedAt > config.bots.reloadIntervalSeconds * 1000;
+  if (!expired) {
+    return;
+  }
+
+  if (!loading) {
+    loading = reloadBotRegistry()
+      .then(() => undefined)
+      .catch((error) => {
+        logger.error('❌ Erreur rechargement registre bots', { error: (error as Error).message });
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  // Registre déjà chargé : on sert l'ancienne version pendant le rechargement
+  if (loadedAt === 0) {
+    await loading;
+  }
+}
+
+// 🔍 LECTURE
+
+/**
+ * Bot par nom (actif ou non)
+ */
+export async function getBot(name: string): Promise<BotDefinition | null> {
+  await ensureLoaded();
+  return botsByName.get(name) || null;
+}
+
+/**
+ * Bot utilisable : actif et relié à un assistant
+ */
+export async function getEnabledBot(name: string): Promise<BotDefinition | null> {
+  const bot = await getBot(name);
+  return bot?.enabled && bot.assistant_id ? bot : null;
+}
+
+/**
+ * Liste des bots (utilisables uniquement par défaut)
+ */
+export async function listBots(options: { includeDisabled?: boolean } = {}): Promise<BotDefinition[]> {
+  await ensureLoaded();
+  const bots = [...botsByName.values()];
+  return options.includeDisabled
+    ? bots
+    : bots.filter(bot => bot.enabled && bot.assistant_id);
+}
+
+// ✏️ ADMINISTRATION
+
+/**
+ * Bot par ID, directement depuis la base
+ */
+export async function getBotById(botId: string): Promise<BotDefinition | null> {
+  try {
+    const { data, error } = await supabase
+      .from('bots')
+      .select(BOT_COLUMNS)
+      .eq('id', botId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Erreur lecture bot', { botId, error: error.message });
+      return null;
+    }
+
+    return data || null;
+  } catch (err) {
+    logger.error('❌ Exception lecture bot', { botId, error: (err as Error).message });
+    return null;
+  }
+}
+
+async function refreshAfterWrite(): Promise<void> {
+  try {
+    await reloadBotRegistry();
+  } catch (error) {
+    // Le rechargement périodique prendra le relais
+    loadedAt = 0;
+    logger.warn('⚠️ Rechargement registre bots différé', { error: (error as Error).message });
+  }
+}
+
+/**
+ * Ajoute un bot (actif par défaut) et recharge le registre
+ */
+export async function createBot(input: BotInput): Promise<BotDefinition> {
+  const { data, error } = await supabase
+    .from('bots')
+    .insert({
+      name: input.name,
+      display_name: input.display_name ?? null,
+      description: input.description ?? null,
+      assistant_id: input.assistant_id ?? null,
+      persona_prompt: input.persona_prompt ?? null,
+      enabled: input.enabled ?? true,
+      model_settings: input.model_settings ?? null,
+      run_timeout_seconds: input.run_timeout_seconds ?? null
+    })
+    .select(BOT_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new BotRegistryError(`Un bot nommé "${input.name}" existe déjà.`, 409, 'BOT_ALREADY_EXISTS');
+    }
+    throw new Error(`Création bot impossible: ${error.message}`);
+  }
+
+  await refreshAfterWrite();
+  logger.info('🤖 Bot créé', { botId: data.id, name: data.name, enabled: data.enabled });
+  return data;
+}
+
+/**
+ * Modifie un bot (mise à jour partielle) et recharge le registre
+ */
+export async function updateBot(botId: string, input: Omit<BotInput, 'name'>): Promise<BotDefinition> {
+  const { data, error } = await supabase
+    .from('bots')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', botId)
+    .select(BOT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Mise à jour bot impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new BotRegistryError('Bot introuvable.', 404, 'BOT_NOT_FOUND');
+  }
+
+  await refreshAfterWrite();
+  logger.info('🤖 Bot mis à jour', { botId, name: data.name, fields: Object.keys(input) });
+  return data;
+}
+
+/**
+ * Supprime un bot sans historique (licences, accès, usage) ; sinon il faut le désactiver
+ */
+export async function deleteBot(botId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('bots')
+    .delete()
+    .eq('id', botId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new BotRegistryError(
+        'Ce bot est référencé par des licences ou des accès utilisateurs. Désactivez-le plutôt que de le supprimer.',
+        409,
+        'BOT_IN_USE'
+      );
+    }
+    throw new Error(`Suppression bot impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new BotRegistryError('Bot introuvable.', 404, 'BOT_NOT_FOUND');
+  }
+
+  await refreshAfterWrite();
+  logger.info('🗑️ Bot supprimé', { botId });
+}
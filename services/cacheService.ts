@@ -86,8 +86,8 @@ export function generateCacheKey(
   botId: string, 
   question: string, 
   userPreferences?: {
-    communication_style: string;
-    content_level: string;
+    communication_style?: string;
+    content_level?: string;
   }
 ): string {
   const questionHash = generateQuestionHash(question);
@@ -0,0 +1,137 @@
+/**
+ * 📚 SERVICE CITATIONS
+ * Transforme les annotations file_search d'une réponse en marqueurs numérotés [n]
+ * + liste structurée des sources (document, extrait, position dans la réponse)
+ */
+
+import logger from '../utils/logger';
+import { getLLMProvider, type LLMMessage, type LLMFileSearchResult } from './llm';
+
+// 🎯 TYPES
+
+export interface Citation {
+  index: number;          // numéro du marqueur [n] (un numéro par document)
+  file_id: string;
+  filename: string;
+  quote: string | null;   // extrait du document retrouvé par file_search
+  start_index: number;    // position du marqueur dans la réponse finale
+  end_index: number;
+}
+
+export interface CitedAnswer {
+  answer: string;
+  citations: Citation[];
+}
+
+const QUOTE_MAX_LENGTH = 500;
+const FILENAME_CACHE_MAX = 500;
+
+// Les fichiers OpenAI sont immuables : le nom peut être gardé en mémoire
+const filenameCache = new Map<string, string>();
+
+/**
+ * Nom de fichier : résultats file_search du run, sinon API fichiers (mis en cache)
+ */
+async function resolveFilename(fileId: string, results: LLMFileSearchResult[]): Promise<string> {
+  const fromResults = results.find(r => r.file_id === fileId)?.filename;
+  if (fromResults) {
+    return fromResults;
+  }
+
+  const cached = filenameCache.get(fileId);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const file = await getLLMProvider().retrieveFile(fileId);
+    if (filenameCache.size >= FILENAME_CACHE_MAX) {
+      filenameCache.delete(filenameCache.keys().next().value as string);
+    }
+    filenameCache.set(fileId, file.filename);
+    return file.filename;
+  } catch (error) {
+    logger.warn('⚠️ Nom de fichier cité introuvable', { fileId, error: (error as Error).message });
+    return fileId;
+  }
+}
+
+/**
+ * Meilleur extrait (score le plus élevé) du document dans les résultats file_search
+ */
+function findQuote(fileId: string, results: LLMFileSearchResult[]): string | null {
+  const best = results
+    .filter(r => r.file_id === fileId && r.content)
+    .sort((a, b) => b.score - a.score)[0];
+
+  if (!best?.content) {
+    return null;
+  }
+
+  const quote = best.content.trim();
+  return quote.length > QUOTE_MAX_LENGTH ? `${quote.substring(0, QUOTE_MAX_LENGTH)}…` : quote;
+}
+
+/**
+ * Remplace les annotations brutes (【4:0†source】) par des marqueurs [n]
+ * et construit la liste des citations correspondantes
+ */
+export async function buildCitedAnswer(
+  message: LLMMessage,
+  threadId: string,
+  runId: string
+): Promise<CitedAnswer> {
+  if (message.annotations.length === 0) {
+    return { answer: message.text, citations: [] };
+  }
+
+  let results: LLMFileSearchResult[] = [];
+  try {
+    results = await getLLMProvider().listFileSearchResults(threadId, runId);
+  } catch (error) {
+    logger.warn('⚠️ Résultats file_search indisponibles', { threadId, runId, error: (error as Error).message });
+  }
+
+  const annotations = [...message.annotations].sort((a, b) => a.start_index - b.start_index);
+  const fileNumbers = new Map<string, number>();
+  const citations: Citation[] = [];
+  let answer = '';
+  let cursor = 0;
+
+  for (const annotation of annotations) {
+    answer += message.text.slice(cursor, annotation.start_index);
+    cursor = annotation.end_index;
+
+    if (!fileNumbers.has(annotation.file_id)) {
+      fileNumbers.set(annotation.file_id, fileNumbers.size + 1);
+    }
+    const index = fileNumbers.get(annotation.file_id)!;
+    const marker = `[${index}]`;
+
+    // Même document cité deux fois d'affilée : un seul marqueur
+    if (answer.endsWith(marker)) {
+      continue;
+    }
+
+    citations.push({
+      index,
+      file_id: annotation.file_id,
+      filename: await resolveFilename(annotation.file_id, results),
+      quote: findQuote(annotation.file_id, results),
+      start_index: answer.length,
+      end_index: answer.length + marker.length
+    });
+    answer += marker;
+  }
+
+  answer += message.text.slice(cursor);
+
+  logger.debug('📚 Citations extraites', {
+    threadId,
+    runId,
+    citations: citations.length,
+    documents: fileNumbers.size
+  });
+
+  return { answer, citations };
+}
@@ -1,6 +1,5 @@
-import { OpenAI } from 'openai';
+import { getLLMProvider, type LLMProvider } from './llm';
 import logger from '../utils/logger';  // ✅ CORRIGÉ : pas de destructuring
-import config from '../utils/config';
 
 interface ChatExchange {
   message: string;
@@ -9,17 +8,12 @@ interface ChatExchange {
 }
 
 export class ContextualMemoryService {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private cache: Map<string, { summary: string; timestamp: number }> = new Map();
   private supabase: any;  // ✅ AJOUTÉ : référence Supabase
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-      defaultHeaders: {
-        "OpenAI-Beta": "assistants=v2",
-      },
-    });
+    this.llm = getLLMProvider();
     
     // ✅ CORRIGÉ : Import Supabase dans constructor
     const { supabase } = require('../utils/supabase');
@@ -129,15 +123,15 @@ ${historyText}
 Résumé en 2-3 phrases max, focus sur les promesses faites et ce que l'utilisateur attend :`;
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      // Modèle : config.llm.chatModel (LLM_CHAT_MODEL)
+      const completion = await this.llm.chatCompletion({
         messages: [{ role: "user", content: prompt }],
         max_tokens: 120,        // ⚡ Réduit de 200 → 120
         temperature: 0,         // ⚡ Complètement déterministe
         top_p: 1,              // ⚡ Pas de randomness
       });
 
-      return completion.choices[0].message.content || "Résumé indisponible.";
+      return completion.content || "Résumé indisponible.";
 
     } catch (error) {
       logger.error('❌ Erreur résumé GPT-3.5', { error: (error as Error).message });
@@ -0,0 +1,269 @@
+/**
+ * 💬 SERVICE CONVERSATIONS
+ * Historique des conversations utilisateur (user_threads + chat_context)
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import { enterpriseCache, generateCacheKey } from '../utils/assistantCache';
+
+// 🎯 TYPES
+
+export interface Conversation {
+  thread_id: string;
+  chatbot_id: string;
+  title: string | null;
+  created_at: string;
+  last_used_at: string;
+  message_count: number;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'bot';
+  message: string;
+  created_at: string;
+  message_id?: string | null;
+}
+
+/**
+ * Identifiants fournisseur de la réponse (rattachement des feedbacks)
+ */
+export interface AnswerReference {
+  messageId: string | null;
+  runId: string | null;
+}
+
+const CONVERSATION_COLUMNS = 'thread_id, chatbot_id, title, created_at, last_used_at, message_count';
+const TITLE_MAX_LENGTH = 80;
+
+// 📋 LECTURE
+
+/**
+ * Liste les conversations d'un utilisateur, éventuellement filtrées par bot
+ */
+export async function listConversations(
+  userId: string,
+  chatbotId?: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<Conversation[]> {
+  try {
+    let query = supabase
+      .from('user_threads')
+      .select(CONVERSATION_COLUMNS)
+      .eq('user_id', userId)
+      .order('last_used_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (chatbotId) {
+      query = query.eq('chatbot_id', chatbotId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('❌ Erreur liste conversations', { userId, chatbotId, error: error.message });
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste conversations', { userId, error: (err as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Récupère une conversation appartenant à l'utilisateur
+ */
+export async function findConversation(userId: string, threadId: string): Promise<Conversation | null> {
+  try {
+    const { data, error } = await supabase
+      .from('user_threads')
+      .select(CONVERSATION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('thread_id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Erreur recherche conversation', { userId, threadId, error: error.message });
+      return null;
+    }
+
+    return data || null;
+  } catch (err) {
+    logger.error('❌ Exception recherche conversation', { userId, threadId, error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Historique complet d'une conversation depuis chat_context (ordre chronologique)
+ */
+export async function getConversationMessages(userId: string, threadId: string): Promise<ConversationMessage[]> {
+  try {
+    const { data, error } = await supabase
+      .from('chat_context')
+      .select('role, message, created_at, message_id')
+      .eq('user_id', userId)
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('❌ Erreur historique conversation', { userId, threadId, error: error.message });
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception historique conversation', { userId, threadId, error: (err as Error).message });
+    return [];
+  }
+}
+
+// ✏️ ÉCRITURE
+
+/**
+ * Enregistre un échange question/réponse dans chat_context et met à jour le thread
+ * (titre = première question, compteur de messages, dernière utilisation)
+ */
+export async function saveConversationExchange(
+  userId: string,
+  chatbotId: string,
+  threadId: string,
+  question: string,
+  answer: string,
+  reference?: AnswerReference
+): Promise<void> {
+  try {
+    const { error: contextError } = await supabase
+      .from('chat_context')
+      .insert([
+        { user_id: userId, chatbot_id: chatbotId, thread_id: threadId, message: question, role: 'user' },
+        {
+          user_id: userId,
+          chatbot_id: chatbotId,
+          thread_id: threadId,
+          message: answer,
+          role: 'bot',
+          message_id: reference?.messageId || null,
+          run_id: reference?.runId || null
+        }
+      ]);
+
+    if (contextError) {
+      logger.warn('⚠️ Erreur sauvegarde chat_context', { threadId, error: contextError.message });
+    }
+
+    const conversation = await findConversation(userId, threadId);
+    if (!conversation) {
+      return;
+    }
+
+    const { error: threadError } = await supabase
+      .from('user_threads')
+      .update({
+        title: conversation.title || question.substring(0, TITLE_MAX_LENGTH),
+        message_count: (conversation.message_count || 0) + 2,
+        last_used_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('thread_id', threadId);
+
+    if (threadError) {
+      logger.warn('⚠️ Erreur mise à jour user_threads', { threadId, error: threadError.message });
+    }
+  } catch (err) {
+    logger.error('❌ Exception sauvegarde échange', { userId, threadId, error: (err as Error).message });
+  }
+}
+
+/**
+ * Reprend explicitement une conversation : elle devient le thread courant du bot
+ */
+export async function resumeConversation(userId: string, threadId: string): Promise<Conversation | null> {
+  const conversation = await findConversation(userId, threadId);
+  if (!conversation) {
+    return null;
+  }
+
+  const lastUsedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('user_threads')
+    .update({ last_used_at: lastUsedAt })
+    .eq('user_id', userId)
+    .eq('thread_id', threadId);
+
+  if (error) {
+    logger.error('❌ Erreur reprise conversation', { userId, threadId, error: error.message });
+    return null;
+  }
+
+  // getQuickThread relira le thread le plus récent depuis la base
+  enterpriseCache.delete(generateCacheKey(userId, conversation.chatbot_id));
+
+  logger.info('▶️ Conversation reprise', { userId, threadId, chatbotId: conversation.chatbot_id });
+  return { ...conversation, last_used_at: lastUsedAt };
+}
+
+/**
+ * Renomme une conversation
+ */
+export async function renameConversation(userId: string, threadId: string, title: string): Promise<Conversation | null> {
+  try {
+    const { data, error } = await supabase
+      .from('user_threads')
+      .update({ title })
+      .eq('user_id', userId)
+      .eq('thread_id', threadId)
+      .select(CONVERSATION_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Erreur renommage conversation', { userId, threadId, error: error.message });
+      return null;
+    }
+
+    return data || null;
+  } catch (err) {
+    logger.error('❌ Exception renommage conversation', { userId, threadId, error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Supprime une conversation et son historique
+ */
+export async function deleteConversation(userId: string, threadId: string): Promise<boolean> {
+  const conversation = await findConversation(userId, threadId);
+  if (!conversation) {
+    return false;
+  }
+
+  try {
+    await supabase
+      .from('chat_context')
+      .delete()
+      .eq('user_id', userId)
+      .eq('thread_id', threadId);
+
+    const { error } = await supabase
+      .from('user_threads')
+      .delete()
+      .eq('user_id', userId)
+      .eq('thread_id', threadId);
+
+    if (error) {
+      logger.error('❌ Erreur suppression conversation', { userId, threadId, error: error.message });
+      return false;
+    }
+
+    enterpriseCache.delete(generateCacheKey(userId, conversation.chatbot_id));
+
+    logger.info('🗑️ Conversation supprimée', { userId, threadId });
+    return true;
+  } catch (err) {
+    logger.error('❌ Exception suppression conversation', { userId, threadId, error: (err as Error).message });
+    return false;
+  }
+}
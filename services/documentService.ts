@@ -0,0 +1,315 @@
+/**
+ * 📎 SERVICE DOCUMENTS
+ * Fichiers joints aux questions (factures, DAU/DAE, certificats d'origine)
+ * Envoi via l'API fichiers du fournisseur LLM, suivi par utilisateur/thread (user_files)
+ * et quota de stockage par entreprise
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { getLLMProvider } from './llm';
+
+// 🎯 TYPES
+
+export type DocumentStatus = 'uploaded' | 'attached' | 'deleted';
+
+export interface UserDocument {
+  id: string;
+  user_id: string;
+  company_id: string | null;
+  chatbot_id: string;
+  thread_id: string;
+  file_id: string;
+  filename: string;
+  mime_type: string;
+  bytes: number;
+  status: DocumentStatus;
+  created_at: string;
+}
+
+export interface StorageUsage {
+  used_bytes: number;
+  quota_bytes: number;
+  remaining_bytes: number;
+}
+
+export class DocumentError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+const DOCUMENT_COLUMNS = 'id, user_id, company_id, chatbot_id, thread_id, file_id, filename, mime_type, bytes, status, created_at';
+
+// Types acceptés : Content-Type → extensions autorisées
+const ALLOWED_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'text/csv': ['.csv'],
+  'text/plain': ['.txt', '.csv']
+};
+
+export const ALLOWED_MIME_TYPES = Object.keys(ALLOWED_TYPES);
+
+// ✅ CONTRÔLES
+
+/**
+ * Vérifie type déclaré, extension et contenu réel du fichier
+ */
+export function checkDocument(data: Buffer, filename: string, mimeType: string): void {
+  if (data.length === 0) {
+    throw new DocumentError('Fichier vide.', 400, 'EMPTY_FILE');
+  }
+
+  if (data.length > config.uploads.maxFileBytes) {
+    throw new DocumentError(
+      `Fichier trop volumineux (maximum ${Math.round(config.uploads.maxFileBytes / 1024 / 1024)} Mo).`,
+      413,
+      'FILE_TOO_LARGE'
+    );
+  }
+
+  const extensions = ALLOWED_TYPES[mimeType];
+  const extension = filename.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  if (!extensions || !extension || !extensions.includes(extension)) {
+    throw new DocumentError(
+      'Type de fichier non supporté (PDF, CSV ou texte uniquement).',
+      415,
+      'UNSUPPORTED_FILE_TYPE'
+    );
+  }
+
+  if (mimeType === 'application/pdf') {
+    if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new DocumentError('Le fichier ne correspond pas à un PDF valide.', 415, 'INVALID_FILE_CONTENT');
+    }
+    return;
+  }
+
+  // CSV / texte : UTF-8 sans octet nul
+  if (data.includes(0) || !isValidUtf8(data)) {
+    throw new DocumentError('Le fichier texte doit être encodé en UTF-8.', 415, 'INVALID_FILE_CONTENT');
+  }
+}
+
+function isValidUtf8(data: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 💾 QUOTA DE STOCKAGE
+
+/**
+ * Stockage consommé par l'entreprise (fichiers non supprimés)
+ */
+export async function getCompanyStorageUsage(companyId: string): Promise<StorageUsage> {
+  const [{ data: files, error }, { data: company }] = await Promise.all([
+    supabase
+      .from('user_files')
+      .select('bytes')
+      .eq('company_id', companyId)
+      .neq('status', 'deleted'),
+    supabase
+      .from('companies')
+      .select('file_storage_quota_bytes')
+      .eq('id', companyId)
+      .single()
+  ]);
+
+  if (error) {
+    throw new Error(`Lecture stockage entreprise impossible: ${error.message}`);
+  }
+
+  const usedBytes = (files || []).reduce((sum: number, file: any) => sum + (file.bytes || 0), 0);
+  const quotaBytes = company?.file_storage_quota_bytes ?? config.uploads.companyStorageQuotaBytes;
+
+  return {
+    used_bytes: usedBytes,
+    quota_bytes: quotaBytes,
+    remaining_bytes: Math.max(0, quotaBytes - usedBytes)
+  };
+}
+
+// 📤 ENVOI / LECTURE / SUPPRESSION
+
+/**
+ * Contrôle, envoie le fichier au fournisseur et l'enregistre pour le thread courant du bot
+ */
+export async function uploadDocument(params: {
+  userId: string;
+  companyId: string | null;
+  chatbotId: string;
+  threadId: string;
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}): Promise<UserDocument> {
+  const { userId, companyId, chatbotId, threadId, filename, mimeType, data } = params;
+
+  checkDocument(data, filename, mimeType);
+
+  if (companyId) {
+    const storage = await getCompanyStorageUsage(companyId);
+    if (data.length > storage.remaining_bytes) {
+      throw new DocumentError(
+        'Quota de stockage de documents de votre entreprise atteint. Supprimez des documents ou contactez votre administrateur.',
+        403,
+        'STORAGE_QUOTA_EXCEEDED'
+      );
+    }
+  }
+
+  // file_search n'indexe pas les .csv : envoyé comme texte brut
+  const providerFilename = filename.toLowerCase().endsWith('.csv') ? `${filename}.txt` : filename;
+  const file = await getLLMProvider().uploadFile(data, providerFilename);
+
+  const { data: document, error } = await supabase
+    .from('user_files')
+    .insert({
+      user_id: userId,
+      company_id: companyId,
+      chatbot_id: chatbotId,
+      thread_id: threadId,
+      file_id: file.id,
+      filename,
+      mime_type: mimeType,
+      bytes: data.length,
+      status: 'uploaded'
+    })
+    .select(DOCUMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    // Pas de fichier orphelin côté fournisseur
+    await getLLMProvider().deleteFile(file.id).catch(() => undefined);
+    throw new Error(`Enregistrement document impossible: ${error.message}`);
+  }
+
+  logger.info('📎 Document envoyé', {
+    userId,
+    chatbotId,
+    threadId,
+    fileId: file.id,
+    bytes: data.length,
+    mimeType
+  });
+
+  return document;
+}
+
+/**
+ * Documents de l'utilisateur (filtres optionnels bot / thread)
+ */
+export async function listUserDocuments(
+  userId: string,
+  filters: { chatbotId?: string; threadId?: string } = {}
+): Promise<UserDocument[]> {
+  try {
+    let query = supabase
+      .from('user_files')
+      .select(DOCUMENT_COLUMNS)
+      .eq('user_id', userId)
+      .neq('status', 'deleted')
+      .order('created_at', { ascending: false });
+
+    if (filters.chatbotId) {
+      query = query.eq('chatbot_id', filters.chatbotId);
+    }
+    if (filters.threadId) {
+      query = query.eq('thread_id', filters.threadId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('❌ Erreur liste documents', { userId, error: error.message });
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste documents', { userId, error: (err as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Documents référençables par /ask : appartenant à l'utilisateur, pour ce bot, non supprimés
+ */
+export async function findAttachableDocuments(
+  userId: string,
+  chatbotId: string,
+  fileIds: string[]
+): Promise<UserDocument[]> {
+  const { data, error } = await supabase
+    .from('user_files')
+    .select(DOCUMENT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('chatbot_id', chatbotId)
+    .in('file_id', fileIds)
+    .neq('status', 'deleted');
+
+  if (error) {
+    throw new Error(`Recherche documents impossible: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Marque les documents comme joints au thread (après envoi du message)
+ */
+export async function markDocumentsAttached(userId: string, fileIds: string[], threadId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_files')
+    .update({ status: 'attached', thread_id: threadId })
+    .eq('user_id', userId)
+    .in('file_id', fileIds);
+
+  if (error) {
+    logger.warn('⚠️ Erreur mise à jour documents joints', { userId, threadId, error: error.message });
+  }
+}
+
+/**
+ * Supprime un document (fournisseur + libération du quota)
+ */
+export async function deleteDocument(userId: string, fileId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('user_files')
+      .update({ status: 'deleted' })
+      .eq('user_id', userId)
+      .eq('file_id', fileId)
+      .neq('status', 'deleted')
+      .select('id')
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        logger.error('❌ Erreur suppression document', { userId, fileId, error: error.message });
+      }
+      return false;
+    }
+
+    try {
+      await getLLMProvider().deleteFile(fileId);
+    } catch (providerError) {
+      logger.warn('⚠️ Suppression fichier fournisseur échouée', {
+        fileId,
+        error: (providerError as Error).message
+      });
+    }
+
+    logger.info('🗑️ Document supprimé', { userId, fileId });
+    return true;
+  } catch (err) {
+    logger.error('❌ Exception suppression document', { userId, fileId, error: (err as Error).message });
+    return false;
+  }
+}
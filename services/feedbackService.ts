@@ -0,0 +1,360 @@
+/**
+ * 👍 SERVICE FEEDBACK
+ * Notes utilisateur sur les réponses d'assistant + rapports qualité admin
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+
+// 🎯 TYPES
+
+export type FeedbackRating = 'up' | 'down';
+export type FeedbackCategory = 'incorrect' | 'outdated_regulation' | 'incomplete' | 'off_topic';
+export type FeedbackGranularity = 'day' | 'week' | 'month';
+
+export interface AnswerFeedback {
+  id: string;
+  user_id: string;
+  company_id: string | null;
+  chatbot_id: string;
+  thread_id: string;
+  run_id: string | null;
+  message_id: string;
+  rating: FeedbackRating;
+  category: FeedbackCategory | null;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RatedAnswer {
+  user_id: string;
+  chatbot_id: string;
+  thread_id: string;
+  run_id: string | null;
+  message_id: string;
+  message: string;
+  created_at: string;
+}
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  category?: FeedbackCategory;
+  comment?: string;
+}
+
+export interface FeedbackFilters {
+  periodDays: number;
+  botId?: string;
+  companyId?: string;
+}
+
+export interface SatisfactionStats {
+  total: number;
+  up: number;
+  down: number;
+  satisfaction: number | null; // % de notes positives
+}
+
+export interface SatisfactionTimelinePoint extends SatisfactionStats {
+  period: string;
+}
+
+export interface SatisfactionGroup extends SatisfactionStats {
+  categories: Record<string, number>;
+  timeline: SatisfactionTimelinePoint[];
+}
+
+export interface FeedbackReport {
+  period: { from: string; to: string; granularity: FeedbackGranularity };
+  overall: SatisfactionStats;
+  timeline: SatisfactionTimelinePoint[];
+  by_bot: Array<SatisfactionGroup & { chatbot_id: string }>;
+  by_company: Array<SatisfactionGroup & { company_id: string | null; company_name: string | null }>;
+}
+
+export interface WorstRatedAnswer {
+  message_id: string;
+  chatbot_id: string;
+  thread_id: string | null;
+  question: string | null;
+  answer: string | null;
+  up: number;
+  down: number;
+  categories: Record<string, number>;
+  comments: string[];
+  last_feedback_at: string;
+}
+
+const FEEDBACK_COLUMNS = 'id, user_id, company_id, chatbot_id, thread_id, run_id, message_id, rating, category, comment, created_at, updated_at';
+const MAX_COMMENTS_PER_ANSWER = 5;
+
+// ✏️ ENREGISTREMENT
+
+/**
+ * Retrouve une réponse d'assistant par son message_id (chat_context)
+ * userId : uniquement parmi les réponses reçues par cet utilisateur (null : rapport admin)
+ */
+export async function findRatedAnswer(messageId: string, userId: string | null): Promise<RatedAnswer | null> {
+  try {
+    let query = supabase
+      .from('chat_context')
+      .select('user_id, chatbot_id, thread_id, run_id, message_id, message, created_at')
+      .eq('message_id', messageId)
+      .eq('role', 'bot');
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.limit(1);
+
+    if (error) {
+      logger.error('❌ Erreur recherche réponse notée', { messageId, error: error.message });
+      return null;
+    }
+
+    return data?.[0] || null;
+  } catch (err) {
+    logger.error('❌ Exception recherche réponse notée', { messageId, error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Enregistre (ou remplace) la note d'un utilisateur sur une réponse
+ */
+export async function saveFeedback(
+  userId: string,
+  answer: RatedAnswer,
+  input: FeedbackInput
+): Promise<AnswerFeedback | null> {
+  try {
+    const { data: userData } = await supabase
+      .from('users')
+      .select('company_id')
+      .eq('id', userId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('answer_feedback')
+      .upsert({
+        user_id: userId,
+        company_id: userData?.company_id || null,
+        chatbot_id: answer.chatbot_id,
+        thread_id: answer.thread_id,
+        run_id: answer.run_id,
+        message_id: answer.message_id,
+        rating: input.rating,
+        category: input.category || null,
+        comment: input.comment || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,message_id' })
+      .select(FEEDBACK_COLUMNS)
+      .single();
+
+    if (error) {
+      logger.error('❌ Erreur sauvegarde feedback', { userId, messageId: answer.message_id, error: error.message });
+      return null;
+    }
+
+    logger.info('👍 Feedback enregistré', {
+      userId,
+      chatbotId: answer.chatbot_id,
+      messageId: answer.message_id,
+      rating: input.rating,
+      category: input.category
+    });
+    return data;
+  } catch (err) {
+    logger.error('❌ Exception sauvegarde feedback', { userId, error: (err as Error).message });
+    return null;
+  }
+}
+
+// 📊 AGRÉGATION
+
+function periodStart(periodDays: number): Date {
+  return new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Clé de regroupement temporel (jour, lundi de la semaine, mois)
+ */
+function bucketKey(date: string, granularity: FeedbackGranularity): string {
+  const d = new Date(date);
+  if (granularity === 'month') {
+    return d.toISOString().substring(0, 7);
+  }
+  if (granularity === 'week') {
+    const monday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().substring(0, 10);
+  }
+  return d.toISOString().substring(0, 10);
+}
+
+function computeStats(rows: Array<{ rating: FeedbackRating }>): SatisfactionStats {
+  const up = rows.filter(r => r.rating === 'up').length;
+  const down = rows.length - up;
+  return {
+    total: rows.length,
+    up,
+    down,
+    satisfaction: rows.length > 0 ? Math.round((up / rows.length) * 100) : null
+  };
+}
+
+function groupBy<T>(rows: T[], keyFn: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyFn(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return groups;
+}
+
+function buildTimeline(rows: any[], granularity: FeedbackGranularity): SatisfactionTimelinePoint[] {
+  return [...groupBy(rows, row => bucketKey(row.created_at, granularity)).entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucket]) => ({ period, ...computeStats(bucket) }));
+}
+
+function buildGroup(rows: any[], granularity: FeedbackGranularity): SatisfactionGroup {
+  const categories: Record<string, number> = {};
+  for (const row of rows) {
+    if (row.rating === 'down' && row.category) {
+      categories[row.category] = (categories[row.category] || 0) + 1;
+    }
+  }
+  return { ...computeStats(rows), categories, timeline: buildTimeline(rows, granularity) };
+}
+
+async function fetchFeedbackRows(filters: FeedbackFilters, columns: string): Promise<any[]> {
+  let query = supabase
+    .from('answer_feedback')
+    .select(columns)
+    .gte('created_at', periodStart(filters.periodDays).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (filters.botId) {
+    query = query.eq('chatbot_id', filters.botId);
+  }
+  if (filters.companyId) {
+    query = query.eq('company_id', filters.companyId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Lecture feedbacks impossible: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Satisfaction globale, par bot et par entreprise, avec évolution dans le temps
+ */
+export async function getFeedbackReport(
+  filters: FeedbackFilters,
+  granularity: FeedbackGranularity = 'week'
+): Promise<FeedbackReport | null> {
+  try {
+    const rows = await fetchFeedbackRows(filters, 'chatbot_id, company_id, rating, category, created_at');
+
+    const companyIds = [...new Set(rows.map(r => r.company_id).filter(Boolean))];
+    const companyNames = new Map<string, string>();
+    if (companyIds.length > 0) {
+      const { data: companies } = await supabase
+        .from('companies')
+        .select('id, name')
+        .in('id', companyIds);
+      (companies || []).forEach((c: any) => companyNames.set(c.id, c.name));
+    }
+
+    const byBot = [...groupBy(rows, r => r.chatbot_id).entries()]
+      .map(([chatbotId, botRows]) => ({ chatbot_id: chatbotId, ...buildGroup(botRows, granularity) }))
+      .sort((a, b) => (a.satisfaction ?? 100) - (b.satisfaction ?? 100));
+
+    const byCompany = [...groupBy(rows, r => r.company_id || 'none').entries()]
+      .map(([companyId, companyRows]) => ({
+        company_id: companyId === 'none' ? null : companyId,
+        company_name: companyNames.get(companyId) || null,
+        ...buildGroup(companyRows, granularity)
+      }))
+      .sort((a, b) => (a.satisfaction ?? 100) - (b.satisfaction ?? 100));
+
+    return {
+      period: {
+        from: periodStart(filters.periodDays).toISOString(),
+        to: new Date().toISOString(),
+        granularity
+      },
+      overall: computeStats(rows),
+      timeline: buildTimeline(rows, granularity),
+      by_bot: byBot,
+      by_company: byCompany
+    };
+  } catch (err) {
+    logger.error('❌ Exception rapport feedback', { error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Réponses les plus mal notées (avec question, réponse et commentaires) pour relecture
+ */
+export async function getWorstRatedAnswers(filters: FeedbackFilters, limit: number = 20): Promise<WorstRatedAnswer[]> {
+  try {
+    const rows = await fetchFeedbackRows(filters, 'message_id, chatbot_id, thread_id, rating, category, comment, created_at');
+
+    const worst = [...groupBy(rows, r => r.message_id).entries()]
+      .map(([messageId, answerRows]) => {
+        const stats = computeStats(answerRows);
+        const categories: Record<string, number> = {};
+        answerRows.forEach(r => {
+          if (r.rating === 'down' && r.category) {
+            categories[r.category] = (categories[r.category] || 0) + 1;
+          }
+        });
+        return {
+          message_id: messageId,
+          chatbot_id: answerRows[0].chatbot_id,
+          thread_id: answerRows[0].thread_id,
+          up: stats.up,
+          down: stats.down,
+          categories,
+          comments: answerRows
+            .filter(r => r.comment)
+            .slice(-MAX_COMMENTS_PER_ANSWER)
+            .map(r => r.comment),
+          last_feedback_at: answerRows[answerRows.length - 1].created_at
+        };
+      })
+      .filter(answer => answer.down > 0)
+      .sort((a, b) => (b.down - b.up) - (a.down - a.up) || b.down - a.down)
+      .slice(0, limit);
+
+    // Texte de la réponse et question associée (message utilisateur précédent du thread)
+    return await Promise.all(worst.map(async (answer) => {
+      const rated = await findRatedAnswer(answer.message_id, null);
+      let question: string | null = null;
+
+      if (rated) {
+        const { data: previous } = await supabase
+          .from('chat_context')
+          .select('message')
+          .eq('thread_id', rated.thread_id)
+          .eq('role', 'user')
+          .lte('created_at', rated.created_at)
+          .order('created_at', { ascending: false })
+          .limit(1);
+        question = previous?.[0]?.message || null;
+      }
+
+      return { ...answer, question, answer: rated?.message || null };
+    }));
+  } catch (err) {
+    logger.error('❌ Exception réponses mal notées', { error: (err as Error).message });
+    return [];
+  }
+}
@@ -1,6 +1,8 @@
 // auth-backend/services/intelligentRouter.ts - VERSION CORRIGÉE AVEC PRÉFÉRENCES
-import { OpenAI } from 'openai';
+import { getLLMProvider, type LLMProvider } from './llm';
 import { ContextualMemoryService } from './contextualMemory';
+import { getBot } from './botRegistry';
+import { executeToolCalls } from './tools';
 import logger from '../utils/logger';
 import config from '../utils/config';
 
@@ -20,19 +22,14 @@ interface UserPreferences {
 }
 
 export class IntelligentRouter {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private contextService: ContextualMemoryService;
   private assistantId: string;
 
   constructor() {
     console.log('🚀 IntelligentRouter - Construction...');
     
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-      defaultHeaders: {
-        "OpenAI-Beta": "assistants=v2",
-      },
-    });
+    this.llm = getLLMProvider();
     
     this.contextService = new ContextualMemoryService();
     this.assistantId = config.openai.assistantId;
@@ -44,7 +41,7 @@ export class IntelligentRouter {
   private async testAssistantAccess() {
     try {
       logger.info('🔍 Test accès Assistant...');
-      const assistant = await this.openai.beta.assistants.retrieve(this.assistantId);
+      const assistant = await this.llm.retrieveAssistant(this.assistantId);
       logger.info('✅ Assistant accessible:', assistant.name);
     } catch (err: any) {
       logger.error('❌ Erreur accès Assistant:', (err as Error).message);
@@ -135,8 +132,7 @@ export class IntelligentRouter {
       const userPrefs = await this.getIntelligentUserPreferences(userId, botName);
       const personalizedInstructions = await this.getBotInstructionsWithPreferences(botName, userPrefs);
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      const completion = await this.llm.chatCompletion({
         messages: [{
           role: "user", 
           content: `${personalizedInstructions}\n\nQuestion simple: ${question}`
@@ -145,7 +141,7 @@ export class IntelligentRouter {
         temperature: 0.7
       });
 
-      const response = completion.choices[0].message.content || "Désolé, je ne peux pas répondre.";
+      const response = completion.content || "Désolé, je ne peux pas répondre.";
       
       this.saveToContext(userId, botName, question, response).catch(err: any => 
         logger.warn('⚠️ Sauvegarde async failed', { error: err.message })
@@ -182,7 +178,7 @@ export class IntelligentRouter {
       
       const [contextSummary, thread] = await Promise.all([
         this.contextService.summarizeRecentHistory(userId, botName),
-        this.openai.beta.threads.create()
+        this.llm.createThread()
       ]);
 
       const enhancedMessage = `${personalizedInstructions}\n\nCONTEXTE RÉCENT : ${contextSummary}\n\nQUESTION : "${question}"`;
@@ -199,13 +195,10 @@ QUESTION: ${question}
 
 IMPORTANT: Respecte absolument le style de communication et le niveau d'expertise demandés.`;
 
-await this.openai.beta.threads.messages.create(thread.id, {
-  role: 'user',
-  content: structuredMessage
-});
+await this.llm.addMessage(thread.id, structuredMessage);
 
-      const run = await this.openai.beta.threads.runs.create(thread.id, {
-        assistant_id: this.assistantId
+      const run = await this.llm.createRun(thread.id, {
+        assistantId: this.assistantId
       });
 
       const runStatus = await this.waitForRunCompletion(thread.id, run.id);
@@ -253,21 +246,18 @@ await this.openai.beta.threads.messages.create(thread.id, {
       
       try {
         logger.info('📝 Création thread...');
-        const thread = await this.openai.beta.threads.create();
+        const thread = await this.llm.createThread();
         logger.info('✅ Thread créé:', thread.id);
         
         logger.info('💬 Ajout message avec préférences...');
         const messageContent = `${personalizedInstructions}\n\nQuestion: ${question}`;
         
-        await this.openai.beta.threads.messages.create(thread.id, {
-          role: 'user',
-          content: messageContent
-        });
+        await this.llm.addMessage(thread.id, messageContent);
         logger.info('✅ Message ajouté avec préférences');
 
         logger.info('🚀 Création run...');
-        const run = await this.openai.beta.threads.runs.create(thread.id, {
-          assistant_id: this.assistantId
+        const run = await this.llm.createRun(thread.id, {
+          assistantId: this.assistantId
         });
         
         logger.info('✅ Run créé:', run.id, 'Status initial:', run.status);
@@ -341,15 +331,12 @@ await this.openai.beta.threads.messages.create(thread.id, {
       
       const personalizedInstructions = await this.getBotInstructionsWithPreferences(botName, userPrefs);
       
-      const thread = await this.openai.beta.threads.create();
+      const thread = await this.llm.createThread();
       
-      await this.openai.beta.threads.messages.create(thread.id, {
-        role: 'user',
-        content: `${personalizedInstructions}\n\nQuestion précise : ${question}`
-      });
+      await this.llm.addMessage(thread.id, `${personalizedInstructions}\n\nQuestion précise : ${question}`);
       
-      const run = await this.openai.beta.threads.runs.create(thread.id, {
-        assistant_id: this.assistantId
+      const run = await this.llm.createRun(thread.id, {
+        assistantId: this.assistantId
       });
       
       const runStatus = await this.waitForRunCompletion(thread.id, run.id, 20);
@@ -395,12 +382,22 @@ await this.openai.beta.threads.messages.create(thread.id, {
     const maxAttempts = maxSeconds;
     let attempts = 0;
     
-    let runStatus = await this.openai.beta.threads.runs.retrieve(runId, threadId);
+    let runStatus = await this.llm.retrieveRun(threadId, runId);
 
     
-    while ((runStatus.status === 'queued' || runStatus.status === 'in_progress') && attempts < maxAttempts) {
+    while ((runStatus.status === 'queued' || runStatus.status === 'in_progress' || runStatus.status === 'requires_action') && attempts < maxAttempts) {
+      // 🛠️ Outils serveur demandés par l'assistant
+      if (runStatus.status === 'requires_action') {
+        const outputs = await executeToolCalls(runStatus.required_tool_calls || [], {
+          runId, threadId, userId: null, companyId: null, chatbotId: null
+        });
+        runStatus = await this.llm.submitToolOutputs(threadId, runId, outputs);
+        attempts++;
+        continue;
+      }
+
       await new Promise(resolve => setTimeout(resolve, 1000));
-      runStatus = await this.openai.beta.threads.runs.retrieve(runId, threadId);
+      runStatus = await this.llm.retrieveRun(threadId, runId);
       attempts++;
       
       if (attempts % 10 === 0) {
@@ -419,8 +416,8 @@ await this.openai.beta.threads.messages.create(thread.id, {
    * 📝 EXTRACTION RÉPONSE ASSISTANT
    */
   private async extractAssistantResponse(threadId: string): Promise<string> {
-    const messages = await this.openai.beta.threads.messages.list(threadId);
-    const assistantMessages = messages.data.filter(msg => msg.role === 'assistant');
+    const messages = await this.llm.listMessages(threadId, { order: 'desc', limit: 20 });
+    const assistantMessages = messages.filter(msg => msg.role === 'assistant');
     
     if (assistantMessages.length === 0) {
       return "Désolé, je n'ai pas pu générer une réponse.";
@@ -428,11 +425,8 @@ await this.openai.beta.threads.messages.create(thread.id, {
     
     const latestMessage = assistantMessages[0];
     
-    if (latestMessage?.content && latestMessage.content.length > 0) {
-      const content = latestMessage.content[0];
-      if (content.type === 'text' && 'text' in content && 'value' in content.text) {
-        return content.text.value;
-      }
+    if (latestMessage.text) {
+      return latestMessage.text;
     }
     
     return "Désolé, impossible d'extraire la réponse.";
@@ -478,7 +472,7 @@ private isSimpleGreeting(question: string): boolean {
    */
   private async getBotInstructionsWithPreferences(botName: string, userPrefs: UserPreferences): Promise<string> {
     // Instructions de base du bot
-    const baseInstructions = this.getBotBaseInstructions(botName);
+    const baseInstructions = await this.getBotBaseInstructions(botName);
     
     // Construction des instructions personnalisées
     let personalizedInstructions = baseInstructions;
@@ -515,16 +509,9 @@ private isSimpleGreeting(question: string): boolean {
   /**
    * 🎯 INSTRUCTIONS DE BASE PAR BOT
    */
-  private getBotBaseInstructions(botName: string): string {
-    const instructions = {
-      "EMEBI ET TVA UE": "Tu es un expert en réglementation douanière européenne, spécialisé dans la TVA intracommunautaire et les procédures EMEBI.",
-      "CODE DES DOUANES UE": "Tu es un expert du Code des Douanes de l'Union Européenne.",
-      "MACF": "Tu es un spécialiste du Mécanisme d'Ajustement Carbone aux Frontières (MACF).",
-      "SANCTIONS RUSSES": "Tu es un expert en sanctions internationales, particulièrement les sanctions contre la Russie.",
-      "USA": "Tu es un expert en réglementation douanière américaine (CBP, ITAR, etc.)."
-    };
-    
-    return instructions[botName] || "Tu es un assistant spécialisé en réglementation douanière et commerciale.";
+  private async getBotBaseInstructions(botName: string): Promise<string> {
+    const bot = await getBot(botName);
+    return bot?.persona_prompt || "Tu es un assistant spécialisé en réglementation douanière et commerciale.";
   }
 
   /**
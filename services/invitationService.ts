@@ -0,0 +1,438 @@
+/**
+ * ✉️ SERVICE INVITATIONS UTILISATEURS
+ * Remplace l'envoi de mots de passe temporaires : lien signé à durée limitée,
+ * l'invité choisit son mot de passe et accepte les conditions d'utilisation
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { sendInvitationEmail } from '../utils/email';
+import { emailExists } from './userService';
+import { getCompanyLicenses, grantBotAccess } from './licenseService';
+
+// 🎯 TYPES
+
+// expired : invitation en attente dont le lien a expiré (calculé, jamais stocké)
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  company_id: string;
+  role: string;
+  bot_ids: string[];
+  first_name: string | null;
+  last_name: string | null;
+  job_title: string | null;
+  status: InvitationStatus;
+  expires_at: string;
+  invited_by: string | null;
+  send_count: number;
+  last_sent_at: string | null;
+  accepted_at: string | null;
+  accepted_user_id: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface InvitationInput {
+  email: string;
+  company_id: string;
+  role: string;
+  bot_ids: string[];
+  first_name?: string;
+  last_name?: string;
+  job_title?: string;
+}
+
+export interface AcceptInvitationInput {
+  password: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+// Informations montrées à l'invité avant l'activation
+export interface InvitationPreview {
+  email: string;
+  company_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  bots: string[];
+  expires_at: string;
+  terms_version: string;
+}
+
+export interface InvitationFilters {
+  companyId?: string | null;
+  status?: InvitationStatus;
+}
+
+export class InvitationError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+const INVITATION_FIELDS = 'id, email, company_id, role, bot_ids, first_name, last_name, job_title, status, expires_at, invited_by, send_count, last_sent_at, accepted_at, accepted_user_id, revoked_at, created_at';
+
+const INVALID_LINK = () => new InvitationError("Lien d'invitation invalide, expiré ou déjà utilisé.", 400, 'INVALID_INVITATION');
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function withEffectiveStatus(invitation: Invitation): Invitation {
+  const expired = invitation.status === 'pending' && new Date(invitation.expires_at).getTime() <= Date.now();
+  return expired ? { ...invitation, status: 'expired' } : invitation;
+}
+
+// 🔏 LIEN SIGNÉ
+
+/**
+ * Nouveau lien : un renvoi remplace le hash stocké, l'ancien lien ne fonctionne plus
+ */
+function issueToken(invitationId: string): { token: string; expiresAt: string } {
+  const ttlSeconds = config.invitations.ttlDays * 24 * 60 * 60;
+  const token = jwt.sign(
+    { inv: invitationId, nonce: crypto.randomBytes(16).toString('base64url') },
+    config.invitations.signingKey,
+    { expiresIn: ttlSeconds }
+  );
+  return { token, expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString() };
+}
+
+/**
+ * Invitation en attente correspondant au lien (signature, expiration et dernier lien émis)
+ */
+async function findPendingByToken(token: string): Promise<Invitation> {
+  let invitationId: string | undefined;
+  try {
+    invitationId = (jwt.verify(token, config.invitations.signingKey) as { inv?: string }).inv;
+  } catch {
+    throw INVALID_LINK();
+  }
+
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .select(INVITATION_FIELDS)
+    .eq('id', invitationId)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture invitation impossible: ${error.message}`);
+  }
+
+  if (!data || withEffectiveStatus(data).status !== 'pending') {
+    throw INVALID_LINK();
+  }
+  return data;
+}
+
+async function sendLink(invitation: Invitation, token: string): Promise<boolean> {
+  const [{ data: company }, { data: inviter }] = await Promise.all([
+    supabase.from('companies').select('name').eq('id', invitation.company_id).maybeSingle(),
+    invitation.invited_by
+      ? supabase.from('users').select('first_name, last_name').eq('id', invitation.invited_by).maybeSingle()
+      : Promise.resolve({ data: null })
+  ]);
+
+  try {
+    await sendInvitationEmail(invitation.email, token, {
+      companyName: company?.name || null,
+      invitedBy: inviter ? `${inviter.first_name} ${inviter.last_name}`.trim() : null,
+      expiresAt: invitation.expires_at
+    });
+    return true;
+  } catch (err) {
+    // L'invitation reste valable : l'administrateur peut la renvoyer
+    logger.error('❌ Envoi email invitation impossible', { error: (err as Error).message, invitationId: invitation.id });
+    return false;
+  }
+}
+
+// 🛠️ ADMINISTRATION
+
+/**
+ * Crée l'invitation et envoie le lien. Les bots doivent être couverts par une licence valide de l'entreprise.
+ */
+export async function createInvitation(input: InvitationInput, invitedBy: string): Promise<{ invitation: Invitation; emailSent: boolean }> {
+  const email = input.email.toLowerCase().trim();
+
+  if (await emailExists(email)) {
+    throw new InvitationError('Un compte existe déjà pour cet email.', 409, 'EMAIL_IN_USE');
+  }
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('user_invitations')
+    .select('id')
+    .eq('email', email)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .limit(1);
+
+  if (pendingError) {
+    throw new Error(`Lecture invitations impossible: ${pendingError.message}`);
+  }
+  if (pending && pending.length > 0) {
+    throw new InvitationError('Une invitation est déjà en attente pour cet email.', 409, 'INVITATION_PENDING');
+  }
+
+  const licensedBots = (await getCompanyLicenses(input.company_id))
+    .filter(license => license.is_valid)
+    .map(license => license.bot_id);
+  const unlicensed = input.bot_ids.filter(botId => !licensedBots.includes(botId));
+  if (unlicensed.length > 0) {
+    throw new InvitationError("Bots sans licence active pour cette entreprise.", 400, 'BOTS_NOT_LICENSED');
+  }
+
+  const invitationId = crypto.randomUUID();
+  const { token, expiresAt } = issueToken(invitationId);
+
+  const { data: invitation, error } = await supabase
+    .from('user_invitations')
+    .insert({
+      id: invitationId,
+      email,
+      company_id: input.company_id,
+      role: input.role,
+      bot_ids: [...new Set(input.bot_ids)],
+      first_name: input.first_name || null,
+      last_name: input.last_name || null,
+      job_title: input.job_title || null,
+      status: 'pending',
+      token_hash: hashToken(token),
+      expires_at: expiresAt,
+      invited_by: invitedBy,
+      send_count: 1,
+      last_sent_at: new Date().toISOString()
+    })
+    .select(INVITATION_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(`Création invitation impossible: ${error.message}`);
+  }
+
+  const emailSent = await sendLink(invitation, token);
+  logger.info('✉️ Invitation créée', { invitationId, companyId: input.company_id, role: input.role, invitedBy, emailSent });
+  return { invitation, emailSent };
+}
+
+export async function listInvitations(filters: InvitationFilters = {}): Promise<Invitation[]> {
+  try {
+    let query = supabase
+      .from('user_invitations')
+      .select(INVITATION_FIELDS)
+      .order('created_at', { ascending: false });
+
+    if (filters.companyId) {
+      query = query.eq('company_id', filters.companyId);
+    }
+    // pending / expired : même statut stocké, distingués après coup
+    if (filters.status) {
+      query = query.eq('status', filters.status === 'expired' ? 'pending' : filters.status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('❌ Erreur liste invitations', { error: error.message });
+      return [];
+    }
+
+    return (data || [])
+      .map(withEffectiveStatus)
+      .filter(invitation => !filters.status || invitation.status === filters.status);
+  } catch (err) {
+    logger.error('❌ Exception liste invitations', { error: (err as Error).message });
+    return [];
+  }
+}
+
+export async function getInvitation(invitationId: string): Promise<Invitation | null> {
+  const { data, error } = await supabase
+    .from('user_invitations')
+    .select(INVITATION_FIELDS)
+    .eq('id', invitationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture invitation impossible: ${error.message}`);
+  }
+  return data ? withEffectiveStatus(data) : null;
+}
+
+/**
+ * Nouveau lien et nouvelle échéance (invitation en attente ou expirée)
+ */
+export async function resendInvitation(invitation: Invitation): Promise<{ invitation: Invitation; emailSent: boolean }> {
+  if (invitation.status !== 'pending' && invitation.status !== 'expired') {
+    throw new InvitationError("Seule une invitation en attente peut être renvoyée.", 409, 'INVITATION_NOT_PENDING');
+  }
+
+  const { token, expiresAt } = issueToken(invitation.id);
+  const { data: updated, error } = await supabase
+    .from('user_invitations')
+    .update({
+      token_hash: hashToken(token),
+      expires_at: expiresAt,
+      send_count: invitation.send_count + 1,
+      last_sent_at: new Date().toISOString()
+    })
+    .eq('id', invitation.id)
+    .eq('status', 'pending')
+    .select(INVITATION_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Renvoi invitation impossible: ${error.message}`);
+  }
+  if (!updated) {
+    throw new InvitationError("Seule une invitation en attente peut être renvoyée.", 409, 'INVITATION_NOT_PENDING');
+  }
+
+  const emailSent = await sendLink(updated, token);
+  logger.info('✉️ Invitation renvoyée', { invitationId: invitation.id, sendCount: updated.send_count, emailSent });
+  return { invitation: updated, emailSent };
+}
+
+export async function revokeInvitation(invitation: Invitation, revokedBy: string): Promise<Invitation> {
+  const { data: revoked, error } = await supabase
+    .from('user_invitations')
+    .update({ status: 'revoked', revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+    .eq('id', invitation.id)
+    .eq('status', 'pending')
+    .select(INVITATION_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Révocation invitation impossible: ${error.message}`);
+  }
+  if (!revoked) {
+    throw new InvitationError("Seule une invitation en attente peut être révoquée.", 409, 'INVITATION_NOT_PENDING');
+  }
+
+  logger.info('🗑️ Invitation révoquée', { invitationId: invitation.id, revokedBy });
+  return revoked;
+}
+
+// 👤 CÔTÉ INVITÉ
+
+export async function previewInvitation(token: string): Promise<InvitationPreview> {
+  const invitation = await findPendingByToken(token);
+
+  const [{ data: company }, { data: bots }] = await Promise.all([
+    supabase.from('companies').select('name').eq('id', invitation.company_id).maybeSingle(),
+    invitation.bot_ids.length > 0
+      ? supabase.from('bots').select('name').in('id', invitation.bot_ids)
+      : Promise.resolve({ data: [] })
+  ]);
+
+  return {
+    email: invitation.email,
+    company_name: company?.name || null,
+    first_name: invitation.first_name,
+    last_name: invitation.last_name,
+    bots: (bots || []).map(bot => bot.name),
+    expires_at: invitation.expires_at,
+    terms_version: config.invitations.termsVersion
+  };
+}
+
+/**
+ * Consomme l'invitation (une seule requête concurrente peut le faire) puis crée le compte
+ * avec le mot de passe choisi, l'acceptation des conditions et les bots présélectionnés
+ */
+export async function acceptInvitation(token: string, input: AcceptInvitationInput): Promise<{ userId: string; email: string }> {
+  const invitation = await findPendingByToken(token);
+
+  const firstName = input.first_name || invitation.first_name;
+  const lastName = input.last_name || invitation.last_name;
+  if (!firstName || !lastName) {
+    throw new InvitationError('Le prénom et le nom sont requis.', 400, 'NAME_REQUIRED');
+  }
+
+  if (await emailExists(invitation.email)) {
+    throw new InvitationError('Un compte existe déjà pour cet email.', 409, 'EMAIL_IN_USE');
+  }
+
+  const now = new Date().toISOString();
+  const { data: consumed, error: consumeError } = await supabase
+    .from('user_invitations')
+    .update({ status: 'accepted', accepted_at: now })
+    .eq('id', invitation.id)
+    .eq('token_hash', hashToken(token))
+    .eq('status', 'pending')
+    .gt('expires_at', now)
+    .select('id');
+
+  if (consumeError) {
+    throw new Error(`Consommation invitation impossible: ${consumeError.message}`);
+  }
+  if (!consumed || consumed.length === 0) {
+    throw INVALID_LINK();
+  }
+
+  const { data: company } = await supabase
+    .from('companies')
+    .select('name')
+    .eq('id', invitation.company_id)
+    .maybeSingle();
+
+  const { data: newUser, error: userError } = await supabase
+    .from('users')
+    .insert({
+      email: invitation.email,
+      first_name: firstName.trim(),
+      last_name: lastName.trim(),
+      job_title: invitation.job_title,
+      company_id: invitation.company_id,
+      company: company?.name || null,
+      nickname: `${firstName}.${lastName}`.toLowerCase().replace(/[^a-z0-9.]/g, ''),
+      role: invitation.role,
+      password_hash: await bcrypt.hash(input.password, 12),
+      first_login: false,
+      terms_accepted_at: now,
+      terms_version: config.invitations.termsVersion,
+      created_at: now
+    })
+    .select('id, email')
+    .single();
+
+  if (userError) {
+    // Le lien redevient utilisable : rien n'a été créé
+    await supabase
+      .from('user_invitations')
+      .update({ status: 'pending', accepted_at: null })
+      .eq('id', invitation.id);
+    throw new Error(`Création utilisateur invité impossible: ${userError.message}`);
+  }
+
+  // Licences revérifiées : elles ont pu expirer depuis l'envoi de l'invitation
+  const licenses = (await getCompanyLicenses(invitation.company_id))
+    .filter(license => license.is_valid && invitation.bot_ids.includes(license.bot_id));
+
+  for (const license of licenses) {
+    await grantBotAccess(newUser.id, license.id);
+  }
+
+  await supabase
+    .from('user_invitations')
+    .update({ accepted_user_id: newUser.id })
+    .eq('id', invitation.id);
+
+  logger.info('🎉 Invitation acceptée', {
+    invitationId: invitation.id,
+    userId: newUser.id,
+    companyId: invitation.company_id,
+    bots: licenses.length,
+    skippedBots: invitation.bot_ids.length - licenses.length
+  });
+
+  return { userId: newUser.id, email: newUser.email };
+}
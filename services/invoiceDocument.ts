@@ -0,0 +1,152 @@
+/**
+ * 🖨️ DOCUMENTS DE FACTURE
+ * Rendu CSV (une ligne par ligne de facture, puis les totaux) et HTML imprimable
+ * (impression ou « Enregistrer en PDF » depuis le navigateur)
+ */
+
+import config from '../utils/config';
+import type { Invoice } from './invoiceService';
+
+const CSV_COLUMNS = [
+  'invoice_number', 'period', 'status', 'company', 'line_type', 'bot',
+  'description', 'quantity', 'unit', 'unit_price', 'amount', 'currency'
+];
+
+function csvValue(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Texte commençant par = + - @ (ou tabulation / retour) : interprété comme formule par les tableurs
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function invoiceFileName(invoice: Invoice): string {
+  return `facture_${invoice.number}${invoice.status === 'draft' ? '_brouillon' : ''}`;
+}
+
+// 📄 CSV
+
+export function renderInvoiceCsv(invoice: Invoice): string {
+  const base = [invoice.number, invoice.period_key, invoice.status, invoice.company_name];
+
+  const rows = invoice.lines.map(line => [
+    ...base, line.type, line.bot_name, line.description, line.quantity, line.unit, line.unit_price, line.amount, invoice.currency
+  ]);
+  rows.push(
+    [...base, 'subtotal', '', 'Total HT', '', '', '', invoice.subtotal, invoice.currency],
+    [...base, 'vat', '', `TVA ${invoice.vat_percent} %`, '', '', '', invoice.vat_amount, invoice.currency],
+    [...base, 'total', '', 'Total TTC', '', '', '', invoice.total, invoice.currency]
+  );
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvValue).join(',')).join('\n');
+}
+
+// 🌐 HTML
+
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const { issuer } = config.invoicing;
+  const money = (value: number, digits: number = 2) =>
+    value.toLocaleString('fr-FR', { style: 'currency', currency: invoice.currency, minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const number = (value: number) => value.toLocaleString('fr-FR');
+  const date = (iso: string) => new Date(iso).toLocaleDateString('fr-FR', { timeZone: 'UTC' });
+  const lastDay = new Date(new Date(invoice.period_end).getTime() - 1).toISOString();
+  const isDraft = invoice.status === 'draft';
+
+  const usageRows = invoice.usage.map(usage => `
+        <tr>
+          <td>${escapeHtml(usage.bot_name)}</td>
+          <td>${escapeHtml(usage.plan || '—')}</td>
+          <td class="num">${number(usage.requests)}</td>
+          <td class="num">${number(usage.input_tokens)}</td>
+          <td class="num">${number(usage.output_tokens)}</td>
+          <td class="num">${usage.included_tokens === null ? 'Illimité' : number(usage.included_tokens)}</td>
+          <td class="num">${number(usage.overage_tokens)}</td>
+        </tr>`).join('');
+
+  const lineRows = invoice.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${number(line.quantity)} ${escapeHtml(line.unit)}</td>
+          <td class="num">${money(line.unit_price, line.type === 'subscription' ? 2 : 6)}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(`${isDraft ? 'Brouillon de facture' : 'Facture'} ${invoice.number}`)}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 13px; color: #222; max-width: 800px; margin: 32px auto; }
+    h1 { font-size: 22px; margin: 0; }
+    h2 { font-size: 15px; margin: 28px 0 8px; }
+    header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    th { background: #f3f4f6; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { width: 320px; margin-left: auto; margin-top: 16px; }
+    .totals .grand td { font-weight: bold; border-top: 2px solid #222; }
+    .muted { color: #666; }
+    .draft { color: #b91c1c; font-weight: bold; letter-spacing: 2px; }
+    @media print { body { margin: 0; } @page { margin: 20mm; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <strong>${escapeHtml(issuer.name)}</strong><br />
+      ${issuer.address ? `${escapeHtml(issuer.address)}<br />` : ''}
+      ${issuer.vatNumber ? `TVA : ${escapeHtml(issuer.vatNumber)}` : ''}
+    </div>
+    <div class="num">
+      <h1>${isDraft ? 'BROUILLON' : 'FACTURE'}</h1>
+      N° ${escapeHtml(invoice.number)}<br />
+      ${isDraft ? '<span class="draft">NON DÉFINITIVE</span>' : `Émise le ${date(invoice.finalized_at || invoice.generated_at)}`}
+    </div>
+  </header>
+
+  <p>
+    <strong>Client :</strong> ${escapeHtml(invoice.company_name)}${invoice.company_siren ? ` (SIREN ${escapeHtml(invoice.company_siren)})` : ''}<br />
+    <strong>Période :</strong> du ${date(invoice.period_start)} au ${date(lastDay)}
+  </p>
+
+  <h2>Consommation par bot</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Bot</th><th>Offre</th><th class="num">Requêtes</th><th class="num">Tokens entrée</th>
+        <th class="num">Tokens sortie</th><th class="num">Inclus</th><th class="num">Dépassement</th>
+      </tr>
+    </thead>
+    <tbody>${usageRows || '<tr><td colspan="7" class="muted">Aucune consommation sur la période</td></tr>'}
+    </tbody>
+  </table>
+
+  <h2>Détail</h2>
+  <table>
+    <thead>
+      <tr><th>Désignation</th><th class="num">Quantité</th><th class="num">Prix unitaire HT</th><th class="num">Montant HT</th></tr>
+    </thead>
+    <tbody>${lineRows || '<tr><td colspan="4" class="muted">Aucune ligne facturable</td></tr>'}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Total HT</td><td class="num">${money(invoice.subtotal)}</td></tr>
+    <tr><td>TVA ${number(invoice.vat_percent)} %</td><td class="num">${money(invoice.vat_amount)}</td></tr>
+    <tr class="grand"><td>Total TTC</td><td class="num">${money(invoice.total)}</td></tr>
+  </table>
+</body>
+</html>`;
+}
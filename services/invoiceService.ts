@@ -0,0 +1,526 @@
+/**
+ * 🧾 SERVICE FACTURATION
+ * Relevé mensuel (UTC) par entreprise : abonnement de chaque licence non suspendue (prix de la version d'offre
+ * souscrite, au prorata des jours couverts),
+ * consommation par bot (openai_token_usage) et dépassement au-delà du quota de tokens de la licence,
+ * facturé au coût de la grille tarifaire (config.invoicing.priceTable) majoré de la marge.
+ * Un brouillon se régénère ; une facture finale est figée. Le numéro (PREFIXE-AAAA-00001) est attribué
+ * à la création du brouillon et ne change plus.
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { getCurrentBillingPeriod } from './tokenBudgetService';
+
+// 🎯 TYPES
+
+export type InvoiceStatus = 'draft' | 'final';
+export type InvoiceLineType = 'subscription' | 'overage_input' | 'overage_output';
+
+export interface TokenPrice {
+  input_per_1m: number;  // € HT par million de tokens d'entrée (coût, hors marge)
+  output_per_1m: number; // € HT par million de tokens de sortie (coût, hors marge)
+}
+
+export interface InvoiceBotUsage {
+  bot_name: string;
+  license_id: string | null;
+  plan: string | null;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  included_tokens: number | null; // quota mensuel de la licence, null = illimité
+  overage_tokens: number;
+}
+
+export interface InvoiceLine {
+  type: InvoiceLineType;
+  bot_name: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number; // € HT, marge incluse
+  amount: number;     // € HT
+}
+
+export interface Invoice {
+  id: string;
+  number: string;
+  company_id: string;
+  company_name: string;
+  company_siren: string | null;
+  period_key: string; // AAAA-MM
+  period_start: string;
+  period_end: string;
+  status: InvoiceStatus;
+  currency: string;
+  usage: InvoiceBotUsage[];
+  lines: InvoiceLine[];
+  price_table: Record<string, TokenPrice>; // grille appliquée (figée avec la facture)
+  margin_percent: number;
+  vat_percent: number;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  generated_at: string;
+  generated_by: string;
+  finalized_at: string | null;
+  finalized_by: string | null;
+  created_at: string;
+}
+
+export interface InvoiceFilters {
+  companyId?: string;
+  period?: string;
+  status?: InvoiceStatus;
+}
+
+export class InvoiceError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+const UNIQUE_VIOLATION = '23505';
+const NUMBER_ATTEMPTS = 3;
+const USAGE_PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 🧰 UTILITAIRES
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Mois de facturation AAAA-MM → bornes UTC [start, end[
+ */
+export function getInvoicePeriod(periodKey: string): { start: Date; end: Date } {
+  const [year, month] = periodKey.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 1))
+  };
+}
+
+/**
+ * Jours du mois couverts par la licence (jours entamés entre start_date et end_date)
+ */
+function coveredDays(license: any, start: Date, end: Date): number {
+  const from = Math.max(start.getTime(), new Date(license.start_date).getTime());
+  const to = Math.min(end.getTime(), new Date(license.end_date).getTime());
+  return Math.max(0, Math.ceil((to - from) / DAY_MS));
+}
+
+/**
+ * Quota de tokens inclus sur le mois : quota proratisé (changement d'offre) si la période
+ * de licence concernée chevauche le mois, sinon quota mensuel (null = illimité)
+ */
+function includedTokens(license: any, start: Date, end: Date): number | null {
+  if (license.prorated_max_tokens !== null && license.prorated_max_tokens !== undefined && license.prorated_until) {
+    const proratedUntil = new Date(license.prorated_until);
+    const proratedPeriod = getCurrentBillingPeriod(new Date(proratedUntil.getTime() - 1), license.start_date);
+    if (proratedPeriod.start < end && proratedUntil > start) {
+      return license.prorated_max_tokens;
+    }
+  }
+  return license.max_tokens_per_month ?? null;
+}
+
+function priceFor(priceTable: Record<string, TokenPrice>, botName: string): TokenPrice {
+  const price = priceTable[botName] || priceTable.default;
+  if (!price) {
+    throw new Error(`Grille tarifaire sans prix pour le bot ${botName} (ni default)`);
+  }
+  return price;
+}
+
+/**
+ * Prix de vente pour 1 000 tokens : coût de la grille majoré de la marge
+ */
+function salePricePer1k(costPer1m: number, marginPercent: number): number {
+  return parseFloat(((costPer1m / 1000) * (1 + marginPercent / 100)).toFixed(6));
+}
+
+function overageLine(type: InvoiceLineType, botName: string, tokens: number, costPer1m: number, marginPercent: number): InvoiceLine {
+  const quantity = parseFloat((tokens / 1000).toFixed(3));
+  const unitPrice = salePricePer1k(costPer1m, marginPercent);
+
+  return {
+    type,
+    bot_name: botName,
+    description: `Dépassement tokens ${type === 'overage_input' ? 'd\'entrée' : 'de sortie'} — ${botName}`,
+    quantity,
+    unit: '1k tokens',
+    unit_price: unitPrice,
+    amount: roundAmount(quantity * unitPrice)
+  };
+}
+
+// 📊 CALCUL DU RELEVÉ
+
+/**
+ * Consommation de l'entreprise sur la période (par pages : le relevé doit être exhaustif)
+ */
+async function loadTokenUsage(companyId: string, start: Date, end: Date): Promise<any[]> {
+  const rows: any[] = [];
+
+  for (let from = 0; ; from += USAGE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('openai_token_usage')
+      .select('bot_id, input_tokens, output_tokens, total_tokens')
+      .eq('company_id', companyId)
+      .gte('timestamp', start.toISOString())
+      .lt('timestamp', end.toISOString())
+      .order('timestamp', { ascending: true })
+      .range(from, from + USAGE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Lecture consommation impossible: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < USAGE_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Relevé de l'entreprise pour la période avec la grille tarifaire courante
+ */
+async function computeStatement(companyId: string, periodKey: string) {
+  const { start, end } = getInvoicePeriod(periodKey);
+  const { priceTable, marginPercent, vatPercent, currency } = config.invoicing;
+
+  const { data: company, error: companyError } = await supabase
+    .from('companies')
+    .select('id, name, siren')
+    .eq('id', companyId)
+    .maybeSingle();
+
+  if (companyError) {
+    throw new Error(`Lecture entreprise impossible: ${companyError.message}`);
+  }
+  if (!company) {
+    throw new InvoiceError('Entreprise non trouvée.', 404, 'COMPANY_NOT_FOUND');
+  }
+
+  // Licences couvrant au moins une partie du mois (plus récentes d'abord)
+  const { data: licenses, error: licensesError } = await supabase
+    .from('licenses')
+    .select('id, status, license_type, max_tokens_per_month, prorated_max_tokens, prorated_until, start_date, end_date, bots (name), license_plans (name, version, price_monthly)')
+    .eq('company_id', companyId)
+    .lt('start_date', end.toISOString())
+    .gt('end_date', start.toISOString())
+    .order('start_date', { ascending: false });
+
+  if (licensesError) {
+    throw new Error(`Lecture licences impossible: ${licensesError.message}`);
+  }
+
+  const usageRows = await loadTokenUsage(companyId, start, end);
+
+  // Consommation par bot (openai_token_usage.bot_id = nom du bot)
+  const usageByBot = new Map<string, InvoiceBotUsage>();
+  for (const row of usageRows) {
+    const botName = row.bot_id || 'inconnu';
+    let usage = usageByBot.get(botName);
+    if (!usage) {
+      const license = (licenses || []).find((l: any) => l.bots?.name === botName);
+      usage = {
+        bot_name: botName,
+        license_id: license?.id || null,
+        plan: license?.license_type || null,
+        requests: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        total_tokens: 0,
+        // Sans licence, rien n'est inclus : toute la consommation est facturée
+        included_tokens: license ? includedTokens(license, start, end) : 0,
+        overage_tokens: 0
+      };
+      usageByBot.set(botName, usage);
+    }
+    usage.requests += 1;
+    usage.input_tokens += row.input_tokens || 0;
+    usage.output_tokens += row.output_tokens || 0;
+    usage.total_tokens += row.total_tokens || 0;
+  }
+
+  const lines: InvoiceLine[] = [];
+
+  // 📦 Abonnements (prix de la version d'offre souscrite, au prorata des jours couverts ; licences suspendues non facturées)
+  const monthDays = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  for (const license of licenses || []) {
+    const botName = license.bots?.name || 'Unknown';
+    if (license.status === 'suspended') {
+      continue;
+    }
+    if (!license.license_plans) {
+      logger.warn('⚠️ Licence sans version d\'offre : abonnement non facturé', { licenseId: license.id, companyId, periodKey });
+      continue;
+    }
+    const days = Math.min(monthDays, coveredDays(license, start, end));
+    if (days === 0) {
+      continue;
+    }
+    const price = Number(license.license_plans.price_monthly) || 0;
+    const share = days / monthDays;
+    lines.push({
+      type: 'subscription',
+      bot_name: botName,
+      description: `Abonnement ${license.license_plans.name} (v${license.license_plans.version}) — ${botName}`
+        + (days < monthDays ? ` (${days}/${monthDays} jours)` : ''),
+      quantity: parseFloat(share.toFixed(4)),
+      unit: 'mois',
+      unit_price: price,
+      amount: roundAmount(price * share)
+    });
+  }
+
+  // 📈 Dépassements, répartis entrée / sortie au prorata de la consommation du mois
+  const usage = [...usageByBot.values()].sort((a, b) => a.bot_name.localeCompare(b.bot_name));
+  for (const botUsage of usage) {
+    if (botUsage.included_tokens === null || botUsage.total_tokens <= botUsage.included_tokens) {
+      continue;
+    }
+    botUsage.overage_tokens = botUsage.total_tokens - botUsage.included_tokens;
+
+    const price = priceFor(priceTable, botUsage.bot_name);
+    const ioTokens = botUsage.input_tokens + botUsage.output_tokens;
+    const overageInput = ioTokens > 0 ? Math.round(botUsage.overage_tokens * botUsage.input_tokens / ioTokens) : 0;
+    const overageOutput = botUsage.overage_tokens - overageInput;
+
+    if (overageInput > 0) {
+      lines.push(overageLine('overage_input', botUsage.bot_name, overageInput, price.input_per_1m, marginPercent));
+    }
+    if (overageOutput > 0) {
+      lines.push(overageLine('overage_output', botUsage.bot_name, overageOutput, price.output_per_1m, marginPercent));
+    }
+  }
+
+  const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+  const vatAmount = roundAmount(subtotal * vatPercent / 100);
+
+  return {
+    company_id: companyId,
+    company_name: company.name,
+    company_siren: company.siren || null,
+    period_key: periodKey,
+    period_start: start.toISOString(),
+    period_end: end.toISOString(),
+    currency,
+    usage,
+    lines,
+    price_table: priceTable,
+    margin_percent: marginPercent,
+    vat_percent: vatPercent,
+    subtotal,
+    vat_amount: vatAmount,
+    total: roundAmount(subtotal + vatAmount)
+  };
+}
+
+// 🔢 NUMÉROTATION
+
+/**
+ * Numéro suivant de l'année d'émission (PREFIXE-AAAA-00001)
+ */
+async function nextInvoiceNumber(): Promise<string> {
+  const prefix = `${config.invoicing.numberPrefix}-${new Date().getUTCFullYear()}-`;
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('number')
+    .like('number', `${prefix}%`)
+    .order('number', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Lecture numérotation impossible: ${error.message}`);
+  }
+
+  const last = data?.[0]?.number;
+  const sequence = last ? parseInt(last.slice(prefix.length), 10) + 1 : 1;
+  return `${prefix}${String(sequence).padStart(5, '0')}`;
+}
+
+async function findInvoice(companyId: string, periodKey: string): Promise<Invoice | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('company_id', companyId)
+    .eq('period_key', periodKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture facture impossible: ${error.message}`);
+  }
+  return data || null;
+}
+
+/**
+ * Création du brouillon ; unique (number) et unique (company_id, period_key) : on retente
+ * avec le numéro suivant si une autre facture a pris le même
+ */
+async function insertDraft(fields: Record<string, unknown>): Promise<Invoice> {
+  for (let attempt = 1; ; attempt++) {
+    const number = await nextInvoiceNumber();
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({ ...fields, number, status: 'draft' })
+      .select()
+      .single();
+
+    if (!error) {
+      return data;
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Création facture impossible: ${error.message}`);
+    }
+    if (await findInvoice(fields.company_id as string, fields.period_key as string)) {
+      throw new InvoiceError('Facture créée entre-temps pour cette période, veuillez réessayer.', 409, 'INVOICE_CONFLICT');
+    }
+    if (attempt >= NUMBER_ATTEMPTS) {
+      throw new Error('Attribution du numéro de facture impossible');
+    }
+  }
+}
+
+// 🧾 FACTURES
+
+/**
+ * Crée ou recalcule le brouillon de l'entreprise pour le mois (le numéro reste celui du premier brouillon)
+ */
+export async function generateInvoice(companyId: string, periodKey: string, generatedBy: string): Promise<Invoice> {
+  const existing = await findInvoice(companyId, periodKey);
+  if (existing?.status === 'final') {
+    throw new InvoiceError('La facture de cette période est finalisée et ne peut plus être recalculée.', 409, 'INVOICE_FINAL');
+  }
+
+  const statement = await computeStatement(companyId, periodKey);
+  const fields = {
+    ...statement,
+    generated_at: new Date().toISOString(),
+    generated_by: generatedBy
+  };
+
+  let invoice: Invoice;
+  if (existing) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .update(fields)
+      .eq('id', existing.id)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Mise à jour facture impossible: ${error.message}`);
+    }
+    if (!data) {
+      throw new InvoiceError('La facture a été finalisée entre-temps.', 409, 'INVOICE_FINAL');
+    }
+    invoice = data;
+  } else {
+    invoice = await insertDraft(fields);
+  }
+
+  logger.info('🧾 Brouillon de facture généré', {
+    invoiceId: invoice.id,
+    number: invoice.number,
+    companyId,
+    periodKey,
+    total: invoice.total,
+    generatedBy
+  });
+  return invoice;
+}
+
+/**
+ * Fige la facture : mois écoulé et brouillon calculé après la fin du mois
+ */
+export async function finalizeInvoice(invoiceId: string, finalizedBy: string): Promise<Invoice> {
+  const invoice = await getInvoice(invoiceId);
+  if (!invoice) {
+    throw new InvoiceError('Facture non trouvée.', 404, 'INVOICE_NOT_FOUND');
+  }
+  if (invoice.status === 'final') {
+    throw new InvoiceError('Facture déjà finalisée.', 409, 'INVOICE_FINAL');
+  }
+
+  const now = new Date();
+  if (new Date(invoice.period_end) > now) {
+    throw new InvoiceError('La période n\'est pas terminée : la facture ne peut pas encore être finalisée.', 409, 'PERIOD_NOT_CLOSED');
+  }
+  if (new Date(invoice.generated_at) < new Date(invoice.period_end)) {
+    throw new InvoiceError('Brouillon calculé avant la fin de la période : régénérez-le avant de le finaliser.', 409, 'DRAFT_OUTDATED');
+  }
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({ status: 'final', finalized_at: now.toISOString(), finalized_by: finalizedBy })
+    .eq('id', invoiceId)
+    .eq('status', 'draft')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Finalisation facture impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new InvoiceError('La facture a été modifiée entre-temps, veuillez réessayer.', 409, 'INVOICE_CONFLICT');
+  }
+
+  logger.info('🔒 Facture finalisée', { invoiceId, number: data.number, total: data.total, finalizedBy });
+  return data;
+}
+
+export async function getInvoice(invoiceId: string): Promise<Invoice | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture facture impossible: ${error.message}`);
+  }
+  return data || null;
+}
+
+/**
+ * Factures (plus récentes d'abord)
+ */
+export async function listInvoices(filters: InvoiceFilters = {}): Promise<Invoice[]> {
+  try {
+    let query = supabase
+      .from('invoices')
+      .select('*')
+      .order('period_key', { ascending: false })
+      .order('number', { ascending: false });
+
+    if (filters.companyId) {
+      query = query.eq('company_id', filters.companyId);
+    }
+    if (filters.period) {
+      query = query.eq('period_key', filters.period);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('❌ Erreur liste factures', { filters, error: error.message });
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste factures', { filters, error: (err as Error).message });
+    return [];
+  }
+}
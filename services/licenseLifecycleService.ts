@@ -0,0 +1,558 @@
+/**
+ * 🔁 SERVICE CYCLE DE VIE DES LICENCES
+ * Changement d'offre du catalogue (quotas proratisés sur la période en cours), renouvellement, suspension / réactivation,
+ * conversion d'essai, nombre de sièges, expiration automatique et préavis d'expiration aux administrateurs d'entreprise.
+ * Chaque opération est tracée dans license_events.
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { sendLicenseExpiryNoticeEmail } from '../utils/email';
+import { getCurrentBillingPeriod } from './tokenBudgetService';
+import {
+  LICENSE_FIELDS,
+  toCompanyLicense,
+  type CompanyLicense,
+  type LicenseStatus
+} from './licenseService';
+import { getAvailablePlan, getPlanVersion, isBotAllowedByPlan, planLicenseTerms, PlanError, type LicensePlan } from './planService';
+import { countUsedSeats } from './seatService';
+
+// 🎯 TYPES
+
+export type LicenseEventType =
+  | 'upgrade'
+  | 'downgrade'
+  | 'renewal'
+  | 'suspension'
+  | 'reactivation'
+  | 'trial_conversion'
+  | 'expiry'
+  | 'expiry_notice'
+  | 'seats_change';
+
+export interface LicenseEvent {
+  id: string;
+  license_id: string;
+  company_id: string;
+  event_type: LicenseEventType;
+  reason: string | null;
+  details: Record<string, unknown> | null;
+  performed_by: string | null; // null = tâche planifiée
+  created_at: string;
+}
+
+export interface LicenseLifecycleSummary {
+  expired: number;
+  notices_sent: number;
+  notices_skipped: number; // entreprise sans destinataire
+  failed: { license_id: string; error: string }[];
+}
+
+export class LicenseLifecycleError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'LicenseLifecycleError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 🧰 UTILITAIRES
+
+async function loadLicense(licenseId: string): Promise<CompanyLicense> {
+  const { data, error } = await supabase
+    .from('licenses')
+    .select(LICENSE_FIELDS)
+    .eq('id', licenseId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture licence impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new LicenseLifecycleError('Licence non trouvée.', 404, 'LICENSE_NOT_FOUND');
+  }
+  return toCompanyLicense(data);
+}
+
+/**
+ * Mise à jour conditionnée au statut attendu (deux opérations concurrentes : une seule passe)
+ */
+async function updateLicense(
+  license: CompanyLicense,
+  expectedStatus: LicenseStatus,
+  changes: Record<string, unknown>
+): Promise<CompanyLicense> {
+  const { data, error } = await supabase
+    .from('licenses')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', license.id)
+    .eq('status', expectedStatus)
+    .select(LICENSE_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Mise à jour licence impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new LicenseLifecycleError('La licence a été modifiée entre-temps, veuillez réessayer.', 409, 'LICENSE_CONFLICT');
+  }
+  return toCompanyLicense(data);
+}
+
+async function recordEvent(
+  license: CompanyLicense,
+  eventType: LicenseEventType,
+  performedBy: string | null,
+  reason: string | null = null,
+  details: Record<string, unknown> | null = null
+): Promise<void> {
+  const { error } = await supabase
+    .from('license_events')
+    .insert({
+      license_id: license.id,
+      company_id: license.company_id,
+      event_type: eventType,
+      reason,
+      details,
+      performed_by: performedBy
+    });
+
+  if (error) {
+    logger.error('❌ Erreur journal licence', { licenseId: license.id, eventType, error: error.message });
+  }
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function assertActive(license: CompanyLicense): void {
+  if (license.status === 'suspended') {
+    throw new LicenseLifecycleError('Licence suspendue : réactivez-la d\'abord.', 409, 'LICENSE_SUSPENDED');
+  }
+  if (!license.is_valid) {
+    throw new LicenseLifecycleError('Licence expirée : renouvelez-la d\'abord.', 409, 'LICENSE_EXPIRED');
+  }
+}
+
+// 📈 CHANGEMENT D'OFFRE
+
+/**
+ * Version courante d'une offre pour la licence (proposée, hors essai, bot inclus)
+ */
+async function loadTargetPlan(license: CompanyLicense, planCode: string): Promise<LicensePlan> {
+  let plan: LicensePlan;
+  try {
+    plan = await getAvailablePlan(planCode);
+  } catch (err) {
+    if (err instanceof PlanError) {
+      throw new LicenseLifecycleError(err.message, err.status, err.code);
+    }
+    throw err;
+  }
+
+  if (plan.is_trial) {
+    throw new LicenseLifecycleError('Une licence ne peut pas repasser sur une offre d\'essai.', 400, 'TRIAL_PLAN_NOT_ALLOWED');
+  }
+  if (!isBotAllowedByPlan(plan, license.bot_id)) {
+    throw new LicenseLifecycleError(`Le bot ${license.bot_name} n'est pas inclus dans l'offre ${plan.name}.`, 400, 'PLAN_BOT_NOT_ALLOWED');
+  }
+  return plan;
+}
+
+/**
+ * Version d'offre souscrite (null : licence antérieure au catalogue)
+ */
+async function loadLicensePlan(license: CompanyLicense): Promise<LicensePlan | null> {
+  return license.plan_id ? getPlanVersion(license.plan_id) : null;
+}
+
+async function isTrialLicense(license: CompanyLicense): Promise<boolean> {
+  const plan = await loadLicensePlan(license);
+  return plan ? plan.is_trial : license.license_type === 'trial';
+}
+
+function prorate(previous: number | null, next: number | null, elapsed: number): number | null {
+  if (previous === null || next === null) {
+    return null; // passage depuis / vers illimité : le nouveau quota s'applique
+  }
+  return Math.round(previous * elapsed + next * (1 - elapsed));
+}
+
+/**
+ * Changement d'offre payante (montée ou descente). Nouveaux quotas dès la prochaine période ; pour la
+ * période en cours, quotas proratisés : ancien quota sur la part écoulée + nouveau sur la part restante.
+ */
+export async function changeLicensePlan(
+  licenseId: string,
+  planCode: string,
+  performedBy: string,
+  reason: string | null = null
+): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+  assertActive(license);
+
+  if (await isTrialLicense(license)) {
+    throw new LicenseLifecycleError('Licence d\'essai : utilisez la conversion.', 409, 'TRIAL_CONVERSION_REQUIRED');
+  }
+
+  const [plan, previousPlan] = await Promise.all([loadTargetPlan(license, planCode), loadLicensePlan(license)]);
+  if (license.plan_id === plan.id) {
+    throw new LicenseLifecycleError('La licence est déjà sur cette version de l\'offre.', 409, 'SAME_PLAN');
+  }
+
+  const now = new Date();
+  const period = getCurrentBillingPeriod(now, license.start_date);
+  const elapsed = (now.getTime() - period.start.getTime()) / (period.end.getTime() - period.start.getTime());
+  const proratedMaxRequests = prorate(license.max_requests_per_month, plan.max_requests_per_month, elapsed);
+  const proratedMaxTokens = prorate(license.max_tokens_per_month, plan.max_tokens_per_month, elapsed);
+
+  const updated = await updateLicense(license, 'active', {
+    ...planLicenseTerms(plan),
+    prorated_max_requests: proratedMaxRequests,
+    prorated_max_tokens: proratedMaxTokens,
+    prorated_until: period.end.toISOString()
+  });
+
+  const isUpgrade = previousPlan
+    ? plan.price_monthly > previousPlan.price_monthly
+    : plan.max_requests_per_month > license.max_requests_per_month;
+  await recordEvent(updated, isUpgrade ? 'upgrade' : 'downgrade', performedBy, reason, {
+    from: { plan_id: license.plan_id, code: license.license_type, version: license.plan_version },
+    to: { plan_id: plan.id, code: plan.code, version: plan.version },
+    prorated_max_requests: proratedMaxRequests,
+    prorated_max_tokens: proratedMaxTokens,
+    prorated_until: period.end.toISOString()
+  });
+
+  logger.info('📈 Offre de licence modifiée', { licenseId, from: license.license_type, to: plan.code, version: plan.version, performedBy });
+  return updated;
+}
+
+/**
+ * Conversion d'une licence d'essai (même expirée) en offre payante : nouvelle période de validité complète
+ */
+export async function convertTrialLicense(
+  licenseId: string,
+  planCode: string,
+  performedBy: string
+): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+
+  if (!(await isTrialLicense(license))) {
+    throw new LicenseLifecycleError('Seule une licence d\'essai peut être convertie.', 409, 'NOT_TRIAL');
+  }
+  if (license.status === 'suspended') {
+    throw new LicenseLifecycleError('Licence suspendue : réactivez-la d\'abord.', 409, 'LICENSE_SUSPENDED');
+  }
+
+  const plan = await loadTargetPlan(license, planCode);
+  const now = new Date();
+  const updated = await updateLicense(license, license.status as LicenseStatus, {
+    status: 'active',
+    ...planLicenseTerms(plan),
+    prorated_max_requests: null,
+    prorated_max_tokens: null,
+    prorated_until: null,
+    start_date: now.toISOString(), // la facturation démarre à la conversion
+    end_date: addMonths(now, plan.validity_months).toISOString()
+  });
+
+  await recordEvent(updated, 'trial_conversion', performedBy, null, {
+    to: { plan_id: plan.id, code: plan.code, version: plan.version },
+    previous_end_date: license.end_date,
+    end_date: updated.end_date
+  });
+
+  logger.info('🎓 Licence d\'essai convertie', { licenseId, planCode: plan.code, version: plan.version, performedBy });
+  return updated;
+}
+
+// 🔄 RENOUVELLEMENT
+
+/**
+ * Prolonge end_date (depuis l'échéance actuelle, ou depuis aujourd'hui si déjà expirée),
+ * par défaut de la durée de validité de la version d'offre souscrite
+ */
+export async function renewLicense(licenseId: string, performedBy: string, months?: number): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+
+  if (license.status === 'suspended') {
+    throw new LicenseLifecycleError('Licence suspendue : réactivez-la d\'abord.', 409, 'LICENSE_SUSPENDED');
+  }
+
+  const now = new Date();
+  const currentEnd = new Date(license.end_date);
+  const extension = months || (await loadLicensePlan(license))?.validity_months || 12;
+  const endDate = addMonths(currentEnd > now ? currentEnd : now, extension);
+
+  const updated = await updateLicense(license, license.status as LicenseStatus, {
+    status: 'active',
+    end_date: endDate.toISOString()
+  });
+
+  await recordEvent(updated, 'renewal', performedBy, null, {
+    months: extension,
+    previous_end_date: license.end_date,
+    end_date: updated.end_date,
+    was_expired: !license.is_valid
+  });
+
+  logger.info('🔄 Licence renouvelée', { licenseId, months: extension, endDate: updated.end_date, performedBy });
+  return updated;
+}
+
+// ⏸️ SUSPENSION
+
+export async function suspendLicense(licenseId: string, reason: string, performedBy: string): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+
+  if (license.status !== 'active') {
+    throw new LicenseLifecycleError('Seule une licence active peut être suspendue.', 409, 'LICENSE_NOT_ACTIVE');
+  }
+
+  const updated = await updateLicense(license, 'active', {
+    status: 'suspended',
+    suspension_reason: reason,
+    suspended_at: new Date().toISOString(),
+    suspended_by: performedBy
+  });
+
+  await recordEvent(updated, 'suspension', performedBy, reason);
+  logger.warn('⏸️ Licence suspendue', { licenseId, reason, performedBy });
+  return updated;
+}
+
+/**
+ * Levée de suspension : active, ou expirée si l'échéance est passée pendant la suspension
+ */
+export async function reactivateLicense(licenseId: string, reason: string, performedBy: string): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+
+  if (license.status !== 'suspended') {
+    throw new LicenseLifecycleError('Cette licence n\'est pas suspendue.', 409, 'LICENSE_NOT_SUSPENDED');
+  }
+
+  const status: LicenseStatus = new Date(license.end_date) > new Date() ? 'active' : 'expired';
+  const updated = await updateLicense(license, 'suspended', {
+    status,
+    suspension_reason: null,
+    suspended_at: null,
+    suspended_by: null
+  });
+
+  await recordEvent(updated, 'reactivation', performedBy, reason, { status });
+  logger.info('▶️ Licence réactivée', { licenseId, status, performedBy });
+  return updated;
+}
+
+// 💺 SIÈGES
+
+/**
+ * Nombre de sièges de la licence (null = illimité), jamais sous le nombre de sièges occupés
+ */
+export async function setLicenseSeats(licenseId: string, maxSeats: number | null, reason: string, performedBy: string): Promise<CompanyLicense> {
+  const license = await loadLicense(licenseId);
+
+  if (maxSeats === license.max_seats) {
+    throw new LicenseLifecycleError('La licence a déjà ce nombre de sièges.', 409, 'SAME_SEATS');
+  }
+
+  const usedSeats = await countUsedSeats(licenseId);
+  if (maxSeats !== null && maxSeats < usedSeats) {
+    throw new LicenseLifecycleError(
+      `${usedSeats} sièges sont occupés : libérez-en avant de réduire le nombre de sièges.`,
+      409,
+      'SEATS_BELOW_USAGE'
+    );
+  }
+
+  const updated = await updateLicense(license, license.status as LicenseStatus, { max_seats: maxSeats });
+
+  await recordEvent(updated, 'seats_change', performedBy, reason, {
+    previous_max_seats: license.max_seats,
+    max_seats: maxSeats,
+    used_seats: usedSeats
+  });
+  logger.info('💺 Sièges de la licence modifiés', { licenseId, from: license.max_seats, to: maxSeats, performedBy });
+  return updated;
+}
+
+// 📜 HISTORIQUE
+
+export async function listLicenseEvents(licenseId: string): Promise<LicenseEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('license_events')
+      .select('*')
+      .eq('license_id', licenseId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Erreur journal licence', { licenseId, error: error.message });
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception journal licence', { licenseId, error: (err as Error).message });
+    return [];
+  }
+}
+
+// ⏰ TÂCHE PLANIFIÉE
+
+/**
+ * Passe en expired les licences actives échues (une seule transition par licence)
+ */
+async function expireLicenses(now: Date, summary: LicenseLifecycleSummary): Promise<void> {
+  const { data, error } = await supabase
+    .from('licenses')
+    .update({ status: 'expired', updated_at: now.toISOString() })
+    .eq('status', 'active')
+    .lte('end_date', now.toISOString())
+    .select(LICENSE_FIELDS);
+
+  if (error) {
+    throw new Error(`Expiration licences impossible: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    const license = toCompanyLicense(row);
+    summary.expired++;
+    await recordEvent(license, 'expiry', null, null, { end_date: license.end_date });
+    logger.info('⌛ Licence expirée', { licenseId: license.id, companyId: license.company_id, endDate: license.end_date });
+  }
+}
+
+async function releaseExpiryNotice(notice: { license_id: string; end_date: string; days_before: number }): Promise<void> {
+  const { error } = await supabase
+    .from('license_expiry_notices')
+    .delete()
+    .eq('license_id', notice.license_id)
+    .eq('end_date', notice.end_date)
+    .eq('days_before', notice.days_before);
+
+  if (error) {
+    logger.error('❌ Erreur annulation préavis d\'expiration', { licenseId: notice.license_id, error: error.message });
+  }
+}
+
+/**
+ * Destinataires d'un préavis : administrateurs de l'entreprise, à défaut ses utilisateurs actifs
+ * (entreprises antérieures au rôle company_admin)
+ */
+async function loadNoticeRecipients(companyId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('email, role, status')
+    .eq('company_id', companyId)
+    .in('role', ['company_admin', 'user']);
+
+  if (error) {
+    throw new Error(`Lecture destinataires impossible: ${error.message}`);
+  }
+
+  const contacts = (data || []).filter((user: any) => user.email && (!user.status || user.status === 'active'));
+  const admins = contacts.filter((user: any) => user.role === 'company_admin');
+  return (admins.length > 0 ? admins : contacts).map((user: any) => user.email);
+}
+
+/**
+ * Préavis d'expiration : le plus proche des seuils atteints, une fois par seuil et par échéance
+ * (un renouvellement change end_date, les préavis repartent de zéro)
+ */
+async function sendExpiryNotices(now: Date, summary: LicenseLifecycleSummary): Promise<void> {
+  const thresholds = [...config.licenses.expiryNoticeDays].sort((a, b) => a - b);
+  if (thresholds.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('licenses')
+    .select(`${LICENSE_FIELDS}, companies(name)`)
+    .eq('status', 'active')
+    .gt('end_date', now.toISOString())
+    .lte('end_date', new Date(now.getTime() + thresholds[thresholds.length - 1] * DAY_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Lecture licences à échéance impossible: ${error.message}`);
+  }
+  if (!data?.length) return;
+
+  const { data: sentNotices, error: sentError } = await supabase
+    .from('license_expiry_notices')
+    .select('license_id, end_date, days_before')
+    .in('license_id', data.map((row: any) => row.id));
+
+  if (sentError) {
+    throw new Error(`Lecture préavis envoyés impossible: ${sentError.message}`);
+  }
+
+  const noticeKey = (licenseId: string, endDate: string, days: number) => `${licenseId}:${new Date(endDate).getTime()}:${days}`;
+  const alreadySent = new Set((sentNotices || []).map((notice: any) => noticeKey(notice.license_id, notice.end_date, notice.days_before)));
+
+  for (const row of data) {
+    const license = toCompanyLicense(row);
+    const daysLeft = Math.ceil((new Date(license.end_date).getTime() - now.getTime()) / DAY_MS);
+    const threshold = thresholds.find(days => daysLeft <= days)!;
+
+    if (alreadySent.has(noticeKey(license.id, license.end_date, threshold))) {
+      continue;
+    }
+
+    const notice = { license_id: license.id, end_date: license.end_date, days_before: threshold };
+    let reserved = false;
+    try {
+      // L'insertion réserve le préavis (unique license_id + end_date + days_before)
+      const { error: noticeError } = await supabase
+        .from('license_expiry_notices')
+        .insert(notice);
+
+      if (noticeError) {
+        if (noticeError.code === '23505') continue;
+        throw new Error(noticeError.message);
+      }
+      reserved = true;
+
+      const recipients = await loadNoticeRecipients(license.company_id);
+      if (recipients.length === 0) {
+        // Personne à prévenir : préavis marqué comme traité, sans nouvelle tentative
+        summary.notices_skipped++;
+        await recordEvent(license, 'expiry_notice', null, null, { days_before: threshold, days_left: daysLeft, recipients: 0, skipped: true });
+        logger.warn('⚠️ Préavis d\'expiration sans destinataire', { licenseId: license.id, companyId: license.company_id });
+        continue;
+      }
+
+      const details = { companyName: row.companies?.name || null, botName: license.bot_name, endDate: license.end_date, daysLeft };
+      const results = await Promise.allSettled(recipients.map(email =>
+        sendLicenseExpiryNoticeEmail(email, details)
+      ));
+      const sent = results.filter(result => result.status === 'fulfilled').length;
+
+      if (sent === 0) {
+        throw new Error('Aucun e-mail de préavis envoyé');
+      }
+
+      summary.notices_sent++;
+      await recordEvent(license, 'expiry_notice', null, null, { days_before: threshold, days_left: daysLeft, recipients: sent });
+    } catch (err) {
+      logger.error('❌ Échec préavis d\'expiration', { licenseId: license.id, error: (err as Error).message });
+      summary.failed.push({ license_id: license.id, error: (err as Error).message });
+
+      // Réservation annulée : le préavis sera retenté au prochain passage
+      if (reserved) {
+        await releaseExpiryNotice(notice);
+      }
+    }
+  }
+}
+
+export async function runLicenseLifecycle(now: Date = new Date()): Promise<LicenseLifecycleSummary> {
+  const summary: LicenseLifecycleSummary = { expired: 0, notices_sent: 0, notices_skipped: 0, failed: [] };
+  await expireLicenses(now, summary);
+  await sendExpiryNotices(now, summary);
+  return summary;
+}
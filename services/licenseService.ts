@@ -3,9 +3,14 @@ const { supabase } = require('../utils/supabase');
 
 import config from '../utils/config';
 import logger from '../utils/logger';
+import { getAvailablePlan, isBotAllowedByPlan, planLicenseTerms, PlanError } from './planService';
+import { claimSeat, SeatError } from './seatService';
 
 
 
+// active → suspended (manuel) / expired (end_date dépassée, tâche license_lifecycle)
+export type LicenseStatus = 'active' | 'suspended' | 'expired';
+
 export interface CompanyLicense {
   id: string;
   readable_id: string;
@@ -13,13 +18,83 @@ export interface CompanyLicense {
   bot_id: string;
   bot_name: string;
   status: string;
-  license_type: string;
+  license_type: string;                 // code de l'offre (license_plans.code)
+  plan_id: string | null;               // version d'offre souscrite (null : licence antérieure au catalogue)
+  plan_version: number | null;
   max_requests_per_month: number;
+  max_tokens_per_month: number | null;
+  max_seats: number | null;
+  prorated_max_requests: number | null; // quotas de la période en cours après changement d'offre
+  prorated_max_tokens: number | null;
+  prorated_until: string | null;
+  suspension_reason: string | null;
   start_date: string;
   end_date: string;
   is_valid: boolean;
 }
 
+export const LICENSE_FIELDS = `
+  id,
+  company_id,
+  bot_id,
+  status,
+  license_type,
+  plan_id,
+  max_requests_per_month,
+  max_tokens_per_month,
+  max_seats,
+  prorated_max_requests,
+  prorated_max_tokens,
+  prorated_until,
+  suspension_reason,
+  start_date,
+  end_date,
+  bots (
+    id,
+    name
+  ),
+  license_plans (
+    version
+  )
+`;
+
+/**
+ * Ligne licences (avec bots) → CompanyLicense
+ */
+export function toCompanyLicense(data: any): CompanyLicense {
+  return {
+    id: data.id,
+    readable_id: data.id, // Utiliser l'ID comme readable_id
+    company_id: data.company_id,
+    bot_id: data.bot_id,
+    bot_name: data.bots?.name || 'Unknown',
+    status: data.status,
+    license_type: data.license_type || 'standard',
+    plan_id: data.plan_id ?? null,
+    plan_version: data.license_plans?.version ?? null,
+    max_requests_per_month: data.max_requests_per_month,
+    max_tokens_per_month: data.max_tokens_per_month ?? null,
+    max_seats: data.max_seats ?? null,
+    prorated_max_requests: data.prorated_max_requests ?? null,
+    prorated_max_tokens: data.prorated_max_tokens ?? null,
+    prorated_until: data.prorated_until ?? null,
+    suspension_reason: data.suspension_reason ?? null,
+    start_date: data.start_date,
+    end_date: data.end_date,
+    is_valid: data.status === 'active' && new Date(data.end_date) > new Date()
+  };
+}
+
+/**
+ * Quota de requêtes applicable maintenant (prorata de la période en cours après changement d'offre)
+ */
+export function getEffectiveMaxRequests(license: CompanyLicense, now: Date = new Date()): number {
+  if (license.prorated_max_requests !== null && license.prorated_until && new Date(license.prorated_until) > now) {
+    return license.prorated_max_requests;
+  }
+  return license.max_requests_per_month;
+}
+
 /**
  * 🏢 Vérifier si une licence existe déjà pour une entreprise + bot
  */
@@ -28,29 +103,17 @@ export async function findCompanyLicense(
   botId: string
 ): Promise<CompanyLicense | null> {
   try {
+    // Plus récente en cas d'anciennes licences conservées pour l'historique
     const { data, error } = await supabase
       .from('licenses')
-      .select(`
-        id,
-        company_id,
-        bot_id,
-        status,
-        max_requests_per_month,
-        start_date,
-        end_date,
-        bots (
-          id,
-          name
-        )
-      `)
+      .select(LICENSE_FIELDS)
       .eq('company_id', companyId)
       .eq('bot_id', botId)
-      .single();
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (error) {
-      if (error.code === 'PGRST116') {
-        return null;
-      }
       logger.error('❌ Erreur recherche licence entreprise', {
         error: error.message,
         companyId,
@@ -61,19 +124,7 @@ export async function findCompanyLicense(
 
     if (!data) return null;
 
-    const license: CompanyLicense = {
-      id: data.id,
-      readable_id: data.id, // Utiliser l'ID comme readable_id
-      company_id: data.company_id,
-      bot_id: data.bot_id,
-      bot_name: data.bots?.name || 'Unknown',
-      status: data.status,
-      license_type: 'standard', // Valeur par défaut
-      max_requests_per_month: data.max_requests_per_month,
-      start_date: data.start_date,
-      end_date: data.end_date,
-      is_valid: data.status === 'active' && new Date(data.end_date) > new Date()
-    };
+    const license = toCompanyLicense(data);
 
     logger.info('✅ Licence entreprise trouvée', {
       licenseId: license.id,
@@ -95,12 +146,12 @@ export async function findCompanyLicense(
 }
 
 /**
- * 🎫 Créer une nouvelle licence pour une entreprise + bot
+ * 🎫 Créer une nouvelle licence pour une entreprise + bot, aux conditions de la version courante de l'offre
  */
 export async function createCompanyLicense(
   companyId: string,
   botId: string,
-  licenseType: 'trial' | 'standard' | 'premium' = 'standard'
+  licenseType: string = 'standard'
 ): Promise<CompanyLicense | null> {
   try {
     logger.info('🏭 Création nouvelle licence entreprise', {
@@ -109,14 +160,23 @@ export async function createCompanyLicense(
       licenseType
     });
 
+    const plan = await getAvailablePlan(licenseType);
+    if (!isBotAllowedByPlan(plan, botId)) {
+      logger.warn('⛔ Bot non inclus dans l\'offre', { companyId, botId, planCode: plan.code, planVersion: plan.version });
+      return null;
+    }
+
+    const endDate = new Date();
+    endDate.setMonth(endDate.getMonth() + plan.validity_months);
+
     // Données à insérer (colonnes qui existent vraiment)
     const newLicenseData = {
       company_id: companyId,
       bot_id: botId,
       status: 'active',
-      max_requests_per_month: licenseType === 'trial' ? 100 : licenseType === 'premium' ? 2000 : 500,
+      ...planLicenseTerms(plan),
       start_date: new Date().toISOString(),
-      end_date: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(), // +1 an
+      end_date: endDate.toISOString(),
       created_at: new Date().toISOString()
     };
 
@@ -124,19 +184,7 @@ export async function createCompanyLicense(
     const { data, error } = await supabase
       .from('licenses')
       .insert(newLicenseData)
-      .select(`
-        id,
-        company_id,
-        bot_id,
-        status,
-        max_requests_per_month,
-        start_date,
-        end_date,
-        bots (
-          id,
-          name
-        )
-      `)
+      .select(LICENSE_FIELDS)
       .single();
 
     if (error) {
@@ -148,19 +196,7 @@ export async function createCompanyLicense(
       return null;
     }
 
-    const createdLicense: CompanyLicense = {
-      id: data.id,
-      readable_id: data.id,
-      company_id: data.company_id,
-      bot_id: data.bot_id,
-      bot_name: data.bots?.name || 'Unknown',
-      status: data.status,
-      license_type: licenseType,
-      max_requests_per_month: data.max_requests_per_month,
-      start_date: data.start_date,
-      end_date: data.end_date,
-      is_valid: true
-    };
+    const createdLicense = toCompanyLicense(data);
 
     logger.info('✅ Licence entreprise créée avec succès', {
       licenseId: createdLicense.id,
@@ -172,6 +208,10 @@ export async function createCompanyLicense(
     return createdLicense;
 
   } catch (err) {
+    if (err instanceof PlanError) {
+      logger.warn('⛔ Offre indisponible pour la licence', { companyId, botId, licenseType, code: err.code });
+      return null;
+    }
     logger.error('❌ Exception création licence entreprise', {
       error: (err as Error).message,
       companyId,
@@ -183,11 +223,12 @@ export async function createCompanyLicense(
 
 /**
  * 🎯 Obtenir ou créer une licence pour une entreprise + bot
+ * Licence expirée ou suspendue : pas de nouvelle licence (renouvellement / réactivation explicites)
  */
 export async function getOrCreateCompanyLicense(
   companyId: string,
   botId: string,
-  licenseType: 'trial' | 'standard' | 'premium' = 'standard'
+  licenseType: string = 'standard'
 ): Promise<CompanyLicense | null> {
   try {
     // 1. Chercher licence existante
@@ -201,12 +242,20 @@ export async function getOrCreateCompanyLicense(
       return license;
     }
 
-    // 3. Si pas trouvée ou expirée, en créer une nouvelle
+    if (license) {
+      logger.warn('⛔ Licence entreprise non valide, renouvellement ou réactivation requis', {
+        licenseId: license.id,
+        companyId,
+        botId,
+        status: license.status
+      });
+      return null;
+    }
+
+    // 3. Si pas trouvée, en créer une nouvelle
     logger.info('🆕 Création nouvelle licence requise', {
       companyId,
-      botId,
-      existingLicense: !!license,
-      isValid: license?.is_valid || false
+      botId
     });
 
     license = await createCompanyLicense(companyId, botId, licenseType);
@@ -283,6 +332,30 @@ export async function assignLicenseToUser(
   }
 }
 
+/**
+ * 🤖 Donner accès au bot d'une licence entreprise (attribution licence + accès bot actif)
+ * false si plus aucun siège n'est libre sur la licence
+ */
+export async function grantBotAccess(userId: string, licenseId: string): Promise<boolean> {
+  const assigned = await assignLicenseToUser(userId, licenseId);
+  if (!assigned) {
+    return false;
+  }
+
+  try {
+    await claimSeat(licenseId, userId);
+  } catch (err) {
+    if (err instanceof SeatError) {
+      logger.warn('💺 Accès bot non attribué', { userId, licenseId, code: err.code, ...err.details });
+    } else {
+      logger.error('❌ Erreur attribution accès bot', { error: (err as Error).message, userId, licenseId });
+    }
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * 📊 Récupérer toutes les licences d'une entreprise
  */
@@ -292,19 +365,7 @@ export async function getCompanyLicenses(companyId: string): Promise<CompanyLice
     
     const { data, error } = await supabase
       .from('licenses')
-      .select(`
-        id,
-        company_id,
-        bot_id,
-        status,
-        max_requests_per_month,
-        start_date,
-        end_date,
-        bots (
-          id,
-          name
-        )
-      `)
+      .select(LICENSE_FIELDS)
       .eq('company_id', companyId)
       .order('created_at', { ascending: false });
 
@@ -319,19 +380,7 @@ export async function getCompanyLicenses(companyId: string): Promise<CompanyLice
 
     console.log('✅ Licences trouvées:', data);
 
-    const licenses: CompanyLicense[] = (data || []).map(item => ({
-      id: item.id,
-      readable_id: item.id,
-      company_id: item.company_id,
-      bot_id: item.bot_id,
-      bot_name: item.bots?.name || 'Unknown',
-      status: item.status,
-      license_type: 'standard',
-      max_requests_per_month: item.max_requests_per_month,
-      start_date: item.start_date,
-      end_date: item.end_date,
-      is_valid: item.status === 'active' && new Date(item.end_date) > new Date()
-    }));
+    const licenses: CompanyLicense[] = (data || []).map(toCompanyLicense);
 
     logger.info('✅ Licences entreprise récupérées', {
       companyId,
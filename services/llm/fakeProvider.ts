@@ -0,0 +1,306 @@
+/**
+ * 🧪 FOURNISSEUR LLM - FAKE LOCAL DÉTERMINISTE
+ * Aucun appel réseau : threads en mémoire, réponses calculées depuis la question.
+ * Permet de faire tourner tout le backend hors ligne (tests, démo, CI).
+ */
+
+import type {
+  LLMProvider,
+  LLMRun,
+  LLMMessage,
+  LLMFileSearchResult,
+  LLMFileInfo,
+  LLMRunParams,
+  LLMRunStream,
+  LLMToolOutput,
+  LLMChatParams,
+  LLMChatResult,
+  LLMAssistantInfo,
+  LLMUsage
+} from './types';
+
+interface FakeThread {
+  messages: LLMMessage[];
+  runs: Map<string, LLMRun>;
+}
+
+// Chaque réponse cite un document simulé de la base de l'assistant
+const FAKE_CITATION_MARKER = '【0:0†source】';
+
+// Question contenant "#outil:<nom> {json}" → run en requires_action (test des outils serveur)
+// (guillemets éventuellement échappés par le middleware sanitize)
+const FAKE_TOOL_REGEX = /#outil:([a-z_]+)\s*(\{.*\})?/;
+
+/**
+ * Estimation grossière des tokens (≈ 4 caractères par token)
+ */
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildUsage(prompt: string, completion: string): LLMUsage {
+  const prompt_tokens = countTokens(prompt);
+  const completion_tokens = countTokens(completion);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+function fakeFileId(assistantId: string): string {
+  return `file-fake-${assistantId}`;
+}
+
+/**
+ * Réponse déterministe : même assistant + même question = même réponse
+ */
+export function buildFakeAnswer(assistantId: string, question: string): string {
+  return `[${assistantId}] Réponse simulée à : "${question}"`;
+}
+
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  private threads = new Map<string, FakeThread>();
+  private files = new Map<string, LLMFileInfo>();
+  private sequence = 0;
+
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `${prefix}_fake${String(this.sequence).padStart(6, '0')}`;
+  }
+
+  private getThread(threadId: string): FakeThread {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Thread ${threadId} introuvable (fake)`);
+    }
+    return thread;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Exécute un run de façon synchrone : ajoute la réponse au thread
+   */
+  private executeRun(threadId: string, params: LLMRunParams): { run: LLMRun; answer: string } {
+    const thread = this.getThread(threadId);
+    const lastUserMessage = [...thread.messages].reverse().find(m => m.role === 'user');
+    const question = lastUserMessage?.text || '';
+
+    const toolRequest = question.match(FAKE_TOOL_REGEX);
+    if (toolRequest) {
+      const run: LLMRun = {
+        id: this.nextId('run'),
+        thread_id: threadId,
+        status: 'requires_action',
+        usage: buildUsage(question, ''),
+        last_error: null,
+        required_tool_calls: [{ id: this.nextId('call'), name: toolRequest[1], arguments: (toolRequest[2] || '{}').replace(/&quot;/g, '"') }]
+      };
+      thread.runs.set(run.id, run);
+      return { run, answer: '' };
+    }
+    const reply = buildFakeAnswer(params.assistantId, question);
+    const answer = `${reply}${FAKE_CITATION_MARKER}`;
+
+    thread.messages.push({
+      id: this.nextId('msg'),
+      role: 'assistant',
+      text: answer,
+      annotations: [{
+        text: FAKE_CITATION_MARKER,
+        file_id: fakeFileId(params.assistantId),
+        start_index: reply.length,
+        end_index: answer.length
+      }],
+      created_at: this.now()
+    });
+
+    const run: LLMRun = {
+      id: this.nextId('run'),
+      thread_id: threadId,
+      status: 'completed',
+      usage: buildUsage(question, answer),
+      last_error: null
+    };
+    thread.runs.set(run.id, run);
+
+    return { run, answer };
+  }
+
+  async createThread(): Promise<{ id: string }> {
+    const id = this.nextId('thread');
+    this.threads.set(id, { messages: [], runs: new Map() });
+    return { id };
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.threads.delete(threadId);
+  }
+
+  async addMessage(threadId: string, content: string, attachmentFileIds: string[] = []): Promise<{ id: string }> {
+    const thread = this.getThread(threadId);
+    const unknownFile = attachmentFileIds.find(fileId => !this.files.has(fileId));
+    if (unknownFile) {
+      throw new Error(`Fichier ${unknownFile} introuvable (fake)`);
+    }
+    const id = this.nextId('msg');
+    thread.messages.push({ id, role: 'user', text: content, annotations: [], created_at: this.now() });
+    return { id };
+  }
+
+  async listMessages(
+    threadId: string,
+    options: { order?: 'asc' | 'desc'; limit?: number } = {}
+  ): Promise<LLMMessage[]> {
+    const messages = [...this.getThread(threadId).messages];
+    if ((options.order ?? 'desc') === 'desc') {
+      messages.reverse();
+    }
+    return messages.slice(0, options.limit ?? 100);
+  }
+
+  /**
+   * Reprend un run en requires_action : la réponse reprend les sorties d'outils
+   */
+  private completeToolRun(threadId: string, runId: string, outputs: LLMToolOutput[]): { run: LLMRun; answer: string } {
+    const thread = this.getThread(threadId);
+    const run = thread.runs.get(runId);
+    if (!run || run.status !== 'requires_action') {
+      throw new Error(`Run ${runId} n'attend pas de sorties d'outils (fake)`);
+    }
+
+    const answer = `Résultat des outils : ${outputs.map(o => o.output).join(' | ')}`;
+    thread.messages.push({ id: this.nextId('msg'), role: 'assistant', text: answer, annotations: [], created_at: this.now() });
+
+    const completion = buildUsage('', answer);
+    run.status = 'completed';
+    run.required_tool_calls = undefined;
+    run.usage = {
+      prompt_tokens: (run.usage?.prompt_tokens ?? 0) + completion.prompt_tokens,
+      completion_tokens: (run.usage?.completion_tokens ?? 0) + completion.completion_tokens,
+      total_tokens: (run.usage?.total_tokens ?? 0) + completion.total_tokens
+    };
+
+    return { run, answer };
+  }
+
+  /**
+   * Flux simulé : un delta par mot, émis de façon asynchrone comme un vrai flux
+   */
+  private streamExecution(execute: () => { run: LLMRun; answer: string }): LLMRunStream {
+    const listeners: Array<(text: string) => void> = [];
+    let aborted = false;
+    let runId: string | undefined;
+
+    const finalRunPromise = new Promise<LLMRun>((resolve, reject) => {
+      setImmediate(async () => {
+        try {
+          const { run, answer } = execute();
+          runId = run.id;
+
+          for (const chunk of answer.match(/\S+\s*/g) || []) {
+            if (aborted) {
+              run.status = 'cancelled';
+              return reject(new Error('Stream interrompu'));
+            }
+            listeners.forEach(listener => listener(chunk));
+            await new Promise(next => setImmediate(next));
+          }
+
+          resolve(run);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+
+    return {
+      onTextDelta: (listener) => { listeners.push(listener); },
+      finalRun: () => finalRunPromise,
+      currentRunId: () => runId,
+      abort: () => { aborted = true; }
+    };
+  }
+
+  async createRun(threadId: string, params: LLMRunParams): Promise<LLMRun> {
+    return this.executeRun(threadId, params).run;
+  }
+
+  async retrieveRun(threadId: string, runId: string): Promise<LLMRun> {
+    const run = this.getThread(threadId).runs.get(runId);
+    if (!run) {
+      throw new Error(`Run ${runId} introuvable (fake)`);
+    }
+    return run;
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<LLMRun> {
+    const run = await this.retrieveRun(threadId, runId);
+    // Même contrat qu'OpenAI : seul un run non terminé peut être annulé
+    if (run.status !== 'queued' && run.status !== 'in_progress' && run.status !== 'requires_action') {
+      throw new Error(`Impossible d'annuler un run au statut ${run.status} (fake)`);
+    }
+    run.status = 'cancelled';
+    return run;
+  }
+
+  streamRun(threadId: string, params: LLMRunParams): LLMRunStream {
+    return this.streamExecution(() => this.executeRun(threadId, params));
+  }
+
+  async submitToolOutputs(threadId: string, runId: string, outputs: LLMToolOutput[]): Promise<LLMRun> {
+    return this.completeToolRun(threadId, runId, outputs).run;
+  }
+
+  submitToolOutputsStream(threadId: string, runId: string, outputs: LLMToolOutput[]): LLMRunStream {
+    return this.streamExecution(() => this.completeToolRun(threadId, runId, outputs));
+  }
+
+  async listFileSearchResults(threadId: string, runId: string): Promise<LLMFileSearchResult[]> {
+    await this.retrieveRun(threadId, runId);
+
+    const fileIds = new Set(
+      this.getThread(threadId).messages.flatMap(m => m.annotations.map(a => a.file_id))
+    );
+
+    return [...fileIds].map(fileId => ({
+      file_id: fileId,
+      filename: `${fileId}.pdf`,
+      score: 1,
+      content: `Extrait simulé du document ${fileId}`
+    }));
+  }
+
+  async uploadFile(data: Buffer, filename: string): Promise<LLMFileInfo> {
+    const file = { id: this.nextId('file'), filename, bytes: data.length, created_at: this.now() };
+    this.files.set(file.id, file);
+    return file;
+  }
+
+  async retrieveFile(fileId: string): Promise<LLMFileInfo> {
+    return this.files.get(fileId) || { id: fileId, filename: `${fileId}.pdf`, bytes: 0, created_at: 0 };
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    this.files.delete(fileId);
+  }
+
+  async chatCompletion(params: LLMChatParams): Promise<LLMChatResult> {
+    const prompt = params.messages.map(m => m.content).join('\n');
+    const content = `Réponse simulée (${params.messages.length} message(s)) : ${prompt.substring(0, 200)}`;
+    return { content, usage: buildUsage(prompt, content) };
+  }
+
+  async retrieveAssistant(assistantId: string): Promise<LLMAssistantInfo> {
+    return {
+      id: assistantId,
+      name: `Assistant fake ${assistantId}`,
+      model: 'fake-model',
+      created_at: 0
+    };
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['fake-model'];
+  }
+}
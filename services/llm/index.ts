@@ -0,0 +1,43 @@
+/**
+ * 🧠 POINT D'ENTRÉE FOURNISSEUR LLM
+ * Sélection via LLM_PROVIDER (openai | fake), instance unique par processus
+ */
+
+import config from '../../utils/config';
+import logger from '../../utils/logger';
+import { OpenAIProvider } from './openaiProvider';
+import { FakeProvider } from './fakeProvider';
+import type { LLMProvider } from './types';
+
+export * from './types';
+
+let provider: LLMProvider | null = null;
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'fake':
+      return new FakeProvider();
+    case 'openai':
+      return new OpenAIProvider();
+    default:
+      throw new Error(`Fournisseur LLM inconnu : ${name} (attendu : openai | fake)`);
+  }
+}
+
+/**
+ * Retourne le fournisseur LLM configuré
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider(config.llm.provider);
+    logger.info('🧠 Fournisseur LLM initialisé', { provider: provider.name });
+  }
+  return provider;
+}
+
+/**
+ * Remplace le fournisseur courant (tests, scripts)
+ */
+export function setLLMProvider(custom: LLMProvider | null): void {
+  provider = custom;
+}
@@ -0,0 +1,283 @@
+/**
+ * 🤖 FOURNISSEUR LLM - OPENAI (Assistants v2 + Chat Completions)
+ */
+
+import { OpenAI, toFile } from 'openai';
+import config from '../../utils/config';
+import type {
+  LLMProvider,
+  LLMRun,
+  LLMMessage,
+  LLMAnnotation,
+  LLMFileSearchResult,
+  LLMFileInfo,
+  LLMRunParams,
+  LLMRunStream,
+  LLMToolOutput,
+  LLMChatParams,
+  LLMChatResult,
+  LLMAssistantInfo
+} from './types';
+
+/**
+ * Convertit un run OpenAI vers le format commun
+ */
+function toLLMRun(run: OpenAI.Beta.Threads.Run): LLMRun {
+  return {
+    id: run.id,
+    thread_id: run.thread_id,
+    status: run.status,
+    usage: run.usage
+      ? {
+          prompt_tokens: run.usage.prompt_tokens,
+          completion_tokens: run.usage.completion_tokens,
+          total_tokens: run.usage.total_tokens
+        }
+      : null,
+    last_error: run.last_error,
+    required_tool_calls: run.required_action?.submit_tool_outputs.tool_calls.map(toolCall => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments
+    }))
+  };
+}
+
+/**
+ * Adapte un flux Assistants (run ou soumission d'outils) au format commun
+ */
+function toLLMRunStream(stream: ReturnType<OpenAI['beta']['threads']['runs']['stream']>): LLMRunStream {
+  return {
+    onTextDelta: (listener) => {
+      stream.on('textDelta', (delta) => {
+        if (delta.value) listener(delta.value);
+      });
+    },
+    finalRun: async () => toLLMRun(await stream.finalRun()),
+    currentRunId: () => stream.currentRun()?.id,
+    abort: () => stream.abort()
+  };
+}
+
+/**
+ * Convertit un message OpenAI vers le format commun (blocs texte concaténés,
+ * positions des annotations décalées en conséquence)
+ */
+function toLLMMessage(message: OpenAI.Beta.Threads.Message): LLMMessage {
+  let text = '';
+  const annotations: LLMAnnotation[] = [];
+
+  for (const block of message.content) {
+    if (block.type !== 'text') continue;
+
+    const offset = text.length;
+    for (const annotation of block.text.annotations) {
+      if (annotation.type === 'file_citation') {
+        annotations.push({
+          text: annotation.text,
+          file_id: annotation.file_citation.file_id,
+          start_index: offset + annotation.start_index,
+          end_index: offset + annotation.end_index
+        });
+      }
+    }
+    text += block.text.value;
+  }
+
+  return {
+    id: message.id,
+    role: message.role,
+    text,
+    annotations,
+    created_at: message.created_at
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string = config.openai.apiKey) {
+    this.client = new OpenAI({
+      apiKey,
+      timeout: config.openai.timeout,
+      defaultHeaders: {
+        "OpenAI-Beta": "assistants=v2",
+      },
+    });
+  }
+
+  async createThread(): Promise<{ id: string }> {
+    const thread = await this.client.beta.threads.create();
+    return { id: thread.id };
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.client.beta.threads.delete(threadId);
+  }
+
+  async addMessage(threadId: string, content: string, attachmentFileIds: string[] = []): Promise<{ id: string }> {
+    const message = await this.client.beta.threads.messages.create(threadId, {
+      role: 'user',
+      content,
+      attachments: attachmentFileIds.length > 0
+        ? attachmentFileIds.map(file_id => ({ file_id, tools: [{ type: 'file_search' as const }] }))
+        : undefined
+    });
+    return { id: message.id };
+  }
+
+  async listMessages(
+    threadId: string,
+    options: { order?: 'asc' | 'desc'; limit?: number } = {}
+  ): Promise<LLMMessage[]> {
+    const limit = options.limit ?? 100;
+    const messages: LLMMessage[] = [];
+
+    for await (const message of this.client.beta.threads.messages.list(threadId, {
+      order: options.order ?? 'desc',
+      limit: Math.min(limit, 100)
+    })) {
+      messages.push(toLLMMessage(message));
+      if (messages.length >= limit) break;
+    }
+
+    return messages;
+  }
+
+  async createRun(threadId: string, params: LLMRunParams): Promise<LLMRun> {
+    const run = await this.client.beta.threads.runs.create(threadId, {
+      assistant_id: params.assistantId,
+      additional_instructions: params.additionalInstructions,
+      model: params.model,
+      temperature: params.temperature,
+      top_p: params.topP
+    });
+    return toLLMRun(run);
+  }
+
+  async retrieveRun(threadId: string, runId: string): Promise<LLMRun> {
+    const run = await this.client.beta.threads.runs.retrieve(runId, { thread_id: threadId });
+    return toLLMRun(run);
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<LLMRun> {
+    const run = await this.client.beta.threads.runs.cancel(runId, { thread_id: threadId });
+    return toLLMRun(run);
+  }
+
+  streamRun(threadId: string, params: LLMRunParams): LLMRunStream {
+    const stream = this.client.beta.threads.runs.stream(threadId, {
+      assistant_id: params.assistantId,
+      additional_instructions: params.additionalInstructions,
+      model: params.model,
+      temperature: params.temperature,
+      top_p: params.topP
+    });
+    return toLLMRunStream(stream);
+  }
+
+  async submitToolOutputs(threadId: string, runId: string, outputs: LLMToolOutput[]): Promise<LLMRun> {
+    const run = await this.client.beta.threads.runs.submitToolOutputs(runId, {
+      thread_id: threadId,
+      tool_outputs: outputs
+    });
+    return toLLMRun(run);
+  }
+
+  submitToolOutputsStream(threadId: string, runId: string, outputs: LLMToolOutput[]): LLMRunStream {
+    return toLLMRunStream(this.client.beta.threads.runs.submitToolOutputsStream(runId, {
+      thread_id: threadId,
+      tool_outputs: outputs
+    }));
+  }
+
+  async listFileSearchResults(threadId: string, runId: string): Promise<LLMFileSearchResult[]> {
+    const results: LLMFileSearchResult[] = [];
+
+    for await (const step of this.client.beta.threads.runs.steps.list(runId, {
+      thread_id: threadId,
+      include: ['step_details.tool_calls[*].file_search.results[*].content']
+    })) {
+      if (step.step_details.type !== 'tool_calls') continue;
+
+      for (const toolCall of step.step_details.tool_calls) {
+        if (toolCall.type !== 'file_search') continue;
+
+        for (const result of toolCall.file_search.results || []) {
+          results.push({
+            file_id: result.file_id,
+            filename: result.file_name,
+            score: result.score,
+            content: result.content?.map(part => part.text || '').join('') || null
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  async uploadFile(data: Buffer, filename: string): Promise<LLMFileInfo> {
+    const file = await this.client.files.create({
+      file: await toFile(data, filename),
+      purpose: 'assistants'
+    });
+    return {
+      id: file.id,
+      filename: file.filename,
+      bytes: file.bytes,
+      created_at: file.created_at
+    };
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    await this.client.files.delete(fileId);
+  }
+
+  async retrieveFile(fileId: string): Promise<LLMFileInfo> {
+    const file = await this.client.files.retrieve(fileId);
+    return {
+      id: file.id,
+      filename: file.filename,
+      bytes: file.bytes,
+      created_at: file.created_at
+    };
+  }
+
+  async chatCompletion(params: LLMChatParams): Promise<LLMChatResult> {
+    const completion = await this.client.chat.completions.create({
+      model: params.model || config.llm.chatModel,
+      messages: params.messages,
+      max_tokens: params.max_tokens,
+      temperature: params.temperature,
+      top_p: params.top_p
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content ?? null,
+      usage: completion.usage
+        ? {
+            prompt_tokens: completion.usage.prompt_tokens,
+            completion_tokens: completion.usage.completion_tokens,
+            total_tokens: completion.usage.total_tokens
+          }
+        : null
+    };
+  }
+
+  async retrieveAssistant(assistantId: string): Promise<LLMAssistantInfo> {
+    const assistant = await this.client.beta.assistants.retrieve(assistantId);
+    return {
+      id: assistant.id,
+      name: assistant.name,
+      model: assistant.model,
+      created_at: assistant.created_at
+    };
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await this.client.models.list();
+    return models.data.map(model => model.id);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * 🧠 CONTRAT FOURNISSEUR LLM
+ * Interface commune aux implémentations (OpenAI, fake local, ...)
+ */
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type LLMRunStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'requires_action'
+  | 'cancelling'
+  | 'cancelled'
+  | 'failed'
+  | 'completed'
+  | 'incomplete'
+  | 'expired';
+
+/**
+ * Appel de fonction demandé par l'assistant (run en requires_action)
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON brut produit par le modèle
+}
+
+export interface LLMToolOutput {
+  tool_call_id: string;
+  output: string;
+}
+
+export interface LLMRun {
+  id: string;
+  thread_id: string;
+  status: LLMRunStatus;
+  usage: LLMUsage | null;
+  last_error?: { code: string; message: string } | null;
+  required_tool_calls?: LLMToolCall[]; // renseigné si status = requires_action
+}
+
+/**
+ * Annotation file_search : marqueur brut à l'intérieur du texte d'un message
+ */
+export interface LLMAnnotation {
+  text: string;        // ex: 【4:0†source】
+  file_id: string;
+  start_index: number;
+  end_index: number;
+}
+
+export interface LLMMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  annotations: LLMAnnotation[];
+  created_at: number; // secondes epoch
+}
+
+export interface LLMFileSearchResult {
+  file_id: string;
+  filename: string;
+  score: number;
+  content: string | null;
+}
+
+export interface LLMFileInfo {
+  id: string;
+  filename: string;
+  bytes: number;
+  created_at: number;
+}
+
+export interface LLMRunParams {
+  assistantId: string;
+  additionalInstructions?: string;
+  // Réglages du bot (registre) : remplacent ceux de l'assistant pour ce run
+  model?: string;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatParams {
+  messages: LLMChatMessage[];
+  model?: string;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+}
+
+export interface LLMChatResult {
+  content: string | null;
+  usage: LLMUsage | null;
+}
+
+export interface LLMAssistantInfo {
+  id: string;
+  name: string | null;
+  model: string;
+  created_at: number;
+}
+
+/**
+ * Run en streaming : deltas de texte puis run final
+ */
+export interface LLMRunStream {
+  onTextDelta(listener: (text: string) => void): void;
+  finalRun(): Promise<LLMRun>;
+  currentRunId(): string | undefined;
+  abort(): void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  // Threads & messages
+  createThread(): Promise<{ id: string }>;
+  deleteThread(threadId: string): Promise<void>;
+  addMessage(threadId: string, content: string, attachmentFileIds?: string[]): Promise<{ id: string }>;
+  listMessages(threadId: string, options?: { order?: 'asc' | 'desc'; limit?: number }): Promise<LLMMessage[]>;
+
+  // Runs
+  createRun(threadId: string, params: LLMRunParams): Promise<LLMRun>;
+  retrieveRun(threadId: string, runId: string): Promise<LLMRun>;
+  cancelRun(threadId: string, runId: string): Promise<LLMRun>;
+  streamRun(threadId: string, params: LLMRunParams): LLMRunStream;
+  submitToolOutputs(threadId: string, runId: string, outputs: LLMToolOutput[]): Promise<LLMRun>;
+  submitToolOutputsStream(threadId: string, runId: string, outputs: LLMToolOutput[]): LLMRunStream;
+  listFileSearchResults(threadId: string, runId: string): Promise<LLMFileSearchResult[]>;
+
+  // Fichiers
+  uploadFile(data: Buffer, filename: string): Promise<LLMFileInfo>;
+  retrieveFile(fileId: string): Promise<LLMFileInfo>;
+  deleteFile(fileId: string): Promise<void>;
+
+  // Complétion simple (résumés, réponses relationnelles)
+  chatCompletion(params: LLMChatParams): Promise<LLMChatResult>;
+
+  // Monitoring
+  retrieveAssistant(assistantId: string): Promise<LLMAssistantInfo>;
+  listModels(): Promise<string[]>;
+}
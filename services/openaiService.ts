@@ -1,69 +1,37 @@
 // auth-backend/services/openaiService.ts - VERSION CORRIGÉE
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import logger from '../utils/logger';
+import { getLLMProvider } from './llm';
+import { listBots } from './botRegistry';
 
 dotenv.config();
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getLLMProvider();
 
 /**
- * 🎯 Mapping des noms de bots vers leurs assistant_id
- * Basé sur votre .env actuel
+ * 🔍 Récupère l'assistant_id pour un nom de bot donné (registre des bots)
  */
-const BOT_ASSISTANT_MAP: Record<string, string> = {
-  // Noms exacts depuis votre Supabase
-  'EMEBI ET TVA UE': process.env.ASSISTANT_EMEBI || '',
-  'MACF': process.env.ASSISTANT_MACF || '',
-  'EUDR': process.env.ASSISTANT_EUDR || '',
-  
-  // Alias pour compatibilité (minuscules)
-  'emebi et tva ue': process.env.ASSISTANT_EMEBI || '',
-  'macf': process.env.ASSISTANT_MACF || '',
-  'eudr': process.env.ASSISTANT_EUDR || '',
-  
-  // Autres variations possibles
-  'EMEBI': process.env.ASSISTANT_EMEBI || '',
-  'TVA': process.env.ASSISTANT_EMEBI || '',
-  'emebi': process.env.ASSISTANT_EMEBI || '',
-  'tva': process.env.ASSISTANT_EMEBI || '',
-};
+async function getAssistantId(botName: string): Promise<string> {
+  const bots = await listBots();
+  const normalizedBotName = botName.toLowerCase();
 
-/**
- * 🔍 Récupère l'assistant_id pour un nom de bot donné
- */
-function getAssistantId(botName: string): string {
-  // Recherche exacte d'abord
-  let assistantId = BOT_ASSISTANT_MAP[botName];
-  
-  // Si pas trouvé, recherche insensible à la casse
-  if (!assistantId) {
-    const normalizedBotName = botName.toLowerCase();
-    assistantId = BOT_ASSISTANT_MAP[normalizedBotName];
-  }
-  
-  // Si toujours pas trouvé, chercher par correspondance partielle
-  if (!assistantId) {
-    const matchingKey = Object.keys(BOT_ASSISTANT_MAP).find(key => 
-      key.toLowerCase().includes(botName.toLowerCase()) ||
-      botName.toLowerCase().includes(key.toLowerCase())
+  // Recherche exacte, puis insensible à la casse, puis par correspondance partielle
+  const bot = bots.find(b => b.name === botName)
+    || bots.find(b => b.name.toLowerCase() === normalizedBotName)
+    || bots.find(b =>
+      b.name.toLowerCase().includes(normalizedBotName) ||
+      normalizedBotName.includes(b.name.toLowerCase())
     );
-    if (matchingKey) {
-      assistantId = BOT_ASSISTANT_MAP[matchingKey];
-    }
-  }
 
-  if (!assistantId) {
-    const availableBots = Object.keys(BOT_ASSISTANT_MAP).filter(key => BOT_ASSISTANT_MAP[key]);
+  if (!bot?.assistant_id) {
+    const availableBots = bots.map(b => b.name);
     logger.error(`❌ Assistant non trouvé pour le bot: "${botName}"`);
     logger.info(`✅ Bots disponibles: ${availableBots.join(', ')}`);
     throw new Error(`Assistant non trouvé pour le bot "${botName}". Bots disponibles: ${availableBots.join(', ')}`);
   }
 
-  logger.info(`🎯 Bot "${botName}" → Assistant "${assistantId}"`);
-  return assistantId;
+  logger.info(`🎯 Bot "${botName}" → Assistant "${bot.assistant_id}"`);
+  return bot.assistant_id;
 }
 
 /**
@@ -71,7 +39,7 @@ function getAssistantId(botName: string): string {
  */
 async function validateAssistant(assistantId: string): Promise<boolean> {
   try {
-    await openai.beta.assistants.retrieve(assistantId);
+    await llm.retrieveAssistant(assistantId);
     logger.info(`✅ Assistant ${assistantId} validé sur OpenAI`);
     return true;
   } catch (error) {  // ✅ CORRIGÉ : "err: anyor" → "error"
@@ -91,7 +59,7 @@ export async function runAssistant(
     logger.info(`🤖 Démarrage conversation avec bot: ${botName}`);
     
     // 1. Récupérer l'assistant_id
-    const assistantId = getAssistantId(botName);
+    const assistantId = await getAssistantId(botName);
     
     // 2. Validation optionnelle (désactiver en production pour la performance)
     if (process.env.NODE_ENV !== 'production') {
@@ -103,16 +71,17 @@ export async function runAssistant(
     
     // 3. Créer le thread avec les messages
     logger.info(`📝 Création thread avec ${messages.length} message(s)`);
-    const thread = await openai.beta.threads.create({
-      messages: messages.length > 0 ? messages : undefined
-    });
+    const thread = await llm.createThread();
+    for (const message of messages) {
+      await llm.addMessage(thread.id, message.content);
+    }
     
     logger.info(`🎯 Thread créé: ${thread.id}`);
     
     // 4. Lancer l'assistant
     logger.info(`🚀 Lancement assistant ${assistantId} sur thread ${thread.id}`);
-    const run = await openai.beta.threads.runs.create(thread.id, {
-      assistant_id: assistantId,
+    const run = await llm.createRun(thread.id, {
+      assistantId,
     });
     
     logger.info(`✅ Run créé: ${run.id} avec status: ${run.status}`);
@@ -135,7 +104,7 @@ export async function runAssistant(
  */
 export async function checkRunStatus(threadId: string, runId: string) {
   try {
-    const run = await openai.beta.threads.runs.retrieve(runId, threadId);
+    const run = await llm.retrieveRun(threadId, runId);
     logger.info(`📊 Run ${runId} status: ${run.status}`);
     return run;
   } catch (error) {  // ✅ CORRIGÉ : "err: anyor" → "error"
@@ -149,13 +118,13 @@ export async function checkRunStatus(threadId: string, runId: string) {
  */
 export async function getThreadMessages(threadId: string) {
   try {
-    const messages = await openai.beta.threads.messages.list(threadId, {
+    const messages = await llm.listMessages(threadId, {
       order: 'desc',
       limit: 20
     });
     
-    logger.info(`📨 Récupéré ${messages.data.length} messages du thread ${threadId}`);
-    return messages.data;
+    logger.info(`📨 Récupéré ${messages.length} messages du thread ${threadId}`);
+    return messages;
   } catch (error) {  // ✅ CORRIGÉ : "err: anyor" → "error"
     logger.error(`❌ Erreur récupération messages thread ${threadId}:`, error);
     throw error;
@@ -170,8 +139,8 @@ export async function getLatestAssistantResponse(threadId: string): Promise<stri
     const messages = await getThreadMessages(threadId);
     const assistantMessage = messages.find(msg => msg.role === 'assistant');
     
-    if (assistantMessage?.content[0]?.type === 'text') {
-      const response = assistantMessage.content[0].text.value;
+    if (assistantMessage?.text) {
+      const response = assistantMessage.text;
       logger.info(`💭 Réponse assistant récupérée: ${response.substring(0, 100)}...`);
       return response;
     }
@@ -188,7 +157,7 @@ export async function getLatestAssistantResponse(threadId: string): Promise<stri
  * 🧪 Fonction de test pour vérifier tous les bots
  */
 export async function testAllBots() {
-  const botNames = ['EMEBI ET TVA UE', 'MACF', 'EUDR'];
+  const botNames = (await listBots()).map(bot => bot.name);
   const results = [];
   
   for (const botName of botNames) {
@@ -0,0 +1,132 @@
+/**
+ * 🔑 SERVICE RÉINITIALISATION DU MOT DE PASSE
+ * Jetons aléatoires envoyés par email, stockés hachés (SHA-256), expirants et à usage unique
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { sendPasswordResetEmail } from '../utils/email';
+import { revokeAllUserTokens } from './refreshTokenService';
+
+// 🎯 TYPES
+
+export type PasswordResetResult = 'reset' | 'invalid_token' | 'error';
+
+export interface ResetRequestContext {
+  ip: string;
+  userAgent: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 📨 DEMANDE
+
+/**
+ * Crée un jeton et envoie l'email. Ne révèle jamais si le compte existe :
+ * l'appelant répond de la même façon dans tous les cas.
+ */
+export async function requestPasswordReset(email: string, context: ResetRequestContext): Promise<void> {
+  try {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id, email')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Erreur recherche utilisateur (mot de passe oublié)', { error: error.message });
+      return;
+    }
+
+    if (!user) {
+      logger.info('🔑 Demande de réinitialisation pour un email inconnu', { ip: context.ip });
+      return;
+    }
+
+    // Un seul lien valide à la fois : les demandes précédentes non utilisées sont annulées
+    await supabase
+      .from('password_reset_tokens')
+      .delete()
+      .eq('user_id', user.id)
+      .is('used_at', null);
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const ttlMinutes = config.passwordReset.tokenTtlMinutes;
+
+    const { error: insertError } = await supabase
+      .from('password_reset_tokens')
+      .insert({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+        requested_ip: context.ip,
+        user_agent: context.userAgent
+      });
+
+    if (insertError) {
+      logger.error('❌ Erreur création jeton de réinitialisation', { error: insertError.message, userId: user.id });
+      return;
+    }
+
+    await sendPasswordResetEmail(user.email, token, ttlMinutes);
+    logger.info('🔑 Email de réinitialisation envoyé', { userId: user.id, ip: context.ip });
+  } catch (err) {
+    logger.error('❌ Exception demande de réinitialisation', { error: (err as Error).message });
+  }
+}
+
+// 🔁 RÉINITIALISATION
+
+/**
+ * Consomme le jeton (une seule requête concurrente peut le faire), change le mot de passe
+ * puis révoque toutes les sessions de l'utilisateur
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<PasswordResetResult> {
+  try {
+    const now = new Date().toISOString();
+
+    const { data: consumed, error } = await supabase
+      .from('password_reset_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', hashToken(token))
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('id, user_id');
+
+    if (error) {
+      logger.error('❌ Erreur consommation jeton de réinitialisation', { error: error.message });
+      return 'error';
+    }
+
+    if (!consumed || consumed.length === 0) {
+      logger.warn('❌ Jeton de réinitialisation invalide, expiré ou déjà utilisé');
+      return 'invalid_token';
+    }
+
+    const userId = consumed[0].user_id;
+    const passwordHash = await bcrypt.hash(newPassword, 12);
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ password_hash: passwordHash, first_login: false })
+      .eq('id', userId);
+
+    if (updateError) {
+      logger.error('❌ Erreur mise à jour du mot de passe (réinitialisation)', { error: updateError.message, userId });
+      return 'error';
+    }
+
+    await revokeAllUserTokens(userId, 'password_reset');
+
+    logger.info('✅ Mot de passe réinitialisé', { userId });
+    return 'reset';
+  } catch (err) {
+    logger.error('❌ Exception réinitialisation du mot de passe', { error: (err as Error).message });
+    return 'error';
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * 📚 SERVICE CATALOGUE DES OFFRES
+ * Offres de licence gérées par les admins (license_plans). Une modification publie une nouvelle
+ * version : les licences existantes restent rattachées (plan_id) à la version souscrite.
+ * licenses.license_type = code de l'offre.
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+
+// 🎯 TYPES
+
+export interface LicensePlan {
+  id: string;                          // identifiant de la version
+  code: string;                        // stable entre les versions (ex: standard)
+  version: number;
+  name: string;
+  max_requests_per_month: number;
+  max_tokens_per_month: number | null; // null = illimité
+  validity_months: number;
+  allowed_bot_ids: string[] | null;    // null = tous les bots
+  max_seats: number | null;            // null = illimité
+  price_monthly: number;               // HT, en euros
+  is_trial: boolean;
+  is_current: boolean;                 // dernière version de l'offre
+  is_available: boolean;               // proposée pour les nouvelles licences
+  created_by: string | null;
+  created_at: string;
+}
+
+export type PlanTerms = Pick<LicensePlan,
+  'name' | 'max_requests_per_month' | 'max_tokens_per_month' | 'validity_months' |
+  'allowed_bot_ids' | 'max_seats' | 'price_monthly' | 'is_trial'>;
+
+export type PlanInput = PlanTerms & { code: string };
+
+export class PlanError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'PlanError';
+  }
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+// Anciens paliers codés en dur : version 1 ajoutée au catalogue s'ils n'y figurent pas
+const DEFAULT_PLANS: Record<string, PlanTerms> = {
+  trial: {
+    name: 'Essai', max_requests_per_month: 100, max_tokens_per_month: null, validity_months: 1,
+    allowed_bot_ids: null, max_seats: null, price_monthly: 0, is_trial: true
+  },
+  standard: {
+    name: 'Standard', max_requests_per_month: 500, max_tokens_per_month: null, validity_months: 12,
+    allowed_bot_ids: null, max_seats: null, price_monthly: 0, is_trial: false
+  },
+  premium: {
+    name: 'Premium', max_requests_per_month: 2000, max_tokens_per_month: null, validity_months: 12,
+    allowed_bot_ids: null, max_seats: null, price_monthly: 0, is_trial: false
+  }
+};
+
+// 🌱 OFFRES PAR DÉFAUT
+
+let defaultPlansReady: Promise<void> | null = null;
+
+/**
+ * Crée la version 1 des offres par défaut absentes du catalogue (une fois par processus, retentée après un échec)
+ */
+function ensureDefaultPlans(): Promise<void> {
+  if (!defaultPlansReady) {
+    defaultPlansReady = (async () => {
+      for (const [code, terms] of Object.entries(DEFAULT_PLANS)) {
+        if (await getCurrentPlan(code)) continue;
+
+        const { data, error } = await supabase
+          .from('license_plans')
+          .insert({ ...terms, code, version: 1, is_current: true, is_available: true, created_by: null })
+          .select()
+          .single();
+
+        if (error && error.code !== UNIQUE_VIOLATION) { // UNIQUE_VIOLATION : créée entre-temps par un autre processus
+          throw new Error(`Création offre par défaut impossible: ${error.message}`);
+        }
+        if (data) {
+          logger.info('📚 Offre par défaut ajoutée au catalogue', { planId: data.id, code });
+        }
+      }
+    })().catch(err => {
+      defaultPlansReady = null;
+      logger.error('❌ Erreur création offres par défaut', { error: (err as Error).message });
+    });
+  }
+  return defaultPlansReady;
+}
+
+// 🔍 LECTURE
+
+/**
+ * Catalogue : dernière version de chaque offre (toutes les versions avec includeHistory)
+ */
+export async function listPlans(options: { includeHistory?: boolean; availableOnly?: boolean } = {}): Promise<LicensePlan[]> {
+  try {
+    await ensureDefaultPlans();
+
+    let query = supabase
+      .from('license_plans')
+      .select('*')
+      .order('code', { ascending: true })
+      .order('version', { ascending: false });
+
+    if (!options.includeHistory) {
+      query = query.eq('is_current', true);
+    }
+    if (options.availableOnly) {
+      query = query.eq('is_available', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('❌ Erreur lecture catalogue offres', { error: error.message });
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception lecture catalogue offres', { error: (err as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Version courante d'une offre (null si inconnue)
+ */
+export async function getCurrentPlan(code: string): Promise<LicensePlan | null> {
+  const { data, error } = await supabase
+    .from('license_plans')
+    .select('*')
+    .eq('code', code)
+    .eq('is_current', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture offre impossible: ${error.message}`);
+  }
+  return data || null;
+}
+
+/**
+ * Version courante d'une offre proposée à la souscription, sinon PlanError
+ */
+export async function getAvailablePlan(code: string): Promise<LicensePlan> {
+  await ensureDefaultPlans();
+  const plan = await getCurrentPlan(code);
+  if (!plan || !plan.is_available) {
+    throw new PlanError(`Offre inconnue ou non proposée : ${code}.`, 400, 'PLAN_NOT_AVAILABLE');
+  }
+  return plan;
+}
+
+export async function getPlanVersion(planId: string): Promise<LicensePlan | null> {
+  const { data, error } = await supabase
+    .from('license_plans')
+    .select('*')
+    .eq('id', planId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture version d'offre impossible: ${error.message}`);
+  }
+  return data || null;
+}
+
+export function isBotAllowedByPlan(plan: LicensePlan, botId: string): boolean {
+  return !plan.allowed_bot_ids || plan.allowed_bot_ids.includes(botId);
+}
+
+/**
+ * Colonnes de licence issues d'une version d'offre
+ */
+export function planLicenseTerms(plan: LicensePlan) {
+  return {
+    plan_id: plan.id,
+    license_type: plan.code,
+    max_requests_per_month: plan.max_requests_per_month,
+    max_tokens_per_month: plan.max_tokens_per_month,
+    max_seats: plan.max_seats
+  };
+}
+
+// 🛠️ ADMINISTRATION
+
+export async function createPlan(input: PlanInput, createdBy: string): Promise<LicensePlan> {
+  if (await getCurrentPlan(input.code)) {
+    throw new PlanError('Une offre existe déjà avec ce code.', 409, 'PLAN_CODE_IN_USE');
+  }
+
+  const { data, error } = await supabase
+    .from('license_plans')
+    .insert({
+      ...input,
+      allowed_bot_ids: input.allowed_bot_ids?.length ? input.allowed_bot_ids : null,
+      version: 1,
+      is_current: true,
+      is_available: true,
+      created_by: createdBy
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      throw new PlanError('Une offre existe déjà avec ce code.', 409, 'PLAN_CODE_IN_USE');
+    }
+    throw new Error(`Création offre impossible: ${error.message}`);
+  }
+
+  logger.info('📚 Offre créée', { planId: data.id, code: data.code, createdBy });
+  return data;
+}
+
+/**
+ * Publie une nouvelle version de l'offre (les licences existantes gardent la leur)
+ */
+export async function publishPlanVersion(code: string, changes: Partial<PlanTerms>, createdBy: string): Promise<LicensePlan> {
+  const current = await getCurrentPlan(code);
+  if (!current) {
+    throw new PlanError('Offre non trouvée.', 404, 'PLAN_NOT_FOUND');
+  }
+
+  const { id, version, created_at, created_by, is_current, ...terms } = current;
+  const next = { ...terms, ...changes };
+  if (changes.allowed_bot_ids !== undefined) {
+    next.allowed_bot_ids = changes.allowed_bot_ids?.length ? changes.allowed_bot_ids : null;
+  }
+
+  // Ancienne version retirée d'abord : unique (code) where is_current, une seule publication concurrente passe
+  const { data: retired, error: retireError } = await supabase
+    .from('license_plans')
+    .update({ is_current: false })
+    .eq('id', current.id)
+    .eq('is_current', true)
+    .select('id')
+    .maybeSingle();
+
+  if (retireError) {
+    throw new Error(`Publication offre impossible: ${retireError.message}`);
+  }
+  if (!retired) {
+    throw new PlanError('L\'offre a été modifiée entre-temps, veuillez réessayer.', 409, 'PLAN_CONFLICT');
+  }
+
+  const { data, error } = await supabase
+    .from('license_plans')
+    .insert({ ...next, version: version + 1, is_current: true, created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.from('license_plans').update({ is_current: true }).eq('id', current.id);
+    throw new Error(`Publication offre impossible: ${error.message}`);
+  }
+
+  logger.info('📚 Nouvelle version d\'offre publiée', { code, version: data.version, createdBy });
+  return data;
+}
+
+/**
+ * Retire (ou remet) l'offre du catalogue pour les nouvelles licences, sans nouvelle version
+ */
+export async function setPlanAvailability(code: string, isAvailable: boolean): Promise<LicensePlan> {
+  const { data, error } = await supabase
+    .from('license_plans')
+    .update({ is_available: isAvailable })
+    .eq('code', code)
+    .eq('is_current', true)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Mise à jour offre impossible: ${error.message}`);
+  }
+  if (!data) {
+    throw new PlanError('Offre non trouvée.', 404, 'PLAN_NOT_FOUND');
+  }
+  return data;
+}
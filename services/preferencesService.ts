@@ -19,6 +19,13 @@ export interface UserPreferences {
   communicationStyle: string;
 }
 
+// Préférences envoyées par le frontend avec la question (askSchema)
+export interface RequestPreferences {
+  content_orientation?: string;
+  communication_style?: string;
+  nickname?: string;
+}
+
 export interface CachedThreadData {
   threadId: string;
   preferences: UserPreferences;
@@ -172,34 +179,14 @@ export async function getUserPreferences(userId: string, botName?: string): Prom
 
 /**
  * Construit les instructions personnalisées selon les préférences
+ * personaPrompt : persona du bot (registre des bots), persona générique si absent
  */
-export function buildCustomInstructions(contentLevel: string, communicationStyle: string, chatbotId: string, nickname?: string): string {
+export function buildCustomInstructions(contentLevel: string, communicationStyle: string, personaPrompt: string | null, nickname?: string): string {
 
-  let instructions = "";
-  
   // Instructions de base selon le bot
-  switch (chatbotId) {
-    case "EMEBI ET TVA UE":
-      instructions = "Tu es un expert en réglementation douanière européenne, spécialisé dans la TVA intracommunautaire et les procédures EMEBI. ";
-      break;
-    case "CODE DES DOUANES UE":
-      instructions = "Tu es un expert du Code des Douanes de l'Union Européenne. ";
-      break;
-    case "MACF":
-      instructions = "Tu es un spécialiste du Mécanisme d'Ajustement Carbone aux Frontières (MACF). ";
-      break;
-    case "SANCTIONS RUSSES":
-      instructions = "Tu es un expert en sanctions internationales, particulièrement les sanctions contre la Russie. ";
-      break;
-    case "USA":
-      instructions = "Tu es un expert en réglementation douanière américaine (CBP, ITAR, etc.). ";
-      break;
-    case "EUDR":
-      instructions = "Tu es un expert en réglementation EUDR (European Union Deforestation Regulation). ";
-      break;
-    default:
-      instructions = "Tu es un assistant spécialisé en réglementation douanière et commerciale. ";
-  }
+  let instructions = personaPrompt
+    ? `${personaPrompt.trim()} `
+    : "Tu es un assistant spécialisé en réglementation douanière et commerciale. ";
   
   // ✅ ADAPTATION SELON LE NIVEAU DE CONTENU
   switch (contentLevel) {
@@ -0,0 +1,214 @@
+/**
+ * 🔄 SERVICE RÉINITIALISATION DES QUOTAS
+ * Chaque licence repart à zéro à sa date anniversaire (licenses.start_date) : la période écoulée
+ * est archivée dans license_usage_history, puis requests_used est remis à zéro pour ses utilisateurs.
+ * Une seule archive par licence et par période (unique license_id + period_start) : rejouer est sans effet.
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import {
+  getCurrentBillingPeriod,
+  getPreviousBillingPeriod,
+  getTokenUsage,
+  type BillingPeriod
+} from './tokenBudgetService';
+
+// 🎯 TYPES
+
+export interface LicenseUsageHistory {
+  id: string;
+  license_id: string;
+  company_id: string;
+  bot_id: string;
+  period_start: string;
+  period_end: string;
+  requests_used: number;
+  tokens_used: number;
+  user_usage: { user_id: string; requests_used: number }[];
+  job_run_id: string | null;
+  archived_at: string;
+}
+
+export interface QuotaResetSummary {
+  checked: number;
+  reset: number;
+  already_done: number;
+  failed: { license_id: string; error: string }[];
+}
+
+interface ResettableLicense {
+  id: string;
+  company_id: string;
+  bot_id: string;
+  start_date: string;
+  bots: { name: string } | null;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+function historyKey(licenseId: string, periodStart: string | Date): string {
+  return `${licenseId}:${new Date(periodStart).getTime()}`;
+}
+
+// 📦 ARCHIVAGE + REMISE À ZÉRO
+
+/**
+ * Archive la période close d'une licence puis remet ses compteurs à zéro.
+ * false si une autre exécution (ou instance) l'a déjà archivée.
+ */
+async function archiveAndResetLicense(
+  license: ResettableLicense,
+  closedPeriod: BillingPeriod,
+  jobRunId: string | null
+): Promise<boolean> {
+  const { data: userLicenses, error: usageError } = await supabase
+    .from('user_licenses')
+    .select('user_id, requests_used')
+    .eq('license_id', license.id);
+
+  if (usageError) {
+    throw new Error(`Lecture consommation utilisateurs impossible: ${usageError.message}`);
+  }
+
+  const userUsage = (userLicenses || [])
+    .filter((row: any) => (row.requests_used || 0) > 0)
+    .map((row: any) => ({ user_id: row.user_id, requests_used: row.requests_used }));
+
+  const tokensUsed = license.bots?.name
+    ? await getTokenUsage(license.company_id, license.bots.name, closedPeriod)
+    : 0;
+
+  // L'insertion réserve la période : une exécution concurrente échoue sur la contrainte unique
+  const { data: archive, error: archiveError } = await supabase
+    .from('license_usage_history')
+    .insert({
+      license_id: license.id,
+      company_id: license.company_id,
+      bot_id: license.bot_id,
+      period_start: closedPeriod.start.toISOString(),
+      period_end: closedPeriod.end.toISOString(),
+      requests_used: userUsage.reduce((sum: number, row: { requests_used: number }) => sum + row.requests_used, 0),
+      tokens_used: tokensUsed,
+      user_usage: userUsage,
+      job_run_id: jobRunId
+    })
+    .select('id')
+    .single();
+
+  if (archiveError) {
+    if (archiveError.code === UNIQUE_VIOLATION) {
+      return false;
+    }
+    throw new Error(`Archivage période impossible: ${archiveError.message}`);
+  }
+
+  const { error: resetError } = await supabase
+    .from('user_licenses')
+    .update({ requests_used: 0 })
+    .eq('license_id', license.id)
+    .gt('requests_used', 0);
+
+  if (resetError) {
+    // Libère la période pour que la prochaine exécution recommence
+    await supabase.from('license_usage_history').delete().eq('id', archive.id);
+    throw new Error(`Remise à zéro impossible: ${resetError.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Réinitialise les licences actives dont la date anniversaire est passée depuis la dernière archive
+ */
+export async function resetDueLicenseQuotas(now: Date = new Date(), jobRunId: string | null = null): Promise<QuotaResetSummary> {
+  const summary: QuotaResetSummary = { checked: 0, reset: 0, already_done: 0, failed: [] };
+
+  const { data: licenses, error } = await supabase
+    .from('licenses')
+    .select('id, company_id, bot_id, start_date, bots(name)')
+    .eq('status', 'active')
+    .lte('start_date', now.toISOString());
+
+  if (error) {
+    throw new Error(`Lecture licences impossible: ${error.message}`);
+  }
+
+  // Première période en cours : rien à clôturer
+  const due = (licenses || [])
+    .filter((license: ResettableLicense) => !!license.start_date)
+    .map((license: ResettableLicense) => {
+      const current = getCurrentBillingPeriod(now, license.start_date);
+      return { license, closed: getPreviousBillingPeriod(current, license.start_date), current };
+    })
+    .filter(({ license, current }) => current.start.getTime() > new Date(license.start_date).getTime());
+
+  summary.checked = due.length;
+  if (due.length === 0) {
+    return summary;
+  }
+
+  const oldestClosedStart = new Date(Math.min(...due.map(({ closed }) => closed.start.getTime())));
+  const { data: archived, error: archivedError } = await supabase
+    .from('license_usage_history')
+    .select('license_id, period_start')
+    .in('license_id', due.map(({ license }) => license.id))
+    .gte('period_start', oldestClosedStart.toISOString());
+
+  if (archivedError) {
+    throw new Error(`Lecture historique impossible: ${archivedError.message}`);
+  }
+
+  const archivedKeys = new Set((archived || []).map((row: any) => historyKey(row.license_id, row.period_start)));
+
+  for (const { license, closed } of due) {
+    if (archivedKeys.has(historyKey(license.id, closed.start))) {
+      summary.already_done++;
+      continue;
+    }
+
+    try {
+      if (await archiveAndResetLicense(license, closed, jobRunId)) {
+        summary.reset++;
+        logger.info('🔄 Quotas licence réinitialisés', {
+          licenseId: license.id,
+          companyId: license.company_id,
+          periodStart: closed.start.toISOString(),
+          periodEnd: closed.end.toISOString()
+        });
+      } else {
+        summary.already_done++;
+      }
+    } catch (err) {
+      logger.error('❌ Échec réinitialisation quotas licence', { licenseId: license.id, error: (err as Error).message });
+      summary.failed.push({ license_id: license.id, error: (err as Error).message });
+    }
+  }
+
+  return summary;
+}
+
+// 📜 HISTORIQUE
+
+/**
+ * Périodes archivées d'une licence (plus récentes d'abord)
+ */
+export async function listLicenseUsageHistory(licenseId: string, limit: number = 12): Promise<LicenseUsageHistory[]> {
+  try {
+    const { data, error } = await supabase
+      .from('license_usage_history')
+      .select('*')
+      .eq('license_id', licenseId)
+      .order('period_start', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('❌ Erreur lecture historique licence', { licenseId, error: error.message });
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception lecture historique licence', { licenseId, error: (err as Error).message });
+    return [];
+  }
+}
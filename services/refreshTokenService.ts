@@ -0,0 +1,425 @@
+/**
+ * 🔄 SERVICE REFRESH TOKENS
+ * Rotation à chaque rafraîchissement, détection de réutilisation par famille
+ * et informations de session (appareil, user-agent, IP) pour l'utilisateur
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { markSessionsRevoked, markUserTokensRevoked } from './tokenRevocationService';
+
+// 🎯 TYPES
+
+export type RefreshTokenRevokeReason = 'rotated' | 'logout' | 'reuse_detected' | 'revoked_by_user' | 'revoked_by_admin' | 'password_reset';
+
+export interface RefreshTokenRecord {
+  id: string;
+  token_id: string;
+  family_id: string;
+  user_id: string;
+  token_hash: string;
+  device: string;
+  user_agent: string;
+  ip_address: string;
+  expires_at: string;
+  is_revoked: boolean;
+  revoked_at: string | null;
+  revoked_reason: RefreshTokenRevokeReason | null;
+  replaced_by: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface ClientInfo {
+  userAgent: string;
+  ip: string;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  tokenId: string;
+  familyId: string;
+  expiresAt: string;
+}
+
+export type RotationResult =
+  | { status: 'rotated'; userId: string; token: IssuedRefreshToken }
+  | { status: 'invalid' }
+  | { status: 'reused'; userId: string; familyId: string };
+
+/**
+ * Session = famille de refresh tokens issue d'une même connexion
+ */
+export interface UserSession {
+  id: string;
+  device: string;
+  user_agent: string;
+  ip_address: string;
+  started_at: string;
+  last_active_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface RefreshTokenPayload {
+  id: string;
+  tokenId: string;
+  familyId?: string;
+}
+
+// 🔧 UTILITAIRES
+
+/**
+ * Clé dérivée : un refresh token n'est jamais accepté comme access token (et inversement)
+ */
+function refreshTokenSecret(): string {
+  return `${config.jwt.secret}:refresh`;
+}
+
+/**
+ * Empreinte SHA-256 du token complet (le token_id sert d'index, le hash de preuve)
+ */
+function hashToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Libellé lisible de l'appareil à partir du user-agent (ex: "Chrome sur Windows")
+ */
+export function describeDevice(userAgent: string): string {
+  const ua = userAgent || '';
+
+  const browser =
+    /Edg\//.test(ua) ? 'Edge' :
+    /OPR\/|Opera/.test(ua) ? 'Opera' :
+    /Firefox\//.test(ua) ? 'Firefox' :
+    /Chrome\//.test(ua) ? 'Chrome' :
+    /Safari\//.test(ua) ? 'Safari' :
+    /PostmanRuntime/.test(ua) ? 'Postman' :
+    /curl\//.test(ua) ? 'curl' :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(ua) ? 'iOS' :
+    /Android/.test(ua) ? 'Android' :
+    /Windows/.test(ua) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(ua) ? 'macOS' :
+    /Linux/.test(ua) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} sur ${os}`;
+  return browser || os || 'Appareil inconnu';
+}
+
+// ✍️ ÉMISSION
+
+/**
+ * Émet un refresh token et l'enregistre ; nouvelle famille si familyId absent (connexion)
+ */
+export async function issueRefreshToken(
+  userId: string,
+  client: ClientInfo,
+  familyId: string = uuidv4()
+): Promise<IssuedRefreshToken | null> {
+  try {
+    const tokenId = uuidv4();
+    const payload: RefreshTokenPayload = { id: userId, tokenId, familyId };
+    const options: jwt.SignOptions = { expiresIn: (config.jwt.refreshExpiresIn || '7d') as jwt.SignOptions['expiresIn'] };
+    const refreshToken = jwt.sign(payload, refreshTokenSecret(), options);
+
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+    const expiresAt = new Date(exp * 1000).toISOString();
+
+    const { error } = await supabase
+      .from('refresh_tokens')
+      .insert({
+        token_id: tokenId,
+        family_id: familyId,
+        user_id: userId,
+        token_hash: hashToken(refreshToken),
+        device: describeDevice(client.userAgent),
+        user_agent: client.userAgent,
+        ip_address: client.ip,
+        expires_at: expiresAt,
+        is_revoked: false
+      });
+
+    if (error) {
+      logger.error('❌ Erreur lors de la sauvegarde du refresh token', { error: error.message, userId });
+      return null;
+    }
+
+    return { refreshToken, tokenId, familyId, expiresAt };
+  } catch (err) {
+    logger.error('❌ Exception émission refresh token', { error: (err as Error).message, userId });
+    return null;
+  }
+}
+
+// 🔎 LECTURE
+
+/**
+ * Vérifie la signature puis retrouve l'enregistrement par token_id (index)
+ */
+async function findTokenRecord(refreshToken: string): Promise<RefreshTokenRecord | null> {
+  let payload: RefreshTokenPayload;
+  try {
+    payload = jwt.verify(refreshToken, refreshTokenSecret()) as RefreshTokenPayload;
+  } catch (err) {
+    logger.warn('❌ Refresh token invalide (signature)', { error: (err as Error).message });
+    return null;
+  }
+
+  if (!payload?.id || !payload.tokenId) {
+    logger.warn('❌ Refresh token invalide (payload)');
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('refresh_tokens')
+    .select('*')
+    .eq('token_id', payload.tokenId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('❌ Erreur lecture refresh token', { error: error.message, userId: payload.id });
+    return null;
+  }
+
+  if (!data || data.user_id !== payload.id || !hashesMatch(data.token_hash, hashToken(refreshToken))) {
+    logger.warn('❌ Refresh token inconnu', { userId: payload.id });
+    return null;
+  }
+
+  return data;
+}
+
+// 🔄 ROTATION
+
+/**
+ * Révoque le token présenté et en émet un nouveau dans la même famille.
+ * Un token déjà révoqué (ou perdu dans une course de rotation) révoque toute la famille.
+ */
+export async function rotateRefreshToken(refreshToken: string, client: ClientInfo): Promise<RotationResult> {
+  try {
+    const record = await findTokenRecord(refreshToken);
+    if (!record) {
+      return { status: 'invalid' };
+    }
+
+    if (record.is_revoked) {
+      return handleReuse(record);
+    }
+
+    if (new Date(record.expires_at) <= new Date()) {
+      logger.warn('❌ Refresh token expiré', { userId: record.user_id });
+      return { status: 'invalid' };
+    }
+
+    const next = await issueRefreshToken(record.user_id, client, record.family_id);
+    if (!next) {
+      return { status: 'invalid' };
+    }
+
+    // Révocation conditionnelle : une seule requête concurrente peut consommer le token
+    const now = new Date().toISOString();
+    const { data: consumed, error } = await supabase
+      .from('refresh_tokens')
+      .update({
+        is_revoked: true,
+        revoked_at: now,
+        revoked_reason: 'rotated',
+        replaced_by: next.tokenId,
+        last_used_at: now
+      })
+      .eq('token_id', record.token_id)
+      .eq('is_revoked', false)
+      .select('token_id');
+
+    if (error || !consumed || consumed.length === 0) {
+      if (error) {
+        logger.error('❌ Erreur révocation refresh token', { error: error.message, userId: record.user_id });
+      }
+      await supabase
+        .from('refresh_tokens')
+        .delete()
+        .eq('token_id', next.tokenId);
+      return error ? { status: 'invalid' } : handleReuse(record);
+    }
+
+    logger.info('🔄 Refresh token renouvelé', { userId: record.user_id, familyId: record.family_id });
+    return { status: 'rotated', userId: record.user_id, token: next };
+  } catch (err) {
+    logger.error('❌ Exception rotation refresh token', { error: (err as Error).message });
+    return { status: 'invalid' };
+  }
+}
+
+async function handleReuse(record: RefreshTokenRecord): Promise<RotationResult> {
+  logger.warn('🚨 Réutilisation d\'un refresh token révoqué : famille révoquée', {
+    userId: record.user_id,
+    familyId: record.family_id,
+    tokenId: record.token_id,
+    revokedReason: record.revoked_reason
+  });
+  await revokeTokenFamily(record.family_id, 'reuse_detected');
+  return { status: 'reused', userId: record.user_id, familyId: record.family_id };
+}
+
+// 🚫 RÉVOCATION
+
+/**
+ * Déconnexion : révoque la famille du token présenté (la session entière)
+ */
+export async function revokeRefreshToken(refreshToken: string, reason: RefreshTokenRevokeReason = 'logout'): Promise<{ userId: string; familyId: string } | null> {
+  try {
+    const record = await findTokenRecord(refreshToken);
+    if (!record) {
+      return null;
+    }
+
+    const revoked = await revokeTokenFamily(record.family_id, reason);
+    return revoked ? { userId: record.user_id, familyId: record.family_id } : null;
+  } catch (err) {
+    logger.error('❌ Exception révocation refresh token', { error: (err as Error).message });
+    return null;
+  }
+}
+
+export async function revokeTokenFamily(familyId: string, reason: RefreshTokenRevokeReason): Promise<boolean> {
+  const { error } = await supabase
+    .from('refresh_tokens')
+    .update({ is_revoked: true, revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('family_id', familyId)
+    .eq('is_revoked', false);
+
+  if (error) {
+    logger.error('❌ Erreur révocation famille de refresh tokens', { error: error.message, familyId });
+    return false;
+  }
+
+  await markSessionsRevoked([familyId]);
+  return true;
+}
+
+/**
+ * Révoque toutes les sessions d'un utilisateur
+ */
+export async function revokeAllUserTokens(userId: string, reason: RefreshTokenRevokeReason): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('refresh_tokens')
+    .update({ is_revoked: true, revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('user_id', userId)
+    .eq('is_revoked', false)
+    .select('family_id');
+
+  if (error) {
+    logger.error('❌ Erreur révocation refresh tokens utilisateur', { error: error.message, userId });
+    return null;
+  }
+
+  const familyIds: string[] = [...new Set<string>((data || []).map((row: { family_id: string }) => row.family_id))];
+  await markSessionsRevoked(familyIds);
+  await markUserTokensRevoked(userId);
+
+  logger.info('🚫 Sessions utilisateur révoquées', { userId, reason, sessions: familyIds.length });
+  return familyIds.length;
+}
+
+// 📋 SESSIONS
+
+/**
+ * Sessions actives d'un utilisateur (refresh token courant non révoqué et non expiré)
+ */
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<UserSession[] | null> {
+  try {
+    const { data: active, error } = await supabase
+      .from('refresh_tokens')
+      .select('family_id, device, user_agent, ip_address, expires_at, created_at')
+      .eq('user_id', userId)
+      .eq('is_revoked', false)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Erreur liste sessions', { error: error.message, userId });
+      return null;
+    }
+
+    if (!active || active.length === 0) {
+      return [];
+    }
+
+    const familyIds = active.map((row: any) => row.family_id);
+    const { data: history, error: historyError } = await supabase
+      .from('refresh_tokens')
+      .select('family_id, created_at')
+      .in('family_id', familyIds);
+
+    if (historyError) {
+      logger.error('❌ Erreur historique sessions', { error: historyError.message, userId });
+      return null;
+    }
+
+    const startedAt = new Map<string, string>();
+    for (const row of history || []) {
+      const known = startedAt.get(row.family_id);
+      if (!known || row.created_at < known) {
+        startedAt.set(row.family_id, row.created_at);
+      }
+    }
+
+    return active.map((row: any) => ({
+      id: row.family_id,
+      device: row.device,
+      user_agent: row.user_agent,
+      ip_address: row.ip_address,
+      started_at: startedAt.get(row.family_id) || row.created_at,
+      last_active_at: row.created_at,
+      expires_at: row.expires_at,
+      current: row.family_id === currentSessionId
+    }));
+  } catch (err) {
+    logger.error('❌ Exception liste sessions', { error: (err as Error).message, userId });
+    return null;
+  }
+}
+
+/**
+ * Révoque une session de l'utilisateur ; false si elle n'existe pas ou ne lui appartient pas, null en cas d'erreur
+ */
+export async function revokeUserSession(userId: string, sessionId: string, reason: RefreshTokenRevokeReason): Promise<boolean | null> {
+  const { data, error } = await supabase
+    .from('refresh_tokens')
+    .select('token_id')
+    .eq('user_id', userId)
+    .eq('family_id', sessionId)
+    .eq('is_revoked', false)
+    .limit(1);
+
+  if (error) {
+    logger.error('❌ Erreur lecture session', { error: error.message, userId, sessionId });
+    return null;
+  }
+
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  if (!await revokeTokenFamily(sessionId, reason)) {
+    return null;
+  }
+
+  logger.info('🚫 Session révoquée', { userId, sessionId, reason });
+  return true;
+}
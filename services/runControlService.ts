@@ -0,0 +1,190 @@
+/**
+ * ⏹️ SERVICE CONTRÔLE DES RUNS
+ * Annulation des runs d'assistant : déconnexion client, délai maximal par bot, bouton stop
+ * Runs en cours suivis en mémoire (+ Redis pour une annulation reçue par une autre instance)
+ */
+
+import logger from '../utils/logger';
+import config from '../utils/config';
+import redis from '../utils/redisClient';
+import { getLLMProvider, type LLMRun } from './llm';
+import type { BotDefinition } from './botRegistry';
+
+// 🎯 TYPES
+
+export type RunCancelReason = 'client_disconnected' | 'user' | 'timeout';
+
+export class RunCancelledError extends Error {
+  constructor(
+    public reason: RunCancelReason,
+    public runId: string | null,
+    public tokensUsed: number = 0
+  ) {
+    super(reason === 'timeout' ? `Run ${runId} annulé : délai dépassé` : `Run ${runId} annulé (${reason})`);
+    this.name = 'RunCancelledError';
+  }
+}
+
+export interface ActiveRun {
+  runId: string;
+  threadId: string;
+  userId: string;
+  chatbotId: string;
+}
+
+export interface RunControl {
+  signal: AbortSignal;
+  reason(): RunCancelReason | null;
+  attach(run: ActiveRun): Promise<void>;
+  dispose(): Promise<void>;
+}
+
+const ACTIVE_RUN_PREFIX = 'run:active:';
+const CANCEL_SETTLE_ATTEMPTS = 5;
+const CANCEL_SETTLE_DELAY_MS = 500;
+
+const activeRuns = new Map<string, { run: ActiveRun; controller: AbortController }>();
+
+/**
+ * Délai maximal d'un run pour ce bot (registre, sinon valeur globale)
+ */
+export function getRunTimeoutMs(bot: BotDefinition): number {
+  return (bot.run_timeout_seconds || config.assistant.runTimeoutSeconds) * 1000;
+}
+
+// 🎛️ CONTRÔLE D'UN RUN
+
+/**
+ * Combine interruption client, délai maximal et annulation explicite en un seul signal
+ */
+export function createRunControl(options: { signal?: AbortSignal; timeoutMs: number }): RunControl {
+  const controller = new AbortController();
+  let attachedRunId: string | null = null;
+
+  const onClientAbort = () => controller.abort('client_disconnected');
+  if (options.signal?.aborted) {
+    onClientAbort();
+  } else {
+    options.signal?.addEventListener('abort', onClientAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => controller.abort('timeout'), options.timeoutMs);
+
+  return {
+    signal: controller.signal,
+
+    reason: () => (controller.signal.aborted ? controller.signal.reason as RunCancelReason : null),
+
+    attach: async (run: ActiveRun) => {
+      attachedRunId = run.runId;
+      activeRuns.set(run.runId, { run, controller });
+
+      if (redis) {
+        try {
+          const ttl = Math.ceil(options.timeoutMs / 1000) + 60;
+          await redis.set(`${ACTIVE_RUN_PREFIX}${run.runId}`, JSON.stringify(run), 'EX', ttl);
+        } catch (error) {
+          logger.warn('⚠️ Redis enregistrement run échoué', { runId: run.runId, error: (error as Error).message });
+        }
+      }
+    },
+
+    dispose: async () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onClientAbort);
+      if (!attachedRunId) {
+        return;
+      }
+
+      activeRuns.delete(attachedRunId);
+      if (redis) {
+        await redis.del(`${ACTIVE_RUN_PREFIX}${attachedRunId}`).catch(() => undefined);
+      }
+    }
+  };
+}
+
+/**
+ * Attente interruptible (rejette dès que le signal est déclenché)
+ */
+export function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      return reject(signal.reason);
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 🛑 ANNULATION
+
+/**
+ * Annule le run chez le fournisseur puis relit son usage une fois l'annulation effective
+ * (null si le run est introuvable ; un run déjà terminé est relu tel quel)
+ */
+export async function cancelRunAndCollectUsage(threadId: string, runId: string): Promise<LLMRun | null> {
+  const llm = getLLMProvider();
+
+  try {
+    await llm.cancelRun(threadId, runId);
+  } catch (error) {
+    // Déjà terminé ou déjà annulé : l'usage reste lisible
+    logger.warn('⚠️ Annulation run refusée par le fournisseur', { runId, error: (error as Error).message });
+  }
+
+  try {
+    let run = await llm.retrieveRun(threadId, runId);
+    for (let attempt = 0; attempt < CANCEL_SETTLE_ATTEMPTS && run.status === 'cancelling'; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, CANCEL_SETTLE_DELAY_MS));
+      run = await llm.retrieveRun(threadId, runId);
+    }
+    return run;
+  } catch (error) {
+    logger.warn('⚠️ Impossible de relire le run annulé', { runId, error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Bouton stop : annule un run en cours appartenant à l'utilisateur
+ * Run suivi localement → le pipeline s'arrête et enregistre l'usage partiel
+ * Run d'une autre instance (Redis) → annulation directe chez le fournisseur
+ */
+export async function requestRunCancellation(userId: string, runId: string): Promise<boolean> {
+  const local = activeRuns.get(runId);
+  if (local) {
+    if (local.run.userId !== userId) {
+      return false;
+    }
+    local.controller.abort('user');
+    logger.info('⏹️ Annulation run demandée', { userId, runId, chatbotId: local.run.chatbotId });
+    return true;
+  }
+
+  if (!redis) {
+    return false;
+  }
+
+  try {
+    const stored = await redis.get(`${ACTIVE_RUN_PREFIX}${runId}`);
+    const run: ActiveRun | null = stored ? JSON.parse(stored) : null;
+    if (!run || run.userId !== userId) {
+      return false;
+    }
+
+    await getLLMProvider().cancelRun(run.threadId, runId);
+    logger.info('⏹️ Annulation run demandée (autre instance)', { userId, runId, chatbotId: run.chatbotId });
+    return true;
+  } catch (error) {
+    logger.error('❌ Erreur annulation run', { userId, runId, error: (error as Error).message });
+    return false;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * 💺 SERVICE SIÈGES
+ * Nombre d'utilisateurs pouvant accéder au bot d'une licence entreprise (licenses.max_seats, null = illimité).
+ * Un siège = un accès actif dans user_bot_access ; il est libéré à la révocation ou à la désactivation de l'utilisateur.
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+
+// 🎯 TYPES
+
+export interface SeatHolder {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  assigned_at: string;
+}
+
+export interface LicenseSeatUsage {
+  license_id: string;
+  bot_id: string;
+  bot_name: string;
+  license_type: string;
+  status: string;
+  max_seats: number | null;       // null = illimité
+  used_seats: number;
+  available_seats: number | null; // null = illimité
+  holders: SeatHolder[];
+}
+
+export class SeatError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'SeatError';
+  }
+}
+
+// 🔍 COMPTAGE
+
+/**
+ * Sièges occupés sur une licence (accès actifs)
+ */
+export async function countUsedSeats(licenseId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('user_bot_access')
+    .select('id', { count: 'exact', head: true })
+    .eq('license_id', licenseId)
+    .eq('status', 'active');
+
+  if (error) {
+    throw new Error(`Comptage sièges impossible: ${error.message}`);
+  }
+  return count || 0;
+}
+
+/*
+ * Attribution atomique (RPC assign_license_seat) : la ligne licence est verrouillée pendant le comptage,
+ * deux attributions concurrentes ne peuvent donc pas dépasser max_seats.
+ *
+ *   create or replace function assign_license_seat(p_license_id uuid, p_user_id uuid, p_access_id uuid default null)
+ *   returns uuid language plpgsql as $$
+ *   declare v_max integer; v_used integer; v_id uuid;
+ *   begin
+ *     select max_seats into v_max from licenses where id = p_license_id for update;
+ *     if not found then raise exception 'LICENSE_NOT_FOUND'; end if;
+ *     if v_max is not null then
+ *       select count(*) into v_used from user_bot_access where license_id = p_license_id and status = 'active';
+ *       if v_used >= v_max then raise exception 'SEATS_EXHAUSTED'; end if;
+ *     end if;
+ *     if p_access_id is not null then
+ *       update user_bot_access set status = 'active', license_id = p_license_id, assigned_at = now()
+ *         where id = p_access_id and user_id = p_user_id and status <> 'active' returning id into v_id;
+ *       if v_id is null then raise exception 'ACCESS_ALREADY_ACTIVE'; end if;
+ *     else
+ *       insert into user_bot_access (user_id, license_id, status, assigned_at, max_tokens, quota_used)
+ *         values (p_user_id, p_license_id, 'active', now(), 50000, 0) returning id into v_id;
+ *     end if;
+ *     return v_id;
+ *   end $$;
+ */
+
+/**
+ * Occupe un siège de la licence : nouvel accès, ou réactivation de l'accès non actif accessId
+ * (rattaché à la licence). SeatError 409 SEATS_EXHAUSTED si la licence est pleine.
+ */
+export async function claimSeat(licenseId: string, userId: string, accessId: string | null = null): Promise<string> {
+  const { data, error } = await supabase.rpc('assign_license_seat', {
+    p_license_id: licenseId,
+    p_user_id: userId,
+    p_access_id: accessId
+  });
+
+  if (!error) {
+    return data;
+  }
+
+  if (error.message?.includes('SEATS_EXHAUSTED')) {
+    const { data: license } = await supabase
+      .from('licenses')
+      .select('max_seats')
+      .eq('id', licenseId)
+      .maybeSingle();
+    const usedSeats = await countUsedSeats(licenseId).catch(() => null);
+    const maxSeats = license?.max_seats ?? null;
+
+    throw new SeatError(
+      `Tous les sièges de la licence sont attribués (${usedSeats ?? '?'}/${maxSeats ?? '?'}). Libérez un siège ou augmentez le nombre de sièges.`,
+      409,
+      'SEATS_EXHAUSTED',
+      { license_id: licenseId, used_seats: usedSeats, max_seats: maxSeats }
+    );
+  }
+  if (error.message?.includes('LICENSE_NOT_FOUND')) {
+    throw new SeatError('Licence non trouvée.', 404, 'LICENSE_NOT_FOUND');
+  }
+  if (error.message?.includes('ACCESS_ALREADY_ACTIVE')) {
+    throw new SeatError('Bot déjà assigné à cet utilisateur.', 409, 'ACCESS_ALREADY_ACTIVE');
+  }
+  throw new Error(`Attribution siège impossible: ${error.message}`);
+}
+
+// 📊 VUE D'ENSEMBLE
+
+/**
+ * Occupation des sièges par licence d'une entreprise (optionnellement pour un seul bot)
+ */
+export async function getCompanySeatUsage(companyId: string, botId?: string): Promise<LicenseSeatUsage[] | null> {
+  try {
+    let licensesQuery = supabase
+      .from('licenses')
+      .select('id, bot_id, license_type, status, max_seats, bots (name)')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (botId) {
+      licensesQuery = licensesQuery.eq('bot_id', botId);
+    }
+
+    const { data: licenses, error: licensesError } = await licensesQuery;
+    if (licensesError) {
+      logger.error('❌ Erreur lecture licences (sièges)', { companyId, error: licensesError.message });
+      return null;
+    }
+    if (!licenses || licenses.length === 0) {
+      return [];
+    }
+
+    const { data: accesses, error: accessError } = await supabase
+      .from('user_bot_access')
+      .select('license_id, assigned_at, users (id, email, first_name, last_name)')
+      .in('license_id', licenses.map((license: any) => license.id))
+      .eq('status', 'active');
+
+    if (accessError) {
+      logger.error('❌ Erreur lecture accès (sièges)', { companyId, error: accessError.message });
+      return null;
+    }
+
+    return licenses.map((license: any) => {
+      const holders: SeatHolder[] = (accesses || [])
+        .filter((access: any) => access.license_id === license.id)
+        .map((access: any) => ({
+          user_id: access.users?.id,
+          email: access.users?.email,
+          first_name: access.users?.first_name ?? null,
+          last_name: access.users?.last_name ?? null,
+          assigned_at: access.assigned_at
+        }));
+      const maxSeats = license.max_seats ?? null;
+
+      return {
+        license_id: license.id,
+        bot_id: license.bot_id,
+        bot_name: license.bots?.name || 'Unknown',
+        license_type: license.license_type,
+        status: license.status,
+        max_seats: maxSeats,
+        used_seats: holders.length,
+        available_seats: maxSeats === null ? null : Math.max(0, maxSeats - holders.length),
+        holders
+      };
+    });
+  } catch (err) {
+    logger.error('❌ Exception occupation sièges', { companyId, error: (err as Error).message });
+    return null;
+  }
+}
+
+// 🔓 LIBÉRATION
+
+/**
+ * Libère tous les sièges d'un utilisateur (désactivation) ; retourne le nombre de sièges libérés, null si erreur
+ */
+export async function releaseUserSeats(userId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('user_bot_access')
+    .update({ status: 'released' })
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .select('id');
+
+  if (error) {
+    logger.error('❌ Erreur libération sièges', { userId, error: error.message });
+    return null;
+  }
+
+  const released = data?.length || 0;
+  if (released > 0) {
+    logger.info('💺 Sièges libérés', { userId, released });
+  }
+  return released;
+}
@@ -0,0 +1,511 @@
+/**
+ * 🏢 SERVICE SSO OIDC PAR ENTREPRISE
+ * Flux authorization code (+ PKCE) vers le fournisseur d'identité de l'entreprise,
+ * validation de l'id_token (JWKS), rattachement ou création à la volée de l'utilisateur
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { EphemeralStore } from '../utils/ephemeralStore';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { getCompanyLicenses, grantBotAccess } from './licenseService';
+
+// 🎯 TYPES
+
+export interface SsoConfig {
+  id: string;
+  company_id: string;
+  issuer: string;
+  client_id: string;
+  has_client_secret: boolean;
+  allowed_domains: string[];
+  default_bot_ids: string[] | null; // null = tous les bots sous licence active de l'entreprise
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SsoConfigInput {
+  issuer: string;
+  client_id: string;
+  client_secret?: string;
+  allowed_domains: string[];
+  default_bot_ids?: string[] | null;
+  enabled?: boolean;
+}
+
+interface SsoConfigRecord extends Omit<SsoConfig, 'has_client_secret'> {
+  client_secret_encrypted: string | null;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface PendingLogin {
+  companyId: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+interface IdentityClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+export class SsoError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const CONFIG_FIELDS = 'id, company_id, issuer, client_id, client_secret_encrypted, allowed_domains, default_bot_ids, enabled, created_at, updated_at';
+
+const pendingLogins = new EphemeralStore('sso:state:');
+const loginCodes = new EphemeralStore('sso:code:');
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+// 🗂️ CONFIGURATION
+
+function toPublicConfig(record: SsoConfigRecord): SsoConfig {
+  const { client_secret_encrypted, ...rest } = record;
+  return { ...rest, has_client_secret: !!client_secret_encrypted };
+}
+
+function normalizeIssuer(issuer: string): string {
+  return issuer.trim().replace(/\/+$/, '');
+}
+
+async function getConfigRecord(companyId: string): Promise<SsoConfigRecord | null> {
+  const { data, error } = await supabase
+    .from('company_sso_configs')
+    .select(CONFIG_FIELDS)
+    .eq('company_id', companyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture company_sso_configs impossible: ${error.message}`);
+  }
+  return data;
+}
+
+export async function getSsoConfig(companyId: string): Promise<SsoConfig | null> {
+  const record = await getConfigRecord(companyId);
+  return record ? toPublicConfig(record) : null;
+}
+
+export async function listSsoConfigs(): Promise<SsoConfig[]> {
+  try {
+    const { data, error } = await supabase
+      .from('company_sso_configs')
+      .select(CONFIG_FIELDS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Erreur liste configurations SSO', { error: error.message });
+      return [];
+    }
+
+    return (data || []).map(toPublicConfig);
+  } catch (err) {
+    logger.error('❌ Exception liste configurations SSO', { error: (err as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Crée ou met à jour la configuration ; le secret n'est remplacé que s'il est fourni
+ */
+export async function upsertSsoConfig(companyId: string, input: SsoConfigInput): Promise<SsoConfig> {
+  const existing = await getConfigRecord(companyId);
+  if (!existing && !input.client_secret) {
+    throw new SsoError('client_secret requis pour une nouvelle configuration', 400, 'SSO_SECRET_REQUIRED');
+  }
+
+  const row: Record<string, unknown> = {
+    company_id: companyId,
+    issuer: normalizeIssuer(input.issuer),
+    client_id: input.client_id,
+    allowed_domains: input.allowed_domains.map(domain => domain.trim().toLowerCase()),
+    default_bot_ids: input.default_bot_ids ?? null,
+    enabled: input.enabled ?? true,
+    updated_at: new Date().toISOString()
+  };
+  if (input.client_secret) {
+    row.client_secret_encrypted = encryptSecret(input.client_secret, config.sso.encryptionKey);
+  }
+
+  const { data, error } = await supabase
+    .from('company_sso_configs')
+    .upsert(row, { onConflict: 'company_id' })
+    .select(CONFIG_FIELDS)
+    .single();
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new SsoError('Entreprise introuvable', 404, 'COMPANY_NOT_FOUND');
+    }
+    throw new Error(`Écriture company_sso_configs impossible: ${error.message}`);
+  }
+
+  metadataCache.delete(row.issuer as string);
+  logger.info('🏢 Configuration SSO enregistrée', { companyId, issuer: row.issuer });
+  return toPublicConfig(data);
+}
+
+export async function deleteSsoConfig(companyId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('company_sso_configs')
+    .delete()
+    .eq('company_id', companyId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Suppression company_sso_configs impossible: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+}
+
+/**
+ * Configuration SSO active couvrant le domaine de l'email (découverte depuis l'écran de connexion)
+ */
+export async function findSsoConfigForEmail(email: string): Promise<SsoConfig | null> {
+  const domain = email.split('@')[1]?.trim().toLowerCase();
+  if (!domain) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('company_sso_configs')
+    .select(CONFIG_FIELDS)
+    .contains('allowed_domains', [domain])
+    .eq('enabled', true)
+    .limit(1);
+
+  if (error) {
+    logger.error('❌ Erreur découverte SSO', { error: error.message, domain });
+    return null;
+  }
+
+  return data && data.length > 0 ? toPublicConfig(data[0]) : null;
+}
+
+// 🌐 FOURNISSEUR OIDC
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(config.sso.httpTimeoutMs) });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new SsoError(`Fournisseur d'identité : ${body?.error_description || body?.error || response.status}`, 502, 'SSO_PROVIDER_ERROR');
+  }
+  return body;
+}
+
+async function getProviderMetadata(issuer: string): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  if (normalizeIssuer(metadata.issuer || '') !== issuer) {
+    throw new SsoError('Issuer du document de découverte différent de la configuration', 502, 'SSO_PROVIDER_ERROR');
+  }
+
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+async function getSigningKey(metadata: ProviderMetadata, kid: string | undefined): Promise<crypto.KeyObject> {
+  const findKey = (keys: any[]) => keys.find(key => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'));
+
+  let cached = jwksCache.get(metadata.jwks_uri);
+  let jwk = cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS ? findKey(cached.keys) : undefined;
+
+  // Clé inconnue : rotation possible côté fournisseur, on recharge le JWKS
+  if (!jwk) {
+    const { keys } = await fetchJson(metadata.jwks_uri);
+    cached = { keys: keys || [], fetchedAt: Date.now() };
+    jwksCache.set(metadata.jwks_uri, cached);
+    jwk = findKey(cached.keys);
+  }
+
+  if (!jwk) {
+    throw new SsoError("Clé de signature de l'id_token introuvable", 502, 'SSO_PROVIDER_ERROR');
+  }
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+// ▶️ DÉBUT DU FLUX
+
+/**
+ * URL d'autorisation du fournisseur ; state, nonce et vérificateur PKCE conservés côté serveur
+ */
+export async function buildAuthorizationUrl(companyId: string, loginHint?: string): Promise<string> {
+  const record = await getConfigRecord(companyId);
+  if (!record || !record.enabled) {
+    throw new SsoError("SSO non configuré pour cette entreprise", 404, 'SSO_NOT_CONFIGURED');
+  }
+
+  const metadata = await getProviderMetadata(record.issuer);
+
+  const state = base64Url(crypto.randomBytes(24));
+  const pending: PendingLogin = {
+    companyId,
+    nonce: base64Url(crypto.randomBytes(24)),
+    codeVerifier: base64Url(crypto.randomBytes(32))
+  };
+  await pendingLogins.set(state, JSON.stringify(pending), config.sso.stateTtlSeconds);
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: record.client_id,
+    redirect_uri: config.sso.redirectUri,
+    scope: 'openid email profile',
+    state,
+    nonce: pending.nonce,
+    code_challenge: base64Url(crypto.createHash('sha256').update(pending.codeVerifier).digest()),
+    code_challenge_method: 'S256'
+  });
+  if (loginHint) {
+    params.set('login_hint', loginHint);
+  }
+
+  return `${metadata.authorization_endpoint}?${params.toString()}`;
+}
+
+// 🔁 RETOUR DU FOURNISSEUR
+
+async function exchangeCode(record: SsoConfigRecord, metadata: ProviderMetadata, code: string, codeVerifier: string): Promise<{ id_token: string; access_token?: string }> {
+  const clientSecret = record.client_secret_encrypted
+    ? decryptSecret(record.client_secret_encrypted, config.sso.encryptionKey)
+    : '';
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.sso.redirectUri,
+    code_verifier: codeVerifier
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  // client_secret_basic par défaut (spécification), client_secret_post si c'est la seule méthode annoncée
+  const methods = metadata.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+  if (!methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+    body.set('client_id', record.client_id);
+    body.set('client_secret', clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(record.client_id)}:${encodeURIComponent(clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body: body.toString() });
+  if (!tokens?.id_token) {
+    throw new SsoError("Réponse du fournisseur sans id_token", 502, 'SSO_PROVIDER_ERROR');
+  }
+  return tokens;
+}
+
+async function validateIdToken(idToken: string, record: SsoConfigRecord, metadata: ProviderMetadata, nonce: string): Promise<IdentityClaims & { nonce?: string }> {
+  const header = jwt.decode(idToken, { complete: true })?.header;
+  if (!header) {
+    throw new SsoError('id_token illisible', 401, 'SSO_INVALID_TOKEN');
+  }
+
+  const key = await getSigningKey(metadata, header.kid);
+  try {
+    const claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+      issuer: metadata.issuer,
+      audience: record.client_id,
+      clockTolerance: 60
+    }) as IdentityClaims & { nonce?: string };
+
+    if (claims.nonce !== nonce) {
+      throw new SsoError('Nonce de l\'id_token invalide', 401, 'SSO_INVALID_TOKEN');
+    }
+    return claims;
+  } catch (err) {
+    if (err instanceof SsoError) throw err;
+    throw new SsoError(`id_token invalide : ${(err as Error).message}`, 401, 'SSO_INVALID_TOKEN');
+  }
+}
+
+/**
+ * Traite le retour du fournisseur et renvoie un code de connexion à usage unique
+ * (échangé ensuite par le frontend contre les tokens NAO&CO)
+ */
+export async function handleCallback(code: string, state: string): Promise<string> {
+  const rawPending = await pendingLogins.take(state);
+  if (!rawPending) {
+    throw new SsoError('Session SSO expirée ou invalide, veuillez recommencer', 400, 'SSO_INVALID_STATE');
+  }
+  const pending: PendingLogin = JSON.parse(rawPending);
+
+  const record = await getConfigRecord(pending.companyId);
+  if (!record || !record.enabled) {
+    throw new SsoError("SSO non configuré pour cette entreprise", 404, 'SSO_NOT_CONFIGURED');
+  }
+
+  const metadata = await getProviderMetadata(record.issuer);
+  const tokens = await exchangeCode(record, metadata, code, pending.codeVerifier);
+  let claims: IdentityClaims = await validateIdToken(tokens.id_token, record, metadata, pending.nonce);
+
+  // Email absent de l'id_token : complété par l'endpoint userinfo
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson(metadata.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+    if (userinfo?.sub === claims.sub) {
+      claims = { ...userinfo, ...claims, email: userinfo.email, email_verified: userinfo.email_verified };
+    }
+  }
+
+  const userId = await resolveUser(record, claims);
+
+  const loginCode = base64Url(crypto.randomBytes(32));
+  await loginCodes.set(loginCode, userId, config.sso.loginCodeTtlSeconds);
+  return loginCode;
+}
+
+/**
+ * Utilisateur associé au code de connexion (usage unique), null s'il est invalide ou expiré
+ */
+export async function consumeLoginCode(loginCode: string): Promise<string | null> {
+  return loginCodes.take(loginCode);
+}
+
+// 👤 RATTACHEMENT / PROVISIONNEMENT
+
+async function resolveUser(record: SsoConfigRecord, claims: IdentityClaims): Promise<string> {
+  const { data: identity, error: identityError } = await supabase
+    .from('sso_identities')
+    .select('id, user_id, users(id, company_id)')
+    .eq('issuer', record.issuer)
+    .eq('subject', claims.sub)
+    .maybeSingle();
+
+  if (identityError) {
+    throw new Error(`Lecture sso_identities impossible: ${identityError.message}`);
+  }
+
+  if (identity) {
+    if (identity.users?.company_id !== record.company_id) {
+      throw new SsoError("Ce compte n'est pas rattaché à cette entreprise", 403, 'SSO_COMPANY_MISMATCH');
+    }
+    await supabase
+      .from('sso_identities')
+      .update({ last_login_at: new Date().toISOString(), email: claims.email || null })
+      .eq('id', identity.id);
+    return identity.user_id;
+  }
+
+  const email = claims.email?.trim().toLowerCase();
+  if (!email) {
+    throw new SsoError("Le fournisseur d'identité ne transmet pas l'email", 403, 'SSO_EMAIL_MISSING');
+  }
+  if (claims.email_verified === false || claims.email_verified === 'false') {
+    throw new SsoError("Email non vérifié par le fournisseur d'identité", 403, 'SSO_EMAIL_NOT_VERIFIED');
+  }
+  if (!record.allowed_domains.includes(email.split('@')[1])) {
+    throw new SsoError("Domaine email non autorisé pour cette entreprise", 403, 'SSO_DOMAIN_NOT_ALLOWED');
+  }
+
+  const { data: existingUser, error: userError } = await supabase
+    .from('users')
+    .select('id, company_id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Lecture users impossible: ${userError.message}`);
+  }
+
+  if (existingUser && existingUser.company_id !== record.company_id) {
+    throw new SsoError("Cet email appartient à un compte d'une autre entreprise", 409, 'SSO_EMAIL_IN_OTHER_COMPANY');
+  }
+
+  const userId = existingUser?.id || await provisionUser(record, claims, email);
+
+  const { error: linkError } = await supabase
+    .from('sso_identities')
+    .insert({
+      user_id: userId,
+      company_id: record.company_id,
+      issuer: record.issuer,
+      subject: claims.sub,
+      email,
+      last_login_at: new Date().toISOString()
+    });
+
+  if (linkError) {
+    throw new Error(`Écriture sso_identities impossible: ${linkError.message}`);
+  }
+
+  logger.info('🔗 Identité SSO rattachée', { userId, companyId: record.company_id, provisioned: !existingUser });
+  return userId;
+}
+
+/**
+ * Création à la volée : rôle user, mot de passe local inutilisable, accès aux bots par défaut
+ */
+async function provisionUser(record: SsoConfigRecord, claims: IdentityClaims, email: string): Promise<string> {
+  const { data: company } = await supabase
+    .from('companies')
+    .select('name')
+    .eq('id', record.company_id)
+    .maybeSingle();
+
+  const firstName = claims.given_name || claims.name?.split(' ')[0] || email.split('@')[0];
+  const lastName = claims.family_name || claims.name?.split(' ').slice(1).join(' ') || '';
+
+  const { data: newUser, error } = await supabase
+    .from('users')
+    .insert({
+      email,
+      first_name: firstName,
+      last_name: lastName,
+      company_id: record.company_id,
+      company: company?.name || null,
+      nickname: `${firstName}.${lastName}`.toLowerCase().replace(/[^a-z0-9.]/g, ''),
+      role: 'user',
+      password_hash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+      first_login: false,
+      created_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Création utilisateur SSO impossible: ${error.message}`);
+  }
+
+  const licenses = (await getCompanyLicenses(record.company_id))
+    .filter(license => license.is_valid)
+    .filter(license => !record.default_bot_ids || record.default_bot_ids.includes(license.bot_id));
+
+  for (const license of licenses) {
+    await grantBotAccess(newUser.id, license.id);
+  }
+
+  logger.info('👤 Utilisateur SSO provisionné', { userId: newUser.id, companyId: record.company_id, bots: licenses.length });
+  return newUser.id;
+}
@@ -0,0 +1,454 @@
+/**
+ * 💰 SERVICE BUDGET TOKENS
+ * Budget mensuel par entreprise et par bot (licenses.max_tokens_per_month), sur la période
+ * de facturation de la licence (anniversaire de licenses.start_date)
+ * Consommation = somme openai_token_usage sur la période, mise en cache (Redis ou mémoire)
+ */
+
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import redis from '../utils/redisClient';
+
+// 🎯 TYPES
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+  key: string; // ex: 2025-03 (mois calendaire) ou 2025-03-15 (anniversaire de licence)
+}
+
+export type TokenBudgetStatus = 'unlimited' | 'ok' | 'warning' | 'exhausted';
+
+export interface TokenBudget {
+  company_id: string;
+  bot_name: string;
+  license_id: string | null;
+  status: TokenBudgetStatus;
+  limit: number | null;
+  overage: number;
+  used: number;
+  remaining: number | null;
+  used_percent: number | null;
+  period: { start: string; end: string };
+}
+
+export interface TokenOverage {
+  id: string;
+  company_id: string;
+  bot_name: string | null; // null = tous les bots de l'entreprise
+  extra_tokens: number;
+  reason: string;
+  granted_by: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface GrantOverageInput {
+  companyId: string;
+  botName?: string | null;
+  extraTokens: number;
+  expiresAt?: string;
+  reason: string;
+  grantedBy: string;
+}
+
+const USAGE_CACHE_PREFIX = 'budget:usage:';
+const usageMemoryCache = new Map<string, { value: number; expiresAt: number }>();
+
+// 📅 PÉRIODE DE FACTURATION
+
+/**
+ * Début de période du mois donné pour un jour anniversaire (UTC, borné à la fin du mois : 31 → 28/29/30)
+ */
+function anniversaryDate(year: number, month: number, anchorDay: number): Date {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(anchorDay, daysInMonth)));
+}
+
+/**
+ * Période de facturation courante : mensuelle à partir de la date anniversaire de la licence
+ * (licenses.start_date), mois calendaire UTC sans date d'ancrage
+ */
+export function getCurrentBillingPeriod(now: Date = new Date(), anchor?: string | Date | null): BillingPeriod {
+  const anchorDate = anchor ? new Date(anchor) : null;
+
+  if (!anchorDate || isNaN(anchorDate.getTime())) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const key = `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`;
+    return { start, end, key };
+  }
+
+  const anchorDay = anchorDate.getUTCDate();
+  let year = now.getUTCFullYear();
+  let month = now.getUTCMonth();
+
+  if (anniversaryDate(year, month, anchorDay) > now) {
+    month -= 1;
+    if (month < 0) {
+      month = 11;
+      year -= 1;
+    }
+  }
+
+  const start = anniversaryDate(year, month, anchorDay);
+  const end = anniversaryDate(month === 11 ? year + 1 : year, (month + 1) % 12, anchorDay);
+  return { start, end, key: start.toISOString().slice(0, 10) };
+}
+
+/**
+ * Période précédant celle donnée (même date anniversaire)
+ */
+export function getPreviousBillingPeriod(period: BillingPeriod, anchor: string | Date): BillingPeriod {
+  return getCurrentBillingPeriod(new Date(period.start.getTime() - 1), anchor);
+}
+
+/**
+ * Licence active d'une entreprise pour un bot (budget et date anniversaire)
+ */
+async function findBudgetLicense(
+  companyId: string,
+  botName: string
+): Promise<{
+  id: string;
+  max_tokens_per_month: number | null;
+  prorated_max_tokens: number | null;
+  prorated_until: string | null;
+  start_date: string | null;
+} | null> {
+  const { data: licenses, error } = await supabase
+    .from('licenses')
+    .select('id, max_tokens_per_month, prorated_max_tokens, prorated_until, start_date, bots!inner(name)')
+    .eq('company_id', companyId)
+    .eq('bots.name', botName)
+    .eq('status', 'active')
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Lecture licence budget impossible: ${error.message}`);
+  }
+  return licenses?.[0] || null;
+}
+
+// 📊 CONSOMMATION (AVEC CACHE)
+
+function usageCacheKey(companyId: string, botName: string, period: BillingPeriod): string {
+  return `${USAGE_CACHE_PREFIX}${companyId}:${botName}:${period.key}`;
+}
+
+async function readCachedUsage(key: string): Promise<number | null> {
+  if (redis) {
+    try {
+      const value = await redis.get(key);
+      return value !== null ? parseInt(value, 10) : null;
+    } catch (error) {
+      logger.warn('⚠️ Redis lecture budget échouée', { key, error: (error as Error).message });
+    }
+  }
+
+  const entry = usageMemoryCache.get(key);
+  if (!entry || entry.expiresAt < Date.now()) {
+    usageMemoryCache.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+async function writeCachedUsage(key: string, value: number): Promise<void> {
+  const ttl = config.tokenBudget.cacheTtlSeconds;
+
+  if (redis) {
+    try {
+      await redis.set(key, String(value), 'EX', ttl);
+      return;
+    } catch (error) {
+      logger.warn('⚠️ Redis écriture budget échouée', { key, error: (error as Error).message });
+    }
+  }
+
+  usageMemoryCache.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+}
+
+/**
+ * Tokens consommés par une entreprise sur un bot pendant la période
+ */
+export async function getTokenUsage(
+  companyId: string,
+  botName: string,
+  period: BillingPeriod = getCurrentBillingPeriod()
+): Promise<number> {
+  const key = usageCacheKey(companyId, botName, period);
+  const cached = await readCachedUsage(key);
+  if (cached !== null) {
+    return cached;
+  }
+
+  const { data, error } = await supabase
+    .from('openai_token_usage')
+    .select('total_tokens')
+    .eq('company_id', companyId)
+    .eq('bot_id', botName)
+    .gte('timestamp', period.start.toISOString())
+    .lt('timestamp', period.end.toISOString());
+
+  if (error) {
+    throw new Error(`Lecture consommation tokens impossible: ${error.message}`);
+  }
+
+  const used = (data || []).reduce((sum: number, row: any) => sum + (row.total_tokens || 0), 0);
+  await writeCachedUsage(key, used);
+  return used;
+}
+
+/**
+ * Répercute une consommation dans le cache (appelé après sauvegarde openai_token_usage)
+ */
+export async function recordTokenUsage(companyId: string, botName: string, tokens: number): Promise<void> {
+  if (!tokens) return;
+
+  let anchor: string | null = null;
+  try {
+    anchor = (await findBudgetLicense(companyId, botName))?.start_date || null;
+  } catch (error) {
+    logger.warn('⚠️ Licence budget indisponible', { companyId, botName, error: (error as Error).message });
+  }
+
+  const key = usageCacheKey(companyId, botName, getCurrentBillingPeriod(new Date(), anchor));
+
+  if (redis) {
+    try {
+      // Pas de cache = prochaine lecture depuis la base, rien à incrémenter
+      if (await redis.exists(key)) {
+        await redis.incrby(key, tokens);
+      }
+      return;
+    } catch (error) {
+      logger.warn('⚠️ Redis incrément budget échoué', { key, error: (error as Error).message });
+    }
+  }
+
+  const entry = usageMemoryCache.get(key);
+  if (entry) {
+    entry.value += tokens;
+  }
+}
+
+// 🎁 DÉPASSEMENTS TEMPORAIRES
+
+/**
+ * Total des tokens de dépassement actifs pour une entreprise + bot
+ */
+async function getActiveOverageTokens(companyId: string, botName: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('token_budget_overages')
+    .select('bot_name, extra_tokens')
+    .eq('company_id', companyId)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    logger.warn('⚠️ Erreur lecture dépassements', { companyId, error: error.message });
+    return 0;
+  }
+
+  return (data || [])
+    .filter((overage: any) => !overage.bot_name || overage.bot_name === botName)
+    .reduce((sum: number, overage: any) => sum + (overage.extra_tokens || 0), 0);
+}
+
+/**
+ * Accorde un dépassement temporaire (par défaut jusqu'à la fin de la période de la licence du bot)
+ */
+export async function grantTokenOverage(input: GrantOverageInput): Promise<TokenOverage | null> {
+  try {
+    const license = input.botName ? await findBudgetLicense(input.companyId, input.botName) : null;
+    const periodEnd = getCurrentBillingPeriod(new Date(), license?.start_date).end;
+
+    const { data, error } = await supabase
+      .from('token_budget_overages')
+      .insert({
+        company_id: input.companyId,
+        bot_name: input.botName || null,
+        extra_tokens: input.extraTokens,
+        reason: input.reason,
+        granted_by: input.grantedBy,
+        expires_at: input.expiresAt || periodEnd.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('❌ Erreur création dépassement', { companyId: input.companyId, error: error.message });
+      return null;
+    }
+
+    logger.info('🎁 Dépassement tokens accordé', {
+      overageId: data.id,
+      companyId: input.companyId,
+      botName: input.botName || 'tous',
+      extraTokens: input.extraTokens,
+      grantedBy: input.grantedBy
+    });
+    return data;
+  } catch (err) {
+    logger.error('❌ Exception création dépassement', { error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Liste les dépassements (actifs uniquement par défaut)
+ */
+export async function listTokenOverages(companyId?: string, includeExpired: boolean = false): Promise<TokenOverage[]> {
+  try {
+    let query = supabase
+      .from('token_budget_overages')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (companyId) {
+      query = query.eq('company_id', companyId);
+    }
+    if (!includeExpired) {
+      query = query.gt('expires_at', new Date().toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('❌ Erreur liste dépassements', { companyId, error: error.message });
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste dépassements', { error: (err as Error).message });
+    return [];
+  }
+}
+
+/**
+ * Révoque un dépassement (expiration immédiate, l'historique est conservé)
+ */
+export async function revokeTokenOverage(overageId: string): Promise<TokenOverage | null> {
+  try {
+    const { data, error } = await supabase
+      .from('token_budget_overages')
+      .update({ expires_at: new Date().toISOString() })
+      .eq('id', overageId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Erreur révocation dépassement', { overageId, error: error.message });
+      return null;
+    }
+
+    return data || null;
+  } catch (err) {
+    logger.error('❌ Exception révocation dépassement', { overageId, error: (err as Error).message });
+    return null;
+  }
+}
+
+// 🧮 CALCUL DU BUDGET
+
+type BudgetLicense = Awaited<ReturnType<typeof findBudgetLicense>>;
+
+/**
+ * Budget mensuel applicable (prorata de la période en cours après changement d'offre)
+ */
+function effectiveTokenLimit(license: BudgetLicense): number | null {
+  if (license?.prorated_max_tokens && license.prorated_until && new Date(license.prorated_until) > new Date()) {
+    return license.prorated_max_tokens;
+  }
+  return license?.max_tokens_per_month || null;
+}
+
+function computeBudget(
+  companyId: string,
+  botName: string,
+  license: BudgetLicense,
+  used: number,
+  overage: number,
+  period: BillingPeriod
+): TokenBudget {
+  const limit = effectiveTokenLimit(license);
+  const base = {
+    company_id: companyId,
+    bot_name: botName,
+    license_id: license?.id || null,
+    overage,
+    used,
+    period: { start: period.start.toISOString(), end: period.end.toISOString() }
+  };
+
+  if (!limit) {
+    return { ...base, status: 'unlimited', limit: null, remaining: null, used_percent: null };
+  }
+
+  const allowance = limit + overage;
+  const usedPercent = Math.round((used / limit) * 100);
+  let status: TokenBudgetStatus = 'ok';
+
+  if (used >= allowance) {
+    status = 'exhausted';
+  } else if (usedPercent >= config.tokenBudget.softLimitPercent) {
+    status = 'warning';
+  }
+
+  return {
+    ...base,
+    status,
+    limit,
+    remaining: Math.max(0, allowance - used),
+    used_percent: usedPercent
+  };
+}
+
+/**
+ * Budget tokens d'une entreprise pour un bot (null si le calcul échoue)
+ */
+export async function getTokenBudget(companyId: string, botName: string): Promise<TokenBudget | null> {
+  try {
+    const license = await findBudgetLicense(companyId, botName);
+    const period = getCurrentBillingPeriod(new Date(), license?.start_date);
+
+    if (!effectiveTokenLimit(license)) {
+      return computeBudget(companyId, botName, license, 0, 0, period);
+    }
+
+    const [used, overage] = await Promise.all([
+      getTokenUsage(companyId, botName, period),
+      getActiveOverageTokens(companyId, botName)
+    ]);
+
+    return computeBudget(companyId, botName, license, used, overage, period);
+  } catch (err) {
+    logger.error('❌ Exception calcul budget tokens', { companyId, botName, error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Budgets de tous les bots sous licence active d'une entreprise
+ */
+export async function getCompanyTokenBudgets(companyId: string): Promise<TokenBudget[]> {
+  const { data: licenses, error } = await supabase
+    .from('licenses')
+    .select('bots(name)')
+    .eq('company_id', companyId)
+    .eq('status', 'active');
+
+  if (error) {
+    logger.error('❌ Erreur liste licences budget', { companyId, error: error.message });
+    return [];
+  }
+
+  const botNames: string[] = (licenses || [])
+    .map((license: any) => license.bots?.name)
+    .filter(Boolean);
+
+  const budgets = await Promise.all(botNames.map(botName => getTokenBudget(companyId, botName)));
+  return budgets.filter((budget): budget is TokenBudget => budget !== null);
+}
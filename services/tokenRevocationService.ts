@@ -0,0 +1,58 @@
+/**
+ * 🚫 RÉVOCATION DES ACCESS TOKENS
+ * Sessions révoquées (sid) et date de coupure par utilisateur, conservées le temps
+ * de vie d'un access token : Redis si disponible, mémoire locale sinon
+ */
+
+import { EphemeralStore } from '../utils/ephemeralStore';
+import config from '../utils/config';
+
+const DEFAULT_TTL_SECONDS = 2 * 60 * 60;
+
+const revokedSessions = new EphemeralStore('session:revoked:');
+const userCutoffs = new EphemeralStore('session:cutoff:');
+
+export interface AccessTokenClaims {
+  id: string;
+  sid?: string;  // famille de refresh tokens (session)
+  iat?: number;
+}
+
+/**
+ * Durée de vie des access tokens en secondes ("2h", "30m", "3600"...)
+ */
+function accessTokenTtlSeconds(): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(String(config.jwt.expiresIn || '').trim());
+  if (!match) {
+    return DEFAULT_TTL_SECONDS;
+  }
+  const units: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+  return parseInt(match[1], 10) * units[match[2]];
+}
+
+// ✍️ MARQUAGE
+
+/**
+ * Invalide immédiatement les access tokens portant ce sid
+ */
+export async function markSessionsRevoked(sessionIds: string[]): Promise<void> {
+  await Promise.all(sessionIds.map(sid => revokedSessions.set(sid, '1', accessTokenTtlSeconds())));
+}
+
+/**
+ * Invalide les access tokens sans sid émis jusqu'à maintenant (tokens antérieurs aux sessions)
+ */
+export async function markUserTokensRevoked(userId: string): Promise<void> {
+  await userCutoffs.set(userId, String(Math.floor(Date.now() / 1000)), accessTokenTtlSeconds());
+}
+
+// 🔎 VÉRIFICATION
+
+export async function isAccessTokenRevoked(claims: AccessTokenClaims): Promise<boolean> {
+  if (claims.sid) {
+    return (await revokedSessions.get(claims.sid)) !== null;
+  }
+
+  const cutoff = await userCutoffs.get(claims.id);
+  return cutoff !== null && (claims.iat || 0) <= parseInt(cutoff, 10);
+}
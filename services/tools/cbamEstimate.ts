@@ -0,0 +1,133 @@
+/**
+ * 🏭 OUTIL MACF / CBAM
+ * Estimation du coût carbone à l'importation (règlement (UE) 2023/956)
+ * Émissions déclarées ou valeurs par défaut de la table locale cbam_default_values
+ */
+
+import { z } from 'zod';
+const { supabase } = require('../../utils/supabase');
+import config from '../../utils/config';
+import { ToolError, type ToolDefinition } from './types';
+
+// Part de l'allocation gratuite SEQE maintenue (facteur MACF) : le reste est couvert par des certificats
+const CBAM_FACTORS: Record<number, number> = {
+  2026: 0.975,
+  2027: 0.95,
+  2028: 0.9,
+  2029: 0.775,
+  2030: 0.515,
+  2031: 0.39,
+  2032: 0.265,
+  2033: 0.14
+};
+const FIRST_CERTIFICATE_YEAR = 2026;
+const FULL_PHASE_IN_YEAR = 2034;
+
+const argsSchema = z.object({
+  cn_code: z.string().min(4).max(20),
+  quantity_tonnes: z.number().positive(),
+  year: z.number().int().min(2023).max(2050).optional(),
+  embedded_emissions_per_tonne: z.number().min(0).optional(),
+  carbon_price_paid_per_tonne: z.number().min(0).optional(),
+  ets_price_per_tonne: z.number().positive().optional()
+});
+
+/**
+ * Part des émissions couverte par des certificats pour l'année d'importation
+ */
+function phaseInRatio(year: number): number {
+  if (year < FIRST_CERTIFICATE_YEAR) return 0;
+  if (year >= FULL_PHASE_IN_YEAR) return 1;
+  return 1 - CBAM_FACTORS[year];
+}
+
+/**
+ * Valeur par défaut la plus précise (plus long préfixe NC présent dans la table)
+ */
+async function findDefaultValue(cnCode: string): Promise<{ cn_code: string; product: string; direct_emissions: number; indirect_emissions: number | null } | null> {
+  const prefixes = Array.from({ length: cnCode.length - 3 }, (_, i) => cnCode.substring(0, i + 4));
+
+  const { data, error } = await supabase
+    .from('cbam_default_values')
+    .select('cn_code, product, direct_emissions, indirect_emissions')
+    .in('cn_code', prefixes);
+
+  if (error) {
+    throw new Error(`Lecture cbam_default_values impossible: ${error.message}`);
+  }
+
+  return (data || []).sort((a: any, b: any) => b.cn_code.length - a.cn_code.length)[0] || null;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export const cbamEstimateTool: ToolDefinition<z.infer<typeof argsSchema>> = {
+  name: 'cbam_estimate',
+  description: "Estime le coût MACF (CBAM) d'une importation : émissions intrinsèques, certificats à restituer et coût en euros selon l'année et le prix SEQE.",
+  parameters: {
+    type: 'object',
+    properties: {
+      cn_code: { type: 'string', description: 'Code NC de la marchandise (4 à 8 chiffres)' },
+      quantity_tonnes: { type: 'number', description: 'Quantité importée en tonnes' },
+      year: { type: 'integer', description: "Année d'importation (année en cours par défaut)" },
+      embedded_emissions_per_tonne: { type: 'number', description: 'Émissions intrinsèques réelles en tCO2e par tonne (sinon valeur par défaut)' },
+      carbon_price_paid_per_tonne: { type: 'number', description: "Prix du carbone effectivement payé dans le pays d'origine, en EUR/tCO2e" },
+      ets_price_per_tonne: { type: 'number', description: 'Prix du certificat en EUR/tCO2e (sinon prix de référence configuré)' }
+    },
+    required: ['cn_code', 'quantity_tonnes']
+  },
+  schema: argsSchema,
+
+  async execute(args) {
+    const cnCode = args.cn_code.replace(/[\s.]/g, '');
+    if (!/^\d{4,8}$/.test(cnCode)) {
+      throw new ToolError('Code NC invalide : 4 à 8 chiffres attendus.');
+    }
+
+    const year = args.year || new Date().getFullYear();
+    const etsPrice = args.ets_price_per_tonne || config.tools.cbamEtsPricePerTonne;
+
+    let emissionsPerTonne = args.embedded_emissions_per_tonne;
+    let product: string | null = null;
+    let emissionsSource: 'declared' | 'default_value' = 'declared';
+
+    if (emissionsPerTonne === undefined) {
+      const defaultValue = await findDefaultValue(cnCode);
+      if (!defaultValue) {
+        throw new ToolError(`Aucune valeur par défaut MACF pour le code NC ${cnCode} : marchandise hors champ ou émissions réelles à fournir.`);
+      }
+      emissionsPerTonne = defaultValue.direct_emissions + (defaultValue.indirect_emissions || 0);
+      product = defaultValue.product;
+      emissionsSource = 'default_value';
+    }
+
+    const totalEmissions = emissionsPerTonne * args.quantity_tonnes;
+    const ratio = phaseInRatio(year);
+    const certificates = totalEmissions * ratio;
+    const grossCost = certificates * etsPrice;
+    // Déduction plafonnée au coût brut (prix carbone payé à l'origine)
+    const deduction = Math.min(grossCost, (args.carbon_price_paid_per_tonne || 0) * certificates);
+
+    return {
+      cn_code: cnCode,
+      product,
+      quantity_tonnes: args.quantity_tonnes,
+      year,
+      emissions_per_tonne: round(emissionsPerTonne, 4),
+      emissions_source: emissionsSource,
+      total_emissions_tco2e: round(totalEmissions, 3),
+      phase_in_percent: round(ratio * 100, 1),
+      certificates: round(certificates, 3),
+      ets_price_per_tonne: etsPrice,
+      gross_cost_eur: round(grossCost),
+      carbon_price_deduction_eur: round(deduction),
+      estimated_cost_eur: round(grossCost - deduction),
+      notes: year < FIRST_CERTIFICATE_YEAR
+        ? 'Période transitoire : déclaration trimestrielle uniquement, aucun certificat à restituer.'
+        : 'Estimation indicative : hors ajustements de référentiel et de valeurs par défaut majorées.'
+    };
+  }
+};
@@ -0,0 +1,168 @@
+/**
+ * 🛠️ REGISTRE DES OUTILS SERVEUR
+ * Exécute les appels de fonction d'un run (requires_action) et journalise chaque appel
+ * (table assistant_tool_calls)
+ */
+
+const { supabase } = require('../../utils/supabase');
+import logger from '../../utils/logger';
+import type { LLMToolCall, LLMToolOutput } from '../llm';
+import { ToolError, type ToolCallContext, type ToolCallLog, type ToolCallStatus, type ToolDefinition } from './types';
+import { taricLookupTool } from './taricLookup';
+import { cbamEstimateTool } from './cbamEstimate';
+import { sanctionsCheckTool } from './sanctionsCheck';
+
+const TOOLS = new Map<string, ToolDefinition>(
+  [taricLookupTool, cbamEstimateTool, sanctionsCheckTool].map(tool => [tool.name, tool])
+);
+
+const MAX_OUTPUT_LENGTH = 16000;
+
+/**
+ * Déclarations de fonctions à reporter dans la configuration des assistants
+ */
+export function getToolDefinitions(): Array<{ type: 'function'; function: { name: string; description: string; parameters: Record<string, unknown> } }> {
+  return [...TOOLS.values()].map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }));
+}
+
+// ▶️ EXÉCUTION
+
+/**
+ * Exécute un appel ; toute erreur est renvoyée à l'assistant sous forme { error }
+ */
+async function runTool(toolCall: LLMToolCall, context: ToolCallContext): Promise<{ result: unknown; status: ToolCallStatus }> {
+  const tool = TOOLS.get(toolCall.name);
+  if (!tool) {
+    return { result: { error: `Outil inconnu : ${toolCall.name}` }, status: 'error' };
+  }
+
+  let rawArgs: unknown;
+  try {
+    rawArgs = JSON.parse(toolCall.arguments || '{}');
+  } catch {
+    return { result: { error: 'Arguments JSON invalides' }, status: 'error' };
+  }
+
+  const parsed = tool.schema.safeParse(rawArgs);
+  if (!parsed.success) {
+    return {
+      result: {
+        error: 'Arguments invalides',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      },
+      status: 'error'
+    };
+  }
+
+  try {
+    return { result: await tool.execute(parsed.data, context), status: 'success' };
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return { result: { error: error.message }, status: 'error' };
+    }
+    logger.error('❌ Exception outil serveur', {
+      tool: toolCall.name,
+      runId: context.runId,
+      error: (error as Error).message
+    });
+    return { result: { error: "Erreur interne lors de l'exécution de l'outil" }, status: 'error' };
+  }
+}
+
+async function logToolCall(entry: Omit<ToolCallLog, 'id' | 'created_at'>): Promise<void> {
+  const { error } = await supabase
+    .from('assistant_tool_calls')
+    .insert(entry);
+
+  if (error) {
+    logger.warn('⚠️ Erreur journalisation appel outil', { runId: entry.run_id, tool: entry.tool_name, error: error.message });
+  }
+}
+
+/**
+ * Exécute les appels demandés par le run et retourne les sorties à soumettre
+ */
+export async function executeToolCalls(toolCalls: LLMToolCall[], context: ToolCallContext): Promise<LLMToolOutput[]> {
+  return Promise.all(toolCalls.map(async (toolCall) => {
+    const startTime = Date.now();
+    const { result, status } = await runTool(toolCall, context);
+
+    let output = JSON.stringify(result);
+    if (output.length > MAX_OUTPUT_LENGTH) {
+      output = JSON.stringify({ error: 'Résultat trop volumineux, préciser la recherche' });
+    }
+    const durationMs = Date.now() - startTime;
+
+    logger.info('🛠️ Appel outil serveur', {
+      tool: toolCall.name,
+      runId: context.runId,
+      chatbotId: context.chatbotId,
+      status,
+      durationMs
+    });
+
+    await logToolCall({
+      run_id: context.runId,
+      thread_id: context.threadId,
+      user_id: context.userId,
+      company_id: context.companyId,
+      chatbot_id: context.chatbotId,
+      tool_call_id: toolCall.id,
+      tool_name: toolCall.name,
+      arguments: toolCall.arguments,
+      output,
+      status,
+      duration_ms: durationMs
+    });
+
+    return { tool_call_id: toolCall.id, output };
+  }));
+}
+
+// 📋 JOURNAL
+
+/**
+ * Appels d'outils journalisés (filtres optionnels run / bot / outil)
+ */
+export async function listToolCalls(
+  filters: { runId?: string; chatbotId?: string; toolName?: string; periodDays?: number },
+  limit: number = 100
+): Promise<ToolCallLog[]> {
+  try {
+    let query = supabase
+      .from('assistant_tool_calls')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.runId) {
+      query = query.eq('run_id', filters.runId);
+    }
+    if (filters.chatbotId) {
+      query = query.eq('chatbot_id', filters.chatbotId);
+    }
+    if (filters.toolName) {
+      query = query.eq('tool_name', filters.toolName);
+    }
+    if (filters.periodDays) {
+      query = query.gte('created_at', new Date(Date.now() - filters.periodDays * 24 * 60 * 60 * 1000).toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('❌ Erreur liste appels outils', { error: error.message });
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    logger.error('❌ Exception liste appels outils', { error: (err as Error).message });
+    return [];
+  }
+}
+
+export * from './types';
@@ -0,0 +1,179 @@
+/**
+ * 🚫 OUTIL CRIBLAGE SANCTIONS
+ * Compare un nom (personne ou entité) à une liste de sanctions chargée localement (fichier JSON)
+ * Correspondance approchée : accents, casse, ordre et fautes de frappe tolérés
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import config from '../../utils/config';
+import logger from '../../utils/logger';
+import { ToolError, type ToolDefinition } from './types';
+
+interface SanctionsEntry {
+  name: string;
+  aliases?: string[];
+  program?: string;    // ex: RUSSIA, règlement (UE) 269/2014
+  list?: string;       // ex: EU, OFAC SDN, UK
+  reference?: string;
+}
+
+interface IndexedName {
+  alias: string | null; // null : nom principal
+  tokens: string[];
+}
+
+interface LoadedList {
+  entries: Array<SanctionsEntry & { names: IndexedName[] }>; // nom puis chaque alias, avec leurs tokens
+  mtimeMs: number;
+  loadedAt: string;
+}
+
+const MAX_MATCHES = 10;
+
+let loadedList: LoadedList | null = null;
+
+// 🔤 NORMALISATION ET SIMILARITÉ
+
+function tokenize(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Moyenne, pour chaque mot de "from", du mot le plus proche dans "to"
+ */
+function coverage(from: string[], to: string[]): number {
+  const total = from.reduce((sum, token) => sum + Math.max(...to.map(other => tokenSimilarity(token, other))), 0);
+  return total / from.length;
+}
+
+/**
+ * Score 0-1 : couverture de la recherche privilégiée, couverture du nom listé en complément
+ */
+function matchScore(query: string[], candidate: string[]): number {
+  return (2 * coverage(query, candidate) + coverage(candidate, query)) / 3;
+}
+
+// 📂 CHARGEMENT DE LA LISTE
+
+/**
+ * Charge la liste au premier appel, puis la recharge si le fichier a changé
+ */
+async function getSanctionsList(): Promise<LoadedList> {
+  const path = config.tools.sanctionsListPath;
+
+  let stat;
+  try {
+    stat = await fs.stat(path);
+  } catch {
+    throw new ToolError('Liste de sanctions locale indisponible : criblage impossible.');
+  }
+
+  if (loadedList && loadedList.mtimeMs === stat.mtimeMs) {
+    return loadedList;
+  }
+
+  const raw = JSON.parse(await fs.readFile(path, 'utf-8'));
+  const entries: SanctionsEntry[] = Array.isArray(raw) ? raw : raw.entries || [];
+
+  loadedList = {
+    entries: entries
+      .filter(entry => entry?.name)
+      .map(entry => ({
+        ...entry,
+        names: [
+          { alias: null, tokens: tokenize(entry.name) },
+          ...(entry.aliases || []).map(alias => ({ alias, tokens: tokenize(alias) }))
+        ].filter(name => name.tokens.length > 0)
+      })),
+    mtimeMs: stat.mtimeMs,
+    loadedAt: new Date().toISOString()
+  };
+
+  logger.info('🚫 Liste de sanctions chargée', { path, entries: loadedList.entries.length });
+  return loadedList;
+}
+
+const argsSchema = z.object({
+  name: z.string().min(2).max(200),
+  threshold: z.number().min(0.5).max(1).optional()
+});
+
+export const sanctionsCheckTool: ToolDefinition<z.infer<typeof argsSchema>> = {
+  name: 'sanctions_check',
+  description: "Vérifie si un nom de personne ou d'entreprise figure sur la liste de sanctions chargée (correspondance approchée, alias compris).",
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: "Nom de la personne ou de l'entité à cribler" },
+      threshold: { type: 'number', minimum: 0.5, maximum: 1, description: 'Score minimal de correspondance (0.85 par défaut)' }
+    },
+    required: ['name']
+  },
+  schema: argsSchema,
+
+  async execute(args) {
+    const query = tokenize(args.name);
+    if (query.length === 0) {
+      throw new ToolError('Nom à cribler invalide.');
+    }
+
+    const list = await getSanctionsList();
+    const threshold = args.threshold || config.tools.sanctionsMatchThreshold;
+
+    const matches = list.entries
+      .map(entry => {
+        const scores = entry.names.map(name => matchScore(query, name.tokens));
+        const best = Math.max(...scores);
+        const bestName = entry.names[scores.indexOf(best)];
+        return {
+          name: entry.name,
+          matched_alias: bestName?.alias ?? null,
+          score: Math.round(best * 100) / 100,
+          program: entry.program || null,
+          list: entry.list || null,
+          reference: entry.reference || null
+        };
+      })
+      .filter(match => match.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCHES);
+
+    return {
+      query: args.name,
+      threshold,
+      entries_checked: list.entries.length,
+      list_loaded_at: list.loadedAt,
+      match_found: matches.length > 0,
+      matches,
+      notes: 'Résultat indicatif : toute correspondance doit être vérifiée (date de naissance, nationalité, identifiants).'
+    };
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * 🔎 OUTIL TARIC / SH
+ * Recherche d'un code de nomenclature dans la table locale taric_codes (code ou libellé)
+ */
+
+import { z } from 'zod';
+const { supabase } = require('../../utils/supabase');
+import { ToolError, type ToolDefinition } from './types';
+
+const DEFAULT_LIMIT = 10;
+
+const argsSchema = z.object({
+  code: z.string().max(20).optional(),
+  query: z.string().min(3).max(100).optional(),
+  limit: z.number().int().min(1).max(20).optional()
+}).refine(args => args.code || args.query, { message: 'code ou query requis' });
+
+export const taricLookupTool: ToolDefinition<z.infer<typeof argsSchema>> = {
+  name: 'taric_lookup',
+  description: "Recherche un code TARIC / SH (nomenclature combinée) par code ou par libellé de marchandise. Retourne libellé, droit de douane et unité supplémentaire.",
+  parameters: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'Code SH/NC/TARIC complet ou partiel (2 à 10 chiffres, espaces et points acceptés)' },
+      query: { type: 'string', description: 'Mots du libellé de la marchandise (3 caractères minimum)' },
+      limit: { type: 'integer', minimum: 1, maximum: 20, description: 'Nombre maximum de résultats (10 par défaut)' }
+    }
+  },
+  schema: argsSchema,
+
+  async execute(args) {
+    const limit = args.limit || DEFAULT_LIMIT;
+    let query = supabase
+      .from('taric_codes')
+      .select('code, description, duty_rate, supplementary_unit')
+      .order('code', { ascending: true })
+      .limit(limit);
+
+    if (args.code) {
+      const code = args.code.replace(/[\s.]/g, '');
+      if (!/^\d{2,10}$/.test(code)) {
+        throw new ToolError('Code invalide : 2 à 10 chiffres attendus.');
+      }
+      query = query.like('code', `${code}%`);
+    }
+    if (args.query) {
+      query = query.ilike('description', `%${args.query.replace(/[%_]/g, ' ').trim()}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Lecture taric_codes impossible: ${error.message}`);
+    }
+
+    return {
+      results: data || [],
+      count: (data || []).length,
+      truncated: (data || []).length === limit
+    };
+  }
+};
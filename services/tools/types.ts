@@ -0,0 +1,50 @@
+/**
+ * 🛠️ CONTRAT DES OUTILS SERVEUR
+ * Fonctions locales appelables par les assistants (runs en requires_action)
+ */
+
+import type { z } from 'zod';
+
+export interface ToolCallContext {
+  runId: string;
+  threadId: string;
+  userId: string | null;
+  companyId: string | null;
+  chatbotId: string | null;
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema déclaré dans la configuration de l'assistant
+  schema: z.ZodType<TArgs>;            // validation des arguments produits par le modèle
+  execute(args: TArgs, context: ToolCallContext): Promise<unknown>;
+}
+
+export type ToolCallStatus = 'success' | 'error';
+
+export interface ToolCallLog {
+  id: string;
+  run_id: string;
+  thread_id: string;
+  user_id: string | null;
+  company_id: string | null;
+  chatbot_id: string | null;
+  tool_call_id: string;
+  tool_name: string;
+  arguments: string;
+  output: string;
+  status: ToolCallStatus;
+  duration_ms: number;
+  created_at: string;
+}
+
+/**
+ * Erreur métier : son message est renvoyé tel quel à l'assistant
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * 🔐 SERVICE DOUBLE AUTHENTIFICATION (TOTP)
+ * TOTP RFC 6238 (SHA-1, 6 chiffres, 30 s), secret chiffré en base (AES-256-GCM),
+ * codes de secours à usage unique et jetons de challenge pour la connexion en deux étapes
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+const { supabase } = require('../utils/supabase');
+import logger from '../utils/logger';
+import config from '../utils/config';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+
+// 🎯 TYPES
+
+export type ChallengePurpose = 'verify' | 'setup';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  backup_codes_remaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauth_url: string;
+}
+
+export type EnrollmentConfirmation =
+  | { status: 'enabled'; backupCodes: string[] }
+  | { status: 'invalid_code' }
+  | { status: 'no_pending_enrollment' }
+  | { status: 'error' };
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // tolérance d'une période avant/après (décalage d'horloge)
+const BACKUP_CODES_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// 🔢 TOTP
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Secret TOTP invalide');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Période du code valide (fenêtre ±1), null sinon ; les périodes déjà utilisées sont refusées (rejeu)
+ */
+function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let delta = -TOTP_WINDOW; delta <= TOTP_WINDOW; delta++) {
+    const step = currentStep + delta;
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// 📋 POLITIQUE ET STATUT
+
+export function isTwoFactorRequired(role: string): boolean {
+  return config.twoFactor.requiredRoles.includes(role);
+}
+
+async function getTwoFactorRecord(userId: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from('user_two_factor')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture user_two_factor impossible: ${error.message}`);
+  }
+  return data;
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const record = await getTwoFactorRecord(userId);
+  return !!record?.enabled;
+}
+
+export async function getTwoFactorStatus(userId: string, role: string): Promise<TwoFactorStatus | null> {
+  try {
+    const record = await getTwoFactorRecord(userId);
+
+    const { count, error } = await supabase
+      .from('two_factor_backup_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    if (error) {
+      logger.error('❌ Erreur comptage codes de secours', { error: error.message, userId });
+      return null;
+    }
+
+    return {
+      enabled: !!record?.enabled,
+      enabled_at: record?.enabled_at || null,
+      required: isTwoFactorRequired(role),
+      backup_codes_remaining: record?.enabled ? count || 0 : 0
+    };
+  } catch (err) {
+    logger.error('❌ Exception statut 2FA', { error: (err as Error).message, userId });
+    return null;
+  }
+}
+
+// 📲 ENRÔLEMENT
+
+/**
+ * Génère un nouveau secret en attente de confirmation (remplace un enrôlement non confirmé)
+ */
+export async function startEnrollment(userId: string, email: string): Promise<TwoFactorEnrollment | 'already_enabled' | null> {
+  try {
+    const record = await getTwoFactorRecord(userId);
+    if (record?.enabled) {
+      return 'already_enabled';
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+
+    const { error } = await supabase
+      .from('user_two_factor')
+      .upsert({
+        user_id: userId,
+        secret_encrypted: encryptSecret(secret, config.twoFactor.encryptionKey),
+        enabled: false,
+        enabled_at: null,
+        last_used_step: null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      logger.error('❌ Erreur enregistrement secret 2FA', { error: error.message, userId });
+      return null;
+    }
+
+    const issuer = config.twoFactor.issuer;
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS)
+    });
+
+    return { secret, otpauth_url: `otpauth://totp/${label}?${params.toString()}` };
+  } catch (err) {
+    logger.error('❌ Exception enrôlement 2FA', { error: (err as Error).message, userId });
+    return null;
+  }
+}
+
+/**
+ * Active la 2FA si le code correspond au secret en attente, et génère les codes de secours
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<EnrollmentConfirmation> {
+  try {
+    const record = await getTwoFactorRecord(userId);
+    if (!record || record.enabled) {
+      return { status: 'no_pending_enrollment' };
+    }
+
+    const step = matchTotpStep(decryptSecret(record.secret_encrypted, config.twoFactor.encryptionKey), code, null);
+    if (step === null) {
+      return { status: 'invalid_code' };
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('user_two_factor')
+      .update({ enabled: true, enabled_at: now, last_used_step: step, updated_at: now })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('❌ Erreur activation 2FA', { error: error.message, userId });
+      return { status: 'error' };
+    }
+
+    const backupCodes = await regenerateBackupCodes(userId);
+    if (!backupCodes) {
+      return { status: 'error' };
+    }
+
+    logger.info('🔐 2FA activée', { userId });
+    return { status: 'enabled', backupCodes };
+  } catch (err) {
+    logger.error('❌ Exception confirmation 2FA', { error: (err as Error).message, userId });
+    return { status: 'error' };
+  }
+}
+
+// 🆘 CODES DE SECOURS
+
+function generateBackupCode(): string {
+  const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Remplace les codes de secours ; les codes en clair ne sont retournés qu'une fois
+ */
+export async function regenerateBackupCodes(userId: string): Promise<string[] | null> {
+  const codes = Array.from({ length: BACKUP_CODES_COUNT }, generateBackupCode);
+  const rows = await Promise.all(codes.map(async code => ({
+    user_id: userId,
+    code_hash: await bcrypt.hash(normalizeBackupCode(code), 10)
+  })));
+
+  const { error: deleteError } = await supabase
+    .from('two_factor_backup_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    logger.error('❌ Erreur suppression codes de secours', { error: deleteError.message, userId });
+    return null;
+  }
+
+  const { error } = await supabase
+    .from('two_factor_backup_codes')
+    .insert(rows);
+
+  if (error) {
+    logger.error('❌ Erreur création codes de secours', { error: error.message, userId });
+    return null;
+  }
+
+  return codes;
+}
+
+async function consumeBackupCode(userId: string, code: string): Promise<boolean> {
+  const { data: codes, error } = await supabase
+    .from('two_factor_backup_codes')
+    .select('id, code_hash')
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (error || !codes) {
+    logger.error('❌ Erreur lecture codes de secours', { error: error?.message, userId });
+    return false;
+  }
+
+  const normalized = normalizeBackupCode(code);
+  for (const candidate of codes) {
+    if (await bcrypt.compare(normalized, candidate.code_hash)) {
+      const { data: consumed } = await supabase
+        .from('two_factor_backup_codes')
+        .update({ used_at: new Date().toISOString() })
+        .eq('id', candidate.id)
+        .is('used_at', null)
+        .select('id');
+
+      if (consumed && consumed.length > 0) {
+        logger.warn('🆘 Code de secours 2FA utilisé', { userId, remaining: codes.length - 1 });
+        return true;
+      }
+      return false;
+    }
+  }
+  return false;
+}
+
+// ✅ VÉRIFICATION
+
+/**
+ * Vérifie un code TOTP (6 chiffres) ou un code de secours pour un utilisateur ayant la 2FA active
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  try {
+    const record = await getTwoFactorRecord(userId);
+    if (!record?.enabled) {
+      return false;
+    }
+
+    if (!/^\d{6}$/.test(code)) {
+      return consumeBackupCode(userId, code);
+    }
+
+    const step = matchTotpStep(decryptSecret(record.secret_encrypted, config.twoFactor.encryptionKey), code, record.last_used_step);
+    if (step === null) {
+      return false;
+    }
+
+    // Mise à jour conditionnelle : un même code ne peut servir deux fois en parallèle
+    let update = supabase
+      .from('user_two_factor')
+      .update({ last_used_step: step, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+    update = record.last_used_step === null ? update.is('last_used_step', null) : update.eq('last_used_step', record.last_used_step);
+
+    const { data: updated, error } = await update.select('user_id');
+    if (error) {
+      logger.error('❌ Erreur mise à jour période TOTP', { error: error.message, userId });
+      return false;
+    }
+    return !!updated && updated.length > 0;
+  } catch (err) {
+    logger.error('❌ Exception vérification 2FA', { error: (err as Error).message, userId });
+    return false;
+  }
+}
+
+// 🗑️ DÉSACTIVATION
+
+/**
+ * Supprime le secret et les codes de secours (désactivation utilisateur ou réinitialisation admin)
+ */
+export async function removeTwoFactor(userId: string): Promise<boolean> {
+  const { error: codesError } = await supabase
+    .from('two_factor_backup_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  const { error } = await supabase
+    .from('user_two_factor')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error || codesError) {
+    logger.error('❌ Erreur suppression 2FA', { error: (error || codesError).message, userId });
+    return false;
+  }
+
+  logger.info('🔓 2FA supprimée', { userId });
+  return true;
+}
+
+// 🎫 JETONS DE CHALLENGE
+
+/**
+ * Clé dérivée : un jeton de challenge n'est jamais accepté comme access token
+ */
+function challengeSecret(): string {
+  return `${config.jwt.secret}:2fa-challenge`;
+}
+
+export function createChallengeToken(userId: string, purpose: ChallengePurpose): string {
+  const options: jwt.SignOptions = { expiresIn: config.twoFactor.challengeTtlSeconds };
+  return jwt.sign({ id: userId, purpose }, challengeSecret(), options);
+}
+
+/**
+ * Identifiant utilisateur du challenge, null s'il est invalide, expiré ou d'un autre usage
+ */
+export function verifyChallengeToken(token: string, purpose: ChallengePurpose): string | null {
+  try {
+    const payload = jwt.verify(token, challengeSecret()) as { id?: string; purpose?: string };
+    return payload.id && payload.purpose === purpose ? payload.id : null;
+  } catch {
+    return null;
+  }
+}
@@ -19,7 +19,7 @@ export interface CreateUserData {
   company_siren?: string;
   job_title?: string;
   selected_bot_ids: string[]; // IDs des bots sélectionnés
-  license_type?: 'trial' | 'standard' | 'premium';
+  license_type?: string; // code d'offre du catalogue (license_plans)
 }
 
 export interface CreatedUser {
@@ -2,12 +2,15 @@
 import 'dotenv/config';
 import path from 'path';
 
+// Fournisseur LLM : 'openai' (défaut) ou 'fake' (local déterministe, hors ligne)
+const llmProvider = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
 // Vérification des variables obligatoires
 const requiredEnvVars = [
   'SUPABASE_URL',
   'SUPABASE_SERVICE_ROLE_KEY', 
   'JWT_SECRET',
-  'OPENAI_API_KEY'
+  ...(llmProvider === 'openai' ? ['OPENAI_API_KEY'] : [])
 ];
 
 const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
@@ -60,6 +63,112 @@ const config = {
     timeout: parseInt(process.env.OPENAI_TIMEOUT || '30000', 10)
   },
 
+  // Fournisseur LLM (services/llm)
+  llm: {
+    provider: llmProvider,
+    chatModel: process.env.LLM_CHAT_MODEL || 'gpt-3.5-turbo'
+  },
+
+  // Runs d'assistant : délai maximal par défaut (surchargeable par bot, bots.run_timeout_seconds)
+  assistant: {
+    runTimeoutSeconds: parseInt(process.env.ASSISTANT_RUN_TIMEOUT || '60', 10)
+  },
+
+  // Outils serveur appelés par les assistants (services/tools)
+  tools: {
+    cbamEtsPricePerTonne: parseFloat(process.env.CBAM_ETS_PRICE || '80'),
+    sanctionsListPath: process.env.SANCTIONS_LIST_PATH || path.join(__dirname, '..', 'data', 'sanctions-list.json'),
+    sanctionsMatchThreshold: parseFloat(process.env.SANCTIONS_MATCH_THRESHOLD || '0.85')
+  },
+
+  // Registre des bots (services/botRegistry) : délai de rechargement depuis la table bots
+  bots: {
+    reloadIntervalSeconds: parseInt(process.env.BOTS_RELOAD_INTERVAL || '60', 10)
+  },
+
+  // Réinitialisation du mot de passe (services/passwordResetService)
+  passwordReset: {
+    tokenTtlMinutes: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL || '60', 10)
+  },
+
+  // Double authentification TOTP (services/twoFactorService)
+  twoFactor: {
+    requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES || 'admin,company_admin').split(',').map(role => role.trim()).filter(Boolean),
+    issuer: process.env.TWO_FACTOR_ISSUER || 'NAO&CO',
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || `${process.env.JWT_SECRET}:totp`,
+    challengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL || '300', 10)
+  },
+
+  // Verrouillage de compte après échecs de connexion (services/accountLockoutService)
+  lockout: {
+    maxAttempts: parseInt(process.env.LOCKOUT_MAX_ATTEMPTS || '10', 10),
+    attemptWindowMinutes: parseInt(process.env.LOCKOUT_ATTEMPT_WINDOW || '30', 10),
+    lockMinutes: parseInt(process.env.LOCKOUT_DURATION || '30', 10),
+    delayAfterAttempts: parseInt(process.env.LOCKOUT_DELAY_AFTER || '3', 10),
+    baseDelaySeconds: 2,
+    maxDelaySeconds: 60
+  },
+
+  // Invitations utilisateurs (services/invitationService) : lien signé à durée limitée
+  invitations: {
+    signingKey: process.env.INVITATION_SIGNING_KEY || `${process.env.JWT_SECRET}:invitation`,
+    ttlDays: parseInt(process.env.INVITATION_TTL_DAYS || '7', 10),
+    termsVersion: process.env.TERMS_VERSION || '2024-01'
+  },
+
+  // SSO OIDC par entreprise (services/ssoService)
+  sso: {
+    redirectUri: process.env.SSO_REDIRECT_URI || 'http://localhost:4002/auth/sso/callback',
+    frontendCallbackUrl: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/sso/callback`,
+    encryptionKey: process.env.SSO_ENCRYPTION_KEY || `${process.env.JWT_SECRET}:sso`,
+    stateTtlSeconds: parseInt(process.env.SSO_STATE_TTL || '600', 10),
+    loginCodeTtlSeconds: 60,
+    httpTimeoutMs: 10000
+  },
+
+  // Cycle de vie des licences (services/licenseLifecycleService) : préavis d'expiration en jours
+  licenses: {
+    expiryNoticeDays: (process.env.LICENSE_EXPIRY_NOTICE_DAYS || '30,7,1').split(',').map(days => parseInt(days, 10)).filter(days => days > 0)
+  },
+
+  // Tâches planifiées (utils/scheduler) : vérification périodique, verrou partagé entre instances
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    pollIntervalMinutes: parseInt(process.env.SCHEDULER_POLL_INTERVAL || '60', 10),
+    lockTtlSeconds: parseInt(process.env.SCHEDULER_LOCK_TTL || '900', 10)
+  },
+
+  // Budget mensuel de tokens par entreprise (services/tokenBudgetService)
+  tokenBudget: {
+    softLimitPercent: parseInt(process.env.TOKEN_BUDGET_SOFT_LIMIT_PERCENT || '80', 10),
+    exceededStatus: process.env.TOKEN_BUDGET_EXCEEDED_STATUS === '402' ? 402 : 429,
+    cacheTtlSeconds: parseInt(process.env.TOKEN_BUDGET_CACHE_TTL || '60', 10)
+  },
+
+  // Facturation à l'usage (services/invoiceService) : coût fournisseur en € HT par million de tokens
+  // et par bot (clé default pour les autres), revendu avec la marge ; INVOICE_PRICE_TABLE en JSON
+  invoicing: {
+    currency: 'EUR',
+    numberPrefix: process.env.INVOICE_NUMBER_PREFIX || 'NAO',
+    marginPercent: parseFloat(process.env.INVOICE_MARGIN_PERCENT || '30'),
+    vatPercent: parseFloat(process.env.INVOICE_VAT_PERCENT || '20'),
+    priceTable: JSON.parse(
+      process.env.INVOICE_PRICE_TABLE || '{"default":{"input_per_1m":2.3,"output_per_1m":9.2}}'
+    ) as Record<string, { input_per_1m: number; output_per_1m: number }>,
+    issuer: {
+      name: process.env.INVOICE_ISSUER_NAME || 'NAO&CO',
+      address: process.env.INVOICE_ISSUER_ADDRESS || '',
+      vatNumber: process.env.INVOICE_ISSUER_VAT_NUMBER || ''
+    }
+  },
+
+  // Documents joints aux questions (services/documentService)
+  uploads: {
+    maxFileBytes: parseInt(process.env.UPLOAD_MAX_FILE_BYTES || String(10 * 1024 * 1024), 10),
+    companyStorageQuotaBytes: parseInt(process.env.UPLOAD_COMPANY_QUOTA_BYTES || String(200 * 1024 * 1024), 10),
+    maxFilesPerQuestion: 5
+  },
+
   // Logging
   logging: {
     level: process.env.LOG_LEVEL || (isProd ? 'info' : 'debug'),
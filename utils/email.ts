@@ -1,39 +1,175 @@
-import { Resend } from "resend"
 import dotenv from "dotenv"
 dotenv.config()
 
-const resend = new Resend(process.env.RESEND_API_KEY!)
+// Client Resend chargé au premier envoi : sans le paquet, seul l'envoi échoue, pas le démarrage du serveur
+let resend: any = null
 
-export async function sendWelcomeEmail(to: string, tempPassword: string) {
+function getResend() {
+  if (!resend) {
+    const { Resend } = require("resend")
+    resend = new Resend(process.env.RESEND_API_KEY!)
+  }
+  return resend
+}
+
+// Valeurs saisies par les utilisateurs (nom d'entreprise, nom de l'invitant...) insérées dans le HTML
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export interface InvitationEmailDetails {
+  companyName: string | null
+  invitedBy: string | null
+  expiresAt: string
+}
+
+export async function sendInvitationEmail(to: string, invitationToken: string, details: InvitationEmailDetails) {
   const appUrl = process.env.FRONTEND_URL || "http://localhost:5173"
+  const invitationUrl = `${appUrl}/invitation?token=${encodeURIComponent(invitationToken)}`
+  const expiry = new Date(details.expiresAt).toLocaleString('fr-FR', { timeZone: 'Europe/Paris' })
 
-  const subject = "🔐 Vos identifiants NAO&CO"
+  const subject = "✉️ Votre invitation à rejoindre NAO&CO"
   const html = `
     <div style="font-family: sans-serif; font-size: 16px; line-height: 1.6;">
       <h2>Bienvenue chez NAO&CO !</h2>
-      <p>Votre compte utilisateur a été créé avec succès.</p>
-      <p><strong>Email :</strong> ${to}</p>
-      <p><strong>Mot de passe temporaire :</strong> ${tempPassword}</p>
-      <p>Veuillez vous connecter à l'adresse suivante :</p>
+      <p>${details.invitedBy ? `<strong>${escapeHtml(details.invitedBy)}</strong> vous invite` : 'Vous êtes invité(e)'} à rejoindre NAO&CO${details.companyName ? ` pour le compte de <strong>${escapeHtml(details.companyName)}</strong>` : ''}.</p>
+      <p><strong>Email :</strong> ${escapeHtml(to)}</p>
+      <p>Pour activer votre compte, choisissez votre mot de passe et acceptez les conditions d'utilisation :</p>
+      <a href="${invitationUrl}" style="color: #2563eb;">Activer mon compte</a>
+      <p>Ce lien est valable jusqu'au <strong>${expiry}</strong> et ne peut être utilisé qu'une seule fois.</p>
+      <p style="color: #666; font-size: 14px;">Si vous n'attendiez pas cette invitation, ignorez cet email : aucun compte ne sera créé.</p>
+      <br />
+      <p>À bientôt !</p>
+    </div>
+  `
+
+  try {
+    const result = await getResend().emails.send({
+      from: process.env.EMAIL_FROM!,
+      to,
+      subject,
+      html
+    })
+
+    console.log("📨 Email d'invitation envoyé:", JSON.stringify(result, null, 2))
+    return result
+  } catch (err) {
+    console.error("❌ Erreur envoi email d'invitation:", JSON.stringify(err, null, 2))
+    throw err
+  }
+}
+
+export async function sendPasswordResetEmail(to: string, resetToken: string, expiresInMinutes: number) {
+  const appUrl = process.env.FRONTEND_URL || "http://localhost:5173"
+  const resetUrl = `${appUrl}/reset-password?token=${encodeURIComponent(resetToken)}`
+
+  const subject = "🔑 Réinitialisation de votre mot de passe NAO&CO"
+  const html = `
+    <div style="font-family: sans-serif; font-size: 16px; line-height: 1.6;">
+      <h2>Réinitialisation de votre mot de passe</h2>
+      <p>Une demande de réinitialisation du mot de passe a été effectuée pour le compte <strong>${to}</strong>.</p>
+      <p>Pour choisir un nouveau mot de passe, cliquez sur le lien suivant :</p>
+      <a href="${resetUrl}" style="color: #2563eb;">Réinitialiser mon mot de passe</a>
+      <p>Ce lien est valable ${expiresInMinutes} minutes et ne peut être utilisé qu'une seule fois.</p>
+      <p>Après la réinitialisation, toutes vos sessions ouvertes seront déconnectées.</p>
+      <p style="color: #666; font-size: 14px;">Si vous n'êtes pas à l'origine de cette demande, ignorez cet email : votre mot de passe reste inchangé.</p>
+      <br />
+      <p>À bientôt !</p>
+    </div>
+  `
+
+  try {
+    const result = await getResend().emails.send({
+      from: process.env.EMAIL_FROM!,
+      to,
+      subject,
+      html
+    })
+
+    console.log("📨 Email de réinitialisation envoyé:", JSON.stringify(result, null, 2))
+    return result
+  } catch (err) {
+    console.error("❌ Erreur envoi email de réinitialisation:", JSON.stringify(err, null, 2))
+    throw err
+  }
+}
+
+export async function sendAccountLockedEmail(to: string, lockedUntil: string) {
+  const appUrl = process.env.FRONTEND_URL || "http://localhost:5173"
+  const unlockTime = new Date(lockedUntil).toLocaleString('fr-FR', { timeZone: 'Europe/Paris' })
+
+  const subject = "🔒 Votre compte NAO&CO a été temporairement verrouillé"
+  const html = `
+    <div style="font-family: sans-serif; font-size: 16px; line-height: 1.6;">
+      <h2>Compte temporairement verrouillé</h2>
+      <p>Plusieurs tentatives de connexion infructueuses ont été détectées sur le compte <strong>${to}</strong>.</p>
+      <p>Par sécurité, la connexion est bloquée jusqu'au <strong>${unlockTime}</strong>.</p>
+      <p>Si vous êtes à l'origine de ces tentatives, vous pouvez réinitialiser votre mot de passe depuis la page de connexion :</p>
+      <a href="${appUrl}" style="color: #2563eb;">${appUrl}</a>
+      <p style="color: #666; font-size: 14px;">Si vous n'êtes pas à l'origine de ces tentatives, contactez votre administrateur : quelqu'un essaie peut-être d'accéder à votre compte.</p>
+      <br />
+      <p>À bientôt !</p>
+    </div>
+  `
+
+  try {
+    const result = await getResend().emails.send({
+      from: process.env.EMAIL_FROM!,
+      to,
+      subject,
+      html
+    })
+
+    console.log("📨 Email de verrouillage envoyé:", JSON.stringify(result, null, 2))
+    return result
+  } catch (err) {
+    console.error("❌ Erreur envoi email de verrouillage:", JSON.stringify(err, null, 2))
+    throw err
+  }
+}
+
+export interface LicenseExpiryNoticeDetails {
+  companyName: string | null
+  botName: string
+  endDate: string
+  daysLeft: number
+}
+
+export async function sendLicenseExpiryNoticeEmail(to: string, details: LicenseExpiryNoticeDetails) {
+  const appUrl = process.env.FRONTEND_URL || "http://localhost:5173"
+  const endDate = new Date(details.endDate).toLocaleDateString('fr-FR', { timeZone: 'Europe/Paris' })
+  const delay = details.daysLeft <= 1 ? "demain" : `dans ${details.daysLeft} jours`
+
+  const subject = `⏳ Votre licence NAO&CO ${details.botName} expire ${delay}`
+  const html = `
+    <div style="font-family: sans-serif; font-size: 16px; line-height: 1.6;">
+      <h2>Expiration prochaine de votre licence</h2>
+      <p>La licence <strong>${escapeHtml(details.botName)}</strong>${details.companyName ? ` de <strong>${escapeHtml(details.companyName)}</strong>` : ''} expire le <strong>${endDate}</strong>.</p>
+      <p>Sans renouvellement, les utilisateurs de votre entreprise n'auront plus accès à cet assistant à cette date.</p>
+      <p>Pour renouveler votre licence, contactez votre interlocuteur NAO&CO ou rendez-vous sur votre espace :</p>
       <a href="${appUrl}" style="color: #2563eb;">${appUrl}</a>
-      <p>Lors de votre première connexion, vous devrez changer votre mot de passe.</p>
       <br />
       <p>À bientôt !</p>
     </div>
   `
 
   try {
-    const result = await resend.emails.send({
+    const result = await getResend().emails.send({
       from: process.env.EMAIL_FROM!,
       to,
       subject,
       html
     })
 
-    console.log("📨 Résultat envoi email Resend:", JSON.stringify(result, null, 2))
+    console.log("📨 Email d'expiration de licence envoyé:", JSON.stringify(result, null, 2))
     return result
   } catch (err) {
-    console.error("❌ Erreur lors de l'envoi avec Resend:", JSON.stringify(err, null, 2))
+    console.error("❌ Erreur envoi email d'expiration de licence:", JSON.stringify(err, null, 2))
     throw err
   }
 }
@@ -82,7 +218,7 @@ ${message}
   `;
 
   try {
-    const result = await resend.emails.send({
+    const result = await getResend().emails.send({
       from: process.env.EMAIL_FROM!,
       to: process.env.EMAIL_FROM!, // Reçu sur contact@naoandco.com
       replyTo: email, // Répondre à l'utilisateur
@@ -0,0 +1,24 @@
+// utils/encryption.ts
+// 🔒 Chiffrement des secrets stockés en base (AES-256-GCM, clé dérivée par SHA-256)
+import crypto from 'crypto';
+
+function deriveKey(keyMaterial: string): Buffer {
+  return crypto.createHash('sha256').update(keyMaterial).digest();
+}
+
+/**
+ * Format stocké : iv.tag.données (base64)
+ */
+export function encryptSecret(secret: string, keyMaterial: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(payload: string, keyMaterial: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
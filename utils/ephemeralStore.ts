@@ -0,0 +1,90 @@
+// utils/ephemeralStore.ts
+// 🗄️ Valeurs temporaires (avec TTL) : Redis si disponible, mémoire locale sinon (mono-instance)
+import redis from './redisClient';
+import logger from './logger';
+
+export class EphemeralStore {
+  private memory = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private prefix: string) {}
+
+  async get(key: string): Promise<string | null> {
+    if (redis) {
+      try {
+        return await redis.get(`${this.prefix}${key}`);
+      } catch (error) {
+        logger.error(`❌ Redis get error (${this.prefix})`, { error: (error as Error).message });
+      }
+    }
+    const entry = this.memory.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (redis) {
+      try {
+        await redis.set(`${this.prefix}${key}`, value, 'EX', ttlSeconds);
+        return;
+      } catch (error) {
+        logger.error(`❌ Redis set error (${this.prefix})`, { error: (error as Error).message });
+      }
+    }
+    this.memory.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    if (redis) {
+      try {
+        await redis.del(...keys.map(key => `${this.prefix}${key}`));
+      } catch (error) {
+        logger.error(`❌ Redis del error (${this.prefix})`, { error: (error as Error).message });
+      }
+    }
+    keys.forEach(key => this.memory.delete(key));
+  }
+
+  /**
+   * Incrément atomique d'un compteur (créé à 1) ; le TTL repart à chaque incrément
+   */
+  async incr(key: string, ttlSeconds: number): Promise<number> {
+    if (redis) {
+      try {
+        const results = await redis.multi()
+          .incr(`${this.prefix}${key}`)
+          .expire(`${this.prefix}${key}`, ttlSeconds)
+          .exec();
+        const [error, value] = results![0];
+        if (error) throw error;
+        return value as number;
+      } catch (error) {
+        logger.error(`❌ Redis incr error (${this.prefix})`, { error: (error as Error).message });
+      }
+    }
+    // Lecture + écriture synchrones : pas d'entrelacement possible dans le processus
+    const entry = this.memory.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? parseInt(entry.value, 10) || 0 : 0;
+    this.memory.set(key, { value: String(current + 1), expiresAt: Date.now() + ttlSeconds * 1000 });
+    return current + 1;
+  }
+
+  /**
+   * Lecture et suppression (valeurs à usage unique)
+   */
+  async take(key: string): Promise<string | null> {
+    if (redis) {
+      try {
+        return await redis.getdel(`${this.prefix}${key}`);
+      } catch (error) {
+        logger.error(`❌ Redis getdel error (${this.prefix})`, { error: (error as Error).message });
+      }
+    }
+    const value = await this.get(key);
+    this.memory.delete(key);
+    return value;
+  }
+}
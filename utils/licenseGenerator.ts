@@ -1,6 +1,7 @@
  
 // auth-backend/utils/licenseGenerator.ts
 import { v4 as uuidv4 } from 'uuid';
+import type { LicensePlan } from '../services/planService';
 
 /**
  * 🎫 Générateur de licences avec séquences et algorithmes
@@ -9,7 +10,8 @@ import { v4 as uuidv4 } from 'uuid';
 export interface LicenseConfig {
   companyId: string;
   botId: string;
-  licenseType?: 'trial' | 'standard' | 'premium';
+  licenseType?: string; // code de l'offre (license_plans.code)
+  planId?: string;
   maxRequests?: number;
   validityMonths?: number;
 }
@@ -21,6 +23,7 @@ export interface GeneratedLicense {
   bot_id: string;
   status: 'active';
   license_type: string;
+  plan_id: string | null;
   max_requests_per_month: number;
   start_date: string;
   end_date: string;
@@ -43,27 +46,20 @@ export function generateReadableLicenseId(companyId: string, botId: string): str
 }
 
 /**
- * 🎫 Créer une configuration de licence par défaut
+ * 🎫 Configuration de licence aux conditions d'une version d'offre du catalogue
  */
-export function createDefaultLicenseConfig(
+export function createLicenseConfigFromPlan(
   companyId: string, 
   botId: string, 
-  licenseType: 'trial' | 'standard' | 'premium' = 'standard'
+  plan: LicensePlan
 ): LicenseConfig {
-  const configs = {
-    trial: { maxRequests: 100, validityMonths: 1 },
-    standard: { maxRequests: 500, validityMonths: 12 },
-    premium: { maxRequests: 2000, validityMonths: 12 }
-  };
-  
-  const config = configs[licenseType];
-  
   return {
     companyId,
     botId,
-    licenseType,
-    maxRequests: config.maxRequests,
-    validityMonths: config.validityMonths
+    licenseType: plan.code,
+    planId: plan.id,
+    maxRequests: plan.max_requests_per_month,
+    validityMonths: plan.validity_months
   };
 }
 
@@ -85,6 +81,7 @@ export function generateLicense(config: LicenseConfig): GeneratedLicense {
     bot_id: config.botId,
     status: 'active',
     license_type: config.licenseType || 'standard',
+    plan_id: config.planId || null,
     max_requests_per_month: config.maxRequests || 500,
     start_date: startDate.toISOString(),
     end_date: endDate.toISOString(),
@@ -127,26 +124,3 @@ export function calculateLicenseUsage(
     isNearLimit
   };
 }
-
-/**
- * 🎯 Exemples d'utilisation
- */
-export const examples = {
-  // Créer une licence standard pour une entreprise
-  createStandardLicense: (companyId: string, botId: string) => {
-    const config = createDefaultLicenseConfig(companyId, botId, 'standard');
-    return generateLicense(config);
-  },
-  
-  // Créer une licence trial
-  createTrialLicense: (companyId: string, botId: string) => {
-    const config = createDefaultLicenseConfig(companyId, botId, 'trial');
-    return generateLicense(config);
-  },
-  
-  // Créer une licence premium
-  createPremiumLicense: (companyId: string, botId: string) => {
-    const config = createDefaultLicenseConfig(companyId, botId, 'premium');
-    return generateLicense(config);
-  }
-};
\ No newline at end of file
@@ -1,55 +1,227 @@
 // utils/scheduler.ts
+// ⏰ Tâches planifiées : vérification périodique, verrou partagé entre instances (Redis, sinon table scheduler_locks)
+// et historique des exécutions dans scheduled_job_runs. Chaque tâche doit être idempotente.
+import crypto from 'crypto';
+import os from 'os';
 import { supabase } from './supabase';
 import logger from './logger';
+import config from './config';
+import redis from './redisClient';
+import { resetDueLicenseQuotas } from '../services/quotaResetService';
+import { runLicenseLifecycle } from '../services/licenseLifecycleService';
 
-export const resetMonthlyQuotas = async (): Promise<void> => {
-  logger.info('🔄 Début du reset mensuel des quotas...');
+export const JOB_NAMES = ['quota_reset', 'license_lifecycle'] as const;
 
+export type JobName = typeof JOB_NAMES[number];
+export type JobTrigger = 'schedule' | 'manual';
+export type JobRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+export interface JobRun {
+  id: string;
+  job_name: JobName;
+  trigger: JobTrigger;
+  triggered_by: string | null;
+  instance_id: string;
+  status: JobRunStatus;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface JobOutcome {
+  result: Record<string, unknown>;
+  partial: boolean;
+}
+
+const JOBS: Record<JobName, (runId: string) => Promise<JobOutcome>> = {
+  // 🔄 Remise à zéro des quotas à la date anniversaire de chaque licence
+  quota_reset: async (runId) => {
+    const summary = await resetDueLicenseQuotas(new Date(), runId);
+    return { result: { ...summary }, partial: summary.failed.length > 0 };
+  },
+  // ⌛ Expiration des licences échues et préavis d'expiration
+  license_lifecycle: async () => {
+    const summary = await runLicenseLifecycle(new Date());
+    return { result: { ...summary }, partial: summary.failed.length > 0 };
+  }
+};
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const LOCK_PREFIX = 'scheduler:lock:';
+const UNIQUE_VIOLATION = '23505';
+
+// 🔒 VERROU
+
+/**
+ * Prend le verrou d'une tâche (expiration automatique si l'instance meurt) ; null si déjà pris
+ */
+async function acquireLock(jobName: JobName): Promise<string | null> {
+  const token = crypto.randomUUID();
+  const ttlSeconds = config.scheduler.lockTtlSeconds;
+
+  if (redis) {
+    try {
+      const acquired = await redis.set(`${LOCK_PREFIX}${jobName}`, token, 'EX', ttlSeconds, 'NX');
+      return acquired === 'OK' ? token : null;
+    } catch (error) {
+      logger.warn('⚠️ Redis verrou tâche indisponible, repli sur la base', { jobName, error: (error as Error).message });
+    }
+  }
+
+  const now = new Date();
+  await supabase
+    .from('scheduler_locks')
+    .delete()
+    .eq('job_name', jobName)
+    .lt('locked_until', now.toISOString());
+
+  const { error } = await supabase
+    .from('scheduler_locks')
+    .insert({
+      job_name: jobName,
+      token,
+      locked_by: INSTANCE_ID,
+      locked_until: new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+    });
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    throw new Error(`Verrou tâche impossible: ${error.message}`);
+  }
+  return token;
+}
+
+async function releaseLock(jobName: JobName, token: string): Promise<void> {
   try {
-    const { count: totalUsers, error: countError } = await supabase
-      .from('user_licenses')
-      .select('id', { count: 'exact' })
-      .gt('requests_used', 0);
+    if (redis) {
+      // Suppression uniquement si le verrou nous appartient encore
+      await redis.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        `${LOCK_PREFIX}${jobName}`,
+        token
+      );
+    }
+    await supabase
+      .from('scheduler_locks')
+      .delete()
+      .eq('job_name', jobName)
+      .eq('token', token);
+  } catch (error) {
+    logger.warn('⚠️ Libération verrou tâche impossible', { jobName, error: (error as Error).message });
+  }
+}
 
-    if (countError) {
-      logger.error('❌ Échec lors du comptage des utilisateurs :', countError);
-      return;
+// ▶️ EXÉCUTION
+
+/**
+ * Exécute une tâche sous verrou et trace l'exécution ; null si une autre exécution est en cours
+ */
+export async function runJob(jobName: JobName, trigger: JobTrigger = 'schedule', triggeredBy: string | null = null): Promise<JobRun | null> {
+  const token = await acquireLock(jobName);
+  if (!token) {
+    logger.info('⏭️ Tâche déjà en cours sur une autre instance', { jobName, trigger });
+    return null;
+  }
+
+  try {
+    const { data: run, error } = await supabase
+      .from('scheduled_job_runs')
+      .insert({
+        job_name: jobName,
+        trigger,
+        triggered_by: triggeredBy,
+        instance_id: INSTANCE_ID,
+        status: 'running',
+        started_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Création exécution impossible: ${error.message}`);
+    }
+
+    let update: Partial<JobRun>;
+    try {
+      const outcome = await JOBS[jobName](run.id);
+      update = { status: outcome.partial ? 'partial' : 'success', result: outcome.result };
+    } catch (err) {
+      logger.error('❌ Échec tâche planifiée', { jobName, runId: run.id, error: (err as Error).message });
+      update = { status: 'failed', error: (err as Error).message };
+    }
+
+    const { data: finished, error: finishError } = await supabase
+      .from('scheduled_job_runs')
+      .update({ ...update, finished_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (finishError) {
+      logger.error('❌ Mise à jour exécution impossible', { jobName, runId: run.id, error: finishError.message });
     }
 
-    logger.info(`👥 Utilisateurs à réinitialiser : ${totalUsers}`);
+    logger.info('⏰ Tâche planifiée terminée', { jobName, runId: run.id, status: update.status, result: update.result });
+    return finished || { ...run, ...update };
 
-    const { error: resetError } = await supabase
-      .from('user_licenses')
-      .update({ requests_used: 0 })
-      .gt('requests_used', 0);
+  } finally {
+    await releaseLock(jobName, token);
+  }
+}
 
-    if (resetError) {
-      logger.error('❌ Échec lors de la réinitialisation des quotas :', resetError);
-      return;
+/**
+ * Historique des exécutions (plus récentes d'abord)
+ */
+export async function listJobRuns(jobName?: JobName, limit: number = 50): Promise<JobRun[]> {
+  try {
+    let query = supabase
+      .from('scheduled_job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (jobName) {
+      query = query.eq('job_name', jobName);
     }
 
-    logger.info('✅ Réinitialisation des quotas terminée avec succès.');
+    const { data, error } = await query;
+    if (error) {
+      logger.error('❌ Erreur historique tâches', { jobName, error: error.message });
+      return [];
+    }
+    return data || [];
   } catch (err) {
-    logger.error('🔥 Exception inattendue durant le reset des quotas :', err);
+    logger.error('❌ Exception historique tâches', { jobName, error: (err as Error).message });
+    return [];
+  }
+}
+
+// 🕒 PLANIFICATION
+
+/**
+ * Vérifie les tâches au démarrage puis à intervalle régulier (les redéploiements ne décalent rien :
+ * les échéances sont calculées depuis les données, pas depuis le lancement du processus)
+ */
+export const startScheduler = (): void => {
+  if (!config.scheduler.enabled) {
+    logger.info('⏸️ Tâches planifiées désactivées (SCHEDULER_ENABLED=false)');
+    return;
   }
-};
 
-export const scheduleMonthlyReset = () => {
-  const MAX_TIMEOUT = 2147483647;
-  const fullDelay = 30 * 24 * 60 * 60 * 1000;
-
-  const planifier = () => {
-    if (fullDelay > MAX_TIMEOUT) {
-      setTimeout(() => {
-        planifier();
-      }, MAX_TIMEOUT);
-    } else {
-      setTimeout(async () => {
-        await resetMonthlyQuotas();
-        planifier();
-      }, fullDelay);
+  const tick = async () => {
+    for (const jobName of JOB_NAMES) {
+      try {
+        await runJob(jobName);
+      } catch (err) {
+        logger.error('🔥 Exception tâche planifiée', { jobName, error: (err as Error).message });
+      }
     }
   };
 
-  planifier();
+  setTimeout(tick, 30 * 1000).unref();
+  setInterval(tick, config.scheduler.pollIntervalMinutes * 60 * 1000).unref();
 };